@@ -0,0 +1,62 @@
+import mongoose from 'mongoose';
+
+// holiday / vacation: no classes; exam-week: working day without regular teaching;
+// working-day: per-batch exception that re-opens a day closed college-wide (e.g. a make-up day)
+export const CALENDAR_EVENT_TYPES = ['holiday', 'vacation', 'exam-week', 'working-day'];
+export const NON_WORKING_TYPES = ['holiday', 'vacation'];
+
+const academicCalendarSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Event name is required'],
+    trim: true
+  },
+  type: {
+    type: String,
+    enum: CALENDAR_EVENT_TYPES,
+    required: [true, 'Event type is required']
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Start date is required']
+  },
+  endDate: {
+    type: Date,
+    required: [true, 'End date is required']
+  },
+  // null = applies to the whole college; otherwise only to this batch
+  batch: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Batch',
+    default: null
+  },
+  notes: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Normalize the range to whole days and reject reversed ranges
+academicCalendarSchema.pre('validate', function(next) {
+  if (this.startDate) this.startDate.setHours(0, 0, 0, 0);
+  if (this.endDate) this.endDate.setHours(0, 0, 0, 0);
+  if (this.startDate && this.endDate && this.endDate < this.startDate) {
+    return next(new Error('End date must be on or after start date'));
+  }
+  if (this.type === 'working-day' && !this.batch) {
+    return next(new Error('A working day exception must be for a specific batch'));
+  }
+  next();
+});
+
+academicCalendarSchema.index({ startDate: 1, endDate: 1 });
+
+export default mongoose.model('AcademicCalendar', academicCalendarSchema);
@@ -3,7 +3,7 @@ import mongoose from 'mongoose';
 const approvalSchema = new mongoose.Schema({
   type: {
     type: String,
-    enum: ['unit-complete', 'time-slot', 'subject-assign', 'unit-start', 'break-timing'],
+    enum: ['unit-complete', 'time-slot', 'subject-assign', 'unit-start', 'break-timing', 'leave'],
     required: true
   },
   status: {
@@ -32,6 +32,18 @@ const approvalSchema = new mongoose.Schema({
     type: mongoose.Schema.Types.Mixed,
     default: null
   },
+  // Auto-approval rule that decided this request on submission (null = no rule matched)
+  policy: {
+    type: new mongoose.Schema({
+      rule: { type: mongoose.Schema.Types.ObjectId, ref: 'AutoApprovalRule' },
+      name: { type: String },
+      action: { type: String, enum: ['approve', 'review'] },
+      // Facts the rule was matched against, e.g. { inSchedule, sameDay, afterSlotEnd }
+      context: { type: mongoose.Schema.Types.Mixed, default: null },
+      evaluatedAt: { type: Date }
+    }, { _id: false }),
+    default: null
+  },
   // Rejection reason
   rejectionReason: {
     type: String,
@@ -0,0 +1,52 @@
+import mongoose from 'mongoose';
+
+// Facts about a time-slot selection that a rule can require (all required conditions must hold)
+export const TIME_SLOT_CONDITIONS = ['inSchedule', 'sameDay', 'afterSlotEnd'];
+export const RULE_ACTIONS = ['approve', 'review'];
+
+const autoApprovalRuleSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Rule name is required'],
+    trim: true
+  },
+  // Approval type the rule is evaluated for
+  appliesTo: {
+    type: String,
+    enum: ['time-slot'],
+    default: 'time-slot'
+  },
+  // approve: the request is approved on submission; review: it waits for a verifier
+  action: {
+    type: String,
+    enum: RULE_ACTIONS,
+    required: [true, 'Rule action is required']
+  },
+  // true = the request must satisfy this condition; false = not checked.
+  // A rule with no required conditions matches every request (useful as a catch-all).
+  conditions: {
+    inSchedule: { type: Boolean, default: false },
+    sameDay: { type: Boolean, default: false },
+    afterSlotEnd: { type: Boolean, default: false }
+  },
+  // Rules are evaluated in ascending priority; the first match decides
+  priority: {
+    type: Number,
+    default: 100
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+autoApprovalRuleSchema.index({ appliesTo: 1, enabled: 1, priority: 1 });
+
+export default mongoose.model('AutoApprovalRule', autoApprovalRuleSchema);
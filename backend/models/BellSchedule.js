@@ -0,0 +1,116 @@
+import mongoose from 'mongoose';
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+const toMinutes = (value) => {
+  const [h, m] = String(value).split(':').map(Number);
+  return h * 60 + m;
+};
+
+// Hourly periods keep the legacy '9-10' id; anything else becomes e.g. '7:45-8:35'
+const formatSlotPart = (minutes) => {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return m === 0 ? `${h}` : `${h}:${String(m).padStart(2, '0')}`;
+};
+
+const formatLabelPart = (minutes) => {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `${h}:${String(m).padStart(2, '0')}`;
+};
+
+const periodSchema = new mongoose.Schema({
+  // Display name such as "Period 1" (optional)
+  name: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  startTime: {
+    type: String,
+    required: [true, 'Period start time is required'],
+    match: [TIME_PATTERN, 'Start time must be HH:MM']
+  },
+  endTime: {
+    type: String,
+    required: [true, 'Period end time is required'],
+    match: [TIME_PATTERN, 'End time must be HH:MM']
+  },
+  // Derived from start/end in the pre-validate hook
+  slotId: {
+    type: String
+  },
+  label: {
+    type: String
+  },
+  duration: {
+    type: Number // in minutes
+  }
+}, { _id: false });
+
+const bellScheduleSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Schedule name is required'],
+    trim: true
+  },
+  // Days this schedule applies to (0 = Sunday ... 6 = Saturday)
+  weekdays: {
+    type: [Number],
+    default: [1, 2, 3, 4, 5, 6]
+  },
+  // Per-batch override; schedules without a batch are the college-wide default
+  batch: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Batch',
+    default: null
+  },
+  periods: [periodSchema],
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Derive slot ids, labels and durations, keep periods in time order
+bellScheduleSchema.pre('validate', function(next) {
+  if (!Array.isArray(this.weekdays) || this.weekdays.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+    return next(new Error('Weekdays must be numbers between 0 (Sunday) and 6 (Saturday)'));
+  }
+  if (!this.periods || this.periods.length === 0) {
+    return next(new Error('A bell schedule needs at least one period'));
+  }
+
+  for (const period of this.periods) {
+    if (!TIME_PATTERN.test(period.startTime || '') || !TIME_PATTERN.test(period.endTime || '')) {
+      continue; // Field validators report the format error
+    }
+    const start = toMinutes(period.startTime);
+    const end = toMinutes(period.endTime);
+    if (end <= start) {
+      return next(new Error(`Period ${period.startTime} - ${period.endTime} must end after it starts`));
+    }
+    period.slotId = `${formatSlotPart(start)}-${formatSlotPart(end)}`;
+    period.label = `${formatLabelPart(start)} - ${formatLabelPart(end)}`;
+    period.duration = end - start;
+  }
+
+  this.periods.sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime));
+  for (let i = 1; i < this.periods.length; i++) {
+    if (toMinutes(this.periods[i].startTime) < toMinutes(this.periods[i - 1].endTime)) {
+      return next(new Error(`Periods ${this.periods[i - 1].label} and ${this.periods[i].label} overlap`));
+    }
+  }
+  next();
+});
+
+bellScheduleSchema.index({ batch: 1, isActive: 1 });
+
+export default mongoose.model('BellSchedule', bellScheduleSchema);
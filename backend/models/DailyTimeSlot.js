@@ -1,5 +1,15 @@
 import mongoose from 'mongoose';
 
+// What the teacher actually taught in a checked slot (names kept so reports survive renames)
+const taughtSchema = new mongoose.Schema({
+  subject: { type: mongoose.Schema.Types.ObjectId, ref: 'Subject', default: null },
+  subjectName: { type: String, default: '' },
+  batch: { type: String, default: '' },
+  unit: { type: mongoose.Schema.Types.ObjectId, ref: 'Unit', default: null },
+  unitName: { type: String, default: '' },
+  topic: { type: String, default: '', trim: true, maxlength: 200 }
+}, { _id: false });
+
 const dailyTimeSlotSchema = new mongoose.Schema({
   teacher: {
     type: mongoose.Schema.Types.ObjectId,
@@ -32,9 +42,15 @@ const dailyTimeSlotSchema = new mongoose.Schema({
     checkedAt: {
       type: Date
     },
+    // Set while the day's pay period is closed
     locked: {
       type: Boolean,
       default: false
+    },
+    // Set from the approved time-slot request; cleared when the slot is deselected
+    taught: {
+      type: taughtSchema,
+      default: null
     }
   }],
   breakDuration: {
@@ -48,6 +64,11 @@ const dailyTimeSlotSchema = new mongoose.Schema({
   breakCheckedAt: {
     type: Date
   },
+  // Set with the slots' locked flags when the day's pay period is closed
+  breakLocked: {
+    type: Boolean,
+    default: false
+  },
   totalHours: {
     type: Number,
     default: 0
@@ -61,8 +82,29 @@ const dailyTimeSlotSchema = new mongoose.Schema({
   scheduleEntries: [{
     subjectName: { type: String, default: '' },
     batch: { type: String, default: '' },
-    slotIds: { type: [String], default: [] }
-  }]
+    slotIds: { type: [String], default: [] },
+    // Set when the entry was generated from a weekly timetable template
+    timetable: { type: mongoose.Schema.Types.ObjectId, ref: 'WeeklyTimetable', default: null },
+    // The teacher is on approved leave during this class; someone else has to take it
+    needsCover: { type: Boolean, default: false },
+    // On the absent teacher's day: the substitute who took this class
+    coveredBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+    // On the substitute's day: the teacher this class is covered for, and their entry
+    coverFor: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+    coverEntry: { type: mongoose.Schema.Types.ObjectId, default: null }
+  }],
+  // Approved leave for this day (set when a 'leave' approval is approved)
+  leave: {
+    type: new mongoose.Schema({
+      duration: { type: String, enum: ['full', 'half'], required: true },
+      session: { type: String, enum: ['first-half', 'second-half', null], default: null },
+      // Periods the leave covers (all of the day's periods for a full day)
+      slotIds: { type: [String], default: [] },
+      reason: { type: String, default: '' },
+      approval: { type: mongoose.Schema.Types.ObjectId, ref: 'Approval' }
+    }, { _id: false }),
+    default: null
+  }
 }, {
   timestamps: true
 });
@@ -0,0 +1,49 @@
+import mongoose from 'mongoose';
+
+export const EXAM_TYPES = ['internal', 'model', 'final'];
+
+// Upcoming exams within this many days with unfinished portion units are reported as at risk
+export const DEFAULT_AT_RISK_DAYS = 30;
+
+const examSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Exam name is required'],
+    trim: true
+  },
+  type: {
+    type: String,
+    enum: EXAM_TYPES,
+    required: true,
+    default: 'internal'
+  },
+  batch: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Batch',
+    required: [true, 'Batch is required']
+  },
+  subjects: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Subject'
+  }],
+  examDate: {
+    type: Date,
+    required: [true, 'Exam date is required']
+  },
+  // Units the exam covers (from the exam's subjects)
+  portion: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Unit'
+  }],
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+examSchema.index({ batch: 1, examDate: 1 });
+
+export default mongoose.model('Exam', examSchema);
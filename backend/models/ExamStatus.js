@@ -1,5 +1,13 @@
 import mongoose from 'mongoose';
 
+// One entry per change of a unit's exam status (kept so a reopened unit still shows who closed it)
+const examStatusChangeSchema = new mongoose.Schema({
+  isFinished: { type: Boolean, required: true },
+  changedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  changedAt: { type: Date, default: Date.now },
+  note: { type: String, default: '' }
+}, { _id: false });
+
 const examStatusSchema = new mongoose.Schema({
   unit: {
     type: mongoose.Schema.Types.ObjectId,
@@ -7,6 +15,7 @@ const examStatusSchema = new mongoose.Schema({
     required: true,
     unique: true
   },
+  // A finished exam locks the unit: teachers can no longer start, complete or restart it
   isFinished: {
     type: Boolean,
     default: false
@@ -14,9 +23,34 @@ const examStatusSchema = new mongoose.Schema({
   markedBy: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User'
-  }
+  },
+  markedAt: {
+    type: Date,
+    default: null
+  },
+  history: [examStatusChangeSchema]
 }, {
   timestamps: true
 });
 
-export default mongoose.model('ExamStatus', examStatusSchema);
+// Set the status and add it to the history
+examStatusSchema.methods.recordChange = function({ isFinished, userId, note = '', now = new Date() }) {
+  this.isFinished = isFinished;
+  this.markedBy = userId;
+  this.markedAt = now;
+  this.history.push({ isFinished, changedBy: userId, changedAt: now, note });
+};
+
+const ExamStatus = mongoose.model('ExamStatus', examStatusSchema);
+
+export const EXAM_LOCKED_MESSAGE = 'The exam for this unit is finished, so it is locked. Ask a verifier to reopen it first.';
+
+/**
+ * IDs (strings) of the given units whose exam is finished
+ */
+export const getExamLockedUnitIds = async (unitIds) => {
+  const statuses = await ExamStatus.find({ unit: { $in: unitIds }, isFinished: true }).select('unit').lean();
+  return new Set(statuses.map(status => status.unit.toString()));
+};
+
+export default ExamStatus;
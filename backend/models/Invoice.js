@@ -0,0 +1,96 @@
+import mongoose from 'mongoose';
+
+// issued -> approved -> paid; issued/approved can be cancelled (the period can then be invoiced again)
+export const INVOICE_STATUSES = ['issued', 'approved', 'paid', 'cancelled'];
+
+export const INVOICE_TRANSITIONS = {
+  issued: ['approved', 'cancelled'],
+  approved: ['paid', 'cancelled'],
+  paid: [],
+  cancelled: []
+};
+
+const invoiceSchema = new mongoose.Schema({
+  // Human-readable number, e.g. INV-2026-0007 (sequence restarts every year)
+  number: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  year: {
+    type: Number,
+    required: true
+  },
+  sequence: {
+    type: Number,
+    required: true
+  },
+  teacher: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  payPeriod: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PayPeriod',
+    required: true
+  },
+  periodStart: {
+    type: Date,
+    required: true
+  },
+  periodEnd: {
+    type: Date,
+    required: true
+  },
+  // Approved hours per day (break already deducted), frozen when the invoice is generated
+  lines: [{
+    date: { type: Date, required: true },
+    slots: { type: Number, default: 0 },
+    hours: { type: Number, default: 0 }
+  }],
+  hours: {
+    type: Number,
+    default: 0
+  },
+  // Rate at the time of invoicing; later changes to the user's rate do not affect it
+  hourlyRate: {
+    type: Number,
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: INVOICE_STATUSES,
+    default: 'issued'
+  },
+  paidAt: {
+    type: Date,
+    default: null
+  },
+  paymentReference: {
+    type: String,
+    trim: true,
+    default: ''
+  },
+  statusHistory: [{
+    status: { type: String, enum: INVOICE_STATUSES, required: true },
+    by: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    at: { type: Date, default: Date.now },
+    note: { type: String, trim: true, default: '' }
+  }],
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+invoiceSchema.index({ year: 1, sequence: 1 }, { unique: true });
+invoiceSchema.index({ payPeriod: 1, teacher: 1 });
+
+export default mongoose.model('Invoice', invoiceSchema);
@@ -0,0 +1,60 @@
+import mongoose from 'mongoose';
+
+const payPeriodSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Pay period name is required'],
+    trim: true
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Start date is required']
+  },
+  endDate: {
+    type: Date,
+    required: [true, 'End date is required']
+  },
+  // closed = every slot and break in the range is locked for teachers, verifiers and imports
+  status: {
+    type: String,
+    enum: ['open', 'closed'],
+    default: 'open'
+  },
+  closedAt: {
+    type: Date,
+    default: null
+  },
+  closedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  // Every close / reopen, with who did it and why
+  auditLog: [{
+    action: { type: String, enum: ['closed', 'reopened'], required: true },
+    by: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    at: { type: Date, default: Date.now },
+    reason: { type: String, trim: true, default: '' }
+  }],
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// Normalize the range to whole days and reject reversed ranges
+payPeriodSchema.pre('validate', function(next) {
+  if (this.startDate) this.startDate.setHours(0, 0, 0, 0);
+  if (this.endDate) this.endDate.setHours(0, 0, 0, 0);
+  if (this.startDate && this.endDate && this.endDate < this.startDate) {
+    return next(new Error('End date must be on or after start date'));
+  }
+  next();
+});
+
+payPeriodSchema.index({ startDate: 1, endDate: 1 });
+
+export default mongoose.model('PayPeriod', payPeriodSchema);
@@ -1,5 +1,8 @@
 import mongoose from 'mongoose';
 
+// A running unit counts as delayed once its taught hours exceed the plan by this much
+export const DEFAULT_DELAY_THRESHOLD_PERCENT = 20;
+
 const subjectSchema = new mongoose.Schema({
   name: {
     type: String,
@@ -22,6 +25,27 @@ const subjectSchema = new mongoose.Schema({
   batch: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Batch'
+  },
+  // Sum of the units' planned hours (kept in sync when the plan is saved)
+  plannedHours: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  delayThresholdPercent: {
+    type: Number,
+    default: DEFAULT_DELAY_THRESHOLD_PERCENT,
+    min: 0
+  },
+  // Syllabus template the subject was created from (or merged with) and the template version it has
+  template: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'SyllabusTemplate',
+    default: null
+  },
+  templateVersion: {
+    type: Number,
+    default: null
   }
 }, {
   timestamps: true
@@ -0,0 +1,57 @@
+import mongoose from 'mongoose';
+import { DEFAULT_DELAY_THRESHOLD_PERCENT } from './Subject.js';
+
+// A subject's syllabus (ordered units with planned hours) that can be created again in any batch
+const syllabusTemplateSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Template name is required'],
+    trim: true
+  },
+  subjectName: {
+    type: String,
+    required: [true, 'Subject name is required'],
+    trim: true
+  },
+  color: {
+    type: String,
+    default: 'from-blue-500 to-indigo-500'
+  },
+  delayThresholdPercent: {
+    type: Number,
+    default: DEFAULT_DELAY_THRESHOLD_PERCENT,
+    min: 0
+  },
+  // In teaching order
+  units: [{
+    name: {
+      type: String,
+      required: [true, 'Unit name is required'],
+      trim: true
+    },
+    plannedHours: {
+      type: Number,
+      default: 0,
+      min: 0
+    }
+  }],
+  // Bumped on every edit; subjects remember the version they last took from the template
+  version: {
+    type: Number,
+    default: 1
+  },
+  sourceSubject: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Subject',
+    default: null
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+export default mongoose.model('SyllabusTemplate', syllabusTemplateSchema);
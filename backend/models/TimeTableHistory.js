@@ -18,6 +18,22 @@ const timeTableHistorySchema = new mongoose.Schema({
   batchNames: [{
     type: String // For quick reference
   }],
+  // Clashes the verifier chose to apply anyway
+  overriddenClashes: [{
+    type: mongoose.Schema.Types.Mixed
+  }],
+  // DailyTimeSlot state of every teacher+date before this upload was applied (used to undo it)
+  snapshots: [{
+    type: mongoose.Schema.Types.Mixed
+  }],
+  revertedAt: {
+    type: Date,
+    default: null
+  },
+  revertedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
   createdAt: {
     type: Date,
     default: Date.now
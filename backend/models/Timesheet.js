@@ -0,0 +1,76 @@
+import mongoose from 'mongoose';
+
+// draft: built from the teacher's days, can be refreshed; confirmed: teacher agreed to the hours;
+// signed-off: verifier accepted it and the snapshot is final
+export const TIMESHEET_STATUSES = ['draft', 'confirmed', 'signed-off'];
+
+const timesheetDaySchema = new mongoose.Schema({
+  date: { type: Date, required: true },
+  slots: [{
+    slotId: { type: String, required: true },
+    label: { type: String, default: '' },
+    duration: { type: Number, default: 60 } // in minutes
+  }],
+  breakMinutes: { type: Number, default: 0 },
+  totalHours: { type: Number, default: 0 },
+  // Approved leave for the day (full / half), shown on the sheet
+  leave: { type: String, default: null }
+}, { _id: false });
+
+const timesheetSchema = new mongoose.Schema({
+  teacher: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Calendar month as YYYY-MM
+  month: {
+    type: String,
+    required: true,
+    match: [/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be YYYY-MM']
+  },
+  status: {
+    type: String,
+    enum: TIMESHEET_STATUSES,
+    default: 'draft'
+  },
+  // Snapshot of the month's approved slots; frozen once signed off
+  days: [timesheetDaySchema],
+  totalHours: {
+    type: Number,
+    default: 0
+  },
+  totalSlots: {
+    type: Number,
+    default: 0
+  },
+  generatedAt: {
+    type: Date,
+    default: null
+  },
+  confirmedAt: {
+    type: Date,
+    default: null
+  },
+  signedOffAt: {
+    type: Date,
+    default: null
+  },
+  signedOffBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  // Set when a verifier sends the sheet back to the teacher
+  returnReason: {
+    type: String,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+timesheetSchema.index({ teacher: 1, month: 1 }, { unique: true });
+timesheetSchema.index({ month: 1, status: 1 });
+
+export default mongoose.model('Timesheet', timesheetSchema);
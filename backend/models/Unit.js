@@ -14,6 +14,18 @@ const unitSchema = new mongoose.Schema({
   order: {
     type: Number,
     default: 0
+  },
+  // Estimated teaching hours (0 = no estimate; such units are never reported as delayed)
+  plannedHours: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  // Exam marks weightage (0 = not set); with planned hours, one of the weights for weighted progress
+  marks: {
+    type: Number,
+    default: 0,
+    min: 0
   }
 }, {
   timestamps: true
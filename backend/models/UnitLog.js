@@ -1,5 +1,17 @@
 import mongoose from 'mongoose';
 
+// Statuses of a unit that has been started and not completed (a paused unit still blocks its subject)
+export const ACTIVE_UNIT_STATUSES = ['in-progress', 'paused'];
+
+// Why a unit is being taught: the first run, or a restart of a completed unit
+export const ATTEMPT_KINDS = ['first-delivery', 'revision', 'remedial'];
+export const RESTART_ATTEMPT_KINDS = ['revision', 'remedial'];
+
+const sessionSchema = {
+  startTime: { type: Date, required: true },
+  endTime: { type: Date, default: null }
+};
+
 const unitLogSchema = new mongoose.Schema({
   unit: {
     type: mongoose.Schema.Types.ObjectId,
@@ -24,23 +36,119 @@ const unitLogSchema = new mongoose.Schema({
     type: Date,
     default: null
   },
+  // Teaching sessions between start/resume and pause/complete; the open one has no endTime
+  sessions: [sessionSchema],
+  // Sum of closed sessions (nights and weekends in between are not counted)
   totalMinutes: {
     type: Number,
     default: 0
   },
   status: {
     type: String,
-    enum: ['not-started', 'in-progress', 'completed'],
+    enum: ['not-started', 'in-progress', 'paused', 'completed'],
     default: 'not-started',
     required: true
-  }
+  },
+  // The current run; earlier completed runs are kept in previousAttempts
+  attemptKind: {
+    type: String,
+    enum: ATTEMPT_KINDS,
+    default: 'first-delivery'
+  },
+  restartReason: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  // End of the first completed run (kept across restarts)
+  firstCompletedAt: {
+    type: Date,
+    default: null
+  },
+  previousAttempts: [{
+    kind: { type: String, enum: ATTEMPT_KINDS, default: 'first-delivery' },
+    reason: { type: String, default: '' },
+    startTime: { type: Date, required: true },
+    endTime: { type: Date, default: null },
+    sessions: [sessionSchema],
+    totalMinutes: { type: Number, default: 0 }
+  }]
 }, {
   timestamps: true
 });
 
-// Calculate total minutes before saving if completed
+/**
+ * Minutes taught so far, including the running session (works on lean objects too).
+ * Logs from before sessions existed fall back to the start/end difference.
+ */
+export const getUnitLogMinutes = (log, now = new Date()) => {
+  if (log.sessions && log.sessions.length > 0) {
+    return log.sessions.reduce((sum, session) => {
+      const end = session.endTime || (log.status === 'in-progress' ? now : session.startTime);
+      return sum + Math.max(0, new Date(end) - new Date(session.startTime)) / (1000 * 60);
+    }, 0);
+  }
+  if (log.status === 'completed') return log.totalMinutes || 0;
+  if (log.status === 'in-progress' && log.startTime) return (now - new Date(log.startTime)) / (1000 * 60);
+  return 0;
+};
+
+/**
+ * When the unit was first completed (logs from before attempts were kept use their completion time)
+ */
+export const getFirstCompletedAt = (log) =>
+  log.firstCompletedAt || log.previousAttempts?.[0]?.endTime || (log.status === 'completed' ? log.endTime : null);
+
+// Open a new teaching session (start / resume)
+unitLogSchema.methods.openSession = function(now = new Date()) {
+  this.sessions.push({ startTime: now, endTime: null });
+  this.status = 'in-progress';
+};
+
+// Close the running session (pause / complete); older logs get their implicit first session recorded
+unitLogSchema.methods.closeSession = function(now = new Date()) {
+  if (this.sessions.length === 0 && this.startTime) {
+    this.sessions.push({ startTime: this.startTime, endTime: null });
+  }
+  const open = this.sessions.find(session => !session.endTime);
+  if (open) open.endTime = now;
+};
+
+// Keep the completed run and start the unit again as a revision or remedial run
+unitLogSchema.methods.startNewAttempt = function({ kind, reason, now = new Date() }) {
+  if (!this.firstCompletedAt && this.status === 'completed') {
+    this.firstCompletedAt = this.endTime;
+  }
+  this.previousAttempts.push({
+    kind: this.attemptKind || 'first-delivery',
+    reason: this.restartReason || '',
+    startTime: this.startTime,
+    endTime: this.endTime,
+    sessions: this.sessions.length > 0
+      ? this.sessions.map(session => ({ startTime: session.startTime, endTime: session.endTime }))
+      : [{ startTime: this.startTime, endTime: this.endTime }],
+    totalMinutes: this.totalMinutes
+  });
+  this.attemptKind = kind;
+  this.restartReason = reason;
+  this.startTime = now;
+  this.endTime = null;
+  this.totalMinutes = 0;
+  this.sessions = [];
+  this.openSession(now);
+};
+
+// Total minutes are the sum of closed sessions
 unitLogSchema.pre('save', function(next) {
-  if (this.status === 'completed' && this.endTime && this.startTime) {
+  if (this.status === 'completed' && this.endTime && !this.firstCompletedAt) {
+    this.firstCompletedAt = this.endTime;
+  }
+  if (this.sessions && this.sessions.length > 0) {
+    const closedMinutes = this.sessions
+      .filter(session => session.endTime)
+      .reduce((sum, session) => sum + (session.endTime - session.startTime) / (1000 * 60), 0);
+    this.totalMinutes = Math.round(closedMinutes);
+  } else if (this.status === 'completed' && this.endTime && this.startTime) {
     const diffMs = this.endTime - this.startTime;
     this.totalMinutes = Math.round(diffMs / (1000 * 60)); // Convert to minutes
   }
@@ -50,8 +158,7 @@ unitLogSchema.pre('save', function(next) {
 // Index for efficient queries
 unitLogSchema.index({ teacher: 1, status: 1 });
 unitLogSchema.index({ teacher: 1, createdAt: -1 });
-// Unique compound index: one teacher can only have one active log per unit at a time
-// This prevents duplicate logs for the same unit-teacher combination
+// Unique compound index: one log per unit-teacher combination; restarts are kept inside it as previousAttempts
 unitLogSchema.index({ unit: 1, teacher: 1 }, { unique: true, sparse: true });
 
 export default mongoose.model('UnitLog', unitLogSchema);
@@ -1,6 +1,8 @@
 import mongoose from 'mongoose';
 import bcrypt from 'bcryptjs';
 
+export const EMPLOYMENT_TYPES = ['permanent', 'visiting'];
+
 const userSchema = new mongoose.Schema({
   email: {
     type: String,
@@ -39,12 +41,30 @@ const userSchema = new mongoose.Schema({
     type: String,
     default: ''
   },
+  // Visiting faculty are paid per approved hour at hourlyRate (see Invoice)
+  employmentType: {
+    type: String,
+    enum: EMPLOYMENT_TYPES,
+    default: 'permanent'
+  },
+  hourlyRate: {
+    type: Number,
+    min: [0, 'Hourly rate cannot be negative'],
+    default: 0
+  },
+  // Secret for the subscribable ICS timetable feed; rotating or clearing it revokes old URLs
+  calendarFeedToken: {
+    type: String,
+    select: false
+  },
   resetPasswordOtp: String,
   resetPasswordOtpExpire: Date
 }, {
   timestamps: true
 });
 
+userSchema.index({ calendarFeedToken: 1 }, { unique: true, sparse: true });
+
 // Hash password before saving
 userSchema.pre('save', async function(next) {
   if (!this.isModified('password')) return next();
@@ -0,0 +1,69 @@
+import mongoose from 'mongoose';
+
+const weeklyTimetableSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Timetable name is required'],
+    trim: true
+  },
+  batch: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Batch',
+    required: [true, 'Batch is required']
+  },
+  effectiveFrom: {
+    type: Date,
+    required: [true, 'Effective from date is required']
+  },
+  effectiveTo: {
+    type: Date,
+    required: [true, 'Effective to date is required']
+  },
+  // One row per weekday + period: who teaches what
+  entries: [{
+    weekday: {
+      type: Number, // 0 = Sunday ... 6 = Saturday
+      required: true,
+      min: 0,
+      max: 6
+    },
+    slotId: {
+      type: String,
+      required: true
+    },
+    subject: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Subject',
+      required: true
+    },
+    teacher: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    }
+  }],
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  lastGeneratedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Normalize the range to whole days and reject reversed ranges
+weeklyTimetableSchema.pre('validate', function(next) {
+  if (this.effectiveFrom) this.effectiveFrom.setHours(0, 0, 0, 0);
+  if (this.effectiveTo) this.effectiveTo.setHours(0, 0, 0, 0);
+  if (this.effectiveFrom && this.effectiveTo && this.effectiveTo < this.effectiveFrom) {
+    return next(new Error('Effective to date must be on or after effective from date'));
+  }
+  next();
+});
+
+weeklyTimetableSchema.index({ batch: 1, effectiveFrom: 1 });
+
+export default mongoose.model('WeeklyTimetable', weeklyTimetableSchema);
@@ -0,0 +1,169 @@
+import express from 'express';
+import AcademicCalendar from '../models/AcademicCalendar.js';
+import { protect, authorize } from '../middleware/auth.js';
+import { getCalendarDays } from '../utils/academicCalendar.js';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(protect);
+
+// @route   GET /api/academic-calendar
+// @desc    Get academic calendar events (optionally only those overlapping startDate..endDate)
+// @access  Private
+router.get('/', async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+    const query = {};
+    if (startDate) query.endDate = { $gte: new Date(startDate) };
+    if (endDate) query.startDate = { $lte: new Date(endDate) };
+
+    const events = await AcademicCalendar.find(query)
+      .populate('batch', 'name year')
+      .populate('createdBy', 'name email')
+      .sort({ startDate: 1 })
+      .lean();
+
+    res.json({
+      success: true,
+      data: events
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   GET /api/academic-calendar/days
+// @desc    Resolve events onto days for a date range and optional batch
+// @access  Private
+router.get('/days', async (req, res) => {
+  try {
+    const { startDate, endDate, batchId } = req.query;
+    if (!startDate || !endDate) {
+      return res.status(400).json({
+        success: false,
+        message: 'startDate and endDate are required'
+      });
+    }
+
+    const days = await getCalendarDays({
+      start: new Date(startDate),
+      end: new Date(endDate),
+      batchId: batchId && batchId !== 'all' ? batchId : null
+    });
+
+    res.json({
+      success: true,
+      data: days
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/academic-calendar
+// @desc    Create a calendar event (holiday, vacation, exam week or batch working day)
+// @access  Private/Admin
+router.post('/', authorize('admin'), async (req, res) => {
+  try {
+    const { name, type, startDate, endDate, batchId, notes } = req.body;
+
+    if (!name || !type || !startDate) {
+      return res.status(400).json({
+        success: false,
+        message: 'Name, type and start date are required'
+      });
+    }
+
+    const event = await AcademicCalendar.create({
+      name,
+      type,
+      startDate: new Date(startDate),
+      endDate: new Date(endDate || startDate),
+      batch: batchId || null,
+      notes,
+      createdBy: req.user.id
+    });
+
+    await event.populate('batch', 'name year');
+
+    res.status(201).json({
+      success: true,
+      data: event
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   PUT /api/academic-calendar/:id
+// @desc    Update a calendar event
+// @access  Private/Admin
+router.put('/:id', authorize('admin'), async (req, res) => {
+  try {
+    const event = await AcademicCalendar.findById(req.params.id);
+    if (!event) {
+      return res.status(404).json({
+        success: false,
+        message: 'Calendar event not found'
+      });
+    }
+
+    const { name, type, startDate, endDate, batchId, notes } = req.body;
+    if (name !== undefined) event.name = name;
+    if (type !== undefined) event.type = type;
+    if (startDate !== undefined) event.startDate = new Date(startDate);
+    if (endDate !== undefined) event.endDate = new Date(endDate);
+    if (batchId !== undefined) event.batch = batchId || null;
+    if (notes !== undefined) event.notes = notes;
+
+    await event.save();
+    await event.populate('batch', 'name year');
+
+    res.json({
+      success: true,
+      data: event
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   DELETE /api/academic-calendar/:id
+// @desc    Delete a calendar event
+// @access  Private/Admin
+router.delete('/:id', authorize('admin'), async (req, res) => {
+  try {
+    const event = await AcademicCalendar.findByIdAndDelete(req.params.id);
+    if (!event) {
+      return res.status(404).json({
+        success: false,
+        message: 'Calendar event not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Calendar event deleted'
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+export default router;
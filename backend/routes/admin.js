@@ -1,11 +1,16 @@
 import express from 'express';
 import { protect, authorize } from '../middleware/auth.js';
-import User from '../models/User.js';
-import UnitLog from '../models/UnitLog.js';
+import User, { EMPLOYMENT_TYPES } from '../models/User.js';
+import UnitLog, { ACTIVE_UNIT_STATUSES, getFirstCompletedAt } from '../models/UnitLog.js';
 import DailyTimeSlot from '../models/DailyTimeSlot.js';
 import Subject from '../models/Subject.js';
 import SubjectAssignment from '../models/SubjectAssignment.js';
 import Approval from '../models/Approval.js';
+import { createWorkingDayCounter } from '../utils/academicCalendar.js';
+import { createUnitHoursResolver, createAttemptHoursResolver, UNIT_TIME_SOURCES } from '../utils/unitTime.js';
+import { getPlannedEntry, taughtMatchesPlan } from '../utils/slotTags.js';
+import { getPlanVariance, emptyProgressWeights, addUnitWeights, getAssignedUnitProgress } from '../utils/unitPlan.js';
+import { getCompletionForecasts } from '../utils/completionForecast.js';
 import { sendEmail, getWelcomeEmailTemplate, getAccountDeletionEmailTemplate } from '../utils/emailService.js';
 
 const router = express.Router();
@@ -14,12 +19,30 @@ const router = express.Router();
 router.use(protect);
 router.use(authorize('admin'));
 
+// Employment type / hourly rate from the user form; returns an error message or null
+const validatePaySettings = ({ employmentType, hourlyRate }) => {
+  if (employmentType && !EMPLOYMENT_TYPES.includes(employmentType)) {
+    return `Employment type must be one of: ${EMPLOYMENT_TYPES.join(', ')}`;
+  }
+  if (hourlyRate !== undefined && hourlyRate !== '' && (!Number.isFinite(Number(hourlyRate)) || Number(hourlyRate) < 0)) {
+    return 'Hourly rate must be a non-negative number';
+  }
+  return null;
+};
+
 // @route   GET /api/admin/dashboard
-// @desc    Get admin dashboard data
+// @desc    Get admin dashboard data (timeSource=slots: unit hours from approved slots instead of the timer)
 // @access  Private/Admin
 router.get('/dashboard', async (req, res) => {
   try {
     const { teacherId, subject, dateRange } = req.query;
+    const timeSource = req.query.timeSource || 'timer';
+    if (!UNIT_TIME_SOURCES.includes(timeSource)) {
+      return res.status(400).json({
+        success: false,
+        message: `timeSource must be one of: ${UNIT_TIME_SOURCES.join(', ')}`
+      });
+    }
 
     // Build filter
     const filter = {};
@@ -35,7 +58,7 @@ router.get('/dashboard', async (req, res) => {
     }
 
     // Get all unit logs with filters - show both in-progress and completed units
-    let unitLogs = await UnitLog.find({ ...filter, status: { $in: ['in-progress', 'completed'] } })
+    let unitLogs = await UnitLog.find({ ...filter, status: { $in: [...ACTIVE_UNIT_STATUSES, 'completed'] } })
       .populate({
         path: 'teacher',
         select: 'name email',
@@ -43,12 +66,12 @@ router.get('/dashboard', async (req, res) => {
       })
       .populate({
         path: 'subject',
-        select: 'name color',
+        select: 'name color batch delayThresholdPercent',
         strictPopulate: false
       })
       .populate({
         path: 'unit',
-        select: 'name',
+        select: 'name plannedHours marks',
         strictPopulate: false
       })
       .sort({ createdAt: -1 });
@@ -96,37 +119,48 @@ router.get('/dashboard', async (req, res) => {
     // Calculate metrics - include both in-progress and completed
     const uniqueTeachers = totalTeachersCount;
     const completedUnits = validLogs.filter(log => log.status === 'completed').length;
-    const inProgressUnits = validLogs.filter(log => log.status === 'in-progress').length;
-    const totalHours = validLogs.reduce((sum, log) => {
-      if (log.status === 'completed' && log.totalMinutes) {
-        return sum + (log.totalMinutes / 60);
-      } else if (log.status === 'in-progress') {
-        const elapsedMs = new Date() - log.startTime;
-        return sum + (elapsedMs / (1000 * 60 * 60));
-      }
-      return sum;
-    }, 0);
+    const inProgressUnits = validLogs.filter(log => ACTIVE_UNIT_STATUSES.includes(log.status)).length;
+    // Teaching time only: paused stretches (nights, weekends) are not counted
+    const getUnitHours = await createUnitHoursResolver(validLogs, timeSource);
+    const getAttemptHours = await createAttemptHoursResolver(validLogs, timeSource);
+    const totalHours = validLogs.reduce((sum, log) => sum + getUnitHours(log), 0);
     const activeUnits = completedUnits + inProgressUnits;
     const avgHours = activeUnits > 0 ? (totalHours / activeUnits) : 0;
     
     // Round to integer as requested ("remove the .")
     const roundedAvgHours = Math.floor(avgHours);
 
+    // Progress days count working days only (holidays and vacations from the academic calendar are skipped)
+    const inProgressStarts = validLogs.filter(log => ACTIVE_UNIT_STATUSES.includes(log.status)).map(log => log.startTime.getTime());
+    const countWorkingDays = await createWorkingDayCounter({
+      from: new Date(inProgressStarts.length > 0 ? Math.min(...inProgressStarts) : Date.now())
+    });
+
     // Format data for frontend
     const formattedData = validLogs.map(log => {
-      let totalHours = 0;
+      const totalHours = getUnitHours(log);
       let progressDays = 0;
       
-      if (log.status === 'completed' && log.totalMinutes) {
-        totalHours = log.totalMinutes / 60;
-      } else if (log.status === 'in-progress') {
-        const elapsedMs = new Date() - log.startTime;
-        totalHours = elapsedMs / (1000 * 60 * 60);
-        // Calculate days since start (progress shows from day 2)
-        const daysSinceStart = Math.floor((new Date() - log.startTime) / (1000 * 60 * 60 * 24));
+      if (ACTIVE_UNIT_STATUSES.includes(log.status)) {
+        // Calculate working days since start (progress shows from day 2)
+        const daysSinceStart = countWorkingDays(log.startTime, log.subject?.batch);
         progressDays = daysSinceStart >= 1 ? daysSinceStart : 0; // Show from day 2 (index 1 = day 2)
       }
 
+      const plan = getPlanVariance({
+        actualHours: totalHours,
+        plannedHours: log.unit?.plannedHours,
+        thresholdPercent: log.subject?.delayThresholdPercent
+      });
+
+      // Earlier runs of the unit (first delivery, revisions) keep their own recorded time
+      const previousAttempts = log.previousAttempts || [];
+      const attemptHours = getAttemptHours(log);
+      const earlierHours = attemptHours.reduce((sum, hours) => sum + hours, 0);
+      const firstAttemptHours = attemptHours.length > 0
+        ? attemptHours[0]
+        : (log.status === 'completed' ? totalHours : null);
+
       return {
         id: log._id.toString(),
         teacherName: log.teacher?.name || 'Unknown Teacher',
@@ -135,16 +169,28 @@ router.get('/dashboard', async (req, res) => {
         startedAt: log.startTime,
         completedAt: log.endTime || null,
         totalHours: totalHours,
+        plannedHours: plan.plannedHours,
+        marks: log.unit?.marks || 0,
+        varianceHours: plan.varianceHours,
+        variancePercent: plan.variancePercent,
+        overPlan: plan.overPlan,
+        // Still running past the subject's threshold over plan
+        delayed: ACTIVE_UNIT_STATUSES.includes(log.status) && plan.overPlan,
         status: log.status,
-        progressDays: progressDays
+        progressDays: progressDays,
+        attemptKind: log.attemptKind || 'first-delivery',
+        attempts: previousAttempts.length + 1,
+        restartReason: log.restartReason || '',
+        firstCompletedAt: getFirstCompletedAt(log),
+        firstAttemptHours,
+        totalHoursAllAttempts: totalHours + earlierHours
       };
     });
 
-    // No delayed units shown
-    const delayedUnits = [];
+    const delayedUnits = formattedData.filter(item => item.delayed);
 
     // Get unique teachers and subjects for filters - include both in-progress and completed
-    const allLogs = await UnitLog.find({ status: { $in: ['in-progress', 'completed'] } })
+    const allLogs = await UnitLog.find({ status: { $in: [...ACTIVE_UNIT_STATUSES, 'completed'] } })
       .populate({
         path: 'teacher',
         select: 'name',
@@ -169,6 +215,9 @@ router.get('/dashboard', async (req, res) => {
       validAllLogs.map(log => log.subject.name).filter(name => name)
     ));
 
+    // Completion over the whole assigned syllabus, not only the units that have been started
+    const assignedProgress = await getAssignedUnitProgress({ subjectName: subject });
+
     res.json({
       success: true,
       data: {
@@ -179,7 +228,10 @@ router.get('/dashboard', async (req, res) => {
           avgHours: roundedAvgHours.toString()
         },
         unitLogs: formattedData,
+        timeSource,
         delayedUnits,
+        teacherProgress: assignedProgress.teachers,
+        batchProgress: assignedProgress.batches,
         filters: {
           teachers: ['all', ...teachers],
           subjects: ['all', ...subjects]
@@ -216,12 +268,25 @@ router.get('/teachers', async (req, res) => {
   }
 });
 
+// Planned-hours counters of a progress group (only units with an estimate count towards them)
+const emptyPlanStats = () => ({ plannedHours: 0, actualHoursOnPlan: 0, overPlan: 0 });
+
+// Counters kept per weighting for weighted progress
+const PROGRESS_COUNTERS = ['total', 'completed', 'inProgress', 'delayed'];
+
 // @route   GET /api/admin/progress
-// @desc    Get progress visualization data
+// @desc    Get progress visualization data (timeSource=slots: unit hours from approved slots instead of the timer)
 // @access  Private/Admin
 router.get('/progress', async (req, res) => {
   try {
     const { teacherId, subject, groupBy, dateRange } = req.query;
+    const timeSource = req.query.timeSource || 'timer';
+    if (!UNIT_TIME_SOURCES.includes(timeSource)) {
+      return res.status(400).json({
+        success: false,
+        message: `timeSource must be one of: ${UNIT_TIME_SOURCES.join(', ')}`
+      });
+    }
 
     const filter = {};
     if (teacherId && teacherId !== 'all') {
@@ -265,10 +330,11 @@ router.get('/progress', async (req, res) => {
     console.log('🔍 Progress Route Filter:', JSON.stringify(filter, null, 2));
 
     // Show both completed and in-progress units for comprehensive stats
-    const unitLogs = await UnitLog.find({ ...filter, status: { $in: ['completed', 'in-progress'] } })
-      .populate('subject', 'name')
-      .populate('unit', 'name')
+    const unitLogs = await UnitLog.find({ ...filter, status: { $in: ['completed', ...ACTIVE_UNIT_STATUSES] } })
+      .populate('subject', 'name delayThresholdPercent')
+      .populate('unit', 'name plannedHours marks')
       .populate('teacher', 'name');
+    const getUnitHours = await createUnitHoursResolver(unitLogs, timeSource);
 
     // Group data
     // Initialize groupedData with all relevant entities (to show 0s)
@@ -285,7 +351,9 @@ router.get('/progress', async (req, res) => {
           completed: 0, 
           inProgress: 0, 
           delayed: 0, 
-          totalHours: 0 
+          totalHours: 0,
+          ...emptyPlanStats(),
+          weights: emptyProgressWeights(PROGRESS_COUNTERS)
         };
       });
     } else {
@@ -300,7 +368,9 @@ router.get('/progress', async (req, res) => {
           completed: 0, 
           inProgress: 0, 
           delayed: 0, 
-          totalHours: 0 
+          totalHours: 0,
+          ...emptyPlanStats(),
+          weights: emptyProgressWeights(PROGRESS_COUNTERS)
         };
       });
     }
@@ -321,25 +391,38 @@ router.get('/progress', async (req, res) => {
           completed: 0,
           inProgress: 0,
           delayed: 0,
-          totalHours: 0
+          totalHours: 0,
+          ...emptyPlanStats(),
+          weights: emptyProgressWeights(PROGRESS_COUNTERS)
         };
       }
 
-      groupedData[groupKey].total += 1;
-      
+      const stats = groupedData[groupKey];
+      // Taught time (sessions or approved slots), so a unit left running overnight is not flagged
+      const hours = getUnitHours(log);
+      const plan = getPlanVariance({
+        actualHours: hours,
+        plannedHours: log.unit?.plannedHours,
+        thresholdPercent: log.subject?.delayThresholdPercent
+      });
+
+      stats.total += 1;
+      stats.totalHours += hours;
+      if (plan.plannedHours > 0) {
+        stats.plannedHours += plan.plannedHours;
+        stats.actualHoursOnPlan += hours;
+        if (plan.overPlan) stats.overPlan += 1;
+      }
+
+      let counter = 'inProgress';
       if (log.status === 'completed') {
-        groupedData[groupKey].completed += 1;
-        groupedData[groupKey].totalHours += (log.totalMinutes || 0) / 60;
-      } else if (log.status === 'in-progress') {
-        const hours = (new Date() - log.startTime) / (1000 * 60 * 60);
-        groupedData[groupKey].totalHours += hours;
-        
-        if (hours > 12) {
-          groupedData[groupKey].delayed += 1;
-        } else {
-          groupedData[groupKey].inProgress += 1;
-        }
+        counter = 'completed';
+      } else if (plan.overPlan) {
+        // Delayed: still running and past the subject's threshold over plan
+        counter = 'delayed';
       }
+      stats[counter] += 1;
+      addUnitWeights(stats.weights, log.unit, ['total', counter]);
     });
 
     // Format for frontend
@@ -347,7 +430,9 @@ router.get('/progress', async (req, res) => {
       name: key, // Use universal 'name' field (works for subject or teacher)
       subject: key, // Keep 'subject' for backward compatibility
       ...stats,
-      avgHours: stats.completed > 0 ? stats.totalHours / stats.completed : 0
+      avgHours: stats.completed > 0 ? stats.totalHours / stats.completed : 0,
+      // Variance over the units that have an estimate
+      varianceHours: stats.actualHoursOnPlan - stats.plannedHours
     }));
 
     res.json({
@@ -362,6 +447,102 @@ router.get('/progress', async (req, res) => {
   }
 });
 
+// @route   GET /api/admin/taught-vs-planned
+// @desc    Checked slots with the subject the timetable planned and the subject the teacher tagged as taught
+// @access  Private/Admin
+router.get('/taught-vs-planned', async (req, res) => {
+  try {
+    const { teacherId, subject, dateRange } = req.query;
+
+    const filter = { 'slots.checked': true };
+    if (teacherId && teacherId !== 'all') {
+      // If teacherId is a name, look up the teacher by name
+      const teacher = await User.findOne({ name: teacherId, role: 'teacher' });
+      filter.teacher = teacher ? teacher._id : teacherId;
+    }
+
+    if (dateRange && dateRange !== 'all') {
+      const startDate = new Date();
+      startDate.setHours(0, 0, 0, 0);
+      const daysBack = { '7days': 7, '30days': 30, '90days': 90 }[dateRange] || 0;
+      startDate.setDate(startDate.getDate() - daysBack);
+      filter.date = { $gte: startDate };
+    }
+
+    const days = await DailyTimeSlot.find(filter)
+      .select('teacher date slots scheduleEntries')
+      .populate('teacher', 'name')
+      .sort({ date: -1 })
+      .lean();
+
+    const summary = { checkedSlots: 0, tagged: 0, matching: 0, differing: 0, unplanned: 0 };
+    const rows = [];
+
+    days.forEach(day => {
+      (day.slots || []).filter(slot => slot.checked).forEach(slot => {
+        const entry = getPlannedEntry(day, slot.slotId);
+        const planned = entry ? { subjectName: entry.subjectName, batch: entry.batch } : null;
+        const taught = slot.taught ? {
+          subjectName: slot.taught.subjectName,
+          batch: slot.taught.batch,
+          unitName: slot.taught.unitName,
+          topic: slot.taught.topic
+        } : null;
+        if (subject && subject !== 'all' && planned?.subjectName !== subject && taught?.subjectName !== subject) return;
+
+        // matchesPlan stays null for untagged slots: nothing to compare
+        let matchesPlan = null;
+        summary.checkedSlots += 1;
+        if (taught) {
+          matchesPlan = taughtMatchesPlan(taught, planned);
+          summary.tagged += 1;
+          if (!planned) summary.unplanned += 1;
+          else if (matchesPlan) summary.matching += 1;
+          else summary.differing += 1;
+        }
+
+        rows.push({
+          date: day.date,
+          teacherName: day.teacher?.name || 'Unknown Teacher',
+          slot: slot.label,
+          planned,
+          taught,
+          matchesPlan
+        });
+      });
+    });
+
+    res.json({
+      success: true,
+      data: { summary, rows }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   GET /api/admin/completion-forecast
+// @desc    Projected syllabus completion date and risk per subject and batch (filters: batchId, subject)
+// @access  Private/Admin
+router.get('/completion-forecast', async (req, res) => {
+  try {
+    const { batchId, subject } = req.query;
+
+    res.json({
+      success: true,
+      data: await getCompletionForecasts({ batchId, subject })
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
 // @route   GET /api/admin/assignments
 // @desc    Get all subject assignment requests
 // @access  Private/Admin
@@ -683,7 +864,7 @@ router.get('/users', async (req, res) => {
 // @access  Private/Admin
 router.post('/users', async (req, res) => {
   try {
-    const { name, email, password, role } = req.body;
+    const { name, email, password, role, employmentType, hourlyRate } = req.body;
     console.log('📝 Creating user:', { name, email, role, passwordLength: password ? password.length : 0 });
 
     // Explicit validation
@@ -701,6 +882,14 @@ router.post('/users', async (req, res) => {
       });
     }
 
+    const payError = validatePaySettings({ employmentType, hourlyRate });
+    if (payError) {
+      return res.status(400).json({
+        success: false,
+        message: payError
+      });
+    }
+
     // Check if user exists
     const existingUser = await User.findOne({ email: email.toLowerCase() });
     if (existingUser) {
@@ -714,7 +903,9 @@ router.post('/users', async (req, res) => {
       name,
       email,
       password,
-      role: role || 'teacher'
+      role: role || 'teacher',
+      employmentType: employmentType || 'permanent',
+      hourlyRate: hourlyRate !== undefined && hourlyRate !== '' ? Number(hourlyRate) : 0
     });
 
     console.log('✅ User created successfully:', user._id);
@@ -739,7 +930,9 @@ router.post('/users', async (req, res) => {
         name: user.name,
         email: user.email,
         role: user.role,
-        avatar: user.avatar
+        avatar: user.avatar,
+        employmentType: user.employmentType,
+        hourlyRate: user.hourlyRate
       }
     });
   } catch (error) {
@@ -756,7 +949,7 @@ router.post('/users', async (req, res) => {
 // @access  Private/Admin
 router.put('/users/:id', async (req, res) => {
   try {
-    const { name, email, role, password } = req.body;
+    const { name, email, role, password, employmentType, hourlyRate } = req.body;
     const user = await User.findById(req.params.id);
 
     if (!user) {
@@ -778,9 +971,19 @@ router.put('/users/:id', async (req, res) => {
       user.email = email;
     }
 
+    const payError = validatePaySettings({ employmentType, hourlyRate });
+    if (payError) {
+      return res.status(400).json({
+        success: false,
+        message: payError
+      });
+    }
+
     if (name) user.name = name;
     if (role) user.role = role;
     if (password) user.password = password;
+    if (employmentType) user.employmentType = employmentType;
+    if (hourlyRate !== undefined && hourlyRate !== '') user.hourlyRate = Number(hourlyRate);
 
     await user.save();
 
@@ -791,7 +994,9 @@ router.put('/users/:id', async (req, res) => {
         name: user.name,
         email: user.email,
         role: user.role,
-        avatar: user.avatar
+        avatar: user.avatar,
+        employmentType: user.employmentType,
+        hourlyRate: user.hourlyRate
       }
     });
   } catch (error) {
@@ -0,0 +1,133 @@
+import express from 'express';
+import AutoApprovalRule from '../models/AutoApprovalRule.js';
+import { protect, authorize } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Verifiers can see the rules they audit; only admins change them
+router.use(protect);
+router.use(authorize('verifier', 'admin'));
+
+const pickConditions = (conditions = {}) => ({
+  inSchedule: !!conditions.inSchedule,
+  sameDay: !!conditions.sameDay,
+  afterSlotEnd: !!conditions.afterSlotEnd
+});
+
+// @route   GET /api/auto-approval-rules
+// @desc    Get auto-approval rules in evaluation order
+// @access  Private/Verifier/Admin
+router.get('/', async (req, res) => {
+  try {
+    const rules = await AutoApprovalRule.find()
+      .populate('createdBy', 'name email')
+      .sort({ appliesTo: 1, priority: 1, createdAt: 1 })
+      .lean();
+
+    res.json({
+      success: true,
+      data: rules
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/auto-approval-rules
+// @desc    Create an auto-approval rule
+// @access  Private/Admin
+router.post('/', authorize('admin'), async (req, res) => {
+  try {
+    const { name, action, conditions, priority, enabled } = req.body;
+
+    if (!name || !action) {
+      return res.status(400).json({
+        success: false,
+        message: 'Name and action are required'
+      });
+    }
+
+    const rule = await AutoApprovalRule.create({
+      name,
+      action,
+      conditions: pickConditions(conditions),
+      priority: priority !== undefined ? Number(priority) : undefined,
+      enabled: enabled !== undefined ? !!enabled : true,
+      createdBy: req.user.id
+    });
+
+    res.status(201).json({
+      success: true,
+      data: rule
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   PUT /api/auto-approval-rules/:id
+// @desc    Update an auto-approval rule
+// @access  Private/Admin
+router.put('/:id', authorize('admin'), async (req, res) => {
+  try {
+    const rule = await AutoApprovalRule.findById(req.params.id);
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Rule not found'
+      });
+    }
+
+    const { name, action, conditions, priority, enabled } = req.body;
+    if (name !== undefined) rule.name = name;
+    if (action !== undefined) rule.action = action;
+    if (conditions !== undefined) rule.conditions = pickConditions(conditions);
+    if (priority !== undefined) rule.priority = Number(priority);
+    if (enabled !== undefined) rule.enabled = !!enabled;
+
+    await rule.save();
+
+    res.json({
+      success: true,
+      data: rule
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   DELETE /api/auto-approval-rules/:id
+// @desc    Delete an auto-approval rule (approvals it decided keep their record of it)
+// @access  Private/Admin
+router.delete('/:id', authorize('admin'), async (req, res) => {
+  try {
+    const rule = await AutoApprovalRule.findByIdAndDelete(req.params.id);
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Rule not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Rule deleted'
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,173 @@
+import express from 'express';
+import BellSchedule from '../models/BellSchedule.js';
+import { protect, authorize } from '../middleware/auth.js';
+import { resolveBellSchedule, DEFAULT_SLOT_DEFINITIONS } from '../utils/bellSchedule.js';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(protect);
+
+// @route   GET /api/bell-schedules
+// @desc    Get all bell schedules
+// @access  Private
+router.get('/', async (req, res) => {
+  try {
+    const schedules = await BellSchedule.find()
+      .populate('batch', 'name year')
+      .populate('createdBy', 'name email')
+      .sort({ batch: 1, createdAt: -1 })
+      .lean();
+
+    res.json({
+      success: true,
+      data: schedules
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   GET /api/bell-schedules/resolve
+// @desc    Get the periods that apply to a date (and optional batch)
+// @access  Private
+router.get('/resolve', async (req, res) => {
+  try {
+    const { date, batchId } = req.query;
+    const schedule = await resolveBellSchedule({
+      date: date ? new Date(date) : new Date(),
+      batchId: batchId && batchId !== 'all' ? batchId : null
+    });
+
+    const periods = schedule
+      ? schedule.periods.map(p => ({
+          slotId: p.slotId,
+          name: p.name,
+          label: p.label,
+          startTime: p.startTime,
+          endTime: p.endTime,
+          duration: p.duration
+        }))
+      : Object.entries(DEFAULT_SLOT_DEFINITIONS).map(([slotId, def]) => ({
+          slotId,
+          name: '',
+          ...def
+        }));
+
+    res.json({
+      success: true,
+      data: {
+        scheduleId: schedule ? schedule._id : null,
+        name: schedule ? schedule.name : 'Default',
+        periods
+      }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/bell-schedules
+// @desc    Create a bell schedule
+// @access  Private/Admin
+router.post('/', authorize('admin'), async (req, res) => {
+  try {
+    const { name, weekdays, batchId, periods, isActive } = req.body;
+
+    if (!name || !Array.isArray(periods) || periods.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Name and at least one period are required'
+      });
+    }
+
+    const schedule = await BellSchedule.create({
+      name,
+      weekdays: Array.isArray(weekdays) ? weekdays.map(Number) : undefined,
+      batch: batchId || null,
+      periods,
+      isActive: isActive !== undefined ? !!isActive : true,
+      createdBy: req.user.id
+    });
+
+    await schedule.populate('batch', 'name year');
+
+    res.status(201).json({
+      success: true,
+      data: schedule
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   PUT /api/bell-schedules/:id
+// @desc    Update a bell schedule
+// @access  Private/Admin
+router.put('/:id', authorize('admin'), async (req, res) => {
+  try {
+    const schedule = await BellSchedule.findById(req.params.id);
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bell schedule not found'
+      });
+    }
+
+    const { name, weekdays, batchId, periods, isActive } = req.body;
+    if (name !== undefined) schedule.name = name;
+    if (Array.isArray(weekdays)) schedule.weekdays = weekdays.map(Number);
+    if (batchId !== undefined) schedule.batch = batchId || null;
+    if (Array.isArray(periods)) schedule.periods = periods;
+    if (isActive !== undefined) schedule.isActive = !!isActive;
+
+    await schedule.save();
+    await schedule.populate('batch', 'name year');
+
+    res.json({
+      success: true,
+      data: schedule
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   DELETE /api/bell-schedules/:id
+// @desc    Delete a bell schedule
+// @access  Private/Admin
+router.delete('/:id', authorize('admin'), async (req, res) => {
+  try {
+    const schedule = await BellSchedule.findByIdAndDelete(req.params.id);
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Bell schedule not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Bell schedule deleted'
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+export default router;
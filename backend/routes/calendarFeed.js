@@ -0,0 +1,40 @@
+import express from 'express';
+import User from '../models/User.js';
+import { getTeacherTimetableCalendar, FEED_DAYS_BACK, FEED_DAYS_AHEAD } from '../utils/ics.js';
+
+const router = express.Router();
+
+// @route   GET /api/calendar-feed/:token.ics
+// @desc    Subscribable timetable feed for calendar apps (the token is the only credential)
+// @access  Public
+router.get('/:token.ics', async (req, res) => {
+  try {
+    const { token } = req.params;
+    if (!/^[a-f0-9]{48}$/.test(token)) {
+      return res.status(404).json({ success: false, message: 'Calendar feed not found' });
+    }
+
+    const teacher = await User.findOne({ calendarFeedToken: token }).select('name');
+    if (!teacher) {
+      return res.status(404).json({ success: false, message: 'Calendar feed not found' });
+    }
+
+    const start = new Date();
+    start.setDate(start.getDate() - FEED_DAYS_BACK);
+    const end = new Date();
+    end.setDate(end.getDate() + FEED_DAYS_AHEAD);
+    const ics = await getTeacherTimetableCalendar({ teacher, start, end });
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Cache-Control', 'no-cache');
+    res.send(ics);
+  } catch (error) {
+    console.error('Error serving calendar feed:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,209 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import Invoice, { INVOICE_TRANSITIONS } from '../models/Invoice.js';
+import PayPeriod from '../models/PayPeriod.js';
+import { protect, authorize } from '../middleware/auth.js';
+import { getPayablesForPeriod, createInvoiceForPayable } from '../utils/invoices.js';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(protect);
+
+const populateInvoice = (query) => query
+  .populate('teacher', 'name email')
+  .populate('payPeriod', 'name startDate endDate status')
+  .populate('statusHistory.by', 'name email');
+
+const findPayPeriod = (payPeriodId) => {
+  if (!payPeriodId || !mongoose.Types.ObjectId.isValid(payPeriodId)) return null;
+  return PayPeriod.findById(payPeriodId).lean();
+};
+
+// @route   GET /api/invoices/payables?payPeriodId=
+// @desc    Amounts owed to visiting faculty for a pay period, with any invoice already issued
+// @access  Private/Admin
+router.get('/payables', authorize('admin'), async (req, res) => {
+  try {
+    const period = await findPayPeriod(req.query.payPeriodId);
+    if (!period) {
+      return res.status(404).json({
+        success: false,
+        message: 'Pay period not found'
+      });
+    }
+
+    const payables = await getPayablesForPeriod(period);
+
+    res.json({
+      success: true,
+      data: payables.map(({ days, ...payable }) => payable)
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   GET /api/invoices
+// @desc    List invoices (own statements for teachers; filter by payPeriodId, status, teacherId for admins)
+// @access  Private/Teacher/Admin
+router.get('/', authorize('teacher', 'admin'), async (req, res) => {
+  try {
+    const { payPeriodId, status, teacherId } = req.query;
+    const filter = {};
+    if (payPeriodId && payPeriodId !== 'all') filter.payPeriod = payPeriodId;
+    if (status && status !== 'all') filter.status = status;
+    if (req.user.role === 'teacher') {
+      filter.teacher = req.user.id;
+    } else if (teacherId && teacherId !== 'all') {
+      filter.teacher = teacherId;
+    }
+
+    const invoices = await populateInvoice(Invoice.find(filter))
+      .sort({ year: -1, sequence: -1 })
+      .lean();
+
+    res.json({
+      success: true,
+      data: invoices
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/invoices/generate
+// @desc    Issue invoices for a closed pay period (visiting teachers with payable hours and no open invoice)
+// @access  Private/Admin
+router.post('/generate', authorize('admin'), async (req, res) => {
+  try {
+    const { payPeriodId, teacherIds } = req.body;
+    const period = await findPayPeriod(payPeriodId);
+    if (!period) {
+      return res.status(404).json({
+        success: false,
+        message: 'Pay period not found'
+      });
+    }
+    // Hours must not change after invoicing, so only locked periods are billed
+    if (period.status !== 'closed') {
+      return res.status(400).json({
+        success: false,
+        message: 'Close the pay period before generating invoices'
+      });
+    }
+
+    const payables = await getPayablesForPeriod(period, Array.isArray(teacherIds) ? teacherIds : null);
+    const created = [];
+    const skipped = [];
+    for (const payable of payables) {
+      if (payable.invoice) {
+        skipped.push({ teacher: payable.teacher.name, reason: `already invoiced (${payable.invoice.number})` });
+      } else if (payable.hours <= 0) {
+        skipped.push({ teacher: payable.teacher.name, reason: 'no approved hours' });
+      } else if (!payable.hourlyRate) {
+        skipped.push({ teacher: payable.teacher.name, reason: 'no hourly rate set' });
+      } else {
+        created.push(await createInvoiceForPayable(period, payable, req.user.id));
+      }
+    }
+
+    res.status(created.length > 0 ? 201 : 200).json({
+      success: true,
+      message: `${created.length} invoice${created.length !== 1 ? 's' : ''} generated`,
+      data: {
+        created: await populateInvoice(Invoice.find({ _id: { $in: created.map(inv => inv._id) } }))
+          .sort({ sequence: 1 })
+          .lean(),
+        skipped
+      }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   PUT /api/invoices/:id/status
+// @desc    Move an invoice through the payment workflow (issued -> approved -> paid, or cancelled)
+// @access  Private/Admin
+router.put('/:id/status', authorize('admin'), async (req, res) => {
+  try {
+    const { status, paymentReference, note } = req.body;
+    const invoice = await Invoice.findById(req.params.id);
+    if (!invoice) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invoice not found'
+      });
+    }
+
+    const allowed = INVOICE_TRANSITIONS[invoice.status] || [];
+    if (!allowed.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: allowed.length > 0
+          ? `A ${invoice.status} invoice can only be moved to: ${allowed.join(', ')}`
+          : `A ${invoice.status} invoice can no longer be changed`
+      });
+    }
+
+    if (status === 'paid') {
+      invoice.paidAt = new Date();
+      if (paymentReference !== undefined) invoice.paymentReference = String(paymentReference).trim();
+    }
+    invoice.status = status;
+    invoice.statusHistory.push({
+      status,
+      by: req.user.id,
+      at: new Date(),
+      note: String(note || '').trim()
+    });
+    await invoice.save();
+
+    res.json({
+      success: true,
+      data: await populateInvoice(Invoice.findById(invoice._id)).lean()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   GET /api/invoices/:id
+// @desc    Get one invoice with its day lines
+// @access  Private/Teacher/Admin
+router.get('/:id', authorize('teacher', 'admin'), async (req, res) => {
+  try {
+    const invoice = await populateInvoice(Invoice.findById(req.params.id)).lean();
+    if (!invoice || (req.user.role === 'teacher' && invoice.teacher._id.toString() !== req.user.id.toString())) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invoice not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: invoice
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,255 @@
+import express from 'express';
+import PayPeriod from '../models/PayPeriod.js';
+import { protect, authorize } from '../middleware/auth.js';
+import { setPayPeriodLock } from '../utils/payPeriods.js';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(protect);
+
+const populatePeriod = (query) => query
+  .populate('closedBy', 'name email')
+  .populate('auditLog.by', 'name email');
+
+// Another period already covering part of start..end (pay periods must not overlap)
+const findOverlap = (startDate, endDate, excludeId = null) => {
+  const start = new Date(startDate);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(endDate);
+  end.setHours(0, 0, 0, 0);
+  const query = { startDate: { $lte: end }, endDate: { $gte: start } };
+  if (excludeId) query._id = { $ne: excludeId };
+  return PayPeriod.findOne(query).select('name').lean();
+};
+
+// @route   GET /api/pay-periods
+// @desc    Get pay periods, newest first
+// @access  Private/Verifier/Admin
+router.get('/', authorize('verifier', 'admin'), async (req, res) => {
+  try {
+    const periods = await populatePeriod(PayPeriod.find())
+      .sort({ startDate: -1 })
+      .lean();
+
+    res.json({
+      success: true,
+      data: periods
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/pay-periods
+// @desc    Create a pay period (open)
+// @access  Private/Admin
+router.post('/', authorize('admin'), async (req, res) => {
+  try {
+    const { name, startDate, endDate } = req.body;
+
+    if (!name || !startDate || !endDate) {
+      return res.status(400).json({
+        success: false,
+        message: 'Name, start date and end date are required'
+      });
+    }
+
+    const overlap = await findOverlap(startDate, endDate);
+    if (overlap) {
+      return res.status(409).json({
+        success: false,
+        message: `Overlaps with pay period "${overlap.name}"`
+      });
+    }
+
+    const period = await PayPeriod.create({
+      name,
+      startDate: new Date(startDate),
+      endDate: new Date(endDate),
+      createdBy: req.user.id
+    });
+
+    res.status(201).json({
+      success: true,
+      data: period
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   PUT /api/pay-periods/:id
+// @desc    Update an open pay period
+// @access  Private/Admin
+router.put('/:id', authorize('admin'), async (req, res) => {
+  try {
+    const period = await PayPeriod.findById(req.params.id);
+    if (!period) {
+      return res.status(404).json({
+        success: false,
+        message: 'Pay period not found'
+      });
+    }
+    if (period.status === 'closed') {
+      return res.status(400).json({
+        success: false,
+        message: 'Reopen the pay period before changing it'
+      });
+    }
+
+    const { name, startDate, endDate } = req.body;
+    if (name !== undefined) period.name = name;
+    if (startDate !== undefined) period.startDate = new Date(startDate);
+    if (endDate !== undefined) period.endDate = new Date(endDate);
+
+    const overlap = await findOverlap(period.startDate, period.endDate, period._id);
+    if (overlap) {
+      return res.status(409).json({
+        success: false,
+        message: `Overlaps with pay period "${overlap.name}"`
+      });
+    }
+
+    await period.save();
+
+    res.json({
+      success: true,
+      data: period
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/pay-periods/:id/close
+// @desc    Close a pay period: lock every slot and break in its range
+// @access  Private/Admin
+router.post('/:id/close', authorize('admin'), async (req, res) => {
+  try {
+    const period = await PayPeriod.findById(req.params.id);
+    if (!period) {
+      return res.status(404).json({
+        success: false,
+        message: 'Pay period not found'
+      });
+    }
+    if (period.status === 'closed') {
+      return res.status(400).json({
+        success: false,
+        message: 'Pay period is already closed'
+      });
+    }
+
+    period.status = 'closed';
+    period.closedAt = new Date();
+    period.closedBy = req.user.id;
+    period.auditLog.push({ action: 'closed', by: req.user.id, reason: req.body?.reason || '' });
+    await period.save();
+
+    const lockedDays = await setPayPeriodLock(period, true);
+
+    res.json({
+      success: true,
+      message: `Pay period closed (${lockedDays} day record(s) locked)`,
+      data: await populatePeriod(PayPeriod.findById(period._id)).lean()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/pay-periods/:id/reopen
+// @desc    Reopen a closed pay period (a reason is required and kept in the audit log)
+// @access  Private/Admin
+router.post('/:id/reopen', authorize('admin'), async (req, res) => {
+  try {
+    const reason = String(req.body?.reason || '').trim();
+    if (!reason) {
+      return res.status(400).json({
+        success: false,
+        message: 'A reason is required to reopen a pay period'
+      });
+    }
+
+    const period = await PayPeriod.findById(req.params.id);
+    if (!period) {
+      return res.status(404).json({
+        success: false,
+        message: 'Pay period not found'
+      });
+    }
+    if (period.status !== 'closed') {
+      return res.status(400).json({
+        success: false,
+        message: 'Pay period is not closed'
+      });
+    }
+
+    period.status = 'open';
+    period.closedAt = null;
+    period.closedBy = null;
+    period.auditLog.push({ action: 'reopened', by: req.user.id, reason });
+    await period.save();
+
+    const unlockedDays = await setPayPeriodLock(period, false);
+
+    res.json({
+      success: true,
+      message: `Pay period reopened (${unlockedDays} day record(s) unlocked)`,
+      data: await populatePeriod(PayPeriod.findById(period._id)).lean()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   DELETE /api/pay-periods/:id
+// @desc    Delete an open pay period
+// @access  Private/Admin
+router.delete('/:id', authorize('admin'), async (req, res) => {
+  try {
+    const period = await PayPeriod.findById(req.params.id);
+    if (!period) {
+      return res.status(404).json({
+        success: false,
+        message: 'Pay period not found'
+      });
+    }
+    if (period.status === 'closed') {
+      return res.status(400).json({
+        success: false,
+        message: 'A closed pay period cannot be deleted; reopen it first'
+      });
+    }
+
+    await period.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Pay period deleted'
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+export default router;
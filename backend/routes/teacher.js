@@ -1,13 +1,22 @@
 import express from 'express';
+import crypto from 'crypto';
 import mongoose from 'mongoose';
 import { protect, authorize } from '../middleware/auth.js';
 import DailyTimeSlot from '../models/DailyTimeSlot.js';
-import UnitLog from '../models/UnitLog.js';
+import UnitLog, { ACTIVE_UNIT_STATUSES, RESTART_ATTEMPT_KINDS, getUnitLogMinutes, getFirstCompletedAt } from '../models/UnitLog.js';
 import Unit from '../models/Unit.js';
 import Subject from '../models/Subject.js';
 import Approval from '../models/Approval.js';
+import { getExamLockedUnitIds, EXAM_LOCKED_MESSAGE } from '../models/ExamStatus.js';
 import SubjectAssignment from '../models/SubjectAssignment.js';
 import User from '../models/User.js';
+import { getTeacherSlotDefinitions, buildDailySlots } from '../utils/bellSchedule.js';
+import { createWorkingDayCounter, getCalendarDays, getDayStatus } from '../utils/academicCalendar.js';
+import { LEAVE_DURATIONS, HALF_DAY_SESSIONS, MAX_LEAVE_DAYS } from '../utils/leave.js';
+import { getTeacherTimetableCalendar } from '../utils/ics.js';
+import { buildTimeSlotContext, evaluateAutoApprovalRules, applyTimeSlotApproval } from '../utils/autoApproval.js';
+import { findClosedPayPeriod, getLockedDateKeys, LOCKED_DAY_MESSAGE } from '../utils/payPeriods.js';
+import { getPlannedEntry, resolveSlotTag } from '../utils/slotTags.js';
 
 const router = express.Router();
 
@@ -190,7 +199,7 @@ router.post('/assignments/:assignmentId/approve', async (req, res) => {
         {
           teacher: assignment.fromTeacher._id,
           subject: assignment.subject._id,
-          status: { $in: ['in-progress', 'not-started'] }
+          status: { $in: [...ACTIVE_UNIT_STATUSES, 'not-started'] }
         },
         { teacher: assignment.toTeacher._id }
       );
@@ -318,17 +327,11 @@ router.get('/dashboard', async (req, res) => {
     // Legacy 'today' variable for compatibility with existing code where it means "the date being viewed"
     const today = dashboardDate;
 
-    // Time slot definitions - must match the update route
-    const slotDefinitions = {
-      '9-10': { label: '9:00 - 10:00', duration: 60 },
-      '10-11': { label: '10:00 - 11:00', duration: 60 },
-      '11-12': { label: '11:00 - 12:00', duration: 60 },
-      '12-13': { label: '12:00 - 13:00', duration: 60 },
-      '13-14': { label: '13:00 - 14:00', duration: 60 },
-      '14-15': { label: '14:00 - 15:00', duration: 60 },
-      '15-16': { label: '15:00 - 16:00', duration: 60 },
-      '16-17': { label: '16:00 - 17:00', duration: 60 }
-    };
+    // Periods for this day come from the configured bell schedule
+    const slotDefinitions = await getTeacherSlotDefinitions(teacherId, today);
+
+    // Days of a closed pay period are shown read-only
+    const closedPeriod = await findClosedPayPeriod(today);
 
     // Get today's time slots
     let timeSlots = await DailyTimeSlot.findOne({
@@ -341,43 +344,37 @@ router.get('/dashboard', async (req, res) => {
       timeSlots = await DailyTimeSlot.create({
         teacher: teacherId,
         date: today,
-        slots: Object.entries(slotDefinitions).map(([id, def]) => ({
-          slotId: id,
-          label: def.label,
-          duration: def.duration,
-          checked: false,
-          locked: false
-        }))
+        slots: buildDailySlots(slotDefinitions).map(slot => ({ ...slot, locked: !!closedPeriod })),
+        breakLocked: !!closedPeriod
       });
+    } else if (
+      !closedPeriod &&
+      !timeSlots.slots.some(s => s.checked) &&
+      (!timeSlots.scheduledSlotIds || timeSlots.scheduledSlotIds.length === 0) &&
+      timeSlots.slots.some(s => !slotDefinitions[s.slotId])
+    ) {
+      // Untouched day created under an older bell schedule - rebuild it from the current one
+      timeSlots.slots = buildDailySlots(slotDefinitions);
+      await timeSlots.save();
     } else {
       // Ensure all slots exist (for records created with old 5-slot format)
+      // Days recorded under a different bell schedule keep their own periods
       const existingSlotIds = timeSlots.slots.map(s => s.slotId);
+      const sameSchedule = existingSlotIds.every(id => slotDefinitions[id]);
       const missingSlots = Object.entries(slotDefinitions)
-        .filter(([id]) => !existingSlotIds.includes(id))
+        .filter(([id]) => sameSchedule && !existingSlotIds.includes(id))
         .map(([id, def]) => ({
           slotId: id,
           label: def.label,
           duration: def.duration,
           checked: false,
-          locked: false
+          locked: !!closedPeriod
         }));
       
       if (missingSlots.length > 0) {
         timeSlots.slots.push(...missingSlots);
         await timeSlots.save();
       }
-      
-      // Also clear any locked flags on existing slots (migration for old data)
-      let hasChanges = false;
-      timeSlots.slots.forEach(s => {
-        if (s.locked) {
-          s.locked = false;
-          hasChanges = true;
-        }
-      });
-      if (hasChanges) {
-        await timeSlots.save();
-      }
     }
 
     // Get batch filter from query
@@ -402,6 +399,14 @@ router.get('/dashboard', async (req, res) => {
       .populate('subject')
       .sort({ createdAt: -1 });
 
+    const examLockedUnitIds = await getExamLockedUnitIds(subjects.flatMap(subject => (subject.units || []).map(unit => unit._id)));
+
+    // Progress days count working days only (holidays and vacations from the academic calendar are skipped)
+    const inProgressStarts = unitLogs.filter(log => ACTIVE_UNIT_STATUSES.includes(log.status)).map(log => log.startTime.getTime());
+    const countWorkingDays = await createWorkingDayCounter({
+      from: new Date(inProgressStarts.length > 0 ? Math.min(...inProgressStarts) : Date.now())
+    });
+
     // Format subjects with unit statuses
     const formattedSubjects = await Promise.all(subjects.map(async (subject) => {
       const subjectUnits = subject.units || [];
@@ -416,13 +421,19 @@ router.get('/dashboard', async (req, res) => {
         let elapsedTime = 0;
         let startedAt, completedAt;
         let progressDays = 0;
+        let attemptKind = null;
+        let attempts = 0;
+        let firstCompletedAt = null;
 
         if (log) {
           status = log.status;
-          if (status === 'in-progress') {
-            elapsedTime = Math.floor((new Date() - log.startTime) / 1000); // seconds
-            // Calculate days since start (progress shows from day 2)
-            const daysSinceStart = Math.floor((new Date() - log.startTime) / (1000 * 60 * 60 * 24));
+          attemptKind = log.attemptKind || 'first-delivery';
+          attempts = (log.previousAttempts || []).length + 1;
+          firstCompletedAt = getFirstCompletedAt(log);
+          if (ACTIVE_UNIT_STATUSES.includes(status)) {
+            elapsedTime = Math.floor(getUnitLogMinutes(log) * 60); // seconds, running session included
+            // Calculate working days since start (progress shows from day 2)
+            const daysSinceStart = countWorkingDays(log.startTime, subject.batch?._id);
             progressDays = daysSinceStart >= 1 ? daysSinceStart : 0; // Show from day 2 (index 1 = day 2)
           } else if (status === 'completed' && log.totalMinutes) {
             elapsedTime = log.totalMinutes * 60; // convert to seconds
@@ -438,7 +449,11 @@ router.get('/dashboard', async (req, res) => {
           startedAt,
           completedAt,
           elapsedTime,
-          progressDays
+          progressDays,
+          attemptKind,
+          attempts,
+          firstCompletedAt,
+          examLocked: examLockedUnitIds.has(unit._id.toString())
         };
       }));
 
@@ -480,7 +495,10 @@ router.get('/dashboard', async (req, res) => {
           if (!prevDaySlot || (prevDaySlot.totalHours === 0 && !prevDaySlot.breakDuration && !prevDaySlot.slots.some(s => s.checked))) {
              // Only flag as missing if it's not a Sunday? 
              if (yesterday.getDay() !== 0) { // Assuming 0 is Sunday
-                 prevDayMissing = true;
+                 // Approved leave and academic calendar closures are not missed days
+                 const teacher = await User.findById(teacherId).select('batch').lean();
+                 const calendarDay = await getDayStatus({ date: yesterday, batchId: teacher?.batch || null });
+                 prevDayMissing = !prevDaySlot?.leave && !(calendarDay && !calendarDay.isWorkingDay);
              }
           }
         }
@@ -490,6 +508,7 @@ router.get('/dashboard', async (req, res) => {
       success: true,
       data: {
         prevDayMissing,
+        payPeriodLock: closedPeriod ? { name: closedPeriod.name, startDate: closedPeriod.startDate, endDate: closedPeriod.endDate } : null,
         timeSlots: timeSlots || {
           date: today,
           slots: [],
@@ -617,6 +636,14 @@ router.post('/time-slots/break', async (req, res) => {
     }
     targetDate.setHours(0, 0, 0, 0);
 
+    const closedPeriod = await findClosedPayPeriod(targetDate);
+    if (closedPeriod) {
+      return res.status(403).json({
+        success: false,
+        message: `${LOCKED_DAY_MESSAGE} (${closedPeriod.name})`
+      });
+    }
+
     // Ensure DailyTimeSlot record exists
     let currentTimeSlot = await DailyTimeSlot.findOne({
       teacher: teacherId,
@@ -624,27 +651,12 @@ router.post('/time-slots/break', async (req, res) => {
     });
 
     if (!currentTimeSlot) {
-      const slotDefinitions = {
-        '9-10': { label: '9:00 - 10:00', duration: 60 },
-        '10-11': { label: '10:00 - 11:00', duration: 60 },
-        '11-12': { label: '11:00 - 12:00', duration: 60 },
-        '12-13': { label: '12:00 - 13:00', duration: 60 },
-        '13-14': { label: '13:00 - 14:00', duration: 60 },
-        '14-15': { label: '14:00 - 15:00', duration: 60 },
-        '15-16': { label: '15:00 - 16:00', duration: 60 },
-        '16-17': { label: '16:00 - 17:00', duration: 60 }
-      };
+      const slotDefinitions = await getTeacherSlotDefinitions(teacherId, targetDate);
 
       currentTimeSlot = await DailyTimeSlot.create({
         teacher: teacherId,
         date: targetDate,
-        slots: Object.entries(slotDefinitions).map(([id, def]) => ({
-          slotId: id,
-          label: def.label,
-          duration: def.duration,
-          checked: false,
-          locked: false
-        }))
+        slots: buildDailySlots(slotDefinitions)
       });
     }
 
@@ -747,12 +759,12 @@ router.post('/time-slots/break', async (req, res) => {
 });
 
 // @route   POST /api/teacher/time-slots
-// @desc    Request time slot update (selections require approval, deselections are immediate)
+// @desc    Request time slot update (selections require approval and carry what was taught, deselections are immediate)
 // @access  Private/Teacher
 router.post('/time-slots', async (req, res) => {
   try {
     const teacherId = req.user.role === 'teacher' ? req.user.id : req.body.teacherId || req.user.id;
-    const { slotId, checked, breakDuration, date } = req.body;
+    const { slotId, checked, breakDuration, date, taught } = req.body;
 
     let targetDate = new Date();
     if (date) {
@@ -760,6 +772,15 @@ router.post('/time-slots', async (req, res) => {
     }
     targetDate.setHours(0, 0, 0, 0);
 
+    // Days of a closed pay period are locked (selections and immediate deselections alike)
+    const closedPeriod = await findClosedPayPeriod(targetDate);
+    if (closedPeriod) {
+      return res.status(403).json({
+        success: false,
+        message: `${LOCKED_DAY_MESSAGE} (${closedPeriod.name})`
+      });
+    }
+
     // Check the CURRENT state of the slot in the database
     let currentTimeSlot = await DailyTimeSlot.findOne({
       teacher: teacherId,
@@ -768,31 +789,16 @@ router.post('/time-slots', async (req, res) => {
 
     // Ensure DailyTimeSlot record exists
     if (!currentTimeSlot) {
-      const slotDefinitions = {
-        '9-10': { label: '9:00 - 10:00', duration: 60 },
-        '10-11': { label: '10:00 - 11:00', duration: 60 },
-        '11-12': { label: '11:00 - 12:00', duration: 60 },
-        '12-13': { label: '12:00 - 13:00', duration: 60 },
-        '13-14': { label: '13:00 - 14:00', duration: 60 },
-        '14-15': { label: '14:00 - 15:00', duration: 60 },
-        '15-16': { label: '15:00 - 16:00', duration: 60 },
-        '16-17': { label: '16:00 - 17:00', duration: 60 }
-      };
+      const slotDefinitions = await getTeacherSlotDefinitions(teacherId, targetDate);
 
       currentTimeSlot = await DailyTimeSlot.create({
         teacher: teacherId,
         date: targetDate,
-        slots: Object.entries(slotDefinitions).map(([id, def]) => ({
-          slotId: id,
-          label: def.label,
-          duration: def.duration,
-          checked: false,
-          locked: false
-        }))
+        slots: buildDailySlots(slotDefinitions)
       });
     }
 
-    const currentSlot = currentTimeSlot.slots.find(s => s.slotId === slotId);
+    let currentSlot = currentTimeSlot.slots.find(s => s.slotId === slotId);
     
     // If trying to select a slot that's already checked, or deselect one that's not checked
     // This means the action matches the current state - no need to send request
@@ -818,16 +824,7 @@ router.post('/time-slots', async (req, res) => {
       if (!currentSlot) {
         // Slot doesn't exist in DB - can't deselect what was never selected
         // But ensure slot exists in the array first
-        const slotDefinitions = {
-          '9-10': { label: '9:00 - 10:00', duration: 60 },
-          '10-11': { label: '10:00 - 11:00', duration: 60 },
-          '11-12': { label: '11:00 - 12:00', duration: 60 },
-          '12-13': { label: '12:00 - 13:00', duration: 60 },
-          '13-14': { label: '13:00 - 14:00', duration: 60 },
-          '14-15': { label: '14:00 - 15:00', duration: 60 },
-          '15-16': { label: '15:00 - 16:00', duration: 60 },
-          '16-17': { label: '16:00 - 17:00', duration: 60 }
-        };
+        const slotDefinitions = await getTeacherSlotDefinitions(teacherId, targetDate);
         
         const slotDef = slotDefinitions[slotId];
         if (slotDef) {
@@ -850,6 +847,7 @@ router.post('/time-slots', async (req, res) => {
       // Apply deselection immediately
       currentSlot.checked = false;
       currentSlot.checkedAt = null;
+      currentSlot.taught = null;
       
       // Recalculate total hours
       const checkedSlots = currentTimeSlot.slots.filter(s => s.checked);
@@ -888,7 +886,31 @@ router.post('/time-slots', async (req, res) => {
       });
     }
 
-    // SELECTION - Requires verifier approval
+    // SELECTION - Requires verifier approval unless an auto-approval rule allows it
+    // The slot must be a period of the day's record or of the current bell schedule
+    const slotDefinitions = await getTeacherSlotDefinitions(teacherId, targetDate);
+    let slotLabel = currentSlot ? currentSlot.label : null;
+    if (!currentSlot) {
+      if (!slotDefinitions[slotId]) {
+        return res.status(400).json({
+          success: false,
+          message: `Invalid time slot ID: ${slotId}`
+        });
+      }
+      slotLabel = slotDefinitions[slotId].label;
+    }
+
+    // What was taught in the slot (subject, unit, topic) travels with the request for the verifier
+    const tagResult = await resolveSlotTag(taught);
+    if (!tagResult.success) {
+      return res.status(400).json({
+        success: false,
+        message: tagResult.message
+      });
+    }
+    const plannedEntry = getPlannedEntry(currentTimeSlot, slotId);
+    const planned = plannedEntry ? { subjectName: plannedEntry.subjectName, batch: plannedEntry.batch } : null;
+
     // Check if there's already a pending approval for this exact slot+date+checked combination
     const existingPendingApproval = await Approval.findOne({
       type: 'time-slot',
@@ -900,7 +922,12 @@ router.post('/time-slots', async (req, res) => {
     });
 
     if (existingPendingApproval) {
-      // Already have this exact request pending, don't create duplicate
+      // Already have this exact request pending, don't create duplicate (a new tag replaces the old one)
+      if (tagResult.data) {
+        existingPendingApproval.requestData = { ...existingPendingApproval.requestData, taught: tagResult.data, planned };
+        existingPendingApproval.markModified('requestData');
+        await existingPendingApproval.save();
+      }
       return res.json({
         success: true,
         message: 'Time slot selection request already pending approval',
@@ -923,7 +950,8 @@ router.post('/time-slots', async (req, res) => {
 
     if (conflictingApproval) {
       // Update the conflicting approval instead of creating a new one
-      conflictingApproval.requestData.checked = true;
+      conflictingApproval.requestData = { ...conflictingApproval.requestData, checked: true, taught: tagResult.data, planned };
+      conflictingApproval.markModified('requestData');
       await conflictingApproval.save();
       
       return res.json({
@@ -936,6 +964,17 @@ router.post('/time-slots', async (req, res) => {
       });
     }
 
+    // Configured rules decide whether the selection is approved now or waits for a verifier;
+    // the rule that fired is kept on the approval for auditing
+    const context = buildTimeSlotContext({
+      dailySlot: currentTimeSlot,
+      slotId,
+      slotLabel,
+      slotDefinition: slotDefinitions[slotId],
+      date: targetDate
+    });
+    const rule = await evaluateAutoApprovalRules('time-slot', context);
+
     // Create new approval request for selection
     const approval = await Approval.create({
       type: 'time-slot',
@@ -945,10 +984,41 @@ router.post('/time-slots', async (req, res) => {
         teacherId: teacherId,
         date: targetDate.toISOString(),
         slotId: slotId,
-        checked: true
-      }
+        label: slotLabel,
+        checked: true,
+        taught: tagResult.data,
+        planned
+      },
+      policy: rule ? {
+        rule: rule._id,
+        name: rule.name,
+        action: rule.action,
+        context,
+        evaluatedAt: new Date()
+      } : null
     });
 
+    if (rule && rule.action === 'approve') {
+      const result = await applyTimeSlotApproval(approval);
+      // If the slot could not be applied the request stays pending for a verifier
+      if (result.success) {
+        approval.status = 'approved';
+        approval.approvedAt = new Date();
+        await approval.save();
+
+        return res.json({
+          success: true,
+          message: `Time slot selected (auto-approved by rule "${rule.name}")`,
+          data: {
+            approvalId: approval._id,
+            status: 'approved',
+            autoApproved: true,
+            rule: rule.name
+          }
+        });
+      }
+    }
+
     res.json({
       success: true,
       message: 'Time slot selection request submitted (pending verifier approval)',
@@ -972,6 +1042,9 @@ router.post('/units/:unitId/start', async (req, res) => {
   try {
     const teacherId = req.user.id;
     const { unitId } = req.params;
+    // Only used when restarting a completed unit
+    const attemptKind = req.body?.attemptKind || 'revision';
+    const restartReason = String(req.body?.reason || '').trim();
 
     // Get unit first to get the subject
     const unit = await Unit.findById(unitId);
@@ -992,20 +1065,30 @@ router.post('/units/:unitId/start', async (req, res) => {
       });
     }
 
-    // Check if another unit in the SAME subject is in progress
+    // Units whose exam is finished are frozen (start and restart alike)
+    if ((await getExamLockedUnitIds([unit._id])).size > 0) {
+      return res.status(400).json({
+        success: false,
+        message: EXAM_LOCKED_MESSAGE
+      });
+    }
+
+    // Check if another unit in the SAME subject is in progress (or paused)
     const inProgressUnitInSameSubject = await UnitLog.findOne({
       teacher: teacherId,
-      status: 'in-progress',
-      subject: subject._id
+      status: { $in: ACTIVE_UNIT_STATUSES },
+      subject: subject._id,
+      unit: { $ne: unitId }
     });
 
     if (inProgressUnitInSameSubject) {
       // Get the in-progress unit details for better error message
       const inProgressUnit = await Unit.findById(inProgressUnitInSameSubject.unit);
       const unitName = inProgressUnit ? inProgressUnit.name : 'another unit';
+      const state = inProgressUnitInSameSubject.status === 'paused' ? 'paused' : 'already in progress';
       return res.status(400).json({
         success: false,
-        message: `Another unit (${unitName}) in ${subject.name} is already in progress. Please complete it first before starting a new one.`
+        message: `Another unit (${unitName}) in ${subject.name} is ${state}. Please complete it first before starting a new one.`
       });
     }
 
@@ -1046,20 +1129,46 @@ router.post('/units/:unitId/start', async (req, res) => {
           message: 'This unit is already in progress'
         });
       }
-      
-      // Restart unit
-      unitLog.status = 'in-progress';
-      unitLog.startTime = new Date();
-      unitLog.endTime = null;
-      unitLog.totalMinutes = 0;
+      if (unitLog.status === 'paused') {
+        return res.status(400).json({
+          success: false,
+          message: 'This unit is paused. Resume it instead of starting it again.'
+        });
+      }
+
+      const now = new Date();
+      if (unitLog.status === 'completed') {
+        // Restarting a completed unit keeps the finished run as an earlier attempt
+        if (!RESTART_ATTEMPT_KINDS.includes(attemptKind)) {
+          return res.status(400).json({
+            success: false,
+            message: `Restart type must be one of: ${RESTART_ATTEMPT_KINDS.join(', ')}`
+          });
+        }
+        if (!restartReason) {
+          return res.status(400).json({
+            success: false,
+            message: 'A reason is required to restart a completed unit'
+          });
+        }
+        unitLog.startNewAttempt({ kind: attemptKind, reason: restartReason, now });
+      } else {
+        unitLog.startTime = now;
+        unitLog.endTime = null;
+        unitLog.totalMinutes = 0;
+        unitLog.sessions = [];
+        unitLog.openSession(now);
+      }
       await unitLog.save();
     } else {
       // Create new unit log
+      const now = new Date();
       unitLog = await UnitLog.create({
         unit: unitId,
         teacher: teacherId,
         subject: subject._id,
-        startTime: new Date(),
+        startTime: now,
+        sessions: [{ startTime: now, endTime: null }],
         status: 'in-progress',
         endTime: null,
         totalMinutes: 0
@@ -1078,13 +1187,15 @@ router.post('/units/:unitId/start', async (req, res) => {
         unitId: unitId,
         subjectId: subject._id,
         unitName: unit.name,
-        subjectName: subject.name
+        subjectName: subject.name,
+        attemptKind: unitLog.attemptKind,
+        restartReason: unitLog.restartReason
       }
     });
 
     res.json({
       success: true,
-      message: 'Unit started successfully',
+      message: unitLog.attemptKind === 'first-delivery' ? 'Unit started successfully' : `Unit restarted (${unitLog.attemptKind})`,
       data: {
         unitLogId: unitLog._id,
         status: 'in-progress'
@@ -1099,6 +1210,83 @@ router.post('/units/:unitId/start', async (req, res) => {
   }
 });
 
+// @route   POST /api/teacher/units/:unitId/pause
+// @desc    Pause a running unit (time stops counting until it is resumed)
+// @access  Private/Teacher
+router.post('/units/:unitId/pause', async (req, res) => {
+  try {
+    const unitLog = await UnitLog.findOne({
+      unit: req.params.unitId,
+      teacher: req.user.id
+    });
+
+    if (!unitLog || unitLog.status !== 'in-progress') {
+      return res.status(400).json({
+        success: false,
+        message: unitLog?.status === 'paused' ? 'This unit is already paused' : 'Only a unit in progress can be paused'
+      });
+    }
+
+    unitLog.closeSession(new Date());
+    unitLog.status = 'paused';
+    await unitLog.save();
+
+    res.json({
+      success: true,
+      message: 'Unit paused',
+      data: {
+        unitLogId: unitLog._id,
+        status: 'paused',
+        totalMinutes: unitLog.totalMinutes
+      }
+    });
+  } catch (error) {
+    console.error('Error pausing unit:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Failed to pause unit'
+    });
+  }
+});
+
+// @route   POST /api/teacher/units/:unitId/resume
+// @desc    Resume a paused unit with a new teaching session
+// @access  Private/Teacher
+router.post('/units/:unitId/resume', async (req, res) => {
+  try {
+    const unitLog = await UnitLog.findOne({
+      unit: req.params.unitId,
+      teacher: req.user.id
+    });
+
+    if (!unitLog || unitLog.status !== 'paused') {
+      return res.status(400).json({
+        success: false,
+        message: unitLog?.status === 'in-progress' ? 'This unit is already running' : 'Only a paused unit can be resumed'
+      });
+    }
+
+    unitLog.openSession(new Date());
+    await unitLog.save();
+
+    res.json({
+      success: true,
+      message: 'Unit resumed',
+      data: {
+        unitLogId: unitLog._id,
+        status: 'in-progress',
+        totalMinutes: unitLog.totalMinutes
+      }
+    });
+  } catch (error) {
+    console.error('Error resuming unit:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message || 'Failed to resume unit'
+    });
+  }
+});
+
 // @route   POST /api/teacher/units/:unitId/complete
 // @desc    Request unit completion (requires verifier approval)
 // @access  Private/Teacher
@@ -1127,9 +1315,20 @@ router.post('/units/:unitId/complete', async (req, res) => {
       });
     }
 
-    // Complete the unit immediately
+    if ((await getExamLockedUnitIds([unitId])).size > 0) {
+      return res.status(400).json({
+        success: false,
+        message: EXAM_LOCKED_MESSAGE
+      });
+    }
+
+    // Complete the unit immediately, closing the running session
+    const now = new Date();
+    if (ACTIVE_UNIT_STATUSES.includes(unitLog.status)) {
+      unitLog.closeSession(now);
+    }
     unitLog.status = 'completed';
-    unitLog.endTime = new Date();
+    unitLog.endTime = now;
     // totalMinutes will be calculated by pre-save hook
     await unitLog.save();
 
@@ -1165,6 +1364,110 @@ router.post('/units/:unitId/complete', async (req, res) => {
   }
 });
 
+// @route   POST /api/teacher/leave
+// @desc    Request leave for a date range (requires approval)
+// @access  Private/Teacher
+router.post('/leave', async (req, res) => {
+  try {
+    const teacherId = req.user.role === 'teacher' ? req.user.id : req.body.teacherId || req.user.id;
+    const { startDate, endDate, duration = 'full', session, reason } = req.body;
+
+    if (!startDate || !reason || !String(reason).trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'startDate and reason are required'
+      });
+    }
+    if (!LEAVE_DURATIONS.includes(duration)) {
+      return res.status(400).json({
+        success: false,
+        message: `duration must be one of: ${LEAVE_DURATIONS.join(', ')}`
+      });
+    }
+
+    const start = new Date(startDate);
+    const end = new Date(endDate || startDate);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid date'
+      });
+    }
+    start.setHours(0, 0, 0, 0);
+    end.setHours(0, 0, 0, 0);
+    if (end < start) {
+      return res.status(400).json({
+        success: false,
+        message: 'endDate must be on or after startDate'
+      });
+    }
+    if ((end - start) / (1000 * 60 * 60 * 24) + 1 > MAX_LEAVE_DAYS) {
+      return res.status(400).json({
+        success: false,
+        message: `A leave request can cover at most ${MAX_LEAVE_DAYS} days`
+      });
+    }
+    if (duration === 'half' && (end.getTime() !== start.getTime() || !HALF_DAY_SESSIONS.includes(session))) {
+      return res.status(400).json({
+        success: false,
+        message: `Half-day leave is for a single date and needs a session (${HALF_DAY_SESSIONS.join(' or ')})`
+      });
+    }
+
+    const lockedDateKeys = await getLockedDateKeys({ start, end });
+    if (lockedDateKeys.size > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Leave cannot include days of a closed pay period: ${[...lockedDateKeys].join(', ')}`
+      });
+    }
+
+    // Reject overlaps with leave that is already pending or approved
+    const existingLeave = await Approval.find({
+      type: 'leave',
+      status: { $in: ['pending', 'approved'] },
+      requestedBy: teacherId
+    }).lean();
+    const overlapping = existingLeave.find(a =>
+      new Date(a.requestData.startDate) <= end && new Date(a.requestData.endDate) >= start
+    );
+    if (overlapping) {
+      return res.status(400).json({
+        success: false,
+        message: `You already have ${overlapping.status} leave overlapping these dates`
+      });
+    }
+
+    const approval = await Approval.create({
+      type: 'leave',
+      status: 'pending',
+      requestedBy: teacherId,
+      requestData: {
+        teacherId,
+        startDate: start.toISOString(),
+        endDate: end.toISOString(),
+        duration,
+        session: duration === 'half' ? session : null,
+        reason: String(reason).trim()
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Leave request submitted (pending verifier approval)',
+      data: {
+        approvalId: approval._id,
+        status: 'pending'
+      }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
 // @route   GET /api/teacher/pending-approvals
 // @desc    Get pending approvals for current teacher
 // @access  Private/Teacher
@@ -1284,6 +1587,10 @@ router.get('/calendar', async (req, res) => {
     const end = new Date(endDate);
     end.setHours(23, 59, 59, 999); // Include the entire end date
 
+    // Holidays, vacations and exam weeks for the teacher's batch (college-wide when no batch is set)
+    const teacher = await User.findById(teacherId).select('batch').lean();
+    const calendarDays = await getCalendarDays({ start, end, batchId: teacher?.batch || null });
+
     // Get time slots for the date range
     const timeSlots = await DailyTimeSlot.find({
       teacher: teacherId,
@@ -1294,6 +1601,8 @@ router.get('/calendar', async (req, res) => {
         select: 'name email',
         strictPopulate: false
       })
+      .populate('scheduleEntries.coveredBy', 'name')
+      .populate('scheduleEntries.coverFor', 'name')
       .sort({ date: 1 })
       .lean();
 
@@ -1379,6 +1688,7 @@ router.get('/calendar', async (req, res) => {
       success: true,
       data: {
         timeSlots: processedTimeSlots,
+        calendarDays,
         unitLogs: validLogs.map(log => ({
           _id: log._id,
           subject: log.subject ? {
@@ -1407,6 +1717,94 @@ router.get('/calendar', async (req, res) => {
   }
 });
 
+// @route   GET /api/teacher/calendar.ics
+// @desc    Download scheduled classes for a date range as an iCalendar file
+// @access  Private/Teacher
+router.get('/calendar.ics', async (req, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+    if (!startDate || !endDate) {
+      return res.status(400).json({ success: false, message: 'startDate and endDate are required' });
+    }
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) {
+      return res.status(400).json({ success: false, message: 'Invalid date range' });
+    }
+
+    const teacher = await User.findById(req.user.id).select('name');
+    const ics = await getTeacherTimetableCalendar({ teacher, start, end });
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Content-Disposition', 'attachment; filename="timetable.ics"');
+    res.send(ics);
+  } catch (error) {
+    console.error('Error exporting calendar:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   GET /api/teacher/calendar-feed
+// @desc    Get the current secret token of the subscribable timetable feed (null when none)
+// @access  Private/Teacher
+router.get('/calendar-feed', async (req, res) => {
+  try {
+    const user = await User.findById(req.user.id).select('+calendarFeedToken');
+    res.json({
+      success: true,
+      data: { token: user?.calendarFeedToken || null }
+    });
+  } catch (error) {
+    console.error('Error fetching calendar feed:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/teacher/calendar-feed
+// @desc    Create (or rotate) the feed token; any previous feed URL stops working
+// @access  Private/Teacher
+router.post('/calendar-feed', async (req, res) => {
+  try {
+    const token = crypto.randomBytes(24).toString('hex');
+    await User.updateOne({ _id: req.user.id }, { $set: { calendarFeedToken: token } });
+    res.json({
+      success: true,
+      data: { token }
+    });
+  } catch (error) {
+    console.error('Error creating calendar feed:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   DELETE /api/teacher/calendar-feed
+// @desc    Revoke the feed token
+// @access  Private/Teacher
+router.delete('/calendar-feed', async (req, res) => {
+  try {
+    await User.updateOne({ _id: req.user.id }, { $unset: { calendarFeedToken: 1 } });
+    res.json({
+      success: true,
+      message: 'Calendar feed revoked'
+    });
+  } catch (error) {
+    console.error('Error revoking calendar feed:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
 // @route   PATCH /api/teacher/calendar/day
 // @desc    Set subject and batch for an existing timetable day (for data that was applied before subject/batch was stored)
 // @access  Private/Teacher
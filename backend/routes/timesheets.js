@@ -0,0 +1,263 @@
+import express from 'express';
+import Timesheet from '../models/Timesheet.js';
+import { protect, authorize } from '../middleware/auth.js';
+import { buildTimesheetSnapshot, getMonthRange } from '../utils/timesheets.js';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(protect);
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+const isReviewer = (user) => user.role === 'verifier' || user.role === 'admin';
+
+const populateTimesheet = (query) => query
+  .populate('teacher', 'name email')
+  .populate('signedOffBy', 'name email');
+
+// Teachers only see their own timesheets; verifiers and admins see all
+const findAccessibleTimesheet = async (req) => {
+  const timesheet = await Timesheet.findById(req.params.id);
+  if (!timesheet) return null;
+  if (!isReviewer(req.user) && timesheet.teacher.toString() !== req.user.id.toString()) return null;
+  return timesheet;
+};
+
+// @route   GET /api/timesheets
+// @desc    List timesheets (own for teachers; filter by month, status, teacherId for verifiers)
+// @access  Private
+router.get('/', async (req, res) => {
+  try {
+    const { month, status, teacherId } = req.query;
+    const filter = {};
+    if (month) filter.month = month;
+    if (status && status !== 'all') filter.status = status;
+    if (!isReviewer(req.user)) {
+      filter.teacher = req.user.id;
+    } else if (teacherId && teacherId !== 'all') {
+      filter.teacher = teacherId;
+    }
+
+    const timesheets = await populateTimesheet(Timesheet.find(filter))
+      .sort({ month: -1, updatedAt: -1 })
+      .lean();
+
+    res.json({
+      success: true,
+      data: timesheets
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/timesheets/generate
+// @desc    Build (or refresh) the teacher's draft timesheet for a month from approved slots
+// @access  Private/Teacher
+router.post('/generate', authorize('teacher', 'admin'), async (req, res) => {
+  try {
+    const { month } = req.body;
+    const teacherId = req.user.role === 'teacher' ? req.user.id : req.body.teacherId || req.user.id;
+    if (!MONTH_PATTERN.test(String(month || ''))) {
+      return res.status(400).json({
+        success: false,
+        message: 'month is required as YYYY-MM'
+      });
+    }
+
+    let timesheet = await Timesheet.findOne({ teacher: teacherId, month });
+    if (timesheet && timesheet.status !== 'draft') {
+      return res.status(400).json({
+        success: false,
+        message: `This timesheet is already ${timesheet.status} and cannot be rebuilt`
+      });
+    }
+
+    const snapshot = await buildTimesheetSnapshot(teacherId, month);
+    if (!timesheet) {
+      timesheet = new Timesheet({ teacher: teacherId, month });
+    }
+    Object.assign(timesheet, snapshot, { generatedAt: new Date() });
+    await timesheet.save();
+
+    res.json({
+      success: true,
+      data: await populateTimesheet(Timesheet.findById(timesheet._id)).lean()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/timesheets/:id/confirm
+// @desc    Teacher confirms the hours of a finished month (the snapshot is refreshed first)
+// @access  Private/Teacher
+router.post('/:id/confirm', authorize('teacher', 'admin'), async (req, res) => {
+  try {
+    const timesheet = await Timesheet.findById(req.params.id);
+    if (!timesheet || (req.user.role === 'teacher' && timesheet.teacher.toString() !== req.user.id.toString())) {
+      return res.status(404).json({
+        success: false,
+        message: 'Timesheet not found'
+      });
+    }
+    if (timesheet.status !== 'draft') {
+      return res.status(400).json({
+        success: false,
+        message: `This timesheet is already ${timesheet.status}`
+      });
+    }
+
+    const { end } = getMonthRange(timesheet.month);
+    end.setHours(23, 59, 59, 999);
+    if (end > new Date()) {
+      return res.status(400).json({
+        success: false,
+        message: 'A timesheet can be confirmed once the month is over'
+      });
+    }
+
+    Object.assign(timesheet, await buildTimesheetSnapshot(timesheet.teacher, timesheet.month), {
+      generatedAt: new Date(),
+      status: 'confirmed',
+      confirmedAt: new Date(),
+      returnReason: null
+    });
+    await timesheet.save();
+
+    res.json({
+      success: true,
+      data: await populateTimesheet(Timesheet.findById(timesheet._id)).lean()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/timesheets/:id/sign-off
+// @desc    Verifier signs off a confirmed timesheet; its snapshot becomes final
+// @access  Private/Verifier/Admin
+router.post('/:id/sign-off', authorize('verifier', 'admin'), async (req, res) => {
+  try {
+    const timesheet = await Timesheet.findById(req.params.id);
+    if (!timesheet) {
+      return res.status(404).json({
+        success: false,
+        message: 'Timesheet not found'
+      });
+    }
+    if (timesheet.status !== 'confirmed') {
+      return res.status(400).json({
+        success: false,
+        message: timesheet.status === 'draft'
+          ? 'The teacher has not confirmed this timesheet yet'
+          : 'This timesheet is already signed off'
+      });
+    }
+
+    // Hours changed after the teacher confirmed (e.g. a late approval) - they have to confirm again
+    const current = await buildTimesheetSnapshot(timesheet.teacher, timesheet.month);
+    if (current.totalHours !== timesheet.totalHours || current.totalSlots !== timesheet.totalSlots) {
+      return res.status(409).json({
+        success: false,
+        message: `Hours changed since the teacher confirmed (${timesheet.totalHours}h → ${current.totalHours}h). Return it for re-confirmation.`
+      });
+    }
+
+    timesheet.status = 'signed-off';
+    timesheet.signedOffAt = new Date();
+    timesheet.signedOffBy = req.user.id;
+    await timesheet.save();
+
+    res.json({
+      success: true,
+      data: await populateTimesheet(Timesheet.findById(timesheet._id)).lean()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/timesheets/:id/return
+// @desc    Send a confirmed timesheet back to the teacher as a draft
+// @access  Private/Verifier/Admin
+router.post('/:id/return', authorize('verifier', 'admin'), async (req, res) => {
+  try {
+    const reason = String(req.body?.reason || '').trim();
+    if (!reason) {
+      return res.status(400).json({
+        success: false,
+        message: 'A reason is required'
+      });
+    }
+
+    const timesheet = await Timesheet.findById(req.params.id);
+    if (!timesheet) {
+      return res.status(404).json({
+        success: false,
+        message: 'Timesheet not found'
+      });
+    }
+    if (timesheet.status !== 'confirmed') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only confirmed timesheets can be returned'
+      });
+    }
+
+    timesheet.status = 'draft';
+    timesheet.confirmedAt = null;
+    timesheet.returnReason = reason;
+    await timesheet.save();
+
+    res.json({
+      success: true,
+      data: await populateTimesheet(Timesheet.findById(timesheet._id)).lean()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   GET /api/timesheets/:id
+// @desc    Get one timesheet with its day-by-day snapshot
+// @access  Private
+router.get('/:id', async (req, res) => {
+  try {
+    const timesheet = await findAccessibleTimesheet(req);
+    if (!timesheet) {
+      return res.status(404).json({
+        success: false,
+        message: 'Timesheet not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: await populateTimesheet(Timesheet.findById(timesheet._id)).lean()
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+export default router;
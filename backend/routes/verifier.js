@@ -2,7 +2,7 @@ import express from 'express';
 import mongoose from 'mongoose';
 import { protect, authorize } from '../middleware/auth.js';
 import Approval from '../models/Approval.js';
-import UnitLog from '../models/UnitLog.js';
+import UnitLog, { ACTIVE_UNIT_STATUSES, RESTART_ATTEMPT_KINDS, getUnitLogMinutes, getFirstCompletedAt } from '../models/UnitLog.js';
 import DailyTimeSlot from '../models/DailyTimeSlot.js';
 import Subject from '../models/Subject.js';
 import User from '../models/User.js';
@@ -10,7 +10,23 @@ import Unit from '../models/Unit.js';
 import SubjectAssignment from '../models/SubjectAssignment.js';
 import Batch from '../models/Batch.js';
 import ExamStatus from '../models/ExamStatus.js';
+import Exam, { EXAM_TYPES, DEFAULT_AT_RISK_DAYS } from '../models/Exam.js';
+import SyllabusTemplate from '../models/SyllabusTemplate.js';
 import TimeTableHistory from '../models/TimeTableHistory.js';
+import WeeklyTimetable from '../models/WeeklyTimetable.js';
+import { getSlotDefinitions, getTeacherSlotDefinitions, buildDailySlots } from '../utils/bellSchedule.js';
+import { generateFromTimetable, clearGeneratedEntries, MAX_TIMETABLE_DAYS } from '../utils/weeklyTimetable.js';
+import { detectTimetableClashes } from '../utils/timetableClashes.js';
+import { createWorkingDayCounter, getCalendarDays, toDateKey } from '../utils/academicCalendar.js';
+import { getLeaveSlotIds, flagEntriesForCover } from '../utils/leave.js';
+import { assignCover, removeCover, removeDroppedCovers, getDroppedCoveredEntries, isSameClass, findBusyTeacherIds, collectScheduledSlotIds } from '../utils/cover.js';
+import { applyTimeSlotApproval } from '../utils/autoApproval.js';
+import { findClosedPayPeriod, getLockedDateKeys, LOCKED_DAY_MESSAGE } from '../utils/payPeriods.js';
+import { refreshSubjectPlannedHours, emptyProgressWeights, addUnitWeights } from '../utils/unitPlan.js';
+import { checkSyllabusRows, applySyllabusImport } from '../utils/syllabusImport.js';
+import { resolveExamPortion, addExamReadiness } from '../utils/examReadiness.js';
+import { getTemplateMergePlan, applyTemplateMerge, createSubjectFromTemplate } from '../utils/syllabusTemplates.js';
+import { renumberUnits, getOrderedUnitIds, countPendingUnitApprovals, mergeUnitLogs, moveUnitReferences, mergeExamStatuses, addPartsToExamPortions, removeFromExamPortions } from '../utils/unitEditing.js';
 
 const router = express.Router();
 
@@ -62,8 +78,8 @@ router.get('/dashboard', async (req, res) => {
       }))
     };
 
-    // Get in-progress units with progress information
-    const inProgressUnits = await UnitLog.find({ status: 'in-progress' })
+    // Get in-progress (and paused) units with progress information
+    const inProgressUnits = await UnitLog.find({ status: { $in: ACTIVE_UNIT_STATUSES } })
       .populate({
         path: 'teacher',
         select: 'name email',
@@ -71,7 +87,7 @@ router.get('/dashboard', async (req, res) => {
       })
       .populate({
         path: 'subject',
-        select: 'name color',
+        select: 'name color batch',
         strictPopulate: false
       })
       .populate({
@@ -81,14 +97,18 @@ router.get('/dashboard', async (req, res) => {
       })
       .sort({ startTime: -1 });
 
+    // Progress days count working days only (holidays and vacations from the academic calendar are skipped)
+    const countWorkingDays = await createWorkingDayCounter({
+      from: inProgressUnits.length > 0 ? inProgressUnits[inProgressUnits.length - 1].startTime : new Date()
+    });
+
     // Format in-progress units with progress days
     const formattedInProgressUnits = inProgressUnits
       .filter(log => log.teacher && log.subject && log.unit)
       .map(log => {
-        const daysSinceStart = Math.floor((new Date() - log.startTime) / (1000 * 60 * 60 * 24));
+        const daysSinceStart = countWorkingDays(log.startTime, log.subject?.batch);
         const progressDays = daysSinceStart >= 1 ? daysSinceStart : 0;
-        const elapsedMs = new Date() - log.startTime;
-        const totalHours = elapsedMs / (1000 * 60 * 60);
+        const totalHours = getUnitLogMinutes(log) / 60;
 
         return {
           id: log._id.toString(),
@@ -100,6 +120,7 @@ router.get('/dashboard', async (req, res) => {
           unit: log.unit?.name || 'Unknown Unit',
           startedAt: log.startTime,
           totalHours: totalHours,
+          status: log.status,
           progressDays: progressDays
         };
       });
@@ -255,6 +276,15 @@ router.post('/approvals/:approvalId/approve', async (req, res) => {
       });
     }
 
+    // Requests that would change a day in a closed pay period cannot be approved
+    const lockedReason = await getApprovalLockReason(approval);
+    if (lockedReason) {
+      return res.status(400).json({
+        success: false,
+        message: lockedReason
+      });
+    }
+
     // Process the approval based on type
     let result;
     switch (approval.type) {
@@ -265,7 +295,7 @@ router.post('/approvals/:approvalId/approve', async (req, res) => {
         result = await processUnitStartApproval(approval);
         break;
       case 'time-slot':
-        result = await processTimeSlotApproval(approval);
+        result = await applyTimeSlotApproval(approval);
         break;
       case 'break-timing':
         result = await processBreakTimingApproval(approval);
@@ -273,6 +303,9 @@ router.post('/approvals/:approvalId/approve', async (req, res) => {
       case 'subject-assign':
         result = await processSubjectAssignApproval(approval);
         break;
+      case 'leave':
+        result = await processLeaveApproval(approval);
+        break;
       default:
         return res.status(400).json({
           success: false,
@@ -369,8 +402,12 @@ async function processUnitCompleteApproval(approval) {
       return { success: false, message: 'Unit is already completed' };
     }
 
-    // Complete the unit
-    unitLog.endTime = new Date();
+    // Complete the unit, closing the running session
+    const now = new Date();
+    if (ACTIVE_UNIT_STATUSES.includes(unitLog.status)) {
+      unitLog.closeSession(now);
+    }
+    unitLog.endTime = now;
     unitLog.status = 'completed';
     await unitLog.save();
 
@@ -387,7 +424,7 @@ async function processUnitStartApproval(approval) {
     // Check if another unit is in progress
     const inProgressUnit = await UnitLog.findOne({
       teacher: teacherId,
-      status: 'in-progress'
+      status: { $in: ACTIVE_UNIT_STATUSES }
     });
 
     if (inProgressUnit) {
@@ -400,30 +437,32 @@ async function processUnitStartApproval(approval) {
       teacher: teacherId
     });
 
+    const now = new Date();
     if (unitLog) {
       if (unitLog.status === 'completed') {
-        // Restart completed unit
-        unitLog.startTime = new Date();
-        unitLog.status = 'in-progress';
-        unitLog.endTime = null;
-        unitLog.totalMinutes = 0;
+        // Restart completed unit, keeping the finished run as an earlier attempt
         unitLog.subject = subjectId;
-        await unitLog.save();
+        unitLog.startNewAttempt({
+          kind: RESTART_ATTEMPT_KINDS.includes(approval.requestData.attemptKind) ? approval.requestData.attemptKind : 'revision',
+          reason: approval.requestData.restartReason || 'Restart approved by verifier',
+          now
+        });
       } else {
-        // Update existing log
-        unitLog.startTime = new Date();
-        unitLog.status = 'in-progress';
+        unitLog.startTime = now;
         unitLog.endTime = null;
         unitLog.totalMinutes = 0;
-        await unitLog.save();
+        unitLog.sessions = [];
+        unitLog.openSession(now);
       }
+      await unitLog.save();
     } else {
       // Create new unit log
       unitLog = await UnitLog.create({
         unit: unitId,
         teacher: teacherId,
         subject: subjectId,
-        startTime: new Date(),
+        startTime: now,
+        sessions: [{ startTime: now, endTime: null }],
         status: 'in-progress',
         endTime: null,
         totalMinutes: 0
@@ -436,70 +475,18 @@ async function processUnitStartApproval(approval) {
   }
 }
 
-async function processTimeSlotApproval(approval) {
-  try {
-    const { teacherId, date, slotId, checked } = approval.requestData;
-
-    const targetDate = new Date(date);
-    targetDate.setHours(0, 0, 0, 0);
-
-    let dailySlot = await DailyTimeSlot.findOne({
-      teacher: teacherId,
-      date: targetDate
-    });
-
-    // Time slot definitions
-    const slotDefinitions = {
-      '9-10': { label: '9:00 - 10:00', duration: 60 },
-      '10-11': { label: '10:00 - 11:00', duration: 60 },
-      '11-12': { label: '11:00 - 12:00', duration: 60 },
-      '12-13': { label: '12:00 - 13:00', duration: 60 },
-      '13-14': { label: '13:00 - 14:00', duration: 60 },
-      '14-15': { label: '14:00 - 15:00', duration: 60 },
-      '15-16': { label: '15:00 - 16:00', duration: 60 },
-      '16-17': { label: '16:00 - 17:00', duration: 60 }
-    };
-
-    if (!dailySlot) {
-      // Create new daily slot record
-      dailySlot = await DailyTimeSlot.create({
-        teacher: teacherId,
-        date: targetDate,
-        slots: Object.entries(slotDefinitions).map(([id, def]) => ({
-          slotId: id,
-          label: def.label,
-          duration: def.duration,
-          checked: id === slotId ? checked : false,
-          locked: false,
-          checkedAt: id === slotId && checked ? new Date() : null
-        }))
-      });
-    } else {
-      // Find and update the slot
-      const slot = dailySlot.slots.find(s => s.slotId === slotId);
-      if (slot) {
-        slot.checked = checked;
-        slot.checkedAt = checked ? new Date() : null;
-      } else {
-        // Add missing slot
-        if (slotDefinitions[slotId]) {
-          dailySlot.slots.push({
-            slotId: slotId,
-            label: slotDefinitions[slotId].label,
-            duration: slotDefinitions[slotId].duration,
-            checked: checked,
-            locked: false,
-            checkedAt: checked ? new Date() : null
-          });
-        }
-      }
-      await dailySlot.save();
-    }
-
-    return { success: true, data: dailySlot };
-  } catch (error) {
-    return { success: false, message: error.message };
+// Message when an approval would change a day of a closed pay period, otherwise null
+async function getApprovalLockReason(approval) {
+  const { date, startDate, endDate } = approval.requestData || {};
+  if ((approval.type === 'time-slot' || approval.type === 'break-timing') && date) {
+    const period = await findClosedPayPeriod(date);
+    return period ? `${LOCKED_DAY_MESSAGE} (${period.name})` : null;
+  }
+  if (approval.type === 'leave' && startDate && endDate) {
+    const lockedDateKeys = await getLockedDateKeys({ start: startDate, end: endDate });
+    return lockedDateKeys.size > 0 ? `Leave includes days of a closed pay period: ${[...lockedDateKeys].join(', ')}` : null;
   }
+  return null;
 }
 
 async function processBreakTimingApproval(approval) {
@@ -516,27 +503,12 @@ async function processBreakTimingApproval(approval) {
 
     if (!dailySlot) {
       // Create new daily slot record with break timing
-      const slotDefinitions = {
-        '9-10': { label: '9:00 - 10:00', duration: 60 },
-        '10-11': { label: '10:00 - 11:00', duration: 60 },
-        '11-12': { label: '11:00 - 12:00', duration: 60 },
-        '12-13': { label: '12:00 - 13:00', duration: 60 },
-        '13-14': { label: '13:00 - 14:00', duration: 60 },
-        '14-15': { label: '14:00 - 15:00', duration: 60 },
-        '15-16': { label: '15:00 - 16:00', duration: 60 },
-        '16-17': { label: '16:00 - 17:00', duration: 60 }
-      };
+      const slotDefinitions = await getTeacherSlotDefinitions(teacherId, targetDate);
 
       dailySlot = await DailyTimeSlot.create({
         teacher: teacherId,
         date: targetDate,
-        slots: Object.entries(slotDefinitions).map(([id, def]) => ({
-          slotId: id,
-          label: def.label,
-          duration: def.duration,
-          checked: false,
-          locked: false
-        })),
+        slots: buildDailySlots(slotDefinitions),
         breakDuration: breakDuration,
         breakChecked: true,
         breakCheckedAt: new Date()
@@ -560,6 +532,61 @@ async function processBreakTimingApproval(approval) {
   }
 }
 
+async function processLeaveApproval(approval) {
+  try {
+    const { teacherId, startDate, endDate, duration, session, reason } = approval.requestData;
+
+    const start = new Date(startDate);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(endDate || startDate);
+    end.setHours(0, 0, 0, 0);
+
+    // Holidays and vacations are not leave days
+    const teacher = await User.findById(teacherId).select('batch').lean();
+    const calendarDays = await getCalendarDays({ start, end, batchId: teacher?.batch || null });
+
+    const days = [];
+    const coverNeeded = [];
+    for (let date = new Date(start); date <= end; date.setDate(date.getDate() + 1)) {
+      const calendarDay = calendarDays[toDateKey(date)];
+      if (calendarDay && !calendarDay.isWorkingDay) continue;
+
+      const targetDate = new Date(date);
+      const slotDefinitions = await getTeacherSlotDefinitions(teacherId, targetDate);
+      let dailySlot = await DailyTimeSlot.findOne({ teacher: teacherId, date: targetDate });
+      if (!dailySlot) {
+        dailySlot = new DailyTimeSlot({
+          teacher: teacherId,
+          date: targetDate,
+          slots: buildDailySlots(slotDefinitions)
+        });
+      }
+
+      dailySlot.leave = {
+        duration,
+        session: duration === 'half' ? session : null,
+        slotIds: getLeaveSlotIds(slotDefinitions, duration, session),
+        reason: reason || '',
+        approval: approval._id
+      };
+      const flagged = flagEntriesForCover(dailySlot);
+      await dailySlot.save();
+
+      days.push(targetDate);
+      flagged.forEach(entry => coverNeeded.push({
+        date: targetDate,
+        subjectName: entry.subjectName,
+        batch: entry.batch,
+        slotIds: entry.slotIds
+      }));
+    }
+
+    return { success: true, data: { days, coverNeeded } };
+  } catch (error) {
+    return { success: false, message: error.message };
+  }
+}
+
 async function processSubjectAssignApproval(approval) {
   try {
     const { teacherId, subjectId } = approval.requestData;
@@ -767,18 +794,26 @@ router.get('/assign/teachers-incomplete', async (req, res) => {
         });
         
         if (incompleteUnits.length > 0) {
+          // Weighted progress: planned hours / exam marks of all units and of the completed ones
+          const weights = emptyProgressWeights();
+          subjectUnits.forEach(unit => addUnitWeights(weights, unit, ['total']));
+          completedUnits.forEach(unit => addUnitWeights(weights, unit, ['completed']));
+
           incompleteSubjects.push({
             subjectId: subject._id,
             subjectName: subject.name,
             totalUnits: subjectUnits.length,
             completedUnits: completedUnits.length,
             incompleteUnits: incompleteUnits.length,
+            weights,
             remainingUnits: incompleteUnits
               .filter(u => u && u._id) // Filter out null units
               .map(u => ({
                 id: u._id,
                 name: u.name || 'Unknown Unit',
-                order: u.order || 0
+                order: u.order || 0,
+                plannedHours: u.plannedHours || 0,
+                marks: u.marks || 0
               }))
           });
         }
@@ -809,14 +844,21 @@ router.get('/assign/teachers-incomplete', async (req, res) => {
 });
 
 // @route   GET /api/verifier/assign/available-teachers
-// @desc    Get available teachers (optional batchId: only teachers who have subjects in that batch)
+// @desc    Get available teachers (optional batchId: only teachers who have subjects in that batch;
+//          optional date + slotIds: only teachers who are free in those periods that day)
 // @access  Private/Verifier
 router.get('/assign/available-teachers', async (req, res) => {
   try {
-    const { batchId } = req.query;
+    const { batchId, date, slotIds } = req.query;
     const subjectFilter = batchId ? { batch: batchId } : {};
     // Get all teachers
-    const teachers = await User.find({ role: 'teacher' }).select('name email');
+    let teachers = await User.find({ role: 'teacher' }).select('name email');
+
+    const requestedSlotIds = slotIds ? String(slotIds).split(',').map(id => id.trim()).filter(Boolean) : [];
+    if (date && requestedSlotIds.length > 0) {
+      const busy = await findBusyTeacherIds(new Date(date), requestedSlotIds);
+      teachers = teachers.filter(t => !busy.has(t._id.toString()));
+    }
     
     // Get subjects (optionally filtered by batch) to count workload
     const subjects = await Subject.find(subjectFilter)
@@ -868,7 +910,7 @@ router.get('/assign/available-teachers', async (req, res) => {
           if (log) {
             if (log.status === 'completed') {
               completedUnits++;
-            } else if (log.status === 'in-progress') {
+            } else if (ACTIVE_UNIT_STATUSES.includes(log.status)) {
               inProgressUnits++;
             }
           }
@@ -911,6 +953,125 @@ router.get('/assign/available-teachers', async (req, res) => {
   }
 });
 
+// @route   GET /api/verifier/cover
+// @desc    Scheduled classes on a date that need cover (teacher on leave) or already have a substitute
+// @access  Private/Verifier
+router.get('/cover', async (req, res) => {
+  try {
+    const targetDate = new Date(req.query.date || Date.now());
+    if (isNaN(targetDate.getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid date'
+      });
+    }
+    targetDate.setHours(0, 0, 0, 0);
+
+    const days = await DailyTimeSlot.find({
+      date: targetDate,
+      $or: [
+        { 'scheduleEntries.needsCover': true },
+        { 'scheduleEntries.coveredBy': { $ne: null } }
+      ]
+    })
+      .populate('teacher', 'name email')
+      .populate('scheduleEntries.coveredBy', 'name email')
+      .lean();
+
+    const classes = days.flatMap(day => (day.scheduleEntries || [])
+      .filter(entry => entry.needsCover || entry.coveredBy)
+      .map(entry => ({
+        entryId: entry._id,
+        date: day.date,
+        teacher: day.teacher,
+        subjectName: entry.subjectName,
+        batch: entry.batch,
+        slotIds: entry.slotIds,
+        slotLabels: entry.slotIds.map(id => day.slots.find(s => s.slotId === id)?.label || id),
+        leave: day.leave ? { duration: day.leave.duration, session: day.leave.session } : null,
+        coveredBy: entry.coveredBy || null
+      })));
+
+    res.json({
+      success: true,
+      data: classes
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/verifier/cover
+// @desc    Hand one scheduled class to a substitute teacher for that date only
+// @access  Private/Verifier
+router.post('/cover', async (req, res) => {
+  try {
+    const { entryId, substituteId } = req.body;
+    if (!entryId || !substituteId) {
+      return res.status(400).json({
+        success: false,
+        message: 'entryId and substituteId are required'
+      });
+    }
+
+    const substitute = await User.findOne({ _id: substituteId, role: 'teacher' }).select('name email');
+    if (!substitute) {
+      return res.status(404).json({
+        success: false,
+        message: 'Substitute teacher not found'
+      });
+    }
+
+    const result = await assignCover({ entryId, substituteId });
+    if (!result.success) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.message
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Class handed to ${substitute.name}`,
+      data: result.data
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   DELETE /api/verifier/cover/:entryId
+// @desc    Remove a substitute; the class goes back to the original teacher
+// @access  Private/Verifier
+router.delete('/cover/:entryId', async (req, res) => {
+  try {
+    const result = await removeCover({ entryId: req.params.entryId });
+    if (!result.success) {
+      return res.status(result.status).json({
+        success: false,
+        message: result.message
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Cover removed',
+      data: result.data
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
 // @route   GET /api/verifier/assign/assignments
 // @desc    Get all subject assignments created by this verifier
 // @access  Private/Verifier
@@ -1233,12 +1394,14 @@ router.get('/assign/subject-units', async (req, res) => {
         const log = unitLogs.find(l => l.unit.toString() === unit._id.toString());
         let status = 'not-started';
         if (log) {
-          status = log.status; // 'in-progress' or 'completed'
+          status = log.status; // 'in-progress', 'paused' or 'completed'
         }
         return {
           _id: unit._id,
           name: unit.name,
           order: unit.order,
+          plannedHours: unit.plannedHours || 0,
+          marks: unit.marks || 0,
           status: status
         };
       });
@@ -1248,6 +1411,8 @@ router.get('/assign/subject-units', async (req, res) => {
         _id: unit._id,
         name: unit.name,
         order: unit.order,
+        plannedHours: unit.plannedHours || 0,
+        marks: unit.marks || 0,
         status: 'not-started'
       }));
     }
@@ -1274,7 +1439,7 @@ router.get('/subjects', async (req, res) => {
     const filter = {};
     if (batchId) filter.batch = batchId;
     const subjects = await Subject.find(filter)
-      .select('_id name teacher batch')
+      .select('_id name teacher batch plannedHours delayThresholdPercent')
       .populate('teacher', 'name email')
       .populate('batch', 'name year')
       .sort({ name: 1 })
@@ -1293,6 +1458,8 @@ router.get('/subjects', async (req, res) => {
         name: s.name,
         teacher: s.teacher ? { _id: s.teacher._id, name: s.teacher.name, email: s.teacher.email } : null,
         batch: s.batch ? { _id: s.batch._id, name: s.batch.name, year: s.batch.year } : null,
+        plannedHours: s.plannedHours || 0,
+        delayThresholdPercent: s.delayThresholdPercent,
         hasPendingAssignment: !!pending,
         pendingAssignmentDetails: pending ? {
           requestedBy: pending.requestedBy,
@@ -1415,35 +1582,85 @@ router.post('/subjects', async (req, res) => {
   }
 });
 
-// @route   DELETE /api/verifier/exam/batches/:id
-// @desc    Delete a batch
+// @route   PUT /api/verifier/subjects/:id/plan
+// @desc    Set planned teaching hours (and optionally exam marks) per unit and the subject's delay threshold (% over plan)
 // @access  Private/Verifier
-router.delete('/exam/batches/:id', async (req, res) => {
+router.put('/subjects/:id/plan', async (req, res) => {
   try {
-    const batch = await Batch.findById(req.params.id);
+    const { delayThresholdPercent, units } = req.body;
 
-    if (!batch) {
+    const subject = await Subject.findById(req.params.id);
+    if (!subject) {
       return res.status(404).json({
         success: false,
-        message: 'Batch not found'
+        message: 'Subject not found'
       });
     }
 
-    // Check if batch has subjects before deleting
-    const subjectCount = await Subject.countDocuments({ batch: req.params.id });
-    if (subjectCount > 0) {
+    if (delayThresholdPercent !== undefined) {
+      const threshold = Number(delayThresholdPercent);
+      if (!Number.isFinite(threshold) || threshold < 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Delay threshold must be a non-negative percentage'
+        });
+      }
+      subject.delayThresholdPercent = threshold;
+    }
+
+    const entries = Array.isArray(units) ? units : [];
+    if (entries.some(entry => !Number.isFinite(Number(entry?.plannedHours)) || Number(entry.plannedHours) < 0)) {
       return res.status(400).json({
         success: false,
-        message: `Cannot delete batch. It has ${subjectCount} associated subjects. Please delete or reassign subjects first.`
+        message: 'Planned hours must be non-negative numbers'
+      });
+    }
+    if (entries.some(entry => entry?.marks !== undefined && (!Number.isFinite(Number(entry.marks)) || Number(entry.marks) < 0))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Marks must be non-negative numbers'
+      });
+    }
+    const unitIds = entries.map(entry => entry.unitId);
+    if (unitIds.some(id => !mongoose.Types.ObjectId.isValid(id))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid unit ID'
+      });
+    }
+    const ownUnits = await Unit.countDocuments({ _id: { $in: unitIds }, subject: subject._id });
+    if (ownUnits !== new Set(unitIds.map(String)).size) {
+      return res.status(400).json({
+        success: false,
+        message: 'Some units do not belong to this subject'
       });
     }
 
-    await batch.deleteOne();
+    await Promise.all(entries.map(entry =>
+      Unit.updateOne(
+        { _id: entry.unitId },
+        entry.marks === undefined
+          ? { plannedHours: Number(entry.plannedHours) }
+          : { plannedHours: Number(entry.plannedHours), marks: Number(entry.marks) }
+      )
+    ));
+    await subject.save();
+    const plannedHours = await refreshSubjectPlannedHours(subject._id);
+
+    const updatedUnits = await Unit.find({ subject: subject._id })
+      .select('name order plannedHours marks')
+      .sort({ order: 1 })
+      .lean();
 
     res.json({
       success: true,
-      message: 'Batch deleted successfully',
-      data: {}
+      data: {
+        _id: subject._id,
+        name: subject.name,
+        plannedHours,
+        delayThresholdPercent: subject.delayThresholdPercent,
+        units: updatedUnits
+      }
     });
   } catch (error) {
     res.status(500).json({
@@ -1453,17 +1670,46 @@ router.delete('/exam/batches/:id', async (req, res) => {
   }
 });
 
-// @route   GET /api/verifier/exam/batches
-// @desc    Get all batches for exam filter
+// @route   POST /api/verifier/syllabus/import
+// @desc    Import subjects and units from spreadsheet rows. With dryRun the rows are only checked and
+//          the subjects that would be created are returned; otherwise everything is created in one transaction
 // @access  Private/Verifier
-router.get('/exam/batches', async (req, res) => {
+router.post('/syllabus/import', async (req, res) => {
   try {
-    const batches = await Batch.find().select('name year').sort({ name: 1 });
-    res.json({
+    const { rows, dryRun } = req.body;
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'No syllabus rows to import'
+      });
+    }
+
+    const { errors, subjects } = await checkSyllabusRows(rows);
+
+    if (dryRun) {
+      return res.json({
+        success: true,
+        data: { subjects, errors }
+      });
+    }
+
+    if (errors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `${errors.length} row(s) have errors. Nothing was imported.`,
+        data: { subjects, errors }
+      });
+    }
+
+    const created = await applySyllabusImport(subjects, req.user.id);
+
+    res.status(201).json({
       success: true,
-      data: batches
+      data: { ...created, errors: [] }
     });
   } catch (error) {
+    console.error('Error importing syllabus:', error);
     res.status(500).json({
       success: false,
       message: error.message
@@ -1471,28 +1717,45 @@ router.get('/exam/batches', async (req, res) => {
   }
 });
 
-// @route   GET /api/verifier/exam/subjects
-// @desc    Get subjects for a specific batch
+// Template units from a request body ({ name, plannedHours }[]); returns null when any entry is invalid
+const parseTemplateUnits = (units) => {
+  if (!Array.isArray(units)) return null;
+  const parsed = units.map(unit => ({
+    name: typeof unit?.name === 'string' ? unit.name.trim() : '',
+    plannedHours: unit?.plannedHours === undefined || unit?.plannedHours === '' ? 0 : Number(unit.plannedHours)
+  }));
+  const valid = parsed.every(unit => unit.name && Number.isFinite(unit.plannedHours) && unit.plannedHours >= 0);
+  return valid ? parsed : null;
+};
+
+// @route   GET /api/verifier/syllabus-templates
+// @desc    List syllabus templates with the subjects created from them (outdated = template edited since)
 // @access  Private/Verifier
-router.get('/exam/subjects', async (req, res) => {
+router.get('/syllabus-templates', async (req, res) => {
   try {
-    const { batchId } = req.query;
-    
-    if (!batchId) {
-      return res.status(400).json({
-        success: false,
-        message: 'Batch ID is required'
-      });
-    }
+    const templates = await SyllabusTemplate.find().sort({ name: 1 }).lean();
+    const subjects = await Subject.find({ template: { $in: templates.map(t => t._id) } })
+      .select('name batch template templateVersion')
+      .populate('batch', 'name year')
+      .lean();
 
-    const subjects = await Subject.find({ batch: batchId })
-      .select('name color teacher')
-      .populate('teacher', 'name email')
-      .sort({ name: 1 });
+    const data = templates.map(template => ({
+      ...template,
+      plannedHours: Math.round(template.units.reduce((sum, unit) => sum + (unit.plannedHours || 0), 0) * 100) / 100,
+      subjects: subjects
+        .filter(subject => subject.template.toString() === template._id.toString())
+        .map(subject => ({
+          _id: subject._id,
+          name: subject.name,
+          batch: subject.batch ? { _id: subject.batch._id, name: subject.batch.name, year: subject.batch.year } : null,
+          templateVersion: subject.templateVersion,
+          outdated: (subject.templateVersion || 0) < template.version
+        }))
+    }));
 
     res.json({
       success: true,
-      data: subjects
+      data
     });
   } catch (error) {
     res.status(500).json({
@@ -1502,42 +1765,708 @@ router.get('/exam/subjects', async (req, res) => {
   }
 });
 
-// @route   GET /api/verifier/exam/units
-// @desc    Get units for a subject with completion and exam status
+// @route   POST /api/verifier/syllabus-templates
+// @desc    Save a subject's units and planned hours as a template
 // @access  Private/Verifier
-router.get('/exam/units', async (req, res) => {
+router.post('/syllabus-templates', async (req, res) => {
   try {
-    const { subjectId } = req.query;
+    const { subjectId, name } = req.body;
 
-    if (!subjectId) {
+    const subject = await Subject.findById(subjectId).populate('batch', 'name');
+    if (!subject) {
+      return res.status(404).json({
+        success: false,
+        message: 'Subject not found'
+      });
+    }
+
+    const units = await Unit.find({ subject: subject._id }).select('name plannedHours').sort({ order: 1 }).lean();
+    if (units.length === 0) {
       return res.status(400).json({
         success: false,
-        message: 'Subject ID is required'
+        message: 'The subject has no units to save'
       });
     }
 
-    // Get units for the subject
-    const units = await Unit.find({ subject: subjectId }).sort({ order: 1 });
-    
-    const unitsData = await Promise.all(units.map(async (unit) => {
-      // Find completion log - check if ANY completion log exists for this unit regardless of teacher
-      // or we could check specifically for the subject's teacher if needed.
-      // For now, simpler: if it's completed, it's completed.
-      const completionLog = await UnitLog.findOne({
-        unit: unit._id,
-        subject: subjectId,
-        status: 'completed'
-      }).populate('teacher', 'name');
+    const template = await SyllabusTemplate.create({
+      name: typeof name === 'string' && name.trim() ? name.trim() : `${subject.name}${subject.batch ? ` (${subject.batch.name})` : ''}`,
+      subjectName: subject.name,
+      color: subject.color,
+      delayThresholdPercent: subject.delayThresholdPercent,
+      units: units.map(unit => ({ name: unit.name, plannedHours: unit.plannedHours || 0 })),
+      sourceSubject: subject._id,
+      createdBy: req.user.id
+    });
 
-      // Get exam status
-      const examStatus = await ExamStatus.findOne({ unit: unit._id });
+    // The source subject matches the template as saved
+    subject.template = template._id;
+    subject.templateVersion = template.version;
+    await subject.save();
 
-      return {
-        _id: unit._id,
-        name: unit.name,
-        order: unit.order,
+    res.status(201).json({
+      success: true,
+      data: template
+    });
+  } catch (error) {
+    res.status(error.name === 'ValidationError' ? 400 : 500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   PUT /api/verifier/syllabus-templates/:id
+// @desc    Edit a template; subjects created from it are then offered a merge
+// @access  Private/Verifier
+router.put('/syllabus-templates/:id', async (req, res) => {
+  try {
+    const { name, subjectName, units, delayThresholdPercent } = req.body;
+
+    const template = await SyllabusTemplate.findById(req.params.id);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found'
+      });
+    }
+
+    if (units !== undefined) {
+      const parsed = parseTemplateUnits(units);
+      if (!parsed || parsed.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Every unit needs a name and non-negative planned hours'
+        });
+      }
+      if (new Set(parsed.map(unit => unit.name.toLowerCase())).size !== parsed.length) {
+        return res.status(400).json({
+          success: false,
+          message: 'Unit names must be unique within a template'
+        });
+      }
+      const unitsChanged = parsed.length !== template.units.length || parsed.some((unit, index) =>
+        unit.name !== template.units[index].name || unit.plannedHours !== (template.units[index].plannedHours || 0)
+      );
+      if (unitsChanged) template.units = parsed;
+    }
+    if (typeof name === 'string' && name.trim()) template.name = name.trim();
+    if (typeof subjectName === 'string' && subjectName.trim()) template.subjectName = subjectName.trim();
+    if (delayThresholdPercent !== undefined) {
+      const threshold = Number(delayThresholdPercent);
+      if (!Number.isFinite(threshold) || threshold < 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'Delay threshold must be a non-negative percentage'
+        });
+      }
+      template.delayThresholdPercent = threshold;
+    }
+
+    // A new version marks linked subjects as outdated, so only real changes count
+    if (['units', 'name', 'subjectName', 'delayThresholdPercent'].some(path => template.isModified(path))) {
+      template.version += 1;
+      await template.save();
+    }
+
+    res.json({
+      success: true,
+      data: template
+    });
+  } catch (error) {
+    res.status(error.name === 'ValidationError' ? 400 : 500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   DELETE /api/verifier/syllabus-templates/:id
+// @desc    Delete a template (subjects created from it are kept)
+// @access  Private/Verifier
+router.delete('/syllabus-templates/:id', async (req, res) => {
+  try {
+    const template = await SyllabusTemplate.findById(req.params.id);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found'
+      });
+    }
+
+    await Subject.updateMany({ template: template._id }, { template: null, templateVersion: null });
+    await template.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Template deleted successfully',
+      data: {}
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/verifier/syllabus-templates/:id/instantiate
+// @desc    Create the template's subject and units in a batch, optionally requesting a teacher
+// @access  Private/Verifier
+router.post('/syllabus-templates/:id/instantiate', async (req, res) => {
+  try {
+    const { batchId, teacherId } = req.body;
+
+    const template = await SyllabusTemplate.findById(req.params.id);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found'
+      });
+    }
+    const batch = batchId && mongoose.Types.ObjectId.isValid(batchId) ? await Batch.findById(batchId) : null;
+    if (!batch) {
+      return res.status(400).json({
+        success: false,
+        message: 'A valid batch is required'
+      });
+    }
+
+    const result = await createSubjectFromTemplate(template, { batchId: batch._id, teacherId, userId: req.user.id });
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    res.status(201).json(result);
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   GET /api/verifier/syllabus-templates/:id/merge-preview
+// @desc    Units a template merge would add, re-plan or leave alone in a subject
+// @access  Private/Verifier
+router.get('/syllabus-templates/:id/merge-preview', async (req, res) => {
+  try {
+    const { subjectId } = req.query;
+
+    const template = await SyllabusTemplate.findById(req.params.id).lean();
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found'
+      });
+    }
+    const subject = await Subject.findOne({ _id: subjectId, template: template._id }).select('_id').lean();
+    if (!subject) {
+      return res.status(404).json({
+        success: false,
+        message: 'Subject not found for this template'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: await getTemplateMergePlan(template, subject._id)
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/verifier/syllabus-templates/:id/merge
+// @desc    Merge the current template into subjects created from it
+// @access  Private/Verifier
+router.post('/syllabus-templates/:id/merge', async (req, res) => {
+  try {
+    const { subjectIds } = req.body;
+
+    const template = await SyllabusTemplate.findById(req.params.id).lean();
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        message: 'Template not found'
+      });
+    }
+    const ids = Array.isArray(subjectIds) ? subjectIds.filter(id => mongoose.Types.ObjectId.isValid(id)) : [];
+    const subjects = await Subject.find({ _id: { $in: ids }, template: template._id }).select('_id name');
+    if (subjects.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Select subjects created from this template'
+      });
+    }
+
+    const merged = [];
+    for (const subject of subjects) {
+      const plan = await applyTemplateMerge(template, subject);
+      merged.push({ subjectId: subject._id, name: subject.name, added: plan.add.length, updated: plan.update.length });
+    }
+
+    res.json({
+      success: true,
+      data: merged
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// Units of a subject in teaching order, as returned by the unit editing routes
+const listSubjectUnits = (subjectId) =>
+  Unit.find({ subject: subjectId }).select('name order plannedHours').sort({ order: 1 }).lean();
+
+// @route   PUT /api/verifier/units/:id
+// @desc    Rename a unit
+// @access  Private/Verifier
+router.put('/units/:id', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid unit id'
+      });
+    }
+
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+    if (!name) {
+      return res.status(400).json({
+        success: false,
+        message: 'Unit name is required'
+      });
+    }
+
+    const unit = await Unit.findById(req.params.id);
+    if (!unit) {
+      return res.status(404).json({
+        success: false,
+        message: 'Unit not found'
+      });
+    }
+
+    unit.name = name;
+    await unit.save();
+
+    res.json({
+      success: true,
+      data: await listSubjectUnits(unit.subject)
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   PUT /api/verifier/subjects/:id/units/order
+// @desc    Reorder a subject's units (unitIds must list every unit of the subject once)
+// @access  Private/Verifier
+router.put('/subjects/:id/units/order', async (req, res) => {
+  try {
+    const { unitIds } = req.body;
+
+    const subject = await Subject.findById(req.params.id);
+    if (!subject) {
+      return res.status(404).json({
+        success: false,
+        message: 'Subject not found'
+      });
+    }
+
+    const current = await getOrderedUnitIds(subject._id);
+    const requested = Array.isArray(unitIds) ? unitIds.map(String) : [];
+    if (requested.length !== current.length || new Set(requested).size !== requested.length ||
+      requested.some(id => !current.includes(id))) {
+      return res.status(400).json({
+        success: false,
+        message: 'The new order must list every unit of the subject exactly once'
+      });
+    }
+
+    await renumberUnits(subject._id, requested);
+
+    res.json({
+      success: true,
+      data: await listSubjectUnits(subject._id)
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/verifier/units/:id/split
+// @desc    Split a unit into several. The first part keeps the unit (and its teaching records);
+//          completed logs are mirrored onto the new parts without time so completion counts stay the same
+// @access  Private/Verifier
+router.post('/units/:id/split', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid unit id'
+      });
+    }
+
+    const names = Array.isArray(req.body.names)
+      ? req.body.names.map(name => (typeof name === 'string' ? name.trim() : '')).filter(Boolean)
+      : [];
+    if (names.length < 2) {
+      return res.status(400).json({
+        success: false,
+        message: 'Give at least two names to split a unit'
+      });
+    }
+
+    const unit = await Unit.findById(req.params.id);
+    if (!unit) {
+      return res.status(404).json({
+        success: false,
+        message: 'Unit not found'
+      });
+    }
+
+    // Planned hours and marks are shared out evenly between the parts
+    const originalName = unit.name;
+    const plannedShare = Math.round(((unit.plannedHours || 0) / names.length) * 100) / 100;
+    const marksShare = Math.round(((unit.marks || 0) / names.length) * 100) / 100;
+
+    const parts = await Unit.insertMany(names.slice(1).map(name => ({
+      name,
+      subject: unit.subject,
+      plannedHours: plannedShare,
+      marks: marksShare
+    })));
+
+    const completedLogs = await UnitLog.find({ unit: unit._id, status: 'completed' }).lean();
+    if (completedLogs.length > 0) {
+      await UnitLog.insertMany(parts.flatMap(part => completedLogs.map(log => ({
+        teacher: log.teacher,
+        subject: log.subject,
+        unit: part._id,
+        startTime: log.startTime,
+        endTime: log.endTime,
+        firstCompletedAt: log.firstCompletedAt || log.endTime,
+        status: 'completed',
+        totalMinutes: 0
+      }))));
+    }
+
+    const examStatus = await ExamStatus.findOne({ unit: unit._id }).lean();
+    if (examStatus) {
+      const now = new Date();
+      await ExamStatus.insertMany(parts.map(part => ({
+        unit: part._id,
+        isFinished: examStatus.isFinished,
+        markedBy: req.user.id,
+        markedAt: now,
+        history: [{ isFinished: examStatus.isFinished, changedBy: req.user.id, changedAt: now, note: `Split from "${originalName}"` }]
+      })));
+    }
+
+    // The original unit becomes the first part once the other parts carry its records
+    unit.name = names[0];
+    unit.plannedHours = plannedShare;
+    unit.marks = marksShare;
+    await unit.save();
+
+    const order = await getOrderedUnitIds(unit.subject);
+    const partIds = parts.map(part => part._id.toString());
+    const withoutParts = order.filter(id => !partIds.includes(id));
+    withoutParts.splice(withoutParts.indexOf(unit._id.toString()) + 1, 0, ...partIds);
+    await renumberUnits(unit.subject, withoutParts);
+
+    await SubjectAssignment.updateMany(
+      { remainingUnits: unit._id },
+      { $addToSet: { remainingUnits: { $each: parts.map(part => part._id) } } }
+    );
+    await addPartsToExamPortions(unit._id, parts.map(part => part._id));
+    await refreshSubjectPlannedHours(unit.subject);
+
+    res.status(201).json({
+      success: true,
+      data: await listSubjectUnits(unit.subject)
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/verifier/subjects/:id/units/merge
+// @desc    Merge units of a subject into the first of them (teaching records, slot tags, exam status and portions move with it)
+// @access  Private/Verifier
+router.post('/subjects/:id/units/merge', async (req, res) => {
+  try {
+    const { unitIds, name } = req.body;
+
+    const subject = await Subject.findById(req.params.id);
+    if (!subject) {
+      return res.status(404).json({
+        success: false,
+        message: 'Subject not found'
+      });
+    }
+
+    const current = await getOrderedUnitIds(subject._id);
+    const requested = Array.isArray(unitIds) ? [...new Set(unitIds.map(String))] : [];
+    if (requested.length < 2) {
+      return res.status(400).json({
+        success: false,
+        message: 'Select at least two units to merge'
+      });
+    }
+    if (requested.some(id => !current.includes(id))) {
+      return res.status(400).json({
+        success: false,
+        message: 'Some units do not belong to this subject'
+      });
+    }
+
+    const pending = await countPendingUnitApprovals(requested);
+    if (pending > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `These units have ${pending} pending start/completion request(s). Resolve them before merging.`
+      });
+    }
+
+    // The earliest unit in teaching order survives
+    const [targetId, ...sourceIds] = current.filter(id => requested.includes(id));
+    const merged = await mergeUnitLogs(targetId, sourceIds);
+    if (!merged.success) {
+      return res.status(400).json(merged);
+    }
+
+    const units = await Unit.find({ _id: { $in: requested } });
+    const target = units.find(unit => unit._id.toString() === targetId);
+    if (typeof name === 'string' && name.trim()) {
+      target.name = name.trim();
+    }
+    target.plannedHours = Math.round(units.reduce((sum, unit) => sum + (unit.plannedHours || 0), 0) * 100) / 100;
+    target.marks = Math.round(units.reduce((sum, unit) => sum + (unit.marks || 0), 0) * 100) / 100;
+    await target.save();
+
+    await moveUnitReferences(target, sourceIds);
+    await mergeExamStatuses(targetId, sourceIds, req.user.id);
+    await Unit.deleteMany({ _id: { $in: sourceIds } });
+    await renumberUnits(subject._id, current.filter(id => !sourceIds.includes(id)));
+    await refreshSubjectPlannedHours(subject._id);
+
+    res.json({
+      success: true,
+      data: await listSubjectUnits(subject._id)
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   DELETE /api/verifier/units/:id
+// @desc    Delete a unit that has not been taught (units with teaching records must be merged instead)
+// @access  Private/Verifier
+router.delete('/units/:id', async (req, res) => {
+  try {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid unit id'
+      });
+    }
+
+    const unit = await Unit.findById(req.params.id);
+    if (!unit) {
+      return res.status(404).json({
+        success: false,
+        message: 'Unit not found'
+      });
+    }
+
+    const logCount = await UnitLog.countDocuments({ unit: unit._id });
+    if (logCount > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `This unit has teaching records from ${logCount} teacher(s). Merge it into another unit instead of deleting it.`
+      });
+    }
+    const pending = await countPendingUnitApprovals([unit._id]);
+    if (pending > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'This unit has a pending start request. Resolve it before deleting the unit.'
+      });
+    }
+
+    await unit.deleteOne();
+    await ExamStatus.deleteMany({ unit: unit._id });
+    await SubjectAssignment.updateMany({ remainingUnits: unit._id }, { $pull: { remainingUnits: unit._id } });
+    await removeFromExamPortions(unit._id);
+    // Slot tags keep the unit's name as it was taught
+    await DailyTimeSlot.updateMany(
+      { 'slots.taught.unit': unit._id },
+      { $set: { 'slots.$[slot].taught.unit': null } },
+      { arrayFilters: [{ 'slot.taught.unit': unit._id }] }
+    );
+    await renumberUnits(unit.subject, await getOrderedUnitIds(unit.subject));
+    await refreshSubjectPlannedHours(unit.subject);
+
+    res.json({
+      success: true,
+      data: await listSubjectUnits(unit.subject)
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   DELETE /api/verifier/exam/batches/:id
+// @desc    Delete a batch
+// @access  Private/Verifier
+router.delete('/exam/batches/:id', async (req, res) => {
+  try {
+    const batch = await Batch.findById(req.params.id);
+
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        message: 'Batch not found'
+      });
+    }
+
+    // Check if batch has subjects before deleting
+    const subjectCount = await Subject.countDocuments({ batch: req.params.id });
+    if (subjectCount > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot delete batch. It has ${subjectCount} associated subjects. Please delete or reassign subjects first.`
+      });
+    }
+
+    await batch.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Batch deleted successfully',
+      data: {}
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   GET /api/verifier/exam/batches
+// @desc    Get all batches for exam filter
+// @access  Private/Verifier
+router.get('/exam/batches', async (req, res) => {
+  try {
+    const batches = await Batch.find().select('name year').sort({ name: 1 });
+    res.json({
+      success: true,
+      data: batches
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   GET /api/verifier/exam/subjects
+// @desc    Get subjects for a specific batch
+// @access  Private/Verifier
+router.get('/exam/subjects', async (req, res) => {
+  try {
+    const { batchId } = req.query;
+    
+    if (!batchId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Batch ID is required'
+      });
+    }
+
+    const subjects = await Subject.find({ batch: batchId })
+      .select('name color teacher')
+      .populate('teacher', 'name email')
+      .sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: subjects
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   GET /api/verifier/exam/units
+// @desc    Get units for a subject with completion and exam status
+// @access  Private/Verifier
+router.get('/exam/units', async (req, res) => {
+  try {
+    const { subjectId } = req.query;
+
+    if (!subjectId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Subject ID is required'
+      });
+    }
+
+    // Get units for the subject
+    const units = await Unit.find({ subject: subjectId }).sort({ order: 1 });
+    
+    const unitsData = await Promise.all(units.map(async (unit) => {
+      // Find completion log - check if ANY completion log exists for this unit regardless of teacher
+      // or we could check specifically for the subject's teacher if needed.
+      // For now, simpler: if it's completed, it's completed.
+      const completionLog = await UnitLog.findOne({
+        unit: unit._id,
+        subject: subjectId,
+        status: 'completed'
+      }).populate('teacher', 'name');
+
+      // Get exam status
+      const examStatus = await ExamStatus.findOne({ unit: unit._id })
+        .populate('markedBy', 'name')
+        .populate('history.changedBy', 'name')
+        .lean();
+
+      return {
+        _id: unit._id,
+        name: unit.name,
+        order: unit.order,
         isCompleted: !!completionLog,
         isExamFinished: examStatus ? examStatus.isFinished : false,
+        examMarkedBy: examStatus?.markedBy || null,
+        examMarkedAt: examStatus?.markedAt || null,
+        examHistory: examStatus?.history || [],
         completedAt: completionLog ? completionLog.endTime : null,
         taughtBy: completionLog ? completionLog.teacher : null
       };
@@ -1545,7 +2474,182 @@ router.get('/exam/units', async (req, res) => {
 
     res.json({
       success: true,
-      data: unitsData
+      data: unitsData
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// Exams with their subjects and portion loaded for the readiness summary
+const findExams = (filter) =>
+  Exam.find(filter)
+    .populate('batch', 'name year')
+    .populate('subjects', 'name')
+    .populate('portion', 'name order subject')
+    .sort({ examDate: 1 })
+    .lean();
+
+// Exam fields from a request body; returns { success, data } or { success: false, message }
+const parseExamBody = async (body, existing = null) => {
+  const name = typeof body.name === 'string' ? body.name.trim() : existing?.name;
+  if (!name) return { success: false, message: 'Exam name is required' };
+
+  const type = body.type ?? existing?.type ?? 'internal';
+  if (!EXAM_TYPES.includes(type)) {
+    return { success: false, message: `Exam type must be one of: ${EXAM_TYPES.join(', ')}` };
+  }
+
+  const examDate = body.examDate !== undefined ? new Date(body.examDate) : existing?.examDate;
+  if (!examDate || isNaN(new Date(examDate).getTime())) {
+    return { success: false, message: 'A valid exam date is required' };
+  }
+
+  const batchId = body.batchId ?? existing?.batch?.toString();
+  if (!batchId || !mongoose.Types.ObjectId.isValid(batchId) || !(await Batch.exists({ _id: batchId }))) {
+    return { success: false, message: 'A valid batch is required' };
+  }
+
+  const portion = await resolveExamPortion({
+    batchId,
+    subjectIds: body.subjectIds ?? existing?.subjects,
+    unitIds: body.unitIds ?? existing?.portion
+  });
+  if (!portion.success) return portion;
+
+  return {
+    success: true,
+    data: { name, type, examDate, batch: batchId, subjects: portion.data.subjects, portion: portion.data.portion }
+  };
+};
+
+// @route   GET /api/verifier/exam/exams
+// @desc    Scheduled exams (optional batch filter) with portion readiness from unit logs
+// @access  Private/Verifier
+router.get('/exam/exams', async (req, res) => {
+  try {
+    const { batchId } = req.query;
+    const filter = {};
+    if (batchId) filter.batch = batchId;
+
+    const exams = await findExams(filter);
+
+    res.json({
+      success: true,
+      data: await addExamReadiness(exams)
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   GET /api/verifier/exam/at-risk
+// @desc    Upcoming exams (within ?days, default 30) whose portion is not fully taught yet
+// @access  Private/Verifier
+router.get('/exam/at-risk', async (req, res) => {
+  try {
+    const days = Number(req.query.days) > 0 ? Number(req.query.days) : DEFAULT_AT_RISK_DAYS;
+    const from = new Date();
+    from.setHours(0, 0, 0, 0);
+    const to = new Date(from);
+    to.setDate(to.getDate() + days);
+
+    const exams = await addExamReadiness(await findExams({ examDate: { $gte: from, $lte: to } }));
+
+    res.json({
+      success: true,
+      data: exams.filter(exam => !exam.readiness.ready)
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/verifier/exam/exams
+// @desc    Schedule an exam for a batch with its subjects and portion units
+// @access  Private/Verifier
+router.post('/exam/exams', async (req, res) => {
+  try {
+    const parsed = await parseExamBody(req.body);
+    if (!parsed.success) {
+      return res.status(400).json(parsed);
+    }
+
+    const exam = await Exam.create({ ...parsed.data, createdBy: req.user.id });
+    const [data] = await addExamReadiness(await findExams({ _id: exam._id }));
+
+    res.status(201).json({
+      success: true,
+      data
+    });
+  } catch (error) {
+    res.status(error.name === 'ValidationError' ? 400 : 500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   PUT /api/verifier/exam/exams/:id
+// @desc    Update an exam's name, type, date, subjects or portion
+// @access  Private/Verifier
+router.put('/exam/exams/:id', async (req, res) => {
+  try {
+    const exam = await Exam.findById(req.params.id);
+    if (!exam) {
+      return res.status(404).json({
+        success: false,
+        message: 'Exam not found'
+      });
+    }
+
+    const parsed = await parseExamBody(req.body, exam);
+    if (!parsed.success) {
+      return res.status(400).json(parsed);
+    }
+
+    Object.assign(exam, parsed.data);
+    await exam.save();
+    const [data] = await addExamReadiness(await findExams({ _id: exam._id }));
+
+    res.json({
+      success: true,
+      data
+    });
+  } catch (error) {
+    res.status(error.name === 'ValidationError' ? 400 : 500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   DELETE /api/verifier/exam/exams/:id
+// @desc    Delete a scheduled exam
+// @access  Private/Verifier
+router.delete('/exam/exams/:id', async (req, res) => {
+  try {
+    const exam = await Exam.findByIdAndDelete(req.params.id);
+    if (!exam) {
+      return res.status(404).json({
+        success: false,
+        message: 'Exam not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Exam deleted successfully',
+      data: {}
     });
   } catch (error) {
     res.status(500).json({
@@ -1556,11 +2660,12 @@ router.get('/exam/units', async (req, res) => {
 });
 
 // @route   POST /api/verifier/exam/toggle
-// @desc    Toggle exam finished status for a unit
+// @desc    Toggle exam finished status for a unit (a finished unit is locked for teachers; changes are kept in its history)
 // @access  Private/Verifier
 router.post('/exam/toggle', async (req, res) => {
   try {
-    const { unitId, isFinished } = req.body;
+    const { unitId } = req.body;
+    const isFinished = req.body.isFinished === true;
     const verifierId = req.user.id;
 
     if (!unitId) {
@@ -1570,18 +2675,30 @@ router.post('/exam/toggle', async (req, res) => {
       });
     }
 
-    let examStatus = await ExamStatus.findOne({ unit: unitId });
+    // Locking a unit that is still being taught would leave its log running with no way to complete it
+    if (isFinished) {
+      const logs = await UnitLog.find({ unit: unitId }).select('status firstCompletedAt previousAttempts endTime').lean();
+      if (logs.some(log => ACTIVE_UNIT_STATUSES.includes(log.status))) {
+        return res.status(400).json({
+          success: false,
+          message: 'This unit is still being taught. It can be marked finished once the teacher completes it.'
+        });
+      }
+      if (!logs.some(log => getFirstCompletedAt(log))) {
+        return res.status(400).json({
+          success: false,
+          message: 'This unit is not completed yet. Teaching must be completed before the exam can be finished.'
+        });
+      }
+    }
 
-    if (examStatus) {
-      examStatus.isFinished = isFinished;
-      examStatus.markedBy = verifierId;
+    let examStatus = await ExamStatus.findOne({ unit: unitId });
+    if (!examStatus) {
+      examStatus = new ExamStatus({ unit: unitId });
+    }
+    if (examStatus.isNew || examStatus.isFinished !== isFinished) {
+      examStatus.recordChange({ isFinished, userId: verifierId });
       await examStatus.save();
-    } else {
-      examStatus = await ExamStatus.create({
-        unit: unitId,
-        isFinished: isFinished,
-        markedBy: verifierId
-      });
     }
 
     res.json({
@@ -1596,25 +2713,120 @@ router.post('/exam/toggle', async (req, res) => {
   }
 });
 
-// Slot definitions for time table (same as teacher routes)
-const SLOT_DEFINITIONS = {
-  '9-10': { label: '9:00 - 10:00', duration: 60 },
-  '10-11': { label: '10:00 - 11:00', duration: 60 },
-  '11-12': { label: '11:00 - 12:00', duration: 60 },
-  '12-13': { label: '12:00 - 13:00', duration: 60 },
-  '13-14': { label: '13:00 - 14:00', duration: 60 },
-  '14-15': { label: '14:00 - 15:00', duration: 60 },
-  '15-16': { label: '15:00 - 16:00', duration: 60 },
-  '16-17': { label: '16:00 - 17:00', duration: 60 }
-};
-const VALID_SLOT_IDS = new Set(Object.keys(SLOT_DEFINITIONS));
+// @route   POST /api/verifier/time-table/check
+// @desc    Check imported time table rows for teacher/batch double-booking and subject owner mismatches
+// @access  Private/Verifier
+router.post('/time-table/check', async (req, res) => {
+  try {
+    const { entries } = req.body;
+    if (!Array.isArray(entries) || entries.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'entries array is required and must not be empty'
+      });
+    }
+
+    const clashes = await detectTimetableClashes(entries);
+
+    res.json({
+      success: true,
+      data: clashes
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// Describe what applying a grouped teacher+date would do to the existing DailyTimeSlot (dry run)
+function describeTimeTableChange(dailySlot, group) {
+  const sortEntries = (list) => list
+    .map(e => ({ subjectName: e.subjectName || '', batch: e.batch || '', slotIds: [...(e.slotIds || [])].sort() }))
+    .sort((a, b) => `${a.subjectName}|${a.batch}`.localeCompare(`${b.subjectName}|${b.batch}`));
+
+  const scheduleAfter = sortEntries(group.scheduleEntries);
+  const base = {
+    teacherEmail: group.teacher.email,
+    teacherName: group.teacher.name,
+    date: group.targetDate,
+    scheduleAfter,
+    breakAfter: group.breakMinutes
+  };
+
+  if (!dailySlot) {
+    return {
+      ...base,
+      action: 'create',
+      scheduleBefore: [],
+      addedSlotIds: [...group.allSlotIds],
+      removedSlotIds: [],
+      uncheckedSlots: [],
+      breakBefore: null
+    };
+  }
+
+  const scheduleBefore = sortEntries((dailySlot.scheduleEntries || []).filter(e => !e.coverFor));
+  const scheduledBefore = dailySlot.scheduledSlotIds || [];
+  const uncheckedSlots = dailySlot.slots
+    .filter(s => s.checked && group.allSlotIds.includes(s.slotId))
+    .map(s => ({ slotId: s.slotId, label: s.label }));
+  const addedSlotIds = group.allSlotIds.filter(id => !scheduledBefore.includes(id));
+  const removedSlotIds = scheduledBefore.filter(id => !group.allSlotIds.includes(id));
+  const breakBefore = dailySlot.breakDuration ?? null;
+  const unchanged = JSON.stringify(scheduleBefore) === JSON.stringify(scheduleAfter) &&
+    breakBefore === group.breakMinutes && uncheckedSlots.length === 0;
+
+  return {
+    ...base,
+    action: unchanged ? 'unchanged' : 'update',
+    scheduleBefore,
+    addedSlotIds,
+    removedSlotIds,
+    uncheckedSlots,
+    breakBefore
+  };
+}
+
+// Prior state of a teacher's day, stored on TimeTableHistory so an upload can be undone
+function snapshotDailyTimeSlot(dailySlot, teacherId, date) {
+  if (!dailySlot) {
+    return { teacher: teacherId, date, existed: false };
+  }
+  const plain = dailySlot.toObject();
+  return {
+    teacher: teacherId,
+    date,
+    existed: true,
+    slots: plain.slots.map(({ _id, ...slot }) => slot),
+    breakDuration: plain.breakDuration ?? null,
+    breakChecked: !!plain.breakChecked,
+    breakCheckedAt: plain.breakCheckedAt || null,
+    hadLeave: !!plain.leave,
+    scheduledSlotIds: plain.scheduledSlotIds,
+    // Entry ids are kept: a substitute's cover entry points at the covered class by id
+    scheduleEntries: plain.scheduleEntries || []
+  };
+}
+
+// Cover or leave put on a day after its snapshot was taken (restoring the snapshot would undo or contradict it)
+function coverOrLeaveSinceSnapshot(dailySlot, snapshot) {
+  if (dailySlot.leave && !snapshot.hadLeave) return true;
+  const coverKey = (entry) =>
+    `${entry.subjectName}|${[...(entry.slotIds || [])].sort().join()}|${entry.coverFor || ''}|${entry.coveredBy || ''}`;
+  const before = new Set((snapshot.scheduleEntries || []).filter(e => e.coverFor || e.coveredBy).map(coverKey));
+  return dailySlot.scheduleEntries.some(e => (e.coverFor || e.coveredBy) && !before.has(coverKey(e)));
+}
 
 // @route   POST /api/verifier/time-table/apply
 // @desc    Apply imported time table (verifier-approved). No edits without approve.
+//          Refused with 409 when clashes are found, unless `override` is true.
+//          With `dryRun: true` nothing is written; returns per teacher+date what would change.
 // @access  Private/Verifier
 router.post('/time-table/apply', async (req, res) => {
   try {
-    const { entries } = req.body;
+    const { entries, override, dryRun } = req.body;
     if (!Array.isArray(entries) || entries.length === 0) {
       return res.status(400).json({
         success: false,
@@ -1622,7 +2834,45 @@ router.post('/time-table/apply', async (req, res) => {
       });
     }
 
-    const results = { applied: 0, errors: [] };
+    const clashes = await detectTimetableClashes(entries);
+    if (clashes.length > 0 && !override && !dryRun) {
+      return res.status(409).json({
+        success: false,
+        message: `${clashes.length} clash(es) found. Fix the time table or confirm override to apply anyway.`,
+        clashes
+      });
+    }
+
+    const results = { applied: 0, errors: [], changes: [] };
+    const snapshots = [];
+    // One snapshot per teacher+date: the state before this upload touched the day
+    const snapshotKeys = new Set();
+    const addSnapshot = (dailySlot, teacherId, date) => {
+      const key = `${teacherId}|${date.getTime()}`;
+      if (snapshotKeys.has(key)) return;
+      snapshotKeys.add(key);
+      snapshots.push(snapshotDailyTimeSlot(dailySlot, teacherId, date));
+    };
+
+    // Batch names in the sheet -> Batch ids, so each row is checked against its batch's bell schedule
+    const batchIdsByName = new Map(
+      (await Batch.find().select('name').lean()).map(b => [b.name.trim().toLowerCase(), b._id])
+    );
+
+    // Academic calendar for the import's date range, resolved per batch on first use
+    const entryTimes = entries.map(e => new Date(e.date).getTime()).filter(t => !isNaN(t));
+    const calendarRange = entryTimes.length > 0
+      ? { start: new Date(Math.min(...entryTimes)), end: new Date(Math.max(...entryTimes)) }
+      : null;
+    const lockedDateKeys = calendarRange ? await getLockedDateKeys(calendarRange) : new Set();
+    const calendarByBatch = new Map();
+    const getCalendarDay = async (batchId, date) => {
+      const cacheKey = batchId ? batchId.toString() : '';
+      if (!calendarByBatch.has(cacheKey)) {
+        calendarByBatch.set(cacheKey, await getCalendarDays({ ...calendarRange, batchId }));
+      }
+      return calendarByBatch.get(cacheKey)[toDateKey(date)] || null;
+    };
 
     // Group entries by teacher+date so we can merge subject/slots per day
     const groupKey = (email, d) => `${String(email).trim()}|${new Date(d).setHours(0, 0, 0, 0)}`;
@@ -1652,9 +2902,31 @@ router.post('/time-table/apply', async (req, res) => {
       }
       targetDate.setHours(0, 0, 0, 0);
 
-      const validSlotIds = Array.isArray(slotIds)
-        ? slotIds.filter(id => VALID_SLOT_IDS.has(String(id).trim()))
-        : [];
+      if (lockedDateKeys.has(toDateKey(targetDate))) {
+        results.errors.push({ entry, message: `${targetDate.toDateString()}: ${LOCKED_DAY_MESSAGE}` });
+        continue;
+      }
+
+      const batchId = batch ? batchIdsByName.get(String(batch).trim().toLowerCase()) || null : null;
+      const calendarDay = await getCalendarDay(batchId || teacher.batch || null, targetDate);
+      if (calendarDay && !calendarDay.isWorkingDay) {
+        results.errors.push({
+          entry,
+          message: `${targetDate.toDateString()} is a ${calendarDay.type} (${calendarDay.name}) in the academic calendar`
+        });
+        continue;
+      }
+
+      const slotDefinitions = await getSlotDefinitions({ date: targetDate, batchId });
+      const requestedSlotIds = Array.isArray(slotIds) ? slotIds.map(id => String(id).trim()) : [];
+      const validSlotIds = requestedSlotIds.filter(id => slotDefinitions[id]);
+      const invalidSlotIds = requestedSlotIds.filter(id => !slotDefinitions[id]);
+      if (invalidSlotIds.length > 0) {
+        results.errors.push({
+          entry,
+          message: `Not in the bell schedule for ${targetDate.toDateString()}: ${invalidSlotIds.join(', ')}`
+        });
+      }
       const key = groupKey(teacherEmail, targetDate);
       if (!groups.has(key)) {
         groups.set(key, {
@@ -1662,7 +2934,8 @@ router.post('/time-table/apply', async (req, res) => {
           targetDate,
           breakMinutes: breakMinutes != null ? Math.min(60, Math.max(0, Number(breakMinutes))) : null,
           scheduleEntries: [],
-          allSlotIds: []
+          allSlotIds: [],
+          slotDefinitions: {}
         });
       }
       const g = groups.get(key);
@@ -1671,7 +2944,10 @@ router.post('/time-table/apply', async (req, res) => {
         batch: batch != null ? String(batch).trim() : '',
         slotIds: validSlotIds
       });
-      validSlotIds.forEach(id => { if (!g.allSlotIds.includes(id)) g.allSlotIds.push(id); });
+      validSlotIds.forEach(id => {
+        if (!g.allSlotIds.includes(id)) g.allSlotIds.push(id);
+        g.slotDefinitions[id] = slotDefinitions[id];
+      });
     }
 
     for (const [, g] of groups) {
@@ -1681,18 +2957,19 @@ router.post('/time-table/apply', async (req, res) => {
         date: g.targetDate
       });
 
+      if (dryRun) {
+        results.changes.push(describeTimeTableChange(dailySlot, g));
+        continue;
+      }
+
+      addSnapshot(dailySlot, g.teacher._id, g.targetDate);
+
       if (!dailySlot) {
+        const teacherSlotDefinitions = await getTeacherSlotDefinitions(g.teacher._id, g.targetDate);
         dailySlot = await DailyTimeSlot.create({
           teacher: g.teacher._id,
           date: g.targetDate,
-          slots: Object.entries(SLOT_DEFINITIONS).map(([id, def]) => ({
-            slotId: id,
-            label: def.label,
-            duration: def.duration,
-            checked: false,
-            locked: false,
-            checkedAt: null
-          })),
+          slots: buildDailySlots({ ...teacherSlotDefinitions, ...g.slotDefinitions }),
           breakDuration: breakVal,
           breakChecked: breakVal != null,
           breakCheckedAt: breakVal != null ? new Date() : null,
@@ -1700,22 +2977,58 @@ router.post('/time-table/apply', async (req, res) => {
           scheduleEntries: g.scheduleEntries
         });
       } else {
+        // Covered classes the new schedule drops give the substitute their period back
+        // (the substitutes' days are snapshotted too, so undoing the upload restores their covers)
+        for (const entry of getDroppedCoveredEntries(dailySlot, g.scheduleEntries)) {
+          const substituteDay = await DailyTimeSlot.findOne({ teacher: entry.coveredBy, date: g.targetDate });
+          addSnapshot(substituteDay, entry.coveredBy, g.targetDate);
+        }
+        if (await removeDroppedCovers(dailySlot, g.scheduleEntries) > 0) {
+          dailySlot = await DailyTimeSlot.findById(dailySlot._id);
+        }
         dailySlot.slots.forEach(s => {
           if (g.allSlotIds.includes(s.slotId)) {
             s.checked = false;
             s.checkedAt = null;
+            s.taught = null;
           }
         });
+        // Scheduled periods from a batch-specific bell schedule may not exist on the day yet
+        const existingSlotIds = dailySlot.slots.map(s => s.slotId);
+        dailySlot.slots.push(...buildDailySlots(
+          Object.fromEntries(Object.entries(g.slotDefinitions).filter(([id]) => !existingSlotIds.includes(id)))
+        ));
         dailySlot.breakDuration = breakVal;
         dailySlot.breakChecked = breakVal != null;
         dailySlot.breakCheckedAt = breakVal != null ? new Date() : null;
-        dailySlot.scheduledSlotIds = g.allSlotIds;
-        dailySlot.scheduleEntries = g.scheduleEntries;
+        // Classes this teacher covers for others stay; an unchanged class keeps its substitute
+        const coverEntries = dailySlot.scheduleEntries.filter(e => e.coverFor);
+        const coveredEntries = dailySlot.scheduleEntries.filter(e => e.coveredBy);
+        dailySlot.scheduleEntries = [
+          ...g.scheduleEntries.map(entry => {
+            const covered = coveredEntries.find(e => isSameClass(e, entry));
+            return covered ? { ...entry, _id: covered._id, coveredBy: covered.coveredBy } : entry;
+          }),
+          ...coverEntries
+        ];
+        dailySlot.scheduledSlotIds = collectScheduledSlotIds(dailySlot.scheduleEntries);
+        flagEntriesForCover(dailySlot);
         await dailySlot.save();
       }
       results.applied += 1;
     }
 
+    if (dryRun) {
+      results.changes.sort((a, b) => a.date - b.date || a.teacherName.localeCompare(b.teacherName));
+      return res.json({
+        success: true,
+        dryRun: true,
+        changes: results.changes,
+        clashes,
+        errors: results.errors.length ? results.errors : undefined
+      });
+    }
+
     if (results.applied === 0 && results.errors.length === 0) {
       results.errors.push({ message: 'No entries processed. Check if emails match teachers exactly.' });
     }
@@ -1736,7 +3049,9 @@ router.post('/time-table/apply', async (req, res) => {
         entries: entries, // Now contains resolved details
         teacherEmails,
         teacherNames,
-        batchNames
+        batchNames,
+        overriddenClashes: clashes,
+        snapshots
       });
     }
   } catch (error) {
@@ -1753,13 +3068,136 @@ router.post('/time-table/apply', async (req, res) => {
 router.get('/time-table/history', async (req, res) => {
   try {
     const history = await TimeTableHistory.find({ verifier: req.user.id })
-      .select('createdAt teacherEmails teacherNames batchNames entries') // Include entries for re-download
+      .select('createdAt teacherEmails teacherNames batchNames entries revertedAt snapshots.date') // Include entries for re-download
       .sort({ createdAt: -1 })
-      .limit(50); // Limit to last 50 uploads
+      .limit(50) // Limit to last 50 uploads
+      .lean();
+
+    res.json({
+      success: true,
+      data: history.map(({ snapshots, ...item }) => ({
+        ...item,
+        canRevert: !item.revertedAt && Array.isArray(snapshots) && snapshots.length > 0
+      }))
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/verifier/time-table/history/:id/revert
+// @desc    Undo an upload: restore each affected DailyTimeSlot (substitutes' days included) to its state before the apply.
+//          Days a teacher checked after the upload, that got cover or leave after it, or that a later upload
+//          changed, are skipped unless `force` is true.
+// @access  Private/Verifier
+router.post('/time-table/history/:id/revert', async (req, res) => {
+  try {
+    const { force } = req.body || {};
+    const history = await TimeTableHistory.findOne({
+      _id: req.params.id,
+      verifier: req.user.id
+    });
+
+    if (!history) {
+      return res.status(404).json({
+        success: false,
+        message: 'History record not found'
+      });
+    }
+    if (history.revertedAt) {
+      return res.status(400).json({
+        success: false,
+        message: 'This upload has already been undone'
+      });
+    }
+    if (!history.snapshots || history.snapshots.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'This upload was made before undo was available and cannot be reverted'
+      });
+    }
+
+    // Days touched again by a later upload that is still in effect
+    const dayKey = (teacher, date) => `${teacher}|${new Date(date).getTime()}`;
+    const laterUploads = await TimeTableHistory.find({
+      createdAt: { $gt: history.createdAt },
+      revertedAt: null
+    }).select('snapshots.teacher snapshots.date').lean();
+    const laterDays = new Set(laterUploads.flatMap(h => (h.snapshots || []).map(sn => dayKey(sn.teacher, sn.date))));
+
+    // Days in closed pay periods are never restored, even when forced
+    const snapshotTimes = history.snapshots.map(sn => new Date(sn.date).getTime());
+    const lockedDateKeys = await getLockedDateKeys({
+      start: new Date(Math.min(...snapshotTimes)),
+      end: new Date(Math.max(...snapshotTimes))
+    });
+
+    const result = { restored: 0, skipped: [] };
+    for (const snapshot of history.snapshots) {
+      if (lockedDateKeys.has(toDateKey(snapshot.date))) {
+        result.skipped.push({
+          teacher: snapshot.teacher,
+          date: snapshot.date,
+          reason: 'Pay period is closed'
+        });
+        continue;
+      }
+
+      const dailySlot = await DailyTimeSlot.findOne({ teacher: snapshot.teacher, date: snapshot.date });
+      const checkedSinceUpload = dailySlot && dailySlot.slots.some(s => s.checked && s.checkedAt && s.checkedAt > history.createdAt);
+      const changedByLaterUpload = laterDays.has(dayKey(snapshot.teacher, snapshot.date));
+      const coveredSinceUpload = dailySlot && coverOrLeaveSinceSnapshot(dailySlot, snapshot);
+
+      if (!force && (checkedSinceUpload || changedByLaterUpload || coveredSinceUpload)) {
+        let reason = 'Teacher checked slots after this upload';
+        if (changedByLaterUpload) reason = 'Changed by a later upload';
+        else if (coveredSinceUpload) reason = 'Cover or leave was added after this upload';
+        result.skipped.push({
+          teacher: snapshot.teacher,
+          date: snapshot.date,
+          reason
+        });
+        continue;
+      }
+
+      if (!snapshot.existed) {
+        if (dailySlot) await dailySlot.deleteOne();
+      } else if (dailySlot) {
+        dailySlot.slots = snapshot.slots;
+        dailySlot.breakDuration = snapshot.breakDuration;
+        dailySlot.breakChecked = snapshot.breakChecked;
+        dailySlot.breakCheckedAt = snapshot.breakCheckedAt;
+        dailySlot.scheduledSlotIds = snapshot.scheduledSlotIds;
+        dailySlot.scheduleEntries = snapshot.scheduleEntries;
+        await dailySlot.save();
+      } else {
+        await DailyTimeSlot.create({
+          teacher: snapshot.teacher,
+          date: snapshot.date,
+          slots: snapshot.slots,
+          breakDuration: snapshot.breakDuration,
+          breakChecked: snapshot.breakChecked,
+          breakCheckedAt: snapshot.breakCheckedAt,
+          scheduledSlotIds: snapshot.scheduledSlotIds,
+          scheduleEntries: snapshot.scheduleEntries
+        });
+      }
+      result.restored += 1;
+    }
+
+    // Partially reverted uploads stay open so the remaining days can be forced later
+    if (result.skipped.length === 0) {
+      history.revertedAt = new Date();
+      history.revertedBy = req.user.id;
+      await history.save();
+    }
 
     res.json({
       success: true,
-      data: history
+      data: result
     });
   } catch (error) {
     res.status(500).json({
@@ -1800,4 +3238,244 @@ router.delete('/time-table/history/:id', async (req, res) => {
   }
 });
 
+// Validate template rows: weekday, period in the batch's bell schedule, subject of the batch, teacher
+async function normalizeTimetableEntries(entries, batchId, effectiveFrom) {
+  if (!Array.isArray(entries) || entries.length === 0) {
+    return { error: 'At least one timetable entry is required' };
+  }
+
+  const subjectIds = [...new Set(entries.map(e => String(e.subjectId || e.subject || '')))];
+  const teacherIds = [...new Set(entries.map(e => String(e.teacherId || e.teacher || '')))];
+  if (subjectIds.some(id => !mongoose.Types.ObjectId.isValid(id)) || teacherIds.some(id => !mongoose.Types.ObjectId.isValid(id))) {
+    return { error: 'Every entry needs a valid subject and teacher' };
+  }
+
+  const subjects = await Subject.find({ _id: { $in: subjectIds } }).select('batch');
+  const teachers = await User.find({ _id: { $in: teacherIds }, role: 'teacher' }).select('_id');
+  const slotDefinitionsByWeekday = new Map();
+  const normalized = [];
+  const seen = new Set();
+
+  for (const entry of entries) {
+    const weekday = Number(entry.weekday);
+    const slotId = String(entry.slotId || '').trim();
+    const subjectId = String(entry.subjectId || entry.subject);
+    const teacherId = String(entry.teacherId || entry.teacher);
+
+    if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+      return { error: `Invalid weekday: ${entry.weekday}` };
+    }
+    const subject = subjects.find(s => s._id.toString() === subjectId);
+    if (!subject || !subject.batch || subject.batch.toString() !== batchId.toString()) {
+      return { error: 'Every subject must belong to the timetable batch' };
+    }
+    if (!teachers.some(t => t._id.toString() === teacherId)) {
+      return { error: 'Every entry must be assigned to an existing teacher' };
+    }
+
+    // Periods are checked against the bell schedule of the first date with that weekday
+    if (!slotDefinitionsByWeekday.has(weekday)) {
+      const sampleDate = new Date(effectiveFrom);
+      sampleDate.setDate(sampleDate.getDate() + ((weekday - sampleDate.getDay() + 7) % 7));
+      slotDefinitionsByWeekday.set(weekday, await getSlotDefinitions({ date: sampleDate, batchId }));
+    }
+    if (!slotDefinitionsByWeekday.get(weekday)[slotId]) {
+      return { error: `Period ${slotId} is not in the bell schedule for that day` };
+    }
+
+    const key = `${weekday}|${slotId}`;
+    if (seen.has(key)) {
+      return { error: `Period ${slotId} is assigned twice on the same day` };
+    }
+    seen.add(key);
+
+    normalized.push({ weekday, slotId, subject: subjectId, teacher: teacherId });
+  }
+
+  return { entries: normalized };
+}
+
+function parseTimetableRange(effectiveFrom, effectiveTo) {
+  const from = new Date(effectiveFrom);
+  const to = new Date(effectiveTo);
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return { error: 'Valid effectiveFrom and effectiveTo dates are required' };
+  }
+  from.setHours(0, 0, 0, 0);
+  to.setHours(0, 0, 0, 0);
+  if (to < from) {
+    return { error: 'effectiveTo must be on or after effectiveFrom' };
+  }
+  if ((to - from) / (24 * 60 * 60 * 1000) >= MAX_TIMETABLE_DAYS) {
+    return { error: `A timetable can cover at most ${MAX_TIMETABLE_DAYS} days` };
+  }
+  return { from, to };
+}
+
+// @route   GET /api/verifier/timetables
+// @desc    Get weekly timetable templates
+// @access  Private/Verifier
+router.get('/timetables', async (req, res) => {
+  try {
+    const filter = {};
+    if (req.query.batchId) filter.batch = req.query.batchId;
+
+    const timetables = await WeeklyTimetable.find(filter)
+      .populate('batch', 'name year')
+      .populate('entries.subject', 'name')
+      .populate('entries.teacher', 'name email')
+      .populate('createdBy', 'name email')
+      .sort({ effectiveFrom: -1 })
+      .lean();
+
+    res.json({
+      success: true,
+      data: timetables
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   POST /api/verifier/timetables
+// @desc    Create a weekly timetable template and generate its daily schedules
+// @access  Private/Verifier
+router.post('/timetables', async (req, res) => {
+  try {
+    const { name, batchId, effectiveFrom, effectiveTo, entries } = req.body;
+
+    if (!name || !batchId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Name and batch are required'
+      });
+    }
+    const batch = await Batch.findById(batchId);
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        message: 'Batch not found'
+      });
+    }
+
+    const range = parseTimetableRange(effectiveFrom, effectiveTo);
+    if (range.error) {
+      return res.status(400).json({ success: false, message: range.error });
+    }
+    const normalized = await normalizeTimetableEntries(entries, batch._id, range.from);
+    if (normalized.error) {
+      return res.status(400).json({ success: false, message: normalized.error });
+    }
+
+    const timetable = await WeeklyTimetable.create({
+      name,
+      batch: batch._id,
+      effectiveFrom: range.from,
+      effectiveTo: range.to,
+      entries: normalized.entries,
+      createdBy: req.user.id
+    });
+
+    const generation = await generateFromTimetable(timetable);
+
+    res.status(201).json({
+      success: true,
+      data: timetable,
+      generation
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   PUT /api/verifier/timetables/:id
+// @desc    Update a weekly timetable and regenerate future days (checked days are kept)
+// @access  Private/Verifier
+router.put('/timetables/:id', async (req, res) => {
+  try {
+    const timetable = await WeeklyTimetable.findById(req.params.id);
+    if (!timetable) {
+      return res.status(404).json({
+        success: false,
+        message: 'Timetable not found'
+      });
+    }
+
+    const { name, effectiveFrom, effectiveTo, entries } = req.body;
+    const range = parseTimetableRange(effectiveFrom ?? timetable.effectiveFrom, effectiveTo ?? timetable.effectiveTo);
+    if (range.error) {
+      return res.status(400).json({ success: false, message: range.error });
+    }
+
+    let normalizedEntries = timetable.entries;
+    if (entries !== undefined) {
+      const normalized = await normalizeTimetableEntries(entries, timetable.batch, range.from);
+      if (normalized.error) {
+        return res.status(400).json({ success: false, message: normalized.error });
+      }
+      normalizedEntries = normalized.entries;
+    }
+
+    if (name) timetable.name = name;
+    timetable.effectiveFrom = range.from;
+    timetable.effectiveTo = range.to;
+    timetable.entries = normalizedEntries;
+    await timetable.save();
+
+    // Past days stay as they were; from today on, drop the old generated entries and rebuild
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const cleared = await clearGeneratedEntries(timetable._id, today);
+    const generation = await generateFromTimetable(timetable, today);
+
+    res.json({
+      success: true,
+      data: timetable,
+      generation: { ...generation, cleared: cleared.cleared }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
+// @route   DELETE /api/verifier/timetables/:id
+// @desc    Delete a weekly timetable and its generated future days (checked days are kept)
+// @access  Private/Verifier
+router.delete('/timetables/:id', async (req, res) => {
+  try {
+    const timetable = await WeeklyTimetable.findById(req.params.id);
+    if (!timetable) {
+      return res.status(404).json({
+        success: false,
+        message: 'Timetable not found'
+      });
+    }
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const cleared = await clearGeneratedEntries(timetable._id, today);
+    await timetable.deleteOne();
+
+    res.json({
+      success: true,
+      message: 'Timetable deleted',
+      data: cleared
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      message: error.message
+    });
+  }
+});
+
 export default router;
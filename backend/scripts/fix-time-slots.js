@@ -4,18 +4,13 @@
 import mongoose from 'mongoose';
 import dotenv from 'dotenv';
 import DailyTimeSlot from '../models/DailyTimeSlot.js';
+import { getTeacherSlotDefinitions, buildDailySlots } from '../utils/bellSchedule.js';
 
 dotenv.config();
 
-const slotDefinitions = {
-  '9-10': { label: '9:00 - 10:00', duration: 60 },
-  '10-11': { label: '10:00 - 11:00', duration: 60 },
-  '11-12': { label: '11:00 - 12:00', duration: 60 },
-  '12-13': { label: '12:00 - 13:00', duration: 60 },
-  '13-14': { label: '13:00 - 14:00', duration: 60 },
-  '14-15': { label: '14:00 - 15:00', duration: 60 },
-  '15-16': { label: '15:00 - 16:00', duration: 60 },
-  '16-17': { label: '16:00 - 17:00', duration: 60 },
+// Evening periods earlier versions of this script added to every day. They are not part of the
+// default bell schedule, but days that have them keep them (they may hold checked hours).
+const LEGACY_EVENING_SLOTS = {
   '17-18': { label: '17:00 - 18:00', duration: 60 },
   '18-19': { label: '18:00 - 19:00', duration: 60 }
 };
@@ -27,21 +22,21 @@ async function fixTimeSlots() {
 
     const allTimeSlots = await DailyTimeSlot.find({});
     console.log(`Found ${allTimeSlots.length} time slot records`);
+    let legacyRecords = 0;
 
     for (const record of allTimeSlots) {
       let needsUpdate = false;
       
-      // Check for missing slots
+      // Check for missing slots (only for days recorded under the current bell schedule)
+      const slotDefinitions = await getTeacherSlotDefinitions(record.teacher, record.date);
       const existingSlotIds = record.slots.map(s => s.slotId);
-      const missingSlots = Object.entries(slotDefinitions)
-        .filter(([id]) => !existingSlotIds.includes(id))
-        .map(([id, def]) => ({
-          slotId: id,
-          label: def.label,
-          duration: def.duration,
-          checked: false,
-          locked: false
-        }));
+      if (existingSlotIds.some(id => LEGACY_EVENING_SLOTS[id] && !slotDefinitions[id])) legacyRecords += 1;
+      const sameSchedule = existingSlotIds.every(id => slotDefinitions[id] || LEGACY_EVENING_SLOTS[id]);
+      const missingSlots = sameSchedule
+        ? buildDailySlots(Object.fromEntries(
+            Object.entries(slotDefinitions).filter(([id]) => !existingSlotIds.includes(id))
+          ))
+        : [];
 
       if (missingSlots.length > 0) {
         record.slots.push(...missingSlots);
@@ -63,6 +58,9 @@ async function fixTimeSlots() {
       }
     }
 
+    if (legacyRecords > 0) {
+      console.log(`Kept the 17-18 / 18-19 slots on ${legacyRecords} record(s) outside the current bell schedule`);
+    }
     console.log('✅ All time slot records fixed!');
     process.exit(0);
   } catch (error) {
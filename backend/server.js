@@ -16,6 +16,13 @@ import teacherRoutes from './routes/teacher.js';
 import adminRoutes from './routes/admin.js';
 import verifierRoutes from './routes/verifier.js';
 import batchRoutes from './routes/batch.js';
+import bellScheduleRoutes from './routes/bellSchedule.js';
+import academicCalendarRoutes from './routes/academicCalendar.js';
+import calendarFeedRoutes from './routes/calendarFeed.js';
+import autoApprovalRuleRoutes from './routes/autoApprovalRules.js';
+import payPeriodRoutes from './routes/payPeriods.js';
+import timesheetRoutes from './routes/timesheets.js';
+import invoiceRoutes from './routes/invoices.js';
 
 // Load env vars
 dotenv.config();
@@ -83,6 +90,13 @@ app.use('/api/teacher', teacherRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/verifier', verifierRoutes);
 app.use('/api/batch', batchRoutes);
+app.use('/api/bell-schedules', bellScheduleRoutes);
+app.use('/api/academic-calendar', academicCalendarRoutes);
+app.use('/api/calendar-feed', calendarFeedRoutes);
+app.use('/api/auto-approval-rules', autoApprovalRuleRoutes);
+app.use('/api/pay-periods', payPeriodRoutes);
+app.use('/api/timesheets', timesheetRoutes);
+app.use('/api/invoices', invoiceRoutes);
 
 
 
@@ -0,0 +1,45 @@
+import { test, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import AutoApprovalRule from '../models/AutoApprovalRule.js';
+import { buildTimeSlotContext, evaluateAutoApprovalRules } from '../utils/autoApproval.js';
+import { newId, query } from './helpers.js';
+
+afterEach(() => mock.restoreAll());
+
+const rule = (name, action, conditions = {}) => ({ _id: newId(), name, action, conditions });
+
+const context = (dailySlot) => buildTimeSlotContext({
+  dailySlot,
+  slotId: '9-10',
+  slotLabel: '9:00 - 10:00',
+  date: new Date(2026, 2, 2),
+  now: new Date(2026, 2, 2, 11)
+});
+
+test('a scheduled slot confirmed after it ended is auto-approved', async () => {
+  mock.method(AutoApprovalRule, 'find', () => query([
+    rule('Confirmed classes', 'approve', { inSchedule: true, sameDay: true, afterSlotEnd: true }),
+    rule('Everything else', 'review')
+  ]));
+
+  const matched = await evaluateAutoApprovalRules('time-slot', context({ scheduledSlotIds: ['9-10'] }));
+
+  assert.equal(matched.name, 'Confirmed classes');
+});
+
+test('slots on a leave day skip approve rules and go to review', async () => {
+  mock.method(AutoApprovalRule, 'find', () => query([
+    rule('Confirmed classes', 'approve', { inSchedule: true }),
+    rule('Everything else', 'review')
+  ]));
+  const onLeave = context({ scheduledSlotIds: ['9-10'], leave: { duration: 'half', slotIds: ['14-15'] } });
+
+  assert.equal(onLeave.onLeave, true);
+  assert.equal((await evaluateAutoApprovalRules('time-slot', onLeave)).name, 'Everything else');
+});
+
+test('without a review rule a leave-day slot matches nothing and waits for a verifier', async () => {
+  mock.method(AutoApprovalRule, 'find', () => query([rule('Catch-all', 'approve')]));
+
+  assert.equal(await evaluateAutoApprovalRules('time-slot', context({ leave: { duration: 'full', slotIds: [] } })), null);
+});
@@ -0,0 +1,82 @@
+import { test, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import DailyTimeSlot from '../models/DailyTimeSlot.js';
+import Exam from '../models/Exam.js';
+import Subject from '../models/Subject.js';
+import Unit from '../models/Unit.js';
+import UnitLog from '../models/UnitLog.js';
+import { getCompletionForecasts } from '../utils/completionForecast.js';
+import { newId, query } from './helpers.js';
+
+const now = new Date(2026, 2, 2, 12);
+
+const stubSubject = ({ unit, logs, days = [], exams = [] }) => {
+  const subject = { _id: newId(), name: 'Physics', batch: { _id: newId(), name: 'BSc 1' } };
+  unit.subject = subject._id;
+  logs.forEach(log => Object.assign(log, { subject: subject._id, unit: unit._id }));
+  mock.method(Subject, 'find', () => query([subject]));
+  mock.method(Unit, 'find', () => query([unit]));
+  mock.method(UnitLog, 'find', () => query(logs));
+  exams.forEach(exam => Object.assign(exam, { subjects: [subject._id] }));
+  mock.method(Exam, 'find', () => query(exams));
+  return mock.method(DailyTimeSlot, 'find', () => query(days));
+};
+
+afterEach(() => mock.restoreAll());
+
+test('a subject whose remaining units need no more hours is not at risk without classes', async () => {
+  stubSubject({
+    unit: { _id: newId(), plannedHours: 2 },
+    logs: [{
+      status: 'paused',
+      startTime: new Date(2026, 2, 1, 9),
+      sessions: [{ startTime: new Date(2026, 2, 1, 9), endTime: new Date(2026, 2, 1, 12) }]
+    }]
+  });
+
+  const { subjects } = await getCompletionForecasts({}, now);
+
+  assert.equal(subjects[0].hoursNeeded, 0);
+  assert.equal(subjects[0].scheduledHours, 0);
+  assert.equal(subjects[0].risk, 'low');
+});
+
+test('timetable classes match the subject name regardless of case and spacing', async () => {
+  const find = stubSubject({
+    unit: { _id: newId(), plannedHours: 2 },
+    logs: [],
+    days: [{
+      date: new Date(2026, 2, 3),
+      slots: [{ slotId: '9-10', duration: 60 }, { slotId: '10-11', duration: 60 }],
+      scheduleEntries: [{ subjectName: ' physics ', batch: 'bsc 1', slotIds: ['9-10', '10-11'] }]
+    }]
+  });
+
+  const { subjects } = await getCompletionForecasts({}, now);
+
+  const [pattern] = find.mock.calls[0].arguments[0]['scheduleEntries.subjectName'].$in;
+  assert.ok(pattern.test(' PHYSICS '));
+  assert.ok(!pattern.test('Physics II'));
+  assert.equal(subjects[0].scheduledHours, 2);
+  assert.deepEqual(subjects[0].projectedDate, new Date(2026, 2, 3));
+});
+
+test('a subject projected to finish after its next exam is at high risk', async () => {
+  const classDay = (date) => ({
+    date,
+    slots: [{ slotId: '9-10', duration: 60 }],
+    scheduleEntries: [{ subjectName: 'Physics', batch: 'BSc 1', slotIds: ['9-10'] }]
+  });
+  stubSubject({
+    unit: { _id: newId(), plannedHours: 2 },
+    logs: [],
+    days: [classDay(new Date(2026, 2, 3)), classDay(new Date(2026, 2, 10))],
+    exams: [{ name: 'Midterm', examDate: new Date(2026, 2, 5) }]
+  });
+
+  const { subjects } = await getCompletionForecasts({}, now);
+
+  assert.deepEqual(subjects[0].projectedDate, new Date(2026, 2, 10));
+  assert.equal(subjects[0].risk, 'high');
+  assert.equal(subjects[0].reason, 'Projected to finish after Midterm');
+});
@@ -0,0 +1,98 @@
+import { test, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import DailyTimeSlot from '../models/DailyTimeSlot.js';
+import BellSchedule from '../models/BellSchedule.js';
+import PayPeriod from '../models/PayPeriod.js';
+import User from '../models/User.js';
+import { assignCover, removeDroppedCovers } from '../utils/cover.js';
+import { newId, query } from './helpers.js';
+
+const newDay = (teacher, date, scheduleEntries) => {
+  const day = new DailyTimeSlot({ teacher, date, slots: [], scheduleEntries });
+  mock.method(day, 'save', async () => day);
+  return day;
+};
+
+afterEach(() => mock.restoreAll());
+
+test('re-importing a day takes back the covers of classes it drops', async () => {
+  const date = new Date(2026, 0, 12);
+  const [teacherId, substituteId] = [newId(), newId()];
+  const teacherDay = newDay(teacherId, date, [
+    { subjectName: 'Maths', batch: 'A', slotIds: ['9-10'], coveredBy: substituteId },
+    { subjectName: 'Physics', batch: 'A', slotIds: ['10-11'], coveredBy: substituteId }
+  ]);
+  const [maths, physics] = teacherDay.scheduleEntries;
+  const substituteDay = newDay(substituteId, date, [
+    { subjectName: 'Maths', batch: 'A', slotIds: ['9-10'], coverFor: teacherId, coverEntry: maths._id },
+    { subjectName: 'Physics', batch: 'A', slotIds: ['10-11'], coverFor: teacherId, coverEntry: physics._id }
+  ]);
+
+  mock.method(PayPeriod, 'findOne', () => query(null));
+  mock.method(DailyTimeSlot, 'findOne', async (filter) =>
+    filter['scheduleEntries._id'] ? teacherDay : substituteDay
+  );
+
+  // Maths moved to another period; Physics is unchanged and keeps its substitute
+  const removed = await removeDroppedCovers(teacherDay, [
+    { subjectName: 'Maths', batch: 'A', slotIds: ['11-12'] },
+    { subjectName: 'Physics', batch: 'A', slotIds: ['10-11'] }
+  ]);
+
+  assert.equal(removed, 1);
+  assert.deepEqual(substituteDay.scheduleEntries.map(e => e.subjectName), ['Physics']);
+  assert.deepEqual(substituteDay.scheduledSlotIds, ['10-11']);
+  assert.equal(maths.coveredBy, null);
+  assert.equal(physics.coveredBy.toString(), substituteId.toString());
+});
+
+test('a day without dropped covers is left alone', async () => {
+  const teacherDay = newDay(newId(), new Date(2026, 0, 12), [
+    { subjectName: 'Maths', batch: 'A', slotIds: ['9-10'] }
+  ]);
+  const findOne = mock.method(DailyTimeSlot, 'findOne', async () => null);
+
+  assert.equal(await removeDroppedCovers(teacherDay, []), 0);
+  assert.equal(findOne.mock.callCount(), 0);
+});
+
+test('a substitute takes a class for one day and the absent teacher loses its periods', async () => {
+  const date = new Date(2026, 0, 12);
+  const [teacherId, substituteId] = [newId(), newId()];
+  const teacherDay = newDay(teacherId, date, [{ subjectName: 'Maths', batch: 'A', slotIds: ['9-10'], needsCover: true }]);
+  teacherDay.slots.push({ slotId: '9-10', label: '9:00 - 10:00', duration: 60, checked: true, checkedAt: date });
+  const [entry] = teacherDay.scheduleEntries;
+  const saved = [];
+
+  mock.method(PayPeriod, 'findOne', () => query(null));
+  mock.method(User, 'findById', () => query(null));
+  mock.method(BellSchedule, 'find', () => ({ sort: async () => [] }));
+  mock.method(DailyTimeSlot, 'find', () => query([]));
+  mock.method(DailyTimeSlot, 'findOne', async (filter) => (filter['scheduleEntries._id'] ? teacherDay : null));
+  mock.method(DailyTimeSlot.prototype, 'save', async function () {
+    saved.push(this);
+    return this;
+  });
+
+  const result = await assignCover({ entryId: entry._id, substituteId });
+
+  assert.equal(result.success, true);
+  const substituteDay = saved.find(day => day.teacher.equals(substituteId));
+  assert.deepEqual(substituteDay.scheduledSlotIds, ['9-10']);
+  assert.equal(substituteDay.scheduleEntries[0].coverEntry.toString(), entry._id.toString());
+  assert.equal(entry.coveredBy.toString(), substituteId.toString());
+  assert.equal(entry.needsCover, false);
+  assert.equal(teacherDay.slots[0].checked, false);
+  assert.deepEqual(teacherDay.scheduledSlotIds, []);
+});
+
+test('a teacher cannot cover their own class', async () => {
+  const teacherId = newId();
+  const teacherDay = newDay(teacherId, new Date(2026, 0, 12), [{ subjectName: 'Maths', batch: 'A', slotIds: ['9-10'] }]);
+  mock.method(PayPeriod, 'findOne', () => query(null));
+  mock.method(DailyTimeSlot, 'findOne', async () => teacherDay);
+
+  const result = await assignCover({ entryId: teacherDay.scheduleEntries[0]._id, substituteId: teacherId });
+
+  assert.deepEqual(result, { success: false, status: 400, message: 'A teacher cannot cover their own class' });
+});
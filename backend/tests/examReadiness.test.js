@@ -0,0 +1,81 @@
+import { test, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import Subject from '../models/Subject.js';
+import Unit from '../models/Unit.js';
+import UnitLog from '../models/UnitLog.js';
+import { addExamReadiness, resolveExamPortion } from '../utils/examReadiness.js';
+import { newId, query } from './helpers.js';
+
+afterEach(() => mock.restoreAll());
+
+const exam = (subject, portion) => ({
+  _id: newId(),
+  name: 'Midterm',
+  examDate: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000),
+  subjects: [subject],
+  portion
+});
+
+test('portion units count as ready once completed, running or not', async () => {
+  const subject = { _id: newId(), name: 'Physics' };
+  const [done, revising, running, untouched] = ['Motion', 'Heat', 'Light', 'Sound'].map((name, index) => ({
+    _id: newId(), name, order: index + 1, subject: subject._id
+  }));
+  mock.method(UnitLog, 'find', () => query([
+    { unit: done._id, status: 'completed', endTime: new Date(2026, 0, 10) },
+    // Completed once, now being taught again as a revision
+    { unit: revising._id, status: 'in-progress', firstCompletedAt: new Date(2026, 0, 12) },
+    { unit: running._id, status: 'in-progress' }
+  ]));
+
+  const [result] = await addExamReadiness([exam(subject, [done, revising, running, untouched])]);
+
+  assert.deepEqual(
+    { completed: result.readiness.completedUnits, inProgress: result.readiness.inProgressUnits, notStarted: result.readiness.notStartedUnits },
+    { completed: 2, inProgress: 1, notStarted: 1 }
+  );
+  assert.deepEqual(result.pendingUnits.map(unit => unit.name), ['Light', 'Sound']);
+  assert.equal(result.readiness.ready, false);
+});
+
+test('an exam whose portion was all completed is ready while a unit is revised', async () => {
+  const subject = { _id: newId(), name: 'Physics' };
+  const unit = { _id: newId(), name: 'Motion', order: 1, subject: subject._id };
+  mock.method(UnitLog, 'find', () => query([{
+    unit: unit._id,
+    status: 'paused',
+    previousAttempts: [{ startTime: new Date(2026, 0, 5), endTime: new Date(2026, 0, 9), totalMinutes: 300 }]
+  }]));
+
+  const [result] = await addExamReadiness([exam(subject, [unit])]);
+
+  assert.equal(result.readiness.ready, true);
+  assert.equal(result.readiness.percent, 100);
+  assert.deepEqual(result.pendingUnits, []);
+});
+
+test('an exam portion must be units of subjects in the batch', async () => {
+  const [subjectId, unitId] = [newId(), newId()];
+  mock.method(Subject, 'countDocuments', async () => 1);
+  const countUnits = mock.method(Unit, 'countDocuments', async () => 0);
+
+  const foreignUnit = await resolveExamPortion({ batchId: newId(), subjectIds: [subjectId], unitIds: [unitId] });
+  assert.deepEqual(foreignUnit, { success: false, message: 'Some portion units do not belong to the exam subjects' });
+
+  countUnits.mock.mockImplementation(async () => 1);
+  const resolved = await resolveExamPortion({
+    batchId: newId(),
+    subjectIds: [subjectId, subjectId.toString()],
+    unitIds: [unitId]
+  });
+  assert.deepEqual(resolved, { success: true, data: { subjects: [subjectId.toString()], portion: [unitId.toString()] } });
+});
+
+test('an exam without portion units is refused', async () => {
+  mock.method(Subject, 'countDocuments', async () => 1);
+  mock.method(Unit, 'countDocuments', async () => 0);
+
+  const result = await resolveExamPortion({ batchId: newId(), subjectIds: [newId()], unitIds: [] });
+
+  assert.deepEqual(result, { success: false, message: 'Select the units in the exam portion' });
+});
@@ -0,0 +1,10 @@
+// Shared fixtures for the unit tests (model statics are stubbed with node:test mocks, no database)
+import mongoose from 'mongoose';
+
+export const newId = () => new mongoose.Types.ObjectId();
+
+// Stand-in for a Mongoose query: chained select / populate / sort calls resolve to the given documents
+export const query = (docs) => {
+  const chain = { select: () => chain, populate: () => chain, sort: () => chain, lean: async () => docs };
+  return chain;
+};
@@ -0,0 +1,123 @@
+import { test, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import Batch from '../models/Batch.js';
+import Subject from '../models/Subject.js';
+import SubjectAssignment from '../models/SubjectAssignment.js';
+import Unit from '../models/Unit.js';
+import User from '../models/User.js';
+import { applySyllabusImport, checkSyllabusRows } from '../utils/syllabusImport.js';
+import { newId, query } from './helpers.js';
+
+const plan = (overrides = {}) => ({
+  batchId: newId(),
+  subjectName: 'Physics',
+  teacherId: null,
+  plannedHours: 4,
+  units: [{ name: 'Motion', plannedHours: 2 }, { name: 'Heat', plannedHours: 2 }],
+  ...overrides
+});
+
+const standaloneServer = () => mock.method(mongoose.connection, 'transaction', async () => {
+  throw Object.assign(new Error('Transaction numbers are only allowed on a replica set member or mongos'), { code: 20 });
+});
+
+const stubWrites = () => {
+  mock.method(Subject, 'create', async ([data]) => {
+    const subject = new Subject(data);
+    mock.method(subject, 'save', async () => subject);
+    return [subject];
+  });
+  mock.method(Batch, 'updateOne', async () => ({ modifiedCount: 1 }));
+  mock.method(SubjectAssignment, 'create', async ([data]) => [new SubjectAssignment(data)]);
+};
+
+const stubDirectory = (existingSubject = null) => {
+  const batch = { _id: newId(), name: '10 A' };
+  const teacher = { _id: newId(), name: 'Asha', email: 'asha@school.test' };
+  mock.method(Batch, 'find', () => query([batch]));
+  mock.method(User, 'find', () => query([teacher]));
+  mock.method(Subject, 'findOne', () => query(existingSubject));
+  return { batch, teacher };
+};
+
+afterEach(() => mock.restoreAll());
+
+test('groups rows into one subject per batch with its units in order', async () => {
+  const { batch, teacher } = stubDirectory();
+
+  const { errors, subjects } = await checkSyllabusRows([
+    { rowIndex: 2, batch: '10 a', subject: 'Physics', unitOrder: 2, unitName: 'Heat', plannedHours: 3 },
+    { rowIndex: 3, batch: '10 A', subject: 'physics ', unitOrder: 1, unitName: 'Motion', plannedHours: 2.5, teacherEmail: 'ASHA@school.test' }
+  ]);
+
+  assert.deepEqual(errors, []);
+  assert.equal(subjects.length, 1);
+  assert.equal(subjects[0].batchId, batch._id);
+  assert.equal(subjects[0].teacherId, teacher._id);
+  assert.equal(subjects[0].plannedHours, 5.5);
+  assert.deepEqual(subjects[0].units.map(unit => unit.name), ['Motion', 'Heat']);
+});
+
+test('reports unknown batches, repeated units and existing subjects against their rows', async () => {
+  stubDirectory({ _id: newId() });
+
+  const { errors, subjects } = await checkSyllabusRows([
+    { rowIndex: 2, batch: '9 B', subject: 'Physics', unitOrder: 1, unitName: 'Motion' },
+    { rowIndex: 3, batch: '10 A', subject: 'Physics', unitOrder: 1, unitName: 'Motion' },
+    { rowIndex: 4, batch: '10 A', subject: 'Physics', unitOrder: 1, unitName: 'Heat' },
+    { rowIndex: 5, batch: '10 A', subject: 'Physics', unitOrder: 2, unitName: 'motion' }
+  ]);
+
+  assert.deepEqual(subjects, []);
+  assert.deepEqual(errors.map(error => [error.rowIndex, error.column]), [
+    [2, 'BATCH'], [3, 'SUBJECT'], [4, 'UNIT ORDER'], [5, 'UNIT']
+  ]);
+});
+
+test('imports without a transaction on a standalone server', async () => {
+  standaloneServer();
+  stubWrites();
+  mock.method(Unit, 'insertMany', async (units) => units.map(unit => new Unit(unit)));
+
+  const created = await applySyllabusImport([plan(), plan({ subjectName: 'Maths' })], newId());
+
+  assert.deepEqual(created, { subjects: 2, units: 4 });
+  assert.equal(Subject.create.mock.callCount(), 2);
+  assert.equal(Subject.create.mock.calls[0].arguments[1].session, null);
+});
+
+test('removes what was written when an import without a transaction fails', async () => {
+  standaloneServer();
+  stubWrites();
+  let insertCount = 0;
+  mock.method(Unit, 'insertMany', async (units) => {
+    insertCount += 1;
+    if (insertCount === 2) throw new Error('Unit validation failed');
+    return units.map(unit => new Unit(unit));
+  });
+  const assignmentDelete = mock.method(SubjectAssignment, 'deleteMany', async () => ({}));
+  const unitDelete = mock.method(Unit, 'deleteMany', async () => ({}));
+  const subjectDelete = mock.method(Subject, 'deleteMany', async () => ({}));
+  const teacherId = newId();
+  const first = plan({ teacherId });
+
+  await assert.rejects(applySyllabusImport([first, plan({ subjectName: 'Maths' })], newId()), /Unit validation failed/);
+
+  assert.equal(Subject.create.mock.callCount(), 2);
+  assert.equal(subjectDelete.mock.calls[0].arguments[0]._id.$in.length, 2);
+  assert.equal(unitDelete.mock.calls[0].arguments[0]._id.$in.length, 2);
+  assert.equal(assignmentDelete.mock.calls[0].arguments[0]._id.$in.length, 1);
+  const pull = Batch.updateOne.mock.calls.at(-1).arguments;
+  assert.deepEqual(pull[1], { $pull: { teachers: teacherId } });
+});
+
+test('other transaction errors are not retried', async () => {
+  mock.method(mongoose.connection, 'transaction', async () => {
+    throw new Error('E11000 duplicate key error');
+  });
+  const create = mock.method(Subject, 'create', async () => []);
+
+  await assert.rejects(applySyllabusImport([plan()], newId()), /duplicate key/);
+  assert.equal(create.mock.callCount(), 0);
+});
@@ -0,0 +1,49 @@
+import { test, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import Subject from '../models/Subject.js';
+import Unit from '../models/Unit.js';
+import User from '../models/User.js';
+import { createSubjectFromTemplate, getTemplateMergePlan } from '../utils/syllabusTemplates.js';
+import { newId, query } from './helpers.js';
+
+const template = { _id: newId(), name: 'Physics', subjectName: 'Physics', version: 1, units: [] };
+
+afterEach(() => mock.restoreAll());
+
+test('a malformed teacher id is refused before any lookup', async () => {
+  const findById = mock.method(User, 'findById', () => {
+    throw new Error('Cast to ObjectId failed');
+  });
+  const create = mock.method(Subject, 'create', async () => ({}));
+
+  const result = await createSubjectFromTemplate(template, {
+    batchId: newId(),
+    teacherId: 'not-an-id',
+    userId: newId()
+  });
+
+  assert.deepEqual(result, { success: false, message: 'Invalid teacher' });
+  assert.equal(findById.mock.callCount(), 0);
+  assert.equal(create.mock.callCount(), 0);
+});
+
+test('a merge adds missing units, updates hours, keeps extra units and notices a new order', async () => {
+  const [motion, heat, optics] = [newId(), newId(), newId()];
+  mock.method(Unit, 'find', () => query([
+    { _id: heat, name: 'Heat', order: 1, plannedHours: 3 },
+    { _id: motion, name: 'motion', order: 2, plannedHours: 2 },
+    { _id: optics, name: 'Optics', order: 3, plannedHours: 4 }
+  ]));
+
+  const plan = await getTemplateMergePlan({
+    ...template,
+    units: [{ name: 'Motion', plannedHours: 2 }, { name: 'Heat', plannedHours: 5 }, { name: 'Waves', plannedHours: 1 }]
+  }, newId());
+
+  assert.deepEqual(plan, {
+    add: [{ name: 'Waves', plannedHours: 1 }],
+    update: [{ unitId: heat, name: 'Heat', plannedHoursBefore: 3, plannedHoursAfter: 5 }],
+    extra: [{ unitId: optics, name: 'Optics' }],
+    reorder: true
+  });
+});
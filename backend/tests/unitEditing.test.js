@@ -0,0 +1,96 @@
+import { test, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import DailyTimeSlot from '../models/DailyTimeSlot.js';
+import Exam from '../models/Exam.js';
+import SubjectAssignment from '../models/SubjectAssignment.js';
+import UnitLog from '../models/UnitLog.js';
+import { newId } from './helpers.js';
+import { mergeUnitLogs, moveUnitReferences, addPartsToExamPortions, removeFromExamPortions } from '../utils/unitEditing.js';
+
+const newExam = (portion) => {
+  const exam = new Exam({ name: 'Midterm', batch: newId(), examDate: new Date(), createdBy: newId(), portion });
+  mock.method(exam, 'save', async () => exam);
+  return exam;
+};
+
+afterEach(() => mock.restoreAll());
+
+test('merging units points exam portions at the target unit', async () => {
+  const [target, first, second, other] = [newId(), newId(), newId(), newId()];
+  const withTarget = newExam([target, first, other]);
+  const withoutTarget = newExam([second]);
+
+  mock.method(DailyTimeSlot, 'updateMany', async () => ({}));
+  mock.method(SubjectAssignment, 'find', async () => []);
+  const find = mock.method(Exam, 'find', async () => [withTarget, withoutTarget]);
+
+  await moveUnitReferences({ _id: target, name: 'Merged' }, [first.toString(), second.toString()]);
+
+  assert.deepEqual(find.mock.calls[0].arguments[0].portion.$in.map(String), [first, second].map(String));
+  assert.deepEqual(withTarget.portion.map(String), [target, other].map(String));
+  assert.deepEqual(withoutTarget.portion.map(String), [target.toString()]);
+  assert.equal(withTarget.save.mock.callCount(), 1);
+  assert.equal(withoutTarget.save.mock.callCount(), 1);
+});
+
+test('splitting a unit adds the new parts to exams covering it', async () => {
+  const [unit, partA, partB] = [newId(), newId(), newId()];
+  const updateMany = mock.method(Exam, 'updateMany', async () => ({}));
+
+  await addPartsToExamPortions(unit, [partA, partB]);
+
+  const [filter, update] = updateMany.mock.calls[0].arguments;
+  assert.deepEqual(filter, { portion: unit });
+  assert.deepEqual(update, { $addToSet: { portion: { $each: [partA, partB] } } });
+});
+
+test('deleting a unit pulls it from exam portions', async () => {
+  const unit = newId();
+  const updateMany = mock.method(Exam, 'updateMany', async () => ({}));
+
+  await removeFromExamPortions(unit);
+
+  const [filter, update] = updateMany.mock.calls[0].arguments;
+  assert.deepEqual(filter, { portion: unit });
+  assert.deepEqual(update, { $pull: { portion: unit } });
+});
+
+const newLog = ({ unit, teacher, status, start, end }) => new UnitLog({
+  unit,
+  teacher,
+  subject: newId(),
+  status,
+  startTime: start,
+  endTime: end || null,
+  sessions: [{ startTime: start, endTime: end || null }]
+});
+
+test('merging keeps the other logs until their time is saved on the kept log', async () => {
+  const [target, source, teacher] = [newId(), newId(), newId()];
+  const done = newLog({ unit: target, teacher, status: 'completed', start: new Date(2026, 0, 5, 9), end: new Date(2026, 0, 5, 11) });
+  const running = newLog({ unit: source, teacher, status: 'in-progress', start: new Date(2026, 0, 6, 9) });
+  const steps = [];
+  mock.method(running, 'save', async () => steps.push(`save on ${running.unit.equals(target) ? 'target' : 'source'}`));
+  mock.method(UnitLog, 'find', async () => [done, running]);
+  mock.method(UnitLog, 'deleteMany', async () => steps.push('delete'));
+
+  const result = await mergeUnitLogs(target.toString(), [source.toString()]);
+
+  assert.deepEqual(result, { success: true });
+  assert.deepEqual(steps, ['save on source', 'delete', 'save on target']);
+  assert.equal(running.sessions.length, 2);
+});
+
+test('a failed save during a merge deletes no teaching records', async () => {
+  const [target, source, teacher] = [newId(), newId(), newId()];
+  const done = newLog({ unit: target, teacher, status: 'completed', start: new Date(2026, 0, 5, 9), end: new Date(2026, 0, 5, 11) });
+  const running = newLog({ unit: source, teacher, status: 'in-progress', start: new Date(2026, 0, 6, 9) });
+  mock.method(running, 'save', async () => {
+    throw new Error('connection lost');
+  });
+  mock.method(UnitLog, 'find', async () => [done, running]);
+  const deleteMany = mock.method(UnitLog, 'deleteMany', async () => ({}));
+
+  await assert.rejects(mergeUnitLogs(target.toString(), [source.toString()]), /connection lost/);
+  assert.equal(deleteMany.mock.callCount(), 0);
+});
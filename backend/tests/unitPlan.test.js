@@ -0,0 +1,51 @@
+import { test, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import Subject from '../models/Subject.js';
+import UnitLog from '../models/UnitLog.js';
+import { addUnitWeights, emptyProgressWeights, getAssignedUnitProgress } from '../utils/unitPlan.js';
+import { newId, query } from './helpers.js';
+
+afterEach(() => mock.restoreAll());
+
+test('teacher and batch progress count every assigned unit, started or not', async () => {
+  const teacher = { _id: newId(), name: 'Asha' };
+  const otherTeacher = newId();
+  const batch = { _id: newId(), name: 'BSc 1' };
+  const [intro, core, lab] = [
+    { _id: newId(), plannedHours: 2, marks: 10 },
+    { _id: newId(), plannedHours: 20, marks: 60 },
+    { _id: newId(), plannedHours: 8, marks: 30 }
+  ];
+  mock.method(Subject, 'find', () => query([{ _id: newId(), name: 'Physics', teacher, batch, units: [intro, core, lab] }]));
+  mock.method(UnitLog, 'find', () => query([
+    { unit: core._id, teacher: teacher._id, status: 'completed', endTime: new Date() },
+    { unit: lab._id, teacher: otherTeacher, status: 'completed', endTime: new Date() },
+    { unit: intro._id, teacher: teacher._id, status: 'in-progress' }
+  ]));
+
+  const { teachers, batches } = await getAssignedUnitProgress();
+
+  assert.equal(teachers.length, 1);
+  assert.equal(teachers[0].teacherName, 'Asha');
+  assert.deepEqual([teachers[0].completed, teachers[0].total], [1, 3]);
+  assert.deepEqual(teachers[0].weights.hours, { total: 30, completed: 20 });
+  assert.deepEqual(teachers[0].weights.marks, { total: 100, completed: 60 });
+
+  // The batch counts units completed by any teacher
+  assert.equal(batches[0].batch, 'BSc 1');
+  assert.deepEqual([batches[0].completed, batches[0].total], [2, 3]);
+  assert.deepEqual(batches[0].weights.hours, { total: 30, completed: 28 });
+});
+
+test('unit weights add to the given counters and units without an estimate add nothing', () => {
+  const weights = emptyProgressWeights(['total', 'completed', 'pending']);
+
+  addUnitWeights(weights, { plannedHours: 1.1, marks: 20 }, ['total', 'completed']);
+  addUnitWeights(weights, { plannedHours: 2.2 }, ['total', 'pending']);
+  addUnitWeights(weights, null, ['total']);
+
+  assert.deepEqual(weights, {
+    hours: { total: 3.3, completed: 1.1, pending: 2.2 },
+    marks: { total: 20, completed: 20, pending: 0 }
+  });
+});
@@ -0,0 +1,58 @@
+import { test, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import DailyTimeSlot from '../models/DailyTimeSlot.js';
+import Subject from '../models/Subject.js';
+import { getSlotHoursForUnitLogs } from '../utils/unitTime.js';
+import { newId, query } from './helpers.js';
+
+afterEach(() => mock.restoreAll());
+
+const at = (day, hour) => new Date(2026, 1, day, hour);
+
+// Two units of one subject running side by side, the second one paused on the 10th
+const overlappingLogs = (subject, teacher) => [
+  {
+    _id: newId(), teacher, subject: subject._id, unit: { _id: newId(), name: 'Motion' },
+    startTime: at(9, 9), endTime: null,
+    sessions: [{ startTime: at(9, 9), endTime: null }]
+  },
+  {
+    _id: newId(), teacher, subject: subject._id, unit: { _id: newId(), name: 'Heat' },
+    startTime: at(9, 8), endTime: null,
+    sessions: [{ startTime: at(9, 8), endTime: at(9, 9) }, { startTime: at(11, 8), endTime: null }]
+  }
+];
+
+const stubDays = (subject, slots) => {
+  mock.method(Subject, 'find', () => query([subject]));
+  mock.method(DailyTimeSlot, 'find', () => query([{
+    date: at(10, 0),
+    slots,
+    scheduleEntries: [{ subjectName: 'Physics', batch: '', slotIds: slots.map(slot => slot.slotId) }]
+  }]));
+};
+
+test('a slot both overlapping units could claim counts once, for the unit running then', async () => {
+  const subject = { _id: newId(), name: 'Physics' };
+  const [motion, heat] = overlappingLogs(subject, newId());
+  stubDays(subject, [{ slotId: '9-10', label: '9:00 - 10:00', duration: 60, checked: true }]);
+
+  const hours = await getSlotHoursForUnitLogs([motion, heat], at(12, 0));
+
+  assert.equal(hours.get(motion._id.toString()), 1);
+  assert.equal(hours.get(heat._id.toString()), 0);
+});
+
+test('the unit named in the slot tag gets the slot', async () => {
+  const subject = { _id: newId(), name: 'Physics' };
+  const [motion, heat] = overlappingLogs(subject, newId());
+  stubDays(subject, [{
+    slotId: '9-10', label: '9:00 - 10:00', duration: 60, checked: true,
+    taught: { subject: subject._id, subjectName: 'Physics', unit: null, unitName: 'heat' }
+  }]);
+
+  const hours = await getSlotHoursForUnitLogs([motion, heat], at(12, 0));
+
+  assert.equal(hours.get(motion._id.toString()), 0);
+  assert.equal(hours.get(heat._id.toString()), 1);
+});
@@ -0,0 +1,103 @@
+import AcademicCalendar, { NON_WORKING_TYPES } from '../models/AcademicCalendar.js';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const startOfDay = (value) => {
+  const d = new Date(value);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+// Local YYYY-MM-DD, matching how DailyTimeSlot dates are normalized with setHours(0, 0, 0, 0)
+export const toDateKey = (value) => {
+  const d = new Date(value);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const findEvents = (from, to, batchFilter) => {
+  const query = { startDate: { $lte: startOfDay(to) }, endDate: { $gte: startOfDay(from) } };
+  if (batchFilter) query.batch = { $in: batchFilter };
+  return AcademicCalendar.find(query).sort({ startDate: 1 }).lean();
+};
+
+/**
+ * Resolve calendar events onto days: { [YYYY-MM-DD]: { type, name, isWorkingDay, scope, eventId } }.
+ * Only days covered by an event are included. A batch event wins over a college-wide one
+ * (so a batch 'working-day' re-opens a college holiday); at the same level a closure wins.
+ */
+const resolveDays = (events, from, to, batchId) => {
+  const first = startOfDay(from);
+  const last = startOfDay(to);
+  const days = {};
+
+  for (const event of events) {
+    const isBatchEvent = !!event.batch;
+    if (isBatchEvent && (!batchId || event.batch.toString() !== batchId.toString())) continue;
+    const closes = NON_WORKING_TYPES.includes(event.type);
+
+    const d = startOfDay(Math.max(startOfDay(event.startDate).getTime(), first.getTime()));
+    const end = startOfDay(Math.min(startOfDay(event.endDate).getTime(), last.getTime()));
+    for (; d <= end; d.setDate(d.getDate() + 1)) {
+      const key = toDateKey(d);
+      const current = days[key];
+      if (current) {
+        const currentIsBatch = current.scope === 'batch';
+        if (currentIsBatch && !isBatchEvent) continue;
+        if (currentIsBatch === isBatchEvent && (!closes || !current.isWorkingDay)) continue;
+      }
+      days[key] = {
+        type: event.type,
+        name: event.name,
+        isWorkingDay: !closes,
+        scope: isBatchEvent ? 'batch' : 'college',
+        eventId: event._id
+      };
+    }
+  }
+  return days;
+};
+
+/**
+ * Calendar days between two dates for a batch (college-wide events only when batchId is null)
+ */
+export const getCalendarDays = async ({ start, end, batchId = null } = {}) => {
+  const events = await findEvents(start, end, batchId ? [batchId, null] : [null]);
+  return resolveDays(events, start, end, batchId);
+};
+
+/**
+ * Calendar status of a single date, or null when nothing is scheduled for it
+ */
+export const getDayStatus = async ({ date, batchId = null } = {}) => {
+  const days = await getCalendarDays({ start: date, end: date, batchId });
+  return days[toDateKey(date)] || null;
+};
+
+/**
+ * Load every event in a range once and return a counter for whole working days elapsed
+ * since a start time (the in-progress "progress days" figure), skipping holidays and vacations.
+ * Use it when computing the figure for many logs at once.
+ */
+export const createWorkingDayCounter = async ({ from, to = new Date() }) => {
+  const events = await findEvents(from, to);
+  const cache = new Map();
+
+  return (startTime, batchId = null) => {
+    const now = new Date(to);
+    const elapsedDays = Math.floor((now - new Date(startTime)) / DAY_MS);
+    if (elapsedDays < 1) return Math.max(elapsedDays, 0);
+
+    const cacheKey = batchId ? batchId.toString() : '';
+    if (!cache.has(cacheKey)) cache.set(cacheKey, resolveDays(events, from, to, batchId));
+    const days = cache.get(cacheKey);
+
+    let closedDays = 0;
+    const d = startOfDay(startTime);
+    for (let i = 0; i < elapsedDays; i++) {
+      d.setDate(d.getDate() + 1);
+      const day = days[toDateKey(d)];
+      if (day && !day.isWorkingDay) closedDays += 1;
+    }
+    return elapsedDays - closedDays;
+  };
+};
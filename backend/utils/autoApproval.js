@@ -0,0 +1,119 @@
+import AutoApprovalRule, { TIME_SLOT_CONDITIONS } from '../models/AutoApprovalRule.js';
+import DailyTimeSlot from '../models/DailyTimeSlot.js';
+import { parseSlotTimeRange, getTeacherSlotDefinitions } from './bellSchedule.js';
+
+const isSameDay = (a, b) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+/**
+ * Facts about a time-slot selection that rule conditions are matched against:
+ * - inSchedule: the slot is one the verifier scheduled for the teacher that day (scheduledSlotIds)
+ * - sameDay: the selection is made on the day of the slot
+ * - afterSlotEnd: the slot has already ended
+ * - onLeave: the teacher has approved leave that day (such slots always go to a verifier)
+ */
+export const buildTimeSlotContext = ({ dailySlot, slotId, slotLabel, slotDefinition, date, now = new Date() }) => {
+  const endTime = slotDefinition?.endTime;
+  let endMinutes = null;
+  if (endTime) {
+    const [h, m] = endTime.split(':').map(Number);
+    endMinutes = h * 60 + m;
+  } else {
+    endMinutes = (parseSlotTimeRange(slotLabel) || parseSlotTimeRange(slotId))?.end ?? null;
+  }
+
+  let afterSlotEnd = false;
+  if (endMinutes !== null) {
+    const slotEnd = new Date(date);
+    slotEnd.setHours(0, 0, 0, 0);
+    slotEnd.setMinutes(endMinutes);
+    afterSlotEnd = now >= slotEnd;
+  }
+
+  return {
+    inSchedule: (dailySlot?.scheduledSlotIds || []).includes(slotId),
+    sameDay: isSameDay(new Date(date), now),
+    afterSlotEnd,
+    onLeave: !!dailySlot?.leave
+  };
+};
+
+/**
+ * First enabled rule (by priority) whose required conditions all hold for the context.
+ * Returns null when no rule matches; the request then goes to a verifier as before.
+ * Approve rules never fire for a teacher on leave that day: those slots are reviewed by hand.
+ */
+export const evaluateAutoApprovalRules = async (appliesTo, context) => {
+  const rules = await AutoApprovalRule.find({ appliesTo, enabled: true })
+    .sort({ priority: 1, createdAt: 1 })
+    .lean();
+
+  return rules.find(rule =>
+    !(context.onLeave && rule.action === 'approve') &&
+    TIME_SLOT_CONDITIONS.every(condition => !rule.conditions?.[condition] || context[condition])
+  ) || null;
+};
+
+/**
+ * Apply an approved time-slot request to the teacher's day (used for verifier and automatic approvals)
+ */
+export const applyTimeSlotApproval = async (approval) => {
+  try {
+    const { teacherId, date, slotId, checked } = approval.requestData;
+    // Requests made before slots were tagged carry no taught subject
+    const taught = checked ? approval.requestData.taught || null : null;
+
+    const targetDate = new Date(date);
+    targetDate.setHours(0, 0, 0, 0);
+
+    let dailySlot = await DailyTimeSlot.findOne({
+      teacher: teacherId,
+      date: targetDate
+    });
+
+    const slotDefinitions = await getTeacherSlotDefinitions(teacherId, targetDate);
+
+    if (!dailySlot) {
+      // Create new daily slot record
+      dailySlot = await DailyTimeSlot.create({
+        teacher: teacherId,
+        date: targetDate,
+        slots: Object.entries(slotDefinitions).map(([id, def]) => ({
+          slotId: id,
+          label: def.label,
+          duration: def.duration,
+          checked: id === slotId ? checked : false,
+          locked: false,
+          checkedAt: id === slotId && checked ? new Date() : null,
+          taught: id === slotId ? taught : null
+        }))
+      });
+    } else {
+      // Find and update the slot
+      const slot = dailySlot.slots.find(s => s.slotId === slotId);
+      if (slot) {
+        slot.checked = checked;
+        slot.checkedAt = checked ? new Date() : null;
+        slot.taught = taught;
+      } else {
+        // Add missing slot
+        if (slotDefinitions[slotId]) {
+          dailySlot.slots.push({
+            slotId: slotId,
+            label: slotDefinitions[slotId].label,
+            duration: slotDefinitions[slotId].duration,
+            checked: checked,
+            locked: false,
+            checkedAt: checked ? new Date() : null,
+            taught
+          });
+        }
+      }
+      await dailySlot.save();
+    }
+
+    return { success: true, data: dailySlot };
+  } catch (error) {
+    return { success: false, message: error.message };
+  }
+};
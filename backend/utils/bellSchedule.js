@@ -0,0 +1,88 @@
+import BellSchedule from '../models/BellSchedule.js';
+import User from '../models/User.js';
+
+// Fallback used when no bell schedule has been configured (original 9:00 - 17:00 hourly day)
+export const DEFAULT_SLOT_DEFINITIONS = {
+  '9-10': { label: '9:00 - 10:00', duration: 60, startTime: '09:00', endTime: '10:00' },
+  '10-11': { label: '10:00 - 11:00', duration: 60, startTime: '10:00', endTime: '11:00' },
+  '11-12': { label: '11:00 - 12:00', duration: 60, startTime: '11:00', endTime: '12:00' },
+  '12-13': { label: '12:00 - 13:00', duration: 60, startTime: '12:00', endTime: '13:00' },
+  '13-14': { label: '13:00 - 14:00', duration: 60, startTime: '13:00', endTime: '14:00' },
+  '14-15': { label: '14:00 - 15:00', duration: 60, startTime: '14:00', endTime: '15:00' },
+  '15-16': { label: '15:00 - 16:00', duration: 60, startTime: '15:00', endTime: '16:00' },
+  '16-17': { label: '16:00 - 17:00', duration: 60, startTime: '16:00', endTime: '17:00' }
+};
+
+/**
+ * Pick the active bell schedule for a date.
+ * A schedule for the given batch wins over the college-wide default (batch: null).
+ * Returns null when nothing is configured for that weekday.
+ */
+export const resolveBellSchedule = async ({ date, batchId } = {}) => {
+  const day = new Date(date || Date.now()).getDay();
+  const batchFilter = batchId ? [batchId, null] : [null];
+
+  const schedules = await BellSchedule.find({
+    isActive: true,
+    weekdays: day,
+    batch: { $in: batchFilter }
+  }).sort({ updatedAt: -1 });
+
+  if (batchId) {
+    const batchSchedule = schedules.find(s => s.batch && s.batch.toString() === batchId.toString());
+    if (batchSchedule) return batchSchedule;
+  }
+  return schedules.find(s => !s.batch) || null;
+};
+
+/**
+ * Slot definitions ({ [slotId]: { label, duration, startTime, endTime } }) for a date/batch
+ */
+export const getSlotDefinitions = async ({ date, batchId } = {}) => {
+  const schedule = await resolveBellSchedule({ date, batchId });
+  if (!schedule) return DEFAULT_SLOT_DEFINITIONS;
+
+  return schedule.periods.reduce((defs, period) => {
+    defs[period.slotId] = {
+      label: period.label,
+      duration: period.duration,
+      startTime: period.startTime,
+      endTime: period.endTime
+    };
+    return defs;
+  }, {});
+};
+
+/**
+ * Slot definitions for a teacher's day (uses the teacher's own batch when set)
+ */
+export const getTeacherSlotDefinitions = async (teacherId, date) => {
+  const teacher = await User.findById(teacherId).select('batch');
+  return getSlotDefinitions({ date, batchId: teacher?.batch || null });
+};
+
+/**
+ * Start/end minutes from a slot label or id: "9:00 - 10:00", "7:45-8:35", "9-10" -> { start, end }
+ */
+export const parseSlotTimeRange = (text) => {
+  const match = String(text || '').match(/(\d{1,2})(?::(\d{2}))?\s*-\s*(\d{1,2})(?::(\d{2}))?/);
+  if (!match) return null;
+  const start = Number(match[1]) * 60 + Number(match[2] || 0);
+  let end = Number(match[3]) * 60 + Number(match[4] || 0);
+  // 12-hour labels such as "12:00 - 1:00"
+  if (end <= start) end += 12 * 60;
+  if (start >= 24 * 60 || end > 24 * 60) return null;
+  return { start, end };
+};
+
+/**
+ * Build unchecked DailyTimeSlot.slots entries from slot definitions
+ */
+export const buildDailySlots = (slotDefinitions) =>
+  Object.entries(slotDefinitions).map(([id, def]) => ({
+    slotId: id,
+    label: def.label,
+    duration: def.duration,
+    checked: false,
+    locked: false
+  }));
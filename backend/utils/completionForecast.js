@@ -0,0 +1,258 @@
+import DailyTimeSlot from '../models/DailyTimeSlot.js';
+import Exam from '../models/Exam.js';
+import Subject from '../models/Subject.js';
+import Unit from '../models/Unit.js';
+import UnitLog, { getUnitLogMinutes, getFirstCompletedAt } from '../models/UnitLog.js';
+
+// A projection landing this close to the next exam is reported as medium risk
+export const FORECAST_MARGIN_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+const normalize = (value) => String(value || '').trim().toLowerCase();
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const round = (value) => Math.round(value * 100) / 100;
+
+// Worst first, for batch summaries
+const RISK_RANK = { high: 4, medium: 3, unknown: 2, low: 1, completed: 0 };
+
+/**
+ * Class hours the timetable still has for each subject from today on, as a date-ordered list of
+ * { date, hours } per subject id. Slots already checked are taught, classes handed to a substitute
+ * are counted once (on the absent teacher's day) and classes still waiting for cover are skipped.
+ */
+const getRemainingClassHours = async (subjects, from) => {
+  const keyOf = (subjectName, batchName) => `${normalize(subjectName)}::${normalize(batchName)}`;
+  const subjectIdsByKey = new Map();
+  subjects.forEach(subject => {
+    const key = keyOf(subject.name, subject.batch?.name);
+    if (!subjectIdsByKey.has(key)) subjectIdsByKey.set(key, []);
+    subjectIdsByKey.get(key).push(subject._id.toString());
+  });
+
+  // Timetable entries are typed in by hand, so names match the way normalize does (case and spacing)
+  const names = [...new Set(subjects.map(subject => normalize(subject.name)))];
+  const days = await DailyTimeSlot.find({
+    date: { $gte: from },
+    'scheduleEntries.subjectName': { $in: names.map(name => new RegExp(`^\\s*${escapeRegExp(name)}\\s*$`, 'i')) }
+  })
+    .select('date slots scheduleEntries')
+    .sort({ date: 1 })
+    .lean();
+
+  const result = new Map();
+  days.forEach(day => {
+    const slotsById = new Map((day.slots || []).map(slot => [slot.slotId, slot]));
+    (day.scheduleEntries || []).forEach(entry => {
+      if (entry.coverFor || (entry.needsCover && !entry.coveredBy)) return;
+      const subjectIds = subjectIdsByKey.get(keyOf(entry.subjectName, entry.batch)) || [];
+      if (subjectIds.length === 0) return;
+
+      const minutes = (entry.slotIds || []).reduce((sum, slotId) => {
+        const slot = slotsById.get(slotId);
+        if (slot?.checked) return sum;
+        return sum + (slot?.duration || 60);
+      }, 0);
+      if (minutes === 0) return;
+
+      subjectIds.forEach(subjectId => {
+        if (!result.has(subjectId)) result.set(subjectId, []);
+        result.get(subjectId).push({ date: day.date, hours: minutes / 60 });
+      });
+    });
+  });
+  return result;
+};
+
+/**
+ * Next exam date per subject id (exams from today on)
+ */
+const getNextExamDates = async (subjectIds, from) => {
+  const exams = await Exam.find({ subjects: { $in: subjectIds }, examDate: { $gte: from } })
+    .select('name subjects examDate')
+    .sort({ examDate: 1 })
+    .lean();
+  const result = new Map();
+  exams.forEach(exam => {
+    exam.subjects.forEach(subjectId => {
+      const key = subjectId.toString();
+      if (!result.has(key)) result.set(key, { name: exam.name, examDate: exam.examDate });
+    });
+  });
+  return result;
+};
+
+const getRisk = ({ remainingUnits, hoursNeeded, projectedDate, nextExam, scheduledHours }) => {
+  if (remainingUnits === 0) return { risk: 'completed', reason: 'All units completed' };
+  if (hoursNeeded === null) return { risk: 'unknown', reason: 'No planned hours and no completed units to estimate from' };
+  if (hoursNeeded === 0) return { risk: 'low', reason: 'Remaining units need no more class hours' };
+  if (scheduledHours === 0) return { risk: 'high', reason: 'No classes left in the timetable' };
+  if (!projectedDate) return { risk: 'high', reason: 'Scheduled classes run out before the syllabus is finished' };
+  if (nextExam) {
+    const examDate = new Date(nextExam.examDate);
+    if (projectedDate > examDate) return { risk: 'high', reason: `Projected to finish after ${nextExam.name}` };
+    if (examDate - projectedDate < FORECAST_MARGIN_DAYS * DAY_MS) {
+      return { risk: 'medium', reason: `Projected to finish less than ${FORECAST_MARGIN_DAYS} days before ${nextExam.name}` };
+    }
+  }
+  return { risk: 'low', reason: 'On track' };
+};
+
+/**
+ * Projected syllabus completion per subject. Hours still needed come from the remaining units'
+ * planned hours scaled by how long completed units took against their plan (or the average hours of
+ * a completed unit when units have no plan), less what is already taught on running units. The
+ * projected date is the day the subject's remaining timetable classes cover those hours; the risk
+ * compares it with the subject's next exam.
+ * Filters: { batchId, subject (name) }. Returns { subjects, batches }.
+ */
+export const getCompletionForecasts = async ({ batchId, subject } = {}, now = new Date()) => {
+  const subjectFilter = {};
+  if (batchId && batchId !== 'all') subjectFilter.batch = batchId;
+  if (subject && subject !== 'all') subjectFilter.name = subject;
+
+  const subjects = await Subject.find(subjectFilter)
+    .select('name batch')
+    .populate('batch', 'name')
+    .sort({ name: 1 })
+    .lean();
+  const subjectIds = subjects.map(s => s._id);
+
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+
+  const [units, logs, classHours, nextExams] = await Promise.all([
+    Unit.find({ subject: { $in: subjectIds } }).select('subject plannedHours').lean(),
+    UnitLog.find({ subject: { $in: subjectIds } }).select('unit subject status sessions totalMinutes startTime endTime firstCompletedAt previousAttempts').lean(),
+    getRemainingClassHours(subjects, today),
+    getNextExamDates(subjectIds, today)
+  ]);
+
+  const unitsBySubject = new Map();
+  units.forEach(unit => {
+    const key = unit.subject.toString();
+    if (!unitsBySubject.has(key)) unitsBySubject.set(key, []);
+    unitsBySubject.get(key).push(unit);
+  });
+  const logsByUnit = new Map();
+  logs.forEach(log => {
+    const key = log.unit.toString();
+    if (!logsByUnit.has(key)) logsByUnit.set(key, []);
+    logsByUnit.get(key).push(log);
+  });
+
+  const forecasts = subjects.map(s => {
+    const subjectId = s._id.toString();
+    const subjectUnits = unitsBySubject.get(subjectId) || [];
+
+    let actualHours = 0;
+    let actualPlannedHours = 0;
+    let plannedUnitsActualHours = 0;
+    let firstStart = null;
+    const completed = [];
+    const remaining = [];
+
+    subjectUnits.forEach(unit => {
+      const unitLogs = logsByUnit.get(unit._id.toString()) || [];
+      unitLogs.forEach(log => {
+        if (log.startTime && (!firstStart || new Date(log.startTime) < firstStart)) firstStart = new Date(log.startTime);
+      });
+      const completedLogs = unitLogs.filter(log => getFirstCompletedAt(log));
+      const taughtHours = Math.max(0, ...unitLogs.map(log => getUnitLogMinutes(log, now) / 60));
+
+      if (completedLogs.length > 0) {
+        completed.push(unit);
+        // First delivery only: revisions would make the pace look slower than it is
+        const hours = Math.max(...completedLogs.map(log =>
+          (log.previousAttempts?.[0]?.totalMinutes ?? (log.status === 'completed' ? getUnitLogMinutes(log, now) : 0)) / 60
+        ));
+        actualHours += hours;
+        if (unit.plannedHours > 0) {
+          actualPlannedHours += unit.plannedHours;
+          plannedUnitsActualHours += hours;
+        }
+      } else {
+        remaining.push({ unit, taughtHours });
+      }
+    });
+
+    const paceRatio = actualPlannedHours > 0 ? plannedUnitsActualHours / actualPlannedHours : 1;
+    const avgUnitHours = completed.length > 0 ? actualHours / completed.length : null;
+
+    let hoursNeeded = 0;
+    for (const { unit, taughtHours } of remaining) {
+      const estimate = unit.plannedHours > 0 ? unit.plannedHours * paceRatio : avgUnitHours;
+      if (estimate === null) {
+        hoursNeeded = null;
+        break;
+      }
+      hoursNeeded += Math.max(0, estimate - taughtHours);
+    }
+
+    const classes = classHours.get(subjectId) || [];
+    const scheduledHours = classes.reduce((sum, day) => sum + day.hours, 0);
+    let projectedDate = null;
+    if (remaining.length > 0 && hoursNeeded !== null) {
+      let covered = 0;
+      for (const day of classes) {
+        covered += day.hours;
+        if (covered >= hoursNeeded) {
+          projectedDate = new Date(day.date);
+          break;
+        }
+      }
+    }
+
+    const nextExam = nextExams.get(subjectId) || null;
+    const weeks = firstStart ? Math.max(1, (now - firstStart) / WEEK_MS) : null;
+
+    return {
+      subjectId: s._id,
+      subject: s.name,
+      batchId: s.batch?._id || null,
+      batch: s.batch?.name || '',
+      totalUnits: subjectUnits.length,
+      completedUnits: completed.length,
+      remainingUnits: remaining.length,
+      unitsPerWeek: weeks ? round(completed.length / weeks) : null,
+      paceRatio: actualPlannedHours > 0 ? round(paceRatio) : null,
+      hoursNeeded: hoursNeeded === null ? null : round(hoursNeeded),
+      scheduledHours: round(scheduledHours),
+      projectedDate,
+      nextExam,
+      ...getRisk({ remainingUnits: remaining.length, hoursNeeded, projectedDate, nextExam, scheduledHours })
+    };
+  });
+
+  const batchMap = new Map();
+  forecasts.forEach(forecast => {
+    const key = forecast.batchId ? forecast.batchId.toString() : '';
+    if (!batchMap.has(key)) {
+      batchMap.set(key, {
+        batchId: forecast.batchId,
+        batch: forecast.batch,
+        subjects: 0,
+        atRisk: 0,
+        risk: 'completed',
+        projectedDate: null,
+        unprojected: 0
+      });
+    }
+    const batch = batchMap.get(key);
+    batch.subjects += 1;
+    if (forecast.risk === 'high' || forecast.risk === 'medium') batch.atRisk += 1;
+    if (RISK_RANK[forecast.risk] > RISK_RANK[batch.risk]) batch.risk = forecast.risk;
+    if (forecast.remainingUnits > 0 && !forecast.projectedDate) batch.unprojected += 1;
+    if (forecast.projectedDate && (!batch.projectedDate || forecast.projectedDate > batch.projectedDate)) {
+      batch.projectedDate = forecast.projectedDate;
+    }
+  });
+  // A batch only has a completion date when every unfinished subject has one
+  const batches = [...batchMap.values()].map(({ unprojected, ...batch }) => ({
+    ...batch,
+    projectedDate: unprojected > 0 ? null : batch.projectedDate
+  }));
+
+  return { subjects: forecasts, batches };
+};
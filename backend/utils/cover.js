@@ -0,0 +1,177 @@
+import DailyTimeSlot from '../models/DailyTimeSlot.js';
+import { getTeacherSlotDefinitions, buildDailySlots } from './bellSchedule.js';
+import { flagEntriesForCover } from './leave.js';
+import { findClosedPayPeriod, LOCKED_DAY_MESSAGE } from './payPeriods.js';
+
+const startOfDay = (value) => {
+  const d = new Date(value);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+// Slot ids the teacher still has to take on a day (classes handed to a substitute are excluded)
+export const collectScheduledSlotIds = (entries) =>
+  [...new Set((entries || []).filter(e => !e.coveredBy).flatMap(e => e.slotIds || []))];
+
+/**
+ * Ids of teachers who cannot take a class in any of `slotIds` on `date`:
+ * they already have one of those periods scheduled, or are on leave for it.
+ */
+export const findBusyTeacherIds = async (date, slotIds) => {
+  const days = await DailyTimeSlot.find({
+    date: startOfDay(date),
+    $or: [
+      { scheduledSlotIds: { $in: slotIds } },
+      { leave: { $ne: null } }
+    ]
+  }).select('teacher scheduledSlotIds leave').lean();
+
+  return new Set(days
+    .filter(day =>
+      (day.scheduledSlotIds || []).some(id => slotIds.includes(id)) ||
+      (day.leave && (day.leave.duration === 'full' || (day.leave.slotIds || []).some(id => slotIds.includes(id))))
+    )
+    .map(day => day.teacher.toString()));
+};
+
+/**
+ * Hand one scheduled class of a teacher's day to a substitute for that date only.
+ * The substitute gets the periods scheduled on their own day (and the hours once they mark them);
+ * the original entry stays on the absent teacher's day marked as covered.
+ * Returns { success, data } or { success: false, status, message } like the approval helpers.
+ */
+export const assignCover = async ({ entryId, substituteId }) => {
+  const day = await DailyTimeSlot.findOne({ 'scheduleEntries._id': entryId });
+  const entry = day && day.scheduleEntries.id(entryId);
+  if (!entry) {
+    return { success: false, status: 404, message: 'Scheduled class not found' };
+  }
+  if (await findClosedPayPeriod(day.date)) {
+    return { success: false, status: 400, message: LOCKED_DAY_MESSAGE };
+  }
+  const teacherId = day.teacher;
+  const targetDate = startOfDay(day.date);
+  if (teacherId.toString() === substituteId.toString()) {
+    return { success: false, status: 400, message: 'A teacher cannot cover their own class' };
+  }
+  if (entry.coverFor) {
+    return { success: false, status: 400, message: 'This class is already a cover; remove that cover instead' };
+  }
+  if (entry.coveredBy) {
+    return { success: false, status: 400, message: 'This class already has a substitute' };
+  }
+
+  const busy = await findBusyTeacherIds(targetDate, entry.slotIds);
+  if (busy.has(substituteId.toString())) {
+    return { success: false, status: 409, message: 'The substitute is not free in this period' };
+  }
+
+  const slotDefinitions = await getTeacherSlotDefinitions(teacherId, targetDate);
+  const entryDefinitions = Object.fromEntries(
+    entry.slotIds.map(id => {
+      const slot = day.slots.find(s => s.slotId === id);
+      return [id, slotDefinitions[id] || (slot ? { label: slot.label, duration: slot.duration } : null)];
+    }).filter(([, def]) => def)
+  );
+
+  let substituteDay = await DailyTimeSlot.findOne({ teacher: substituteId, date: targetDate });
+  if (!substituteDay) {
+    const substituteDefinitions = await getTeacherSlotDefinitions(substituteId, targetDate);
+    substituteDay = new DailyTimeSlot({
+      teacher: substituteId,
+      date: targetDate,
+      slots: buildDailySlots({ ...substituteDefinitions, ...entryDefinitions })
+    });
+  } else {
+    const existingSlotIds = substituteDay.slots.map(s => s.slotId);
+    substituteDay.slots.push(...buildDailySlots(
+      Object.fromEntries(Object.entries(entryDefinitions).filter(([id]) => !existingSlotIds.includes(id)))
+    ));
+  }
+  substituteDay.scheduleEntries.push({
+    subjectName: entry.subjectName,
+    batch: entry.batch,
+    slotIds: entry.slotIds,
+    coverFor: teacherId,
+    coverEntry: entry._id
+  });
+  substituteDay.scheduledSlotIds = collectScheduledSlotIds(substituteDay.scheduleEntries);
+  await substituteDay.save();
+
+  // The absent teacher no longer takes (or gets hours for) these periods
+  entry.coveredBy = substituteId;
+  entry.needsCover = false;
+  day.slots.forEach(s => {
+    if (entry.slotIds.includes(s.slotId)) {
+      s.checked = false;
+      s.checkedAt = null;
+      s.taught = null;
+    }
+  });
+  day.scheduledSlotIds = collectScheduledSlotIds(day.scheduleEntries);
+  await day.save();
+
+  return { success: true, data: { day, substituteDay } };
+};
+
+/**
+ * Undo assignCover: the class goes back to the original teacher (flagged for cover again if they are on leave)
+ */
+export const removeCover = async ({ entryId }) => {
+  const day = await DailyTimeSlot.findOne({ 'scheduleEntries._id': entryId });
+  const entry = day && day.scheduleEntries.id(entryId);
+  if (!entry || !entry.coveredBy) {
+    return { success: false, status: 404, message: 'Covered class not found' };
+  }
+  if (await findClosedPayPeriod(day.date)) {
+    return { success: false, status: 400, message: LOCKED_DAY_MESSAGE };
+  }
+  const targetDate = startOfDay(day.date);
+
+  const substituteDay = await DailyTimeSlot.findOne({ teacher: entry.coveredBy, date: targetDate });
+  if (substituteDay) {
+    const coverEntry = substituteDay.scheduleEntries.find(e => e.coverEntry && e.coverEntry.toString() === entry._id.toString());
+    if (coverEntry) {
+      // Periods the substitute already marked keep their check only if another class still uses them
+      substituteDay.scheduleEntries = substituteDay.scheduleEntries.filter(e => e !== coverEntry);
+      substituteDay.scheduledSlotIds = collectScheduledSlotIds(substituteDay.scheduleEntries);
+      substituteDay.slots.forEach(s => {
+        if (coverEntry.slotIds.includes(s.slotId) && !substituteDay.scheduledSlotIds.includes(s.slotId)) {
+          s.checked = false;
+          s.checkedAt = null;
+          s.taught = null;
+        }
+      });
+      await substituteDay.save();
+    }
+  }
+
+  entry.coveredBy = null;
+  day.scheduledSlotIds = collectScheduledSlotIds(day.scheduleEntries);
+  flagEntriesForCover(day);
+  await day.save();
+
+  return { success: true, data: day };
+};
+
+// Same subject, batch and periods: an unchanged class when a time table is imported again
+export const isSameClass = (a, b) => a.subjectName === b.subjectName && a.batch === b.batch &&
+  [...a.slotIds].sort().join() === [...b.slotIds].sort().join();
+
+// A day's covered classes that are not in `entries` (the day's new schedule)
+export const getDroppedCoveredEntries = (day, entries) =>
+  day.scheduleEntries.filter(e => e.coveredBy && !entries.some(entry => isSameClass(e, entry)));
+
+/**
+ * Take back the covers of a day's classes that are not in `entries` (the day's new schedule), so the
+ * substitute is not left with a cover for a class that no longer exists. Returns how many were removed.
+ */
+export const removeDroppedCovers = async (day, entries) => {
+  const dropped = getDroppedCoveredEntries(day, entries);
+  let removed = 0;
+  for (const entry of dropped) {
+    const result = await removeCover({ entryId: entry._id });
+    if (result.success) removed += 1;
+  }
+  return removed;
+};
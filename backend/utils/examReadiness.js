@@ -0,0 +1,85 @@
+import mongoose from 'mongoose';
+import Subject from '../models/Subject.js';
+import Unit from '../models/Unit.js';
+import UnitLog, { ACTIVE_UNIT_STATUSES, getFirstCompletedAt } from '../models/UnitLog.js';
+
+/**
+ * Check an exam definition ({ batchId, subjectIds, unitIds }): the subjects must be in the batch and
+ * the portion units must belong to those subjects. Returns { success, data: { subjects, portion } }
+ * or { success: false, message }.
+ */
+export const resolveExamPortion = async ({ batchId, subjectIds, unitIds }) => {
+  const subjectList = Array.isArray(subjectIds) ? [...new Set(subjectIds.map(String))] : [];
+  const unitList = Array.isArray(unitIds) ? [...new Set(unitIds.map(String))] : [];
+  if (subjectList.length === 0) {
+    return { success: false, message: 'Select at least one subject' };
+  }
+  if ([...subjectList, ...unitList].some(id => !mongoose.Types.ObjectId.isValid(id))) {
+    return { success: false, message: 'Invalid subject or unit ID' };
+  }
+
+  const subjects = await Subject.countDocuments({ _id: { $in: subjectList }, batch: batchId });
+  if (subjects !== subjectList.length) {
+    return { success: false, message: 'Some subjects are not in this batch' };
+  }
+  const units = await Unit.countDocuments({ _id: { $in: unitList }, subject: { $in: subjectList } });
+  if (units !== unitList.length) {
+    return { success: false, message: 'Some portion units do not belong to the exam subjects' };
+  }
+  if (unitList.length === 0) {
+    return { success: false, message: 'Select the units in the exam portion' };
+  }
+
+  return { success: true, data: { subjects: subjectList, portion: unitList } };
+};
+
+/**
+ * Readiness of exams (lean, with subjects and portion populated): a portion unit is ready once any
+ * teacher completed it, even if it is being taught again as a revision or remedial run.
+ * Returns the exams with a readiness summary and the units still pending.
+ */
+export const addExamReadiness = async (exams) => {
+  const unitIds = exams.flatMap(exam => (exam.portion || []).map(unit => unit._id));
+  const logs = await UnitLog.find({ unit: { $in: unitIds } })
+    .select('unit status endTime firstCompletedAt previousAttempts')
+    .lean();
+
+  const statusByUnit = new Map();
+  logs.forEach(log => {
+    const key = log.unit.toString();
+    const current = statusByUnit.get(key);
+    // Completed (once) by anyone wins over running, running wins over nothing
+    if (getFirstCompletedAt(log)) {
+      statusByUnit.set(key, 'completed');
+    } else if (!current && ACTIVE_UNIT_STATUSES.includes(log.status)) {
+      statusByUnit.set(key, 'in-progress');
+    }
+  });
+
+  const now = new Date();
+  return exams.map(exam => {
+    const subjectNames = new Map((exam.subjects || []).map(subject => [subject._id.toString(), subject.name]));
+    const units = (exam.portion || []).map(unit => ({
+      _id: unit._id,
+      name: unit.name,
+      order: unit.order,
+      subjectName: subjectNames.get(unit.subject?.toString()) || '',
+      status: statusByUnit.get(unit._id.toString()) || 'not-started'
+    }));
+    const completedUnits = units.filter(unit => unit.status === 'completed').length;
+
+    return {
+      ...exam,
+      daysUntil: Math.ceil((new Date(exam.examDate) - now) / (24 * 60 * 60 * 1000)),
+      readiness: {
+        totalUnits: units.length,
+        completedUnits,
+        inProgressUnits: units.filter(unit => unit.status === 'in-progress').length,
+        notStartedUnits: units.filter(unit => unit.status === 'not-started').length,
+        percent: units.length > 0 ? Math.round((completedUnits / units.length) * 100) : 100,
+        ready: completedUnits === units.length
+      },
+      pendingUnits: units.filter(unit => unit.status !== 'completed')
+    };
+  });
+};
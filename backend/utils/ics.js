@@ -0,0 +1,138 @@
+import DailyTimeSlot from '../models/DailyTimeSlot.js';
+import { toDateKey } from './academicCalendar.js';
+import { parseSlotTimeRange } from './bellSchedule.js';
+
+// How far around today the subscribable feed reaches
+export const FEED_DAYS_BACK = 30;
+export const FEED_DAYS_AHEAD = 180;
+
+const pad = (n) => String(n).padStart(2, '0');
+
+/**
+ * Start/end minutes for a slot of a day, from its label (follows the bell schedule) or its id
+ */
+const getSlotTimes = (day, slotId) => {
+  const slot = (day.slots || []).find(s => s.slotId === slotId);
+  return parseSlotTimeRange(slot?.label) || parseSlotTimeRange(slotId);
+};
+
+const formatDateTime = (date, minutes) =>
+  `${toDateKey(date).replace(/-/g, '')}T${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}00`;
+
+const formatUtc = (date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (value) =>
+  String(value || '').replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// RFC 5545: lines longer than 75 octets are folded with CRLF + space
+const foldLine = (line) => {
+  const parts = [];
+  let rest = line;
+  while (Buffer.byteLength(rest) > 75) {
+    let cut = 75;
+    while (Buffer.byteLength(rest.slice(0, cut)) > 75) cut -= 1;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  parts.push(rest);
+  return parts.join('\r\n ');
+};
+
+/**
+ * Events for one DailyTimeSlot: one per schedule entry, back-to-back periods merged into a block.
+ * Classes handed to a substitute or missed through leave are left out; classes taken as cover are included.
+ */
+const buildDayEvents = (day) => {
+  const events = [];
+  (day.scheduleEntries || []).forEach(entry => {
+    if (entry.coveredBy || entry.needsCover) return;
+
+    const ranges = (entry.slotIds || [])
+      .map(slotId => getSlotTimes(day, slotId))
+      .filter(Boolean)
+      .sort((a, b) => a.start - b.start);
+
+    const blocks = [];
+    ranges.forEach(range => {
+      const last = blocks[blocks.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        blocks.push({ ...range });
+      }
+    });
+
+    blocks.forEach(block => {
+      const coverName = entry.coverFor?.name;
+      const description = [
+        entry.batch ? `Batch: ${entry.batch}` : null,
+        entry.coverFor ? `Cover class${coverName ? ` for ${coverName}` : ''}` : null
+      ].filter(Boolean).join('\n');
+
+      events.push({
+        uid: `${entry._id}-${block.start}@timetable`,
+        start: formatDateTime(day.date, block.start),
+        end: formatDateTime(day.date, block.end),
+        summary: [entry.subjectName || 'Class', entry.batch].filter(Boolean).join(' - '),
+        description
+      });
+    });
+  });
+  return events;
+};
+
+/**
+ * Build an iCalendar (RFC 5545) document from a teacher's DailyTimeSlot documents.
+ * Times are floating local times, matching how days and bell schedules are stored.
+ */
+export const buildTimetableCalendar = ({ days, calendarName }) => {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Teacher Timetable//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName || 'Timetable')}`
+  ];
+
+  (days || []).forEach(day => {
+    buildDayEvents(day).forEach(event => {
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${event.start}`,
+        `DTEND:${event.end}`,
+        `SUMMARY:${escapeText(event.summary)}`
+      );
+      if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+      lines.push('END:VEVENT');
+    });
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * ICS document for a teacher's scheduled classes between two dates (inclusive)
+ */
+export const getTeacherTimetableCalendar = async ({ teacher, start, end }) => {
+  const from = new Date(start);
+  from.setHours(0, 0, 0, 0);
+  const to = new Date(end);
+  to.setHours(23, 59, 59, 999);
+
+  const days = await DailyTimeSlot.find({
+    teacher: teacher._id,
+    date: { $gte: from, $lte: to },
+    'scheduleEntries.0': { $exists: true }
+  })
+    .select('date slots scheduleEntries')
+    .populate('scheduleEntries.coverFor', 'name')
+    .sort({ date: 1 })
+    .lean();
+
+  return buildTimetableCalendar({ days, calendarName: `${teacher.name} - Timetable` });
+};
@@ -0,0 +1,74 @@
+import Invoice from '../models/Invoice.js';
+import User from '../models/User.js';
+import { buildHoursSnapshot } from './timesheets.js';
+
+const round = (n) => Math.round(n * 100) / 100;
+
+/**
+ * What each visiting teacher is owed for a pay period: approved hours (after break deductions) x hourly rate
+ */
+export const getPayablesForPeriod = async (period, teacherIds = null) => {
+  const filter = { role: 'teacher', employmentType: 'visiting' };
+  if (teacherIds && teacherIds.length > 0) filter._id = { $in: teacherIds };
+  const teachers = await User.find(filter).select('name email hourlyRate').sort({ name: 1 }).lean();
+
+  const invoices = await Invoice.find({
+    payPeriod: period._id,
+    status: { $ne: 'cancelled' }
+  }).select('teacher number status amount').lean();
+  const invoiceByTeacher = new Map(invoices.map(inv => [inv.teacher.toString(), inv]));
+
+  return Promise.all(teachers.map(async teacher => {
+    const snapshot = await buildHoursSnapshot(teacher._id, period.startDate, period.endDate);
+    const hourlyRate = teacher.hourlyRate || 0;
+    return {
+      teacher,
+      days: snapshot.days,
+      hours: snapshot.totalHours,
+      slots: snapshot.totalSlots,
+      hourlyRate,
+      amount: round(snapshot.totalHours * hourlyRate),
+      invoice: invoiceByTeacher.get(teacher._id.toString()) || null
+    };
+  }));
+};
+
+/**
+ * Create an invoice with the next number of the year; retries when two invoices race for a number
+ */
+export const createNumberedInvoice = async (data) => {
+  const year = new Date().getFullYear();
+  for (let attempt = 0; attempt < 5; attempt += 1) {
+    const last = await Invoice.findOne({ year }).sort({ sequence: -1 }).select('sequence').lean();
+    const sequence = (last?.sequence || 0) + 1;
+    try {
+      return await Invoice.create({
+        ...data,
+        year,
+        sequence,
+        number: `INV-${year}-${String(sequence).padStart(4, '0')}`
+      });
+    } catch (error) {
+      if (error.code !== 11000) throw error;
+    }
+  }
+  throw new Error('Could not allocate an invoice number, please try again');
+};
+
+/**
+ * Invoice a payable row (from getPayablesForPeriod) for a pay period
+ */
+export const createInvoiceForPayable = (period, payable, userId) => createNumberedInvoice({
+  teacher: payable.teacher._id,
+  payPeriod: period._id,
+  periodStart: period.startDate,
+  periodEnd: period.endDate,
+  lines: payable.days
+    .filter(day => day.totalHours > 0)
+    .map(day => ({ date: day.date, slots: day.slots.length, hours: day.totalHours })),
+  hours: payable.hours,
+  hourlyRate: payable.hourlyRate,
+  amount: payable.amount,
+  statusHistory: [{ status: 'issued', by: userId, at: new Date() }],
+  createdBy: userId
+});
@@ -0,0 +1,36 @@
+export const LEAVE_DURATIONS = ['full', 'half'];
+export const HALF_DAY_SESSIONS = ['first-half', 'second-half'];
+
+// Longest range a single leave request may cover
+export const MAX_LEAVE_DAYS = 60;
+
+const toMinutes = (value) => {
+  const [h, m] = String(value || '0:0').split(':').map(Number);
+  return h * 60 + (m || 0);
+};
+
+/**
+ * Slot ids a leave covers: every period for a full day, otherwise the first or
+ * second half of the day's periods ordered by start time
+ */
+export const getLeaveSlotIds = (slotDefinitions, duration, session) => {
+  const ids = Object.entries(slotDefinitions)
+    .sort(([, a], [, b]) => toMinutes(a.startTime) - toMinutes(b.startTime))
+    .map(([id]) => id);
+  if (duration !== 'half') return ids;
+  const half = Math.ceil(ids.length / 2);
+  return session === 'second-half' ? ids.slice(half) : ids.slice(0, half);
+};
+
+/**
+ * Flag the day's scheduled classes that fall inside its leave for cover (and clear the flag otherwise).
+ * Call after scheduleEntries change on a day that may have leave.
+ */
+export const flagEntriesForCover = (dailySlot) => {
+  const leave = dailySlot.leave;
+  (dailySlot.scheduleEntries || []).forEach(entry => {
+    entry.needsCover = !!leave && !entry.coveredBy && !entry.coverFor && (entry.slotIds || []).length > 0 &&
+      (leave.duration === 'full' || entry.slotIds.some(id => leave.slotIds.includes(id)));
+  });
+  return (dailySlot.scheduleEntries || []).filter(entry => entry.needsCover);
+};
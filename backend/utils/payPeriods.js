@@ -0,0 +1,58 @@
+import PayPeriod from '../models/PayPeriod.js';
+import DailyTimeSlot from '../models/DailyTimeSlot.js';
+import { toDateKey } from './academicCalendar.js';
+
+export const LOCKED_DAY_MESSAGE = 'This day belongs to a closed pay period and can no longer be changed';
+
+const startOfDay = (value) => {
+  const d = new Date(value);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+/**
+ * The closed pay period covering `date`, or null when the day can still be changed
+ */
+export const findClosedPayPeriod = async (date) => {
+  const day = startOfDay(date);
+  return PayPeriod.findOne({
+    status: 'closed',
+    startDate: { $lte: day },
+    endDate: { $gte: day }
+  }).select('name startDate endDate').lean();
+};
+
+/**
+ * Date keys (YYYY-MM-DD) between start and end that fall in a closed pay period
+ */
+export const getLockedDateKeys = async ({ start, end }) => {
+  const from = startOfDay(start);
+  const to = startOfDay(end);
+  const periods = await PayPeriod.find({
+    status: 'closed',
+    startDate: { $lte: to },
+    endDate: { $gte: from }
+  }).select('startDate endDate').lean();
+
+  const keys = new Set();
+  periods.forEach(period => {
+    const d = new Date(Math.max(from.getTime(), new Date(period.startDate).getTime()));
+    const last = new Date(Math.min(to.getTime(), new Date(period.endDate).getTime()));
+    while (d <= last) {
+      keys.add(toDateKey(d));
+      d.setDate(d.getDate() + 1);
+    }
+  });
+  return keys;
+};
+
+/**
+ * Set the locked flag on every slot and break of the days in a pay period
+ */
+export const setPayPeriodLock = async (period, locked) => {
+  const result = await DailyTimeSlot.updateMany(
+    { date: { $gte: startOfDay(period.startDate), $lte: startOfDay(period.endDate) } },
+    { $set: { 'slots.$[].locked': locked, breakLocked: locked } }
+  );
+  return result.modifiedCount || 0;
+};
@@ -0,0 +1,71 @@
+import mongoose from 'mongoose';
+import Subject from '../models/Subject.js';
+import Unit from '../models/Unit.js';
+
+export const TOPIC_MAX_LENGTH = 200;
+
+const normalize = (value) => String(value || '').trim().toLowerCase();
+
+/**
+ * The class the timetable planned for a slot of a day (classes handed to a substitute or missed
+ * through leave are skipped), or null when nothing was scheduled in it
+ */
+export const getPlannedEntry = (day, slotId) =>
+  (day.scheduleEntries || []).find(entry =>
+    !entry.coveredBy && !entry.needsCover && (entry.slotIds || []).includes(slotId)
+  ) || null;
+
+/**
+ * Whether a slot's taught subject matches the planned one (by name and, when both are known, batch)
+ */
+export const taughtMatchesPlan = (taught, planned) => {
+  if (!taught || !planned) return false;
+  if (normalize(taught.subjectName) !== normalize(planned.subjectName)) return false;
+  return !taught.batch || !planned.batch || normalize(taught.batch) === normalize(planned.batch);
+};
+
+/**
+ * Validate what a teacher says they taught in a slot ({ subject, unit, topic } ids from the request)
+ * and snapshot the names. Returns { success, data } (data null when nothing was tagged) or
+ * { success: false, message }.
+ */
+export const resolveSlotTag = async (tag) => {
+  if (!tag || !tag.subject) {
+    return { success: true, data: null };
+  }
+  if (!mongoose.Types.ObjectId.isValid(tag.subject)) {
+    return { success: false, message: 'Invalid subject for the slot' };
+  }
+
+  const subject = await Subject.findById(tag.subject).select('name batch').populate('batch', 'name').lean();
+  if (!subject) {
+    return { success: false, message: 'Subject for the slot not found' };
+  }
+
+  let unit = null;
+  if (tag.unit) {
+    if (mongoose.Types.ObjectId.isValid(tag.unit)) {
+      unit = await Unit.findOne({ _id: tag.unit, subject: subject._id }).select('name').lean();
+    }
+    if (!unit) {
+      return { success: false, message: 'The unit does not belong to the subject taught in the slot' };
+    }
+  }
+
+  const topic = String(tag.topic || '').trim();
+  if (topic.length > TOPIC_MAX_LENGTH) {
+    return { success: false, message: `Topic note must be at most ${TOPIC_MAX_LENGTH} characters` };
+  }
+
+  return {
+    success: true,
+    data: {
+      subject: subject._id,
+      subjectName: subject.name,
+      batch: subject.batch?.name || '',
+      unit: unit ? unit._id : null,
+      unitName: unit ? unit.name : '',
+      topic
+    }
+  };
+};
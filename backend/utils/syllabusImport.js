@@ -0,0 +1,205 @@
+import mongoose from 'mongoose';
+import Batch from '../models/Batch.js';
+import Subject from '../models/Subject.js';
+import SubjectAssignment from '../models/SubjectAssignment.js';
+import Unit from '../models/Unit.js';
+import User from '../models/User.js';
+
+const normalize = (value) => String(value || '').trim().toLowerCase();
+const round = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Check imported syllabus rows ({ rowIndex, batch, subject, unitOrder, unitName, plannedHours, teacherEmail })
+ * against the app and each other. Returns { errors, subjects } where subjects groups the valid rows into
+ * what would be created: one subject per batch + subject name with its units in order.
+ * Row errors use the same { rowIndex, column, message } shape as the time table import.
+ */
+export const checkSyllabusRows = async (rows) => {
+  const errors = [];
+  const addError = (row, column, message) => errors.push({ rowIndex: row.rowIndex, column, message });
+
+  const [batches, teachers] = await Promise.all([
+    Batch.find().select('name').lean(),
+    User.find({ role: 'teacher' }).select('name email').lean()
+  ]);
+  const batchByName = new Map(batches.map(batch => [normalize(batch.name), batch]));
+  const teacherByEmail = new Map(teachers.map(teacher => [normalize(teacher.email), teacher]));
+
+  const groups = new Map();
+  for (const row of rows) {
+    const batch = batchByName.get(normalize(row.batch));
+    const subjectName = String(row.subject || '').trim();
+    const unitName = String(row.unitName || '').trim();
+    const order = Number(row.unitOrder);
+    const hoursRaw = row.plannedHours;
+    const plannedHours = hoursRaw === undefined || hoursRaw === null || hoursRaw === '' ? 0 : Number(hoursRaw);
+    const email = normalize(row.teacherEmail);
+    const teacher = email ? teacherByEmail.get(email) : null;
+
+    let rowValid = true;
+    if (!String(row.batch || '').trim()) {
+      addError(row, 'BATCH', 'Batch is required');
+      rowValid = false;
+    } else if (!batch) {
+      addError(row, 'BATCH', `Batch "${row.batch}" does not exist. Create it in the app first.`);
+      rowValid = false;
+    }
+    if (!subjectName) {
+      addError(row, 'SUBJECT', 'Subject is required');
+      rowValid = false;
+    }
+    if (!unitName) {
+      addError(row, 'UNIT', 'Unit name is required');
+      rowValid = false;
+    }
+    if (!Number.isInteger(order) || order < 1) {
+      addError(row, 'UNIT ORDER', 'Unit order must be a whole number from 1');
+      rowValid = false;
+    }
+    if (!Number.isFinite(plannedHours) || plannedHours < 0) {
+      addError(row, 'PLANNED HOURS', 'Planned hours must be a non-negative number');
+      rowValid = false;
+    }
+    if (email && !teacher) {
+      addError(row, 'TEACHER EMAIL', `Teacher not found with email "${row.teacherEmail}"`);
+      rowValid = false;
+    }
+    if (!rowValid) continue;
+
+    const key = `${batch._id}::${normalize(subjectName)}`;
+    if (!groups.has(key)) {
+      groups.set(key, { batch, subjectName, teacher: null, teacherRow: null, units: [], firstRow: row });
+    }
+    const group = groups.get(key);
+
+    if (teacher) {
+      if (group.teacher && group.teacher._id.toString() !== teacher._id.toString()) {
+        addError(row, 'TEACHER EMAIL', `Subject "${subjectName}" already has teacher ${group.teacher.email} on row ${group.teacherRow}`);
+        continue;
+      }
+      group.teacher = teacher;
+      group.teacherRow = row.rowIndex;
+    }
+
+    const sameOrder = group.units.find(unit => unit.order === order);
+    if (sameOrder) {
+      addError(row, 'UNIT ORDER', `Unit order ${order} is used twice in "${subjectName}" (also row ${sameOrder.rowIndex})`);
+      continue;
+    }
+    const sameName = group.units.find(unit => normalize(unit.name) === normalize(unitName));
+    if (sameName) {
+      addError(row, 'UNIT', `Unit "${unitName}" is listed twice in "${subjectName}" (also row ${sameName.rowIndex})`);
+      continue;
+    }
+    group.units.push({ name: unitName, order, plannedHours, rowIndex: row.rowIndex });
+  }
+
+  // Subjects are created fresh; adding to an existing subject is done from the unit editor
+  const subjects = [];
+  for (const group of groups.values()) {
+    const existing = await Subject.findOne({
+      batch: group.batch._id,
+      name: new RegExp(`^${group.subjectName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i')
+    }).select('_id').lean();
+    if (existing) {
+      addError(group.firstRow, 'SUBJECT', `Subject "${group.subjectName}" already exists in batch "${group.batch.name}"`);
+      continue;
+    }
+    group.units.sort((a, b) => a.order - b.order);
+    subjects.push({
+      batchId: group.batch._id,
+      batchName: group.batch.name,
+      subjectName: group.subjectName,
+      teacherId: group.teacher ? group.teacher._id : null,
+      teacherName: group.teacher ? group.teacher.name : null,
+      teacherEmail: group.teacher ? group.teacher.email : null,
+      plannedHours: round(group.units.reduce((sum, unit) => sum + unit.plannedHours, 0)),
+      units: group.units
+    });
+  }
+
+  errors.sort((a, b) => a.rowIndex - b.rowIndex);
+  return { errors, subjects };
+};
+
+// A standalone mongod has no transactions ("Transaction numbers are only allowed on a replica set member or mongos")
+const isTransactionUnsupported = (error) =>
+  error?.code === 20 || /only allowed on a replica set member or mongos/i.test(error?.message || '');
+
+// Create the subjects, recording every document written in `created` so a failed import can be undone
+const createImportedSubjects = async (subjects, userId, session, created) => {
+  for (const plan of subjects) {
+    const [subject] = await Subject.create([{
+      name: plan.subjectName,
+      batch: plan.batchId,
+      plannedHours: plan.plannedHours,
+      units: []
+    }], { session });
+    created.subjects.push(subject._id);
+
+    const units = await Unit.insertMany(plan.units.map((unit, index) => ({
+      name: unit.name,
+      subject: subject._id,
+      order: index + 1,
+      plannedHours: unit.plannedHours
+    })), { session });
+    created.units.push(...units.map(unit => unit._id));
+    subject.units = units.map(unit => unit._id);
+    await subject.save({ session });
+
+    if (plan.teacherId) {
+      const added = await Batch.updateOne({ _id: plan.batchId }, { $addToSet: { teachers: plan.teacherId } }, { session });
+      if (added.modifiedCount > 0) created.batchTeachers.push({ batchId: plan.batchId, teacherId: plan.teacherId });
+      const [assignment] = await SubjectAssignment.create([{
+        fromTeacher: null,
+        toTeacher: plan.teacherId,
+        subject: subject._id,
+        batch: plan.batchId,
+        remainingUnits: subject.units,
+        reason: 'Initial assignment from syllabus import',
+        requestedBy: userId,
+        status: 'pending'
+      }], { session });
+      created.assignments.push(assignment._id);
+    }
+  }
+};
+
+// Undo a partly written import (used when the database cannot run it in a transaction)
+const removeImportedSubjects = async (created) => {
+  await SubjectAssignment.deleteMany({ _id: { $in: created.assignments } });
+  await Unit.deleteMany({ _id: { $in: created.units } });
+  await Subject.deleteMany({ _id: { $in: created.subjects } });
+  await Promise.all(created.batchTeachers.map(({ batchId, teacherId }) =>
+    Batch.updateOne({ _id: batchId }, { $pull: { teachers: teacherId } })
+  ));
+};
+
+const emptyCreated = () => ({ subjects: [], units: [], assignments: [], batchTeachers: [] });
+
+/**
+ * Create the checked subjects, their units and teacher links all or nothing: in one transaction, or
+ * on a standalone server (no transactions) one write at a time with everything removed again if a
+ * write fails. Teachers are linked the same way as for a subject created in the app: added to the
+ * batch and a pending assignment request for the admin.
+ */
+export const applySyllabusImport = async (subjects, userId) => {
+  let created = emptyCreated();
+  try {
+    await mongoose.connection.transaction(async (session) => {
+      created = emptyCreated();
+      await createImportedSubjects(subjects, userId, session, created);
+    });
+  } catch (error) {
+    if (!isTransactionUnsupported(error)) throw error;
+
+    created = emptyCreated();
+    try {
+      await createImportedSubjects(subjects, userId, null, created);
+    } catch (writeError) {
+      await removeImportedSubjects(created);
+      throw writeError;
+    }
+  }
+  return { subjects: subjects.length, units: created.units.length };
+};
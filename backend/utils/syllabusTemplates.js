@@ -0,0 +1,126 @@
+import mongoose from 'mongoose';
+import Subject from '../models/Subject.js';
+import SubjectAssignment from '../models/SubjectAssignment.js';
+import Unit from '../models/Unit.js';
+import User from '../models/User.js';
+import { renumberUnits } from './unitEditing.js';
+import { refreshSubjectPlannedHours } from './unitPlan.js';
+
+const normalize = (value) => String(value || '').trim().toLowerCase();
+
+/**
+ * What merging the template into a subject would change. Units are matched by name: template units
+ * the subject lacks are added, matched units take the template's planned hours, and units only the
+ * subject has are kept (they may have been taught) after the template's units.
+ */
+export const getTemplateMergePlan = async (template, subjectId) => {
+  const units = await Unit.find({ subject: subjectId }).select('name order plannedHours').sort({ order: 1 }).lean();
+  const byName = new Map(units.map(unit => [normalize(unit.name), unit]));
+  const templateNames = new Set(template.units.map(unit => normalize(unit.name)));
+
+  const add = [];
+  const update = [];
+  template.units.forEach(templateUnit => {
+    const unit = byName.get(normalize(templateUnit.name));
+    if (!unit) {
+      add.push({ name: templateUnit.name, plannedHours: templateUnit.plannedHours || 0 });
+    } else if ((unit.plannedHours || 0) !== (templateUnit.plannedHours || 0)) {
+      update.push({
+        unitId: unit._id,
+        name: unit.name,
+        plannedHoursBefore: unit.plannedHours || 0,
+        plannedHoursAfter: templateUnit.plannedHours || 0
+      });
+    }
+  });
+  const extra = units
+    .filter(unit => !templateNames.has(normalize(unit.name)))
+    .map(unit => ({ unitId: unit._id, name: unit.name }));
+
+  const matchedOrder = units.filter(unit => templateNames.has(normalize(unit.name))).map(unit => normalize(unit.name));
+  const templateOrder = template.units.map(unit => normalize(unit.name)).filter(name => byName.has(name));
+  const reorder = matchedOrder.join('\n') !== templateOrder.join('\n');
+
+  return { add, update, extra, reorder };
+};
+
+/**
+ * Merge the template into the subject (see getTemplateMergePlan) and mark it as up to date
+ */
+export const applyTemplateMerge = async (template, subject) => {
+  const plan = await getTemplateMergePlan(template, subject._id);
+
+  await Promise.all(plan.update.map(change =>
+    Unit.updateOne({ _id: change.unitId }, { plannedHours: change.plannedHoursAfter })
+  ));
+  if (plan.add.length > 0) {
+    await Unit.insertMany(plan.add.map(unit => ({ name: unit.name, subject: subject._id, plannedHours: unit.plannedHours })));
+  }
+
+  const units = await Unit.find({ subject: subject._id }).select('name').sort({ order: 1, createdAt: 1 }).lean();
+  const byName = new Map(units.map(unit => [normalize(unit.name), unit]));
+  const ordered = template.units.map(unit => byName.get(normalize(unit.name))).filter(Boolean);
+  const orderedIds = ordered.map(unit => unit._id.toString());
+  const extras = units.filter(unit => !orderedIds.includes(unit._id.toString())).map(unit => unit._id.toString());
+  await renumberUnits(subject._id, [...orderedIds, ...extras]);
+
+  await Subject.updateOne({ _id: subject._id }, { template: template._id, templateVersion: template.version });
+  await refreshSubjectPlannedHours(subject._id);
+
+  return plan;
+};
+
+/**
+ * Create a subject with the template's units in a batch. The teacher (optional) gets an assignment
+ * request for the admin, as for any new subject. Returns { success, data } or { success: false, message }.
+ */
+export const createSubjectFromTemplate = async (template, { batchId, teacherId, userId }) => {
+  if (teacherId) {
+    if (!mongoose.Types.ObjectId.isValid(teacherId)) {
+      return { success: false, message: 'Invalid teacher' };
+    }
+    const teacher = await User.findById(teacherId).select('role').lean();
+    if (!teacher || teacher.role !== 'teacher') {
+      return { success: false, message: 'Invalid teacher' };
+    }
+  }
+
+  const existing = await Subject.findOne({ name: template.subjectName, batch: batchId }).select('_id').lean();
+  if (existing) {
+    return { success: false, message: `Subject "${template.subjectName}" already exists in this batch` };
+  }
+
+  const subject = await Subject.create({
+    name: template.subjectName,
+    color: template.color,
+    batch: batchId,
+    delayThresholdPercent: template.delayThresholdPercent,
+    template: template._id,
+    templateVersion: template.version,
+    units: []
+  });
+  const units = await Unit.insertMany(template.units.map((unit, index) => ({
+    name: unit.name,
+    subject: subject._id,
+    order: index + 1,
+    plannedHours: unit.plannedHours || 0
+  })));
+  subject.units = units.map(unit => unit._id);
+  await subject.save();
+  await refreshSubjectPlannedHours(subject._id);
+
+  if (teacherId) {
+    await SubjectAssignment.create({
+      fromTeacher: null,
+      toTeacher: teacherId,
+      subject: subject._id,
+      batch: batchId,
+      remainingUnits: subject.units,
+      reason: `Initial assignment from syllabus template "${template.name}"`,
+      requestedBy: userId,
+      status: 'pending'
+    });
+  }
+
+  return { success: true, data: subject };
+};
@@ -0,0 +1,56 @@
+import DailyTimeSlot from '../models/DailyTimeSlot.js';
+
+// 'YYYY-MM' -> first and last day of that month
+export const getMonthRange = (month) => {
+  const [year, monthIndex] = String(month).split('-').map(Number);
+  const start = new Date(year, monthIndex - 1, 1);
+  const end = new Date(year, monthIndex, 0);
+  return { start, end };
+};
+
+/**
+ * Snapshot of a teacher's days between two dates from DailyTimeSlot: only checked (= approved) slots count,
+ * and a checked break is deducted the same way the DailyTimeSlot pre-save hook does.
+ */
+export const buildHoursSnapshot = async (teacherId, from, to) => {
+  const start = new Date(from);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(to);
+  end.setHours(23, 59, 59, 999);
+
+  const records = await DailyTimeSlot.find({
+    teacher: teacherId,
+    date: { $gte: start, $lte: end }
+  }).sort({ date: 1 }).lean();
+
+  const days = records
+    .map(record => {
+      const slots = (record.slots || [])
+        .filter(s => s.checked)
+        .map(s => ({ slotId: s.slotId, label: s.label, duration: s.duration }));
+      const breakMinutes = record.breakChecked && record.breakDuration ? record.breakDuration : 0;
+      return {
+        date: record.date,
+        slots,
+        breakMinutes,
+        totalHours: record.totalHours || 0,
+        leave: record.leave ? record.leave.duration : null
+      };
+    })
+    .filter(day => day.slots.length > 0 || day.leave);
+
+  const round = (n) => Math.round(n * 100) / 100;
+  return {
+    days,
+    totalHours: round(days.reduce((sum, day) => sum + day.totalHours, 0)),
+    totalSlots: days.reduce((sum, day) => sum + day.slots.length, 0)
+  };
+};
+
+/**
+ * Snapshot of a teacher's calendar month ('YYYY-MM')
+ */
+export const buildTimesheetSnapshot = (teacherId, month) => {
+  const { start, end } = getMonthRange(month);
+  return buildHoursSnapshot(teacherId, start, end);
+};
@@ -0,0 +1,129 @@
+import DailyTimeSlot from '../models/DailyTimeSlot.js';
+import Subject from '../models/Subject.js';
+import User from '../models/User.js';
+import Batch from '../models/Batch.js';
+
+const normalize = (value) => String(value ?? '').trim().toLowerCase();
+
+const dayKey = (value) => {
+  const d = new Date(value);
+  if (isNaN(d.getTime())) return null;
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+/**
+ * Find clashes in time table import entries (same shape as POST /time-table/apply).
+ * - teacher-double-booking: a teacher has two rows in the same slot on the same date
+ * - batch-double-booking: a batch has two rows in the same slot, or already has a class
+ *   scheduled for another teacher that this import does not replace
+ * - subject-teacher-mismatch: the subject belongs to a different teacher (Subject.teacher)
+ *
+ * Returns [{ rowIndex, column, type, message }], rowIndex numbered like the import preview
+ * (first entry = row 2, after the header).
+ */
+export const detectTimetableClashes = async (entries) => {
+  const emails = [...new Set(entries.map(e => normalize(e.teacherEmail)).filter(Boolean))];
+  const teachers = await User.find({ email: { $in: emails }, role: 'teacher' }).select('name email').lean();
+  const teachersByEmail = new Map(teachers.map(t => [normalize(t.email), t]));
+
+  const batches = await Batch.find().select('name').lean();
+  const batchesByName = new Map(batches.map(b => [normalize(b.name), b]));
+  const subjects = await Subject.find({ batch: { $in: batches.map(b => b._id) } })
+    .select('name teacher batch')
+    .populate('teacher', 'name email')
+    .lean();
+
+  const rows = entries.map((entry, index) => {
+    const teacher = teachersByEmail.get(normalize(entry.teacherEmail));
+    return {
+      rowIndex: index + 2,
+      teacher,
+      teacherLabel: teacher ? teacher.name : (entry.teacherName || entry.teacherEmail || 'Teacher'),
+      date: dayKey(entry.date),
+      batchKey: normalize(entry.batch),
+      batchName: String(entry.batch ?? '').trim(),
+      subjectName: String(entry.subjectName ?? entry.subject ?? '').trim(),
+      slotIds: Array.isArray(entry.slotIds) ? entry.slotIds.map(id => String(id).trim()) : []
+    };
+  }).filter(row => row.date != null);
+
+  // Group slot ids per (row, type, other party) so one message lists every clashing slot
+  const grouped = new Map();
+  const addClash = (row, type, column, otherKey, describe, slotId) => {
+    const key = `${row.rowIndex}|${type}|${otherKey}`;
+    if (!grouped.has(key)) grouped.set(key, { rowIndex: row.rowIndex, column, type, describe, slotIds: [] });
+    const clash = grouped.get(key);
+    if (slotId && !clash.slotIds.includes(slotId)) clash.slotIds.push(slotId);
+  };
+
+  const teacherSlots = new Map();
+  const batchSlots = new Map();
+  for (const row of rows) {
+    for (const slotId of row.slotIds) {
+      if (row.teacher) {
+        const key = `${row.teacher._id}|${row.date}|${slotId}`;
+        const other = teacherSlots.get(key);
+        if (other && other.rowIndex !== row.rowIndex) {
+          addClash(row, 'teacher-double-booking', 'FACULTY', `row-${other.rowIndex}`,
+            slots => `${row.teacherLabel} is already booked in row ${other.rowIndex}${other.batchName ? ` (${other.batchName})` : ''} at ${slots}`, slotId);
+        } else if (!other) {
+          teacherSlots.set(key, row);
+        }
+      }
+      if (row.batchKey) {
+        const key = `${row.batchKey}|${row.date}|${slotId}`;
+        const other = batchSlots.get(key);
+        if (other && other.rowIndex !== row.rowIndex) {
+          addClash(row, 'batch-double-booking', 'BATCH', `row-${other.rowIndex}`,
+            slots => `${row.batchName} already has ${other.subjectName || 'a class'} (row ${other.rowIndex}) at ${slots}`, slotId);
+        } else if (!other) {
+          batchSlots.set(key, row);
+        }
+      }
+    }
+  }
+
+  // Existing schedules of teachers this import does not touch on that date
+  const dates = [...new Set(rows.map(r => r.date))];
+  for (const date of dates) {
+    const dateRows = rows.filter(r => r.date === date && r.batchKey);
+    if (dateRows.length === 0) continue;
+    const importedTeacherIds = rows.filter(r => r.date === date && r.teacher).map(r => r.teacher._id);
+    const existingDays = await DailyTimeSlot.find({
+      date: new Date(date),
+      teacher: { $nin: importedTeacherIds },
+      'scheduleEntries.0': { $exists: true }
+    }).populate('teacher', 'name').lean();
+
+    for (const day of existingDays) {
+      for (const scheduled of day.scheduleEntries || []) {
+        const scheduledBatch = normalize(scheduled.batch);
+        for (const row of dateRows) {
+          if (row.batchKey !== scheduledBatch) continue;
+          for (const slotId of row.slotIds.filter(id => (scheduled.slotIds || []).includes(id))) {
+            addClash(row, 'batch-double-booking', 'BATCH', `existing-${day._id}`,
+              slots => `${row.batchName} already has ${scheduled.subjectName || 'a class'} with ${day.teacher?.name || 'another teacher'} at ${slots}`, slotId);
+          }
+        }
+      }
+    }
+  }
+
+  for (const row of rows) {
+    if (!row.teacher || !row.subjectName) continue;
+    const batch = batchesByName.get(row.batchKey);
+    const subject = subjects.find(s =>
+      normalize(s.name) === normalize(row.subjectName) &&
+      (!batch || (s.batch && s.batch.toString() === batch._id.toString()))
+    );
+    if (subject && subject.teacher && subject.teacher._id.toString() !== row.teacher._id.toString()) {
+      addClash(row, 'subject-teacher-mismatch', 'SUBJECT', subject._id.toString(),
+        () => `${row.subjectName} is assigned to ${subject.teacher.name}, not ${row.teacherLabel}`);
+    }
+  }
+
+  return [...grouped.values()]
+    .map(({ describe, slotIds, ...clash }) => ({ ...clash, message: describe(slotIds.join(', ')) }))
+    .sort((a, b) => a.rowIndex - b.rowIndex);
+};
@@ -0,0 +1,186 @@
+import mongoose from 'mongoose';
+import Approval from '../models/Approval.js';
+import DailyTimeSlot from '../models/DailyTimeSlot.js';
+import Exam from '../models/Exam.js';
+import ExamStatus from '../models/ExamStatus.js';
+import Subject from '../models/Subject.js';
+import SubjectAssignment from '../models/SubjectAssignment.js';
+import Unit from '../models/Unit.js';
+import UnitLog, { ACTIVE_UNIT_STATUSES } from '../models/UnitLog.js';
+
+const toIds = (ids) => ids.map(id => new mongoose.Types.ObjectId(String(id)));
+
+/**
+ * Store the subject's units in the given order (order 1..n, Subject.units kept in the same order)
+ */
+export const renumberUnits = async (subjectId, orderedUnitIds) => {
+  await Promise.all(orderedUnitIds.map((unitId, index) =>
+    Unit.updateOne({ _id: unitId }, { order: index + 1 })
+  ));
+  await Subject.updateOne({ _id: subjectId }, { units: toIds(orderedUnitIds) });
+};
+
+/**
+ * The subject's unit ids in teaching order
+ */
+export const getOrderedUnitIds = async (subjectId) => {
+  const units = await Unit.find({ subject: subjectId }).select('_id').sort({ order: 1, createdAt: 1 }).lean();
+  return units.map(unit => unit._id.toString());
+};
+
+/**
+ * Pending unit start / completion requests for any of the units. They point at a unit or a log,
+ * so units are not merged or deleted underneath them.
+ */
+export const countPendingUnitApprovals = async (unitIds) => {
+  const ids = unitIds.map(String);
+  const logIds = await UnitLog.find({ unit: { $in: toIds(ids) } }).distinct('_id');
+  return Approval.countDocuments({
+    status: 'pending',
+    $or: [
+      { type: 'unit-start', 'requestData.unitId': { $in: [...ids, ...toIds(ids)] } },
+      { type: 'unit-complete', 'requestData.unitLogId': { $in: [...logIds, ...logIds.map(String)] } }
+    ]
+  });
+};
+
+// Logs from before sessions existed get their run recorded as one session so no time is lost
+const getLogSessions = (log) => {
+  if (log.sessions && log.sessions.length > 0) {
+    return log.sessions.map(session => ({ startTime: session.startTime, endTime: session.endTime }));
+  }
+  if (!log.startTime) return [];
+  return [{ startTime: log.startTime, endTime: log.endTime || (log.status === 'completed' ? log.startTime : null) }];
+};
+
+const earliest = (dates) => {
+  const valid = dates.filter(Boolean).map(date => new Date(date));
+  return valid.length > 0 ? new Date(Math.min(...valid)) : null;
+};
+
+/**
+ * Move the teaching records of the source units onto the target unit. A teacher with logs on several
+ * of the units ends up with one log holding all their sessions and earlier attempts; the unit counts
+ * as completed only if none of the runs is still going. Two running logs of one teacher cannot be
+ * combined. Returns { success } or { success: false, message }.
+ */
+export const mergeUnitLogs = async (targetUnitId, sourceUnitIds) => {
+  const logs = await UnitLog.find({ unit: { $in: toIds([targetUnitId, ...sourceUnitIds]) } });
+
+  const byTeacher = new Map();
+  logs.forEach(log => {
+    const key = log.teacher.toString();
+    byTeacher.set(key, [...(byTeacher.get(key) || []), log]);
+  });
+
+  for (const teacherLogs of byTeacher.values()) {
+    if (teacherLogs.filter(log => ACTIVE_UNIT_STATUSES.includes(log.status)).length > 1) {
+      return {
+        success: false,
+        message: 'A teacher is running more than one of these units. Complete all but one before merging.'
+      };
+    }
+  }
+
+  for (const teacherLogs of byTeacher.values()) {
+    // The running log (if any) carries on; otherwise the target's log, otherwise the earliest one
+    const kept = teacherLogs.find(log => ACTIVE_UNIT_STATUSES.includes(log.status))
+      || teacherLogs.find(log => log.unit.toString() === String(targetUnitId))
+      || [...teacherLogs].sort((a, b) => a.startTime - b.startTime)[0];
+    const others = teacherLogs.filter(log => log !== kept);
+
+    if (others.length > 0) {
+      const all = [kept, ...others];
+      const sessions = all.flatMap(getLogSessions).sort((a, b) => new Date(a.startTime) - new Date(b.startTime));
+      const previousAttempts = all
+        .flatMap(log => (log.previousAttempts || []).map(attempt => attempt.toObject()))
+        .sort((a, b) => new Date(a.startTime) - new Date(b.startTime));
+
+      kept.sessions = sessions;
+      kept.previousAttempts = previousAttempts;
+      kept.startTime = earliest(all.map(log => log.startTime)) || kept.startTime;
+      kept.firstCompletedAt = earliest(all.map(log => log.firstCompletedAt || (log.status === 'completed' ? log.endTime : null)));
+      if (kept.status === 'completed') {
+        kept.endTime = new Date(Math.max(...all.map(log => new Date(log.endTime || 0))));
+      }
+    }
+
+    // The kept log holds everyone's time before the others go; only then is the (unit, teacher) pair
+    // on the target free for it. A failure part way leaves the time on the kept log's own unit.
+    if (others.length > 0) {
+      await kept.save();
+      await UnitLog.deleteMany({ _id: { $in: others.map(log => log._id) } });
+    }
+    kept.unit = targetUnitId;
+    await kept.save();
+  }
+
+  return { success: true };
+};
+
+/**
+ * Point slot tags, reassignment requests and exam portions at the target unit instead of the merged ones
+ */
+export const moveUnitReferences = async (targetUnit, sourceUnitIds) => {
+  const sourceIds = toIds(sourceUnitIds);
+  await DailyTimeSlot.updateMany(
+    { 'slots.taught.unit': { $in: sourceIds } },
+    { $set: { 'slots.$[slot].taught.unit': targetUnit._id, 'slots.$[slot].taught.unitName': targetUnit.name } },
+    { arrayFilters: [{ 'slot.taught.unit': { $in: sourceIds } }] }
+  );
+
+  const assignments = await SubjectAssignment.find({ remainingUnits: { $in: sourceIds } });
+  await Promise.all(assignments.map(assignment => {
+    const remaining = assignment.remainingUnits.map(id => id.toString());
+    const replaced = remaining.map(id => sourceUnitIds.map(String).includes(id) ? targetUnit._id.toString() : id);
+    assignment.remainingUnits = [...new Set(replaced)];
+    return assignment.save();
+  }));
+
+  const exams = await Exam.find({ portion: { $in: sourceIds } });
+  await Promise.all(exams.map(exam => {
+    const portion = exam.portion.map(id => id.toString());
+    const replaced = portion.map(id => sourceUnitIds.map(String).includes(id) ? targetUnit._id.toString() : id);
+    exam.portion = [...new Set(replaced)];
+    return exam.save();
+  }));
+};
+
+/**
+ * Exams covering a split unit cover all of its parts
+ */
+export const addPartsToExamPortions = async (unitId, partIds) => {
+  await Exam.updateMany(
+    { portion: unitId },
+    { $addToSet: { portion: { $each: partIds } } }
+  );
+};
+
+/**
+ * Take a deleted unit out of every exam portion
+ */
+export const removeFromExamPortions = async (unitId) => {
+  await Exam.updateMany({ portion: unitId }, { $pull: { portion: unitId } });
+};
+
+/**
+ * Exam status of a merged unit: finished only when every merged unit was finished
+ */
+export const mergeExamStatuses = async (targetUnitId, sourceUnitIds, userId) => {
+  const allIds = toIds([targetUnitId, ...sourceUnitIds]);
+  const statuses = await ExamStatus.find({ unit: { $in: allIds } }).lean();
+  const isFinished = statuses.length === allIds.length && statuses.every(status => status.isFinished);
+
+  await ExamStatus.deleteMany({ unit: { $in: toIds(sourceUnitIds) } });
+  if (statuses.length > 0) {
+    const now = new Date();
+    await ExamStatus.updateOne(
+      { unit: targetUnitId },
+      {
+        $set: { isFinished, markedBy: userId, markedAt: now },
+        $push: { history: { isFinished, changedBy: userId, changedAt: now, note: 'Units merged' } }
+      },
+      { upsert: true }
+    );
+  }
+};
@@ -0,0 +1,110 @@
+import Subject, { DEFAULT_DELAY_THRESHOLD_PERCENT } from '../models/Subject.js';
+import Unit from '../models/Unit.js';
+import UnitLog, { getFirstCompletedAt } from '../models/UnitLog.js';
+
+const round = (value) => Math.round(value * 100) / 100;
+
+/**
+ * Weighted progress totals ({ hours: {...}, marks: {...} }) with the given counters at 0
+ */
+export const emptyProgressWeights = (counters = ['total', 'completed']) => ({
+  hours: Object.fromEntries(counters.map(counter => [counter, 0])),
+  marks: Object.fromEntries(counters.map(counter => [counter, 0]))
+});
+
+/**
+ * Add a unit's weights to the given counters (units without planned hours / marks add nothing)
+ */
+export const addUnitWeights = (weights, unit, counters) => {
+  const byWeighting = { hours: unit?.plannedHours || 0, marks: unit?.marks || 0 };
+  Object.entries(byWeighting).forEach(([weighting, weight]) => {
+    counters.forEach(counter => {
+      weights[weighting][counter] = round(weights[weighting][counter] + weight);
+    });
+  });
+};
+
+/**
+ * Completion over every unit of the assigned subjects, counted and weighted, per teacher (units of the
+ * subjects they are assigned, done when they completed them) and per batch (units of the batch's
+ * subjects, done when any teacher completed them). Units that were never started count towards the
+ * totals. Filters: { subjectName }. Returns { teachers, batches }.
+ */
+export const getAssignedUnitProgress = async ({ subjectName } = {}) => {
+  const subjectFilter = subjectName && subjectName !== 'all' ? { name: subjectName } : {};
+  const subjects = await Subject.find(subjectFilter)
+    .select('name teacher batch units')
+    .populate('teacher', 'name')
+    .populate('batch', 'name')
+    .populate('units', 'plannedHours marks')
+    .lean();
+  const logs = await UnitLog.find({ subject: { $in: subjects.map(s => s._id) } })
+    .select('unit teacher status endTime firstCompletedAt previousAttempts')
+    .lean();
+
+  const completedByTeacher = new Set();
+  const completedUnits = new Set();
+  logs.filter(log => log.unit && getFirstCompletedAt(log)).forEach(log => {
+    completedByTeacher.add(`${log.unit}:${log.teacher}`);
+    completedUnits.add(log.unit.toString());
+  });
+
+  const teachers = new Map();
+  const batches = new Map();
+  const addUnit = (groups, key, base, unit, isCompleted) => {
+    if (!groups.has(key)) groups.set(key, { ...base, total: 0, completed: 0, weights: emptyProgressWeights() });
+    const group = groups.get(key);
+    group.total += 1;
+    if (isCompleted) group.completed += 1;
+    addUnitWeights(group.weights, unit, isCompleted ? ['total', 'completed'] : ['total']);
+  };
+
+  subjects.forEach(subject => {
+    (subject.units || []).filter(Boolean).forEach(unit => {
+      const unitId = unit._id.toString();
+      if (subject.teacher) {
+        const teacherId = subject.teacher._id.toString();
+        addUnit(teachers, teacherId, { teacherId, teacherName: subject.teacher.name }, unit,
+          completedByTeacher.has(`${unitId}:${teacherId}`));
+      }
+      const batchId = subject.batch ? subject.batch._id.toString() : '';
+      addUnit(batches, batchId, { batchId: batchId || null, batch: subject.batch?.name || '' }, unit,
+        completedUnits.has(unitId));
+    });
+  });
+
+  const byName = (key) => (a, b) => a[key].localeCompare(b[key]);
+  return {
+    teachers: [...teachers.values()].sort(byName('teacherName')),
+    batches: [...batches.values()].sort(byName('batch'))
+  };
+};
+
+/**
+ * Planned vs actual for one unit. overPlan is set once the taught hours exceed the plan by more
+ * than the subject's threshold; units without an estimate are never over plan.
+ */
+export const getPlanVariance = ({ actualHours, plannedHours, thresholdPercent }) => {
+  const planned = plannedHours || 0;
+  if (planned <= 0) {
+    return { plannedHours: 0, varianceHours: null, variancePercent: null, overPlan: false };
+  }
+  const threshold = thresholdPercent ?? DEFAULT_DELAY_THRESHOLD_PERCENT;
+  const varianceHours = actualHours - planned;
+  return {
+    plannedHours: planned,
+    varianceHours: round(varianceHours),
+    variancePercent: round((varianceHours / planned) * 100),
+    overPlan: actualHours > planned * (1 + threshold / 100)
+  };
+};
+
+/**
+ * Recompute a subject's planned hours from its units
+ */
+export const refreshSubjectPlannedHours = async (subjectId) => {
+  const units = await Unit.find({ subject: subjectId }).select('plannedHours').lean();
+  const plannedHours = round(units.reduce((sum, unit) => sum + (unit.plannedHours || 0), 0));
+  await Subject.updateOne({ _id: subjectId }, { plannedHours });
+  return plannedHours;
+};
@@ -0,0 +1,153 @@
+import DailyTimeSlot from '../models/DailyTimeSlot.js';
+import Subject from '../models/Subject.js';
+import { getUnitLogMinutes } from '../models/UnitLog.js';
+import { parseSlotTimeRange } from './bellSchedule.js';
+
+// 'timer': start/pause/complete sessions; 'slots': approved slots tagged with the unit or the subject was scheduled in
+export const UNIT_TIME_SOURCES = ['timer', 'slots'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const normalize = (value) => String(value || '').trim().toLowerCase();
+
+const idOf = (ref) => (ref?._id || ref).toString();
+
+// Whether a slot of a day overlaps from..to (slots without readable times count for the whole day)
+const slotOverlaps = (day, slot, from, to) => {
+  const dayStart = new Date(day.date);
+  dayStart.setHours(0, 0, 0, 0);
+  const range = parseSlotTimeRange(slot.label) || parseSlotTimeRange(slot.slotId);
+  const start = range ? dayStart.getTime() + range.start * 60 * 1000 : dayStart.getTime();
+  const end = range ? dayStart.getTime() + range.end * 60 * 1000 : dayStart.getTime() + DAY_MS;
+  return start < to.getTime() && end > from.getTime();
+};
+
+// Whether a checked slot counts for a log: the teacher's tag decides when present, else the timetable
+const slotCountsForLog = (slot, log, scheduledSlotIds) => {
+  if (slot.taught?.unit) return idOf(slot.taught.unit) === idOf(log.unit);
+  if (slot.taught?.subject) return idOf(slot.taught.subject) === idOf(log.subject);
+  return scheduledSlotIds.has(slot.slotId);
+};
+
+/**
+ * The one log a checked slot counts for when several of the teacher's logs could claim it (overlapping
+ * units of a subject): the unit named in the slot's tag, else the unit that had a session running
+ * then, else the unit started most recently before it.
+ */
+const pickSlotLog = (day, slot, candidates, now) => {
+  if (candidates.length <= 1) return candidates[0] || null;
+  const taughtName = normalize(slot.taught?.unitName);
+  const named = taughtName ? candidates.filter(log => normalize(log.unit?.name) === taughtName) : [];
+  if (named.length === 1) return named[0];
+  const active = candidates.filter(log => (log.sessions || []).some(session =>
+    slotOverlaps(day, slot, new Date(session.startTime), session.endTime ? new Date(session.endTime) : now)
+  ));
+  if (active.length > 0) return active[0];
+  return [...candidates].sort((a, b) => new Date(b.startTime) - new Date(a.startTime))[0];
+};
+
+/**
+ * Hours per unit log (Map of log id -> hours) from the teacher's checked (= approved) slots tagged with
+ * the log's unit, or untagged slots in which the verifier scheduled the log's subject, between the
+ * unit's start and completion (now while running). Each slot counts for one log only.
+ * Breaks are per day rather than per subject, so they are not deducted here.
+ */
+export const getSlotHoursForUnitLogs = async (logs, now = new Date()) => {
+  const result = new Map();
+  if (logs.length === 0) return result;
+
+  const subjectIds = [...new Set(logs.map(log => idOf(log.subject)))];
+  const subjects = await Subject.find({ _id: { $in: subjectIds } })
+    .select('name batch')
+    .populate('batch', 'name')
+    .lean();
+  const subjectById = new Map(subjects.map(s => [s._id.toString(), s]));
+
+  const logsByTeacher = new Map();
+  logs.forEach(log => {
+    const teacherId = idOf(log.teacher);
+    if (!logsByTeacher.has(teacherId)) logsByTeacher.set(teacherId, []);
+    logsByTeacher.get(teacherId).push(log);
+  });
+
+  for (const [teacherId, teacherLogs] of logsByTeacher) {
+    const from = new Date(Math.min(...teacherLogs.map(log => new Date(log.startTime).getTime())));
+    from.setHours(0, 0, 0, 0);
+    const to = new Date(Math.max(...teacherLogs.map(log => new Date(log.endTime || now).getTime())));
+
+    const days = await DailyTimeSlot.find({
+      teacher: teacherId,
+      date: { $gte: from, $lte: to },
+      'slots.checked': true
+    })
+      .select('date slots scheduleEntries')
+      .lean();
+
+    const minutesByLog = new Map(teacherLogs.map(log => [log, 0]));
+    days.forEach(day => {
+      // Periods the verifier scheduled for each subject that day
+      const scheduledBySubject = new Map();
+      const getScheduledSlotIds = (subject) => {
+        const key = subject._id.toString();
+        if (!scheduledBySubject.has(key)) {
+          const scheduledSlotIds = new Set();
+          (day.scheduleEntries || []).forEach(entry => {
+            // Classes handed to a substitute were not taught by this teacher
+            if (entry.coveredBy) return;
+            if (normalize(entry.subjectName) !== normalize(subject.name)) return;
+            if (entry.batch && subject.batch?.name && normalize(entry.batch) !== normalize(subject.batch.name)) return;
+            (entry.slotIds || []).forEach(slotId => scheduledSlotIds.add(slotId));
+          });
+          scheduledBySubject.set(key, scheduledSlotIds);
+        }
+        return scheduledBySubject.get(key);
+      };
+
+      (day.slots || []).filter(slot => slot.checked).forEach(slot => {
+        const candidates = teacherLogs.filter(log => {
+          const subject = subjectById.get(idOf(log.subject));
+          const logFrom = new Date(log.startTime);
+          const logTo = log.endTime ? new Date(log.endTime) : now;
+          return subject && slotCountsForLog(slot, log, getScheduledSlotIds(subject)) && slotOverlaps(day, slot, logFrom, logTo);
+        });
+        const log = pickSlotLog(day, slot, candidates, now);
+        if (log) minutesByLog.set(log, minutesByLog.get(log) + (slot.duration || 0));
+      });
+    });
+
+    teacherLogs.forEach(log => result.set(log._id.toString(), minutesByLog.get(log) / 60));
+  }
+
+  return result;
+};
+
+/**
+ * Hours getter for a list of unit logs using the chosen time source
+ */
+export const createUnitHoursResolver = async (logs, source = 'timer') => {
+  if (source !== 'slots') return (log) => getUnitLogMinutes(log) / 60;
+  const slotHours = await getSlotHoursForUnitLogs(logs);
+  return (log) => slotHours.get(log._id.toString()) || 0;
+};
+
+/**
+ * Hours getter for the earlier runs of a unit log (one entry per previous attempt, oldest first)
+ * using the chosen time source; slot hours are counted between each attempt's own start and end
+ */
+export const createAttemptHoursResolver = async (logs, source = 'timer') => {
+  if (source !== 'slots') {
+    return (log) => (log.previousAttempts || []).map(attempt => (attempt.totalMinutes || 0) / 60);
+  }
+  const attemptKey = (log, index) => `${log._id}:${index}`;
+  const attemptLogs = logs.flatMap(log => (log.previousAttempts || []).map((attempt, index) => ({
+    _id: attemptKey(log, index),
+    teacher: log.teacher,
+    subject: log.subject,
+    unit: log.unit,
+    startTime: attempt.startTime,
+    endTime: attempt.endTime,
+    sessions: attempt.sessions
+  })));
+  const slotHours = await getSlotHoursForUnitLogs(attemptLogs);
+  return (log) => (log.previousAttempts || []).map((_, index) => slotHours.get(attemptKey(log, index)) || 0);
+};
@@ -0,0 +1,142 @@
+import DailyTimeSlot from '../models/DailyTimeSlot.js';
+import Subject from '../models/Subject.js';
+import Batch from '../models/Batch.js';
+import { getSlotDefinitions, getTeacherSlotDefinitions, buildDailySlots } from './bellSchedule.js';
+import { getCalendarDays, toDateKey } from './academicCalendar.js';
+import { flagEntriesForCover } from './leave.js';
+import { collectScheduledSlotIds } from './cover.js';
+import { getLockedDateKeys } from './payPeriods.js';
+
+// Longest range a single template may cover
+export const MAX_TIMETABLE_DAYS = 366;
+
+const startOfDay = (value) => {
+  const d = new Date(value);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+const isFromTimetable = (entry, timetableId) =>
+  entry.timetable && entry.timetable.toString() === timetableId.toString();
+
+const collectSlotIds = (entries) => [...new Set(entries.flatMap(e => e.slotIds || []))];
+
+// Checked slots, assigned substitutes and locked (closed pay period) slots mean the day must be left alone
+const isDayInUse = (day) =>
+  day.slots.some(s => s.checked || s.locked) || day.scheduleEntries.some(e => e.coveredBy);
+
+/**
+ * Remove entries generated from a timetable on days from `fromDate` onwards.
+ * Days where the teacher has already checked a slot, a class has a substitute or the pay period is closed
+ * are left untouched.
+ */
+export const clearGeneratedEntries = async (timetableId, fromDate) => {
+  const days = await DailyTimeSlot.find({
+    date: { $gte: startOfDay(fromDate) },
+    'scheduleEntries.timetable': timetableId
+  });
+
+  const summary = { cleared: 0, skipped: 0 };
+  for (const day of days) {
+    if (isDayInUse(day)) {
+      summary.skipped += 1;
+      continue;
+    }
+    day.scheduleEntries = day.scheduleEntries.filter(e => !isFromTimetable(e, timetableId));
+    day.scheduledSlotIds = collectScheduledSlotIds(day.scheduleEntries);
+    await day.save();
+    summary.cleared += 1;
+  }
+  return summary;
+};
+
+/**
+ * Materialize a weekly timetable onto DailyTimeSlot (scheduledSlotIds + scheduleEntries)
+ * for every date from `fromDate` (or effectiveFrom, whichever is later) to effectiveTo.
+ * Days where the teacher has already checked a slot or a class has a substitute are skipped, as are holidays and
+ * vacations in the academic calendar for the timetable's batch and days in closed pay periods.
+ */
+export const generateFromTimetable = async (timetable, fromDate = timetable.effectiveFrom) => {
+  const summary = { generated: 0, skipped: [] };
+
+  const batch = await Batch.findById(timetable.batch).select('name');
+  const subjectIds = [...new Set(timetable.entries.map(e => e.subject.toString()))];
+  const subjects = await Subject.find({ _id: { $in: subjectIds } }).select('name');
+  const subjectNames = new Map(subjects.map(s => [s._id.toString(), s.name]));
+
+  const from = startOfDay(Math.max(startOfDay(fromDate).getTime(), startOfDay(timetable.effectiveFrom).getTime()));
+  const to = startOfDay(timetable.effectiveTo);
+  const calendarDays = await getCalendarDays({ start: from, end: to, batchId: timetable.batch });
+  const lockedDateKeys = await getLockedDateKeys({ start: from, end: to });
+
+  for (let date = new Date(from); date <= to; date.setDate(date.getDate() + 1)) {
+    const dayEntries = timetable.entries.filter(e => e.weekday === date.getDay());
+    if (dayEntries.length === 0) continue;
+    const calendarDay = calendarDays[toDateKey(date)];
+    if (calendarDay && !calendarDay.isWorkingDay) continue;
+    if (lockedDateKeys.has(toDateKey(date))) continue;
+
+    const targetDate = new Date(date);
+    const slotDefinitions = await getSlotDefinitions({ date: targetDate, batchId: timetable.batch });
+
+    // teacherId -> subjectName -> slotIds
+    const byTeacher = new Map();
+    for (const entry of dayEntries) {
+      if (!slotDefinitions[entry.slotId]) continue; // Period not in the bell schedule for this date
+      const teacherKey = entry.teacher.toString();
+      if (!byTeacher.has(teacherKey)) byTeacher.set(teacherKey, new Map());
+      const subjectName = subjectNames.get(entry.subject.toString()) || '';
+      const bySubject = byTeacher.get(teacherKey);
+      if (!bySubject.has(subjectName)) bySubject.set(subjectName, []);
+      bySubject.get(subjectName).push(entry.slotId);
+    }
+
+    for (const [teacherId, bySubject] of byTeacher) {
+      const generatedEntries = [...bySubject].map(([subjectName, slotIds]) => ({
+        subjectName,
+        batch: batch ? batch.name : '',
+        slotIds,
+        timetable: timetable._id
+      }));
+      const usedDefinitions = Object.fromEntries(
+        collectSlotIds(generatedEntries).map(id => [id, slotDefinitions[id]])
+      );
+
+      let dailySlot = await DailyTimeSlot.findOne({ teacher: teacherId, date: targetDate });
+
+      if (dailySlot && isDayInUse(dailySlot)) {
+        summary.skipped.push({ teacher: teacherId, date: targetDate });
+        continue;
+      }
+
+      if (!dailySlot) {
+        const teacherSlotDefinitions = await getTeacherSlotDefinitions(teacherId, targetDate);
+        await DailyTimeSlot.create({
+          teacher: teacherId,
+          date: targetDate,
+          slots: buildDailySlots({ ...teacherSlotDefinitions, ...usedDefinitions }),
+          scheduledSlotIds: collectSlotIds(generatedEntries),
+          scheduleEntries: generatedEntries
+        });
+      } else {
+        const existingSlotIds = dailySlot.slots.map(s => s.slotId);
+        dailySlot.slots.push(...buildDailySlots(
+          Object.fromEntries(Object.entries(usedDefinitions).filter(([id]) => !existingSlotIds.includes(id)))
+        ));
+        dailySlot.scheduleEntries = [
+          ...dailySlot.scheduleEntries.filter(e => !isFromTimetable(e, timetable._id)),
+          ...generatedEntries
+        ];
+        dailySlot.scheduledSlotIds = collectScheduledSlotIds(dailySlot.scheduleEntries);
+        flagEntriesForCover(dailySlot);
+        await dailySlot.save();
+      }
+      summary.generated += 1;
+    }
+  }
+
+  timetable.lastGeneratedAt = new Date();
+  await timetable.save();
+
+  return summary;
+};
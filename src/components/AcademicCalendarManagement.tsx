@@ -0,0 +1,356 @@
+import { useState, useEffect } from 'react';
+import { CalendarOff, ChevronDown, Plus, Edit2, Trash2, X, AlertCircle } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import api from '../services/api';
+
+type CalendarEventType = 'holiday' | 'vacation' | 'exam-week' | 'working-day';
+
+interface CalendarEvent {
+  _id: string;
+  name: string;
+  type: CalendarEventType;
+  startDate: string;
+  endDate: string;
+  batch?: { _id: string; name: string; year?: string } | null;
+  notes?: string;
+}
+
+const EVENT_TYPES: Array<{ value: CalendarEventType; label: string; badge: string }> = [
+  { value: 'holiday', label: 'Holiday', badge: 'bg-red-100 text-red-700 dark:bg-red-500/20 dark:text-red-300' },
+  { value: 'vacation', label: 'Vacation', badge: 'bg-orange-100 text-orange-700 dark:bg-orange-500/20 dark:text-orange-300' },
+  { value: 'exam-week', label: 'Exam week', badge: 'bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-300' },
+  { value: 'working-day', label: 'Working day (exception)', badge: 'bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-300' }
+];
+
+const toInputDate = (value: string) => {
+  const d = new Date(value);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const emptyForm = () => ({
+  name: '',
+  type: 'holiday' as CalendarEventType,
+  startDate: toInputDate(new Date().toISOString()),
+  endDate: toInputDate(new Date().toISOString()),
+  batchId: '',
+  notes: ''
+});
+
+export function AcademicCalendarManagement() {
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [batches, setBatches] = useState<Array<{ _id: string; name: string; year: string }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [showModal, setShowModal] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadEvents();
+    api.getBatches()
+      .then((res: any) => {
+        if (res?.success) setBatches(res.data || []);
+      })
+      .catch((err: any) => console.error('Error loading batches:', err));
+  }, []);
+
+  const loadEvents = async () => {
+    try {
+      setLoading(true);
+      const response = await api.getAcademicCalendar();
+      if (response && response.success) {
+        setEvents(response.data || []);
+      }
+    } catch (err) {
+      console.error('Error loading academic calendar:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openModal = (event?: CalendarEvent) => {
+    setFormError(null);
+    if (event) {
+      setEditingId(event._id);
+      setFormData({
+        name: event.name,
+        type: event.type,
+        startDate: toInputDate(event.startDate),
+        endDate: toInputDate(event.endDate),
+        batchId: event.batch?._id || '',
+        notes: event.notes || ''
+      });
+    } else {
+      setEditingId(null);
+      setFormData(emptyForm());
+    }
+    setShowModal(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setFormError(null);
+    try {
+      const payload = {
+        name: formData.name,
+        type: formData.type,
+        startDate: formData.startDate,
+        endDate: formData.endDate || formData.startDate,
+        batchId: formData.batchId || null,
+        notes: formData.notes
+      };
+      const response = editingId
+        ? await api.updateCalendarEvent(editingId, payload)
+        : await api.createCalendarEvent(payload);
+      if (response && response.success) {
+        setShowModal(false);
+        await loadEvents();
+      } else {
+        setFormError(response?.message || 'Failed to save calendar event');
+      }
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to save calendar event');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (event: CalendarEvent) => {
+    if (!confirm(`Delete "${event.name}"? Time tables already sent for these days are not changed.`)) return;
+    try {
+      await api.deleteCalendarEvent(event._id);
+      await loadEvents();
+    } catch (err: any) {
+      alert(err.message || 'Failed to delete calendar event');
+    }
+  };
+
+  const formatRange = (event: CalendarEvent) => {
+    const opts: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short', year: 'numeric' };
+    const from = new Date(event.startDate).toLocaleDateString('en-US', opts);
+    const to = new Date(event.endDate).toLocaleDateString('en-US', opts);
+    return from === to ? from : `${from} – ${to}`;
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl border border-blue-200/40 dark:border-blue-700/40 shadow-lg p-4 sm:p-6 transition-all duration-300">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-3 w-full text-left group"
+        >
+          <div className="p-2 rounded-xl bg-gradient-to-br from-red-500/20 to-pink-500/20 group-hover:bg-red-500/30 transition-colors">
+            <CalendarOff className="w-5 h-5 sm:w-6 sm:h-6 text-red-600 dark:text-red-400" />
+          </div>
+          <div>
+            <h3 className="text-lg sm:text-xl font-bold text-black dark:text-white flex items-center gap-2">
+              Academic Calendar
+              <ChevronDown className={`w-5 h-5 transition-transform duration-300 ${isExpanded ? 'rotate-180' : ''}`} />
+            </h3>
+            <p className="text-xs sm:text-sm text-black/70 dark:text-gray-400">
+              Holidays, vacations and exam weeks - no classes are scheduled on holidays or vacations
+            </p>
+          </div>
+        </button>
+
+        <AnimatePresence initial={false}>
+          {isExpanded && (
+            <motion.div
+              initial={{ height: 0, opacity: 0 }}
+              animate={{ height: 'auto', opacity: 1 }}
+              exit={{ height: 0, opacity: 0 }}
+              transition={{ duration: 0.3, ease: 'easeInOut' }}
+              className="overflow-hidden"
+            >
+              <div className="space-y-3 pt-4 pb-2">
+                <div className="flex justify-end">
+                  <button
+                    onClick={() => openModal()}
+                    className="flex items-center gap-2 px-4 py-2.5 rounded-xl bg-blue-500 hover:bg-blue-600 text-white transition-colors text-sm font-bold shadow-sm hover:shadow-md"
+                  >
+                    <Plus className="w-5 h-5" />
+                    Add Event
+                  </button>
+                </div>
+
+                {loading ? (
+                  <div className="text-center py-6 text-gray-500">Loading academic calendar...</div>
+                ) : events.length === 0 ? (
+                  <div className="text-center py-6 bg-gray-50 dark:bg-slate-800/50 rounded-xl border border-dashed border-gray-200 dark:border-slate-700 text-gray-500 dark:text-gray-400">
+                    No holidays or exam weeks yet - every day is treated as a working day.
+                  </div>
+                ) : (
+                  events.map(event => {
+                    const type = EVENT_TYPES.find(t => t.value === event.type);
+                    return (
+                      <div
+                        key={event._id}
+                        className="p-4 rounded-xl border border-gray-200 dark:border-slate-600 bg-gray-50 dark:bg-slate-700/30 flex items-start justify-between gap-3"
+                      >
+                        <div className="min-w-0">
+                          <div className="font-bold text-black dark:text-white flex items-center gap-2 flex-wrap">
+                            {event.name}
+                            <span className={`px-2 py-0.5 rounded-lg text-xs font-medium ${type?.badge || ''}`}>
+                              {type?.label || event.type}
+                            </span>
+                          </div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            {formatRange(event)}
+                            {' · '}
+                            {event.batch ? `Batch: ${event.batch.name}` : 'Whole college'}
+                          </div>
+                          {event.notes && (
+                            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{event.notes}</div>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          <button onClick={() => openModal(event)} className="p-2 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => handleDelete(event)} className="p-2 text-gray-400 hover:text-red-500 transition-colors">
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      <AnimatePresence>
+        {showModal && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white dark:bg-slate-800 rounded-2xl p-6 max-w-lg w-full shadow-xl max-h-[85vh] overflow-y-auto custom-scrollbar"
+            >
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-xl font-bold text-black dark:text-white">{editingId ? 'Edit Calendar Event' : 'New Calendar Event'}</h3>
+                <button onClick={() => setShowModal(false)} className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              {formError && (
+                <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  {formError}
+                </div>
+              )}
+
+              <form onSubmit={handleSave} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-semibold text-black dark:text-white mb-2">Name *</label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="w-full px-4 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                    placeholder="e.g., Diwali"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-black dark:text-white mb-2">Type *</label>
+                  <select
+                    value={formData.type}
+                    onChange={(e) => setFormData({ ...formData, type: e.target.value as CalendarEventType })}
+                    className="w-full px-4 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {EVENT_TYPES.map(t => (
+                      <option key={t.value} value={t.value}>{t.label}</option>
+                    ))}
+                  </select>
+                  {formData.type === 'working-day' && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Re-opens days closed for the whole college, for the selected batch only.
+                    </p>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-semibold text-black dark:text-white mb-2">From *</label>
+                    <input
+                      type="date"
+                      value={formData.startDate}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        startDate: e.target.value,
+                        endDate: formData.endDate < e.target.value ? e.target.value : formData.endDate
+                      })}
+                      className="w-full px-3 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-black dark:text-white mb-2">To *</label>
+                    <input
+                      type="date"
+                      value={formData.endDate}
+                      min={formData.startDate}
+                      onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                      className="w-full px-3 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-black dark:text-white mb-2">Batch</label>
+                  <select
+                    value={formData.batchId}
+                    onChange={(e) => setFormData({ ...formData, batchId: e.target.value })}
+                    className="w-full px-4 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Whole college (all batches)</option>
+                    {batches.map(b => (
+                      <option key={b._id} value={b._id}>{b.name} {b.year}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-black dark:text-white mb-2">Notes</label>
+                  <input
+                    type="text"
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    className="w-full px-4 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+
+                <div className="flex gap-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setShowModal(false)}
+                    className="flex-1 px-4 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 text-black dark:text-white font-semibold hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saving || (formData.type === 'working-day' && !formData.batchId)}
+                    className="flex-1 px-4 py-3 rounded-xl bg-blue-500 hover:bg-blue-600 text-white font-semibold transition-colors disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : editingId ? 'Save Changes' : 'Create'}
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
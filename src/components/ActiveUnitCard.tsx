@@ -1,28 +1,35 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { Zap, Clock } from 'lucide-react';
+import { Zap, Clock, Pause, Play } from 'lucide-react';
 
 interface ActiveUnitCardProps {
   unit: {
     id: string;
     name: string;
+    status?: 'in-progress' | 'paused';
     startedAt?: Date;
     elapsedTime?: number;
     subjectName: string;
     subjectColor: string;
     batchName?: string;
   };
+  onPause?: () => void;
+  onResume?: () => void;
 }
 
-export function ActiveUnitCard({ unit }: ActiveUnitCardProps) {
+export function ActiveUnitCard({ unit, onPause, onResume }: ActiveUnitCardProps) {
   const [elapsed, setElapsed] = useState(unit.elapsedTime || 0);
+  const isPaused = unit.status === 'paused';
 
+  // Teaching time comes from the server (sum of sessions); only a running unit keeps counting
   useEffect(() => {
+    setElapsed(unit.elapsedTime || 0);
+    if (isPaused) return;
     const interval = setInterval(() => {
       setElapsed(prev => prev + 1);
     }, 1000);
     return () => clearInterval(interval);
-  }, []);
+  }, [isPaused, unit.elapsedTime]);
 
   // Sync elapsed time with parent component removed to prevent render loop
   // The card manages its own display timer locally
@@ -55,25 +62,46 @@ export function ActiveUnitCard({ unit }: ActiveUnitCardProps) {
           <div className="flex items-center gap-3 mb-5">
             <motion.div
               animate={{
-                scale: [1, 1.08, 1],
+                scale: isPaused ? 1 : [1, 1.08, 1],
               }}
               transition={{
                 duration: 2,
                 repeat: Infinity,
                 ease: 'easeInOut',
               }}
-              className="p-2.5 rounded-xl bg-blue-100 dark:bg-blue-900/30"
+              className={`p-2.5 rounded-xl ${isPaused ? 'bg-amber-100 dark:bg-amber-900/30' : 'bg-blue-100 dark:bg-blue-900/30'}`}
             >
-              <Zap className="w-6 h-6 sm:w-7 sm:h-7 text-blue-600 dark:text-blue-400" fill="currentColor" />
+              {isPaused ? (
+                <Pause className="w-6 h-6 sm:w-7 sm:h-7 text-amber-600 dark:text-amber-400" fill="currentColor" />
+              ) : (
+                <Zap className="w-6 h-6 sm:w-7 sm:h-7 text-blue-600 dark:text-blue-400" fill="currentColor" />
+              )}
             </motion.div>
             <div className="flex-1 min-w-0">
-              <h3 className="text-xl sm:text-2xl font-bold text-black dark:text-white">
+              <h3 className="text-xl sm:text-2xl font-bold text-black dark:text-white flex items-center gap-2">
                 Active Unit
+                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${isPaused
+                  ? 'bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-200'
+                  : 'bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-300'}`}
+                >
+                  {isPaused ? 'Paused' : 'Running'}
+                </span>
               </h3>
               <p className="text-xs sm:text-sm text-gray-600 dark:text-slate-400 font-medium">
-                New unit started in <span className="font-bold text-black dark:text-white">{unit.subjectName}</span>
+                Teaching time <span className="font-bold text-black dark:text-white tabular-nums">{time.hours}:{time.minutes}:{time.seconds}</span> in <span className="font-bold text-black dark:text-white">{unit.subjectName}</span>
               </p>
             </div>
+            {(isPaused ? onResume : onPause) && (
+              <button
+                onClick={isPaused ? onResume : onPause}
+                className={`flex items-center gap-1.5 px-3 py-2 rounded-xl text-sm font-semibold transition-colors ${isPaused
+                  ? 'bg-blue-600 text-white hover:bg-blue-700'
+                  : 'bg-amber-100 text-amber-800 hover:bg-amber-200 dark:bg-amber-500/20 dark:text-amber-200'}`}
+              >
+                {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                {isPaused ? 'Resume' : 'Pause'}
+              </button>
+            )}
           </div>
 
           {/* Content Grid - Mobile First */}
@@ -13,6 +13,14 @@ export interface TeacherProgress {
   startedAt: Date;
   completedAt: Date | null;
   totalHours: number;
+  plannedHours?: number; // 0 when the unit has no estimate
+  marks?: number; // exam marks weightage, 0 when not set
+  varianceHours?: number | null;
+  delayed?: boolean; // Running past the subject's threshold over plan
+  attemptKind?: 'first-delivery' | 'revision' | 'remedial';
+  attempts?: number; // Runs of the unit, the current one included
+  firstCompletedAt?: Date | null;
+  totalHoursAllAttempts?: number;
   status: string;
 }
 
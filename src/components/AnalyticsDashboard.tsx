@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { BarChart3, Filter, CheckCircle2, AlertCircle, Clock, TrendingUp, ChevronDown, ChevronUp, LayoutDashboard, PieChart, FileSpreadsheet, FileText } from 'lucide-react';
+import { BarChart3, Filter, CheckCircle2, AlertCircle, Clock, TrendingUp, ChevronDown, ChevronUp, LayoutDashboard, PieChart, FileSpreadsheet, FileText, BookOpen } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
@@ -7,6 +7,7 @@ import { motion, AnimatePresence } from 'motion/react';
 import { ProgressVisualization } from './ProgressVisualization';
 import { MetricCard } from './MetricCard';
 import { AnalyticsGraphs } from './AnalyticsGraphs';
+import { CompletionForecast, CompletionForecastData, FORECAST_RISK_LABELS, formatForecastDate } from './CompletionForecast';
 import api from '../services/api';
 
 interface AnalyticsDashboardProps {
@@ -22,17 +23,43 @@ interface SubjectData {
   delayed: number;
   totalHours: number;
   avgHours: number;
+  // Over units that have an estimate
+  plannedHours: number;
+  actualHoursOnPlan: number;
+  varianceHours: number;
+  overPlan: number;
 }
 
+interface TaughtVsPlannedRow {
+  date: string;
+  teacherName: string;
+  slot: string;
+  planned: { subjectName: string; batch: string } | null;
+  taught: { subjectName: string; batch: string; unitName: string; topic: string } | null;
+  matchesPlan: boolean | null; // null when the slot was not tagged
+}
+
+interface TaughtVsPlanned {
+  summary: { checkedSlots: number; tagged: number; matching: number; differing: number; unplanned: number };
+  rows: TaughtVsPlannedRow[];
+}
+
+const formatClass = (value: { subjectName: string; batch: string } | null) =>
+  value ? [value.subjectName, value.batch].filter(Boolean).join(' - ') : '-';
+
 export function AnalyticsDashboard({ user }: AnalyticsDashboardProps) {
   const [data, setData] = useState<SubjectData[]>([]);
   const [detailedData, setDetailedData] = useState<any[]>([]); // Store detailed logs for export
+  const [taughtVsPlanned, setTaughtVsPlanned] = useState<TaughtVsPlanned | null>(null);
+  const [forecast, setForecast] = useState<CompletionForecastData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [filters, setFilters] = useState({
     teacherId: 'all',
     subject: 'all',
-    dateRange: 'today'
+    dateRange: 'today',
+    // 'timer': start/pause/complete sessions; 'slots': approved slots in which the subject was scheduled
+    timeSource: 'timer'
   });
   const [isFiltersOpen, setIsFiltersOpen] = useState(false);
   const [isProgressOpen, setIsProgressOpen] = useState(true); // Default open in overview
@@ -91,12 +118,14 @@ export function AnalyticsDashboard({ user }: AnalyticsDashboardProps) {
       setError(null);
 
       // Fetch both aggregated stats and detailed logs
-      const [progressResponse, dashboardResponse] = await Promise.all([
+      const [progressResponse, dashboardResponse, taughtResponse, forecastResponse] = await Promise.all([
         api.getAdminProgress({
           ...filters,
           groupBy: filters.subject !== 'all' ? 'teacher' : 'subject'
         }),
-        api.getAdminDashboard(filters)
+        api.getAdminDashboard(filters),
+        api.getTaughtVsPlanned({ teacherId: filters.teacherId, subject: filters.subject, dateRange: filters.dateRange }),
+        api.getCompletionForecast({ subject: filters.subject })
       ]);
 
       if (progressResponse && progressResponse.success) {
@@ -114,10 +143,19 @@ export function AnalyticsDashboard({ user }: AnalyticsDashboardProps) {
           status: item.status,
           startedAt: new Date(item.startedAt),
           completedAt: item.completedAt ? new Date(item.completedAt) : null,
-          totalHours: item.totalHours
+          totalHours: item.totalHours,
+          plannedHours: item.plannedHours || 0,
+          varianceHours: item.varianceHours,
+          delayed: item.delayed,
+          attemptKind: item.attemptKind,
+          firstCompletedAt: item.firstCompletedAt ? new Date(item.firstCompletedAt) : null,
+          totalHoursAllAttempts: item.totalHoursAllAttempts
         }));
         setDetailedData(logs);
       }
+
+      setTaughtVsPlanned(taughtResponse && taughtResponse.success ? taughtResponse.data : null);
+      setForecast(forecastResponse && forecastResponse.success ? forecastResponse.data : null);
     } catch (err: any) {
       console.error('Error loading analytics:', err);
       setError(err.message || 'Failed to load analytics data');
@@ -135,15 +173,49 @@ export function AnalyticsDashboard({ user }: AnalyticsDashboardProps) {
       Teacher: item.teacherName,
       Subject: item.subject,
       Unit: item.unit,
-      Status: item.status,
+      Status: item.delayed ? 'delayed' : item.status,
       'Started': item.startedAt.toLocaleDateString(),
       'Completed': item.completedAt ? item.completedAt.toLocaleDateString() : '-',
-      'Hours': Number((item.totalHours || 0).toFixed(2))
+      'Hours': Number((item.totalHours || 0).toFixed(2)),
+      'Planned Hours': item.plannedHours || '-',
+      'Variance': item.plannedHours && item.varianceHours != null ? Number(item.varianceHours.toFixed(2)) : '-',
+      'Attempt': item.attemptKind || 'first-delivery',
+      'First Completed': item.firstCompletedAt ? item.firstCompletedAt.toLocaleDateString() : '-',
+      'Hours (all attempts)': Number((item.totalHoursAllAttempts ?? item.totalHours ?? 0).toFixed(2))
     }));
 
     const ws = XLSX.utils.json_to_sheet(dataToExport);
     const wb = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(wb, ws, "Detailed Report");
+    if (taughtVsPlanned?.rows.length) {
+      const taughtSheet = XLSX.utils.json_to_sheet(taughtVsPlanned.rows.map(row => ({
+        Date: new Date(row.date).toLocaleDateString(),
+        Teacher: row.teacherName,
+        Slot: row.slot,
+        Planned: formatClass(row.planned),
+        Taught: formatClass(row.taught),
+        Unit: row.taught?.unitName || '-',
+        Topic: row.taught?.topic || '-',
+        'Matches Plan': row.matchesPlan === null ? 'Not tagged' : row.matchesPlan ? 'Yes' : 'No'
+      })));
+      XLSX.utils.book_append_sheet(wb, taughtSheet, "Planned vs Taught");
+    }
+    if (forecast?.subjects.length) {
+      const forecastSheet = XLSX.utils.json_to_sheet(forecast.subjects.map(row => ({
+        Subject: row.subject,
+        Batch: row.batch || '-',
+        'Units Left': row.remainingUnits,
+        'Total Units': row.totalUnits,
+        'Units / Week': row.unitsPerWeek ?? '-',
+        'Hours Needed': row.hoursNeeded ?? '-',
+        'Hours Scheduled': row.scheduledHours,
+        'Projected Completion': formatForecastDate(row.projectedDate),
+        'Next Exam': row.nextExam ? `${row.nextExam.name} (${formatForecastDate(row.nextExam.examDate)})` : '-',
+        Risk: FORECAST_RISK_LABELS[row.risk],
+        Reason: row.reason
+      })));
+      XLSX.utils.book_append_sheet(wb, forecastSheet, "Completion Forecast");
+    }
     XLSX.writeFile(wb, "analytics_report.xlsx");
   };
 
@@ -159,21 +231,23 @@ export function AnalyticsDashboard({ user }: AnalyticsDashboardProps) {
     doc.text("Analytics Report", 14, 20);
     doc.setFontSize(10);
     doc.text(`Generated: ${new Date().toLocaleString()}`, 14, 28);
-    doc.text(`Filters: ${filters.teacherId} | ${filters.subject} | ${filters.dateRange}`, 14, 34);
+    doc.text(`Filters: ${filters.teacherId} | ${filters.subject} | ${filters.dateRange} | hours from ${filters.timeSource === 'slots' ? 'approved slots' : 'timer'}`, 14, 34);
 
     // Prepare table data
     const tableData = detailedData.map(item => [
       item.teacherName,
       item.subject,
       item.unit,
-      item.status,
+      item.delayed ? 'delayed' : item.status,
       item.startedAt.toLocaleDateString(),
       item.completedAt ? item.completedAt.toLocaleDateString() : '-',
-      (item.totalHours || 0).toFixed(2)
+      (item.totalHours || 0).toFixed(2),
+      item.plannedHours ? String(item.plannedHours) : '-',
+      item.plannedHours && item.varianceHours != null ? item.varianceHours.toFixed(2) : '-'
     ]);
 
     autoTable(doc, {
-      head: [['Teacher', 'Subject', 'Unit', 'Status', 'Started', 'Completed', 'Hours']],
+      head: [['Teacher', 'Subject', 'Unit', 'Status', 'Started', 'Completed', 'Hours', 'Planned', 'Variance']],
       body: tableData,
       startY: 40,
       styles: { fontSize: 8 },
@@ -284,7 +358,7 @@ export function AnalyticsDashboard({ user }: AnalyticsDashboardProps) {
               exit={{ height: 0, opacity: 0 }}
               transition={{ duration: 0.3, ease: "easeInOut" }}
             >
-              <div className="p-4 sm:p-6 pt-0 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 border-t border-gray-200 dark:border-white/10 mt-2">
+              <div className="p-4 sm:p-6 pt-0 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 border-t border-gray-200 dark:border-white/10 mt-2">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-white/90 mb-2">
                     Teacher
@@ -348,6 +422,20 @@ export function AnalyticsDashboard({ user }: AnalyticsDashboardProps) {
                     <option value="90days">Last 90 Days</option>
                   </select>
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-white/90 mb-2">
+                    Hours From
+                  </label>
+                  <select
+                    value={filters.timeSource}
+                    onChange={(e) => setFilters({ ...filters, timeSource: e.target.value })}
+                    className="w-full px-4 py-2.5 rounded-xl bg-gray-50 dark:bg-gray-100/95 backdrop-blur-sm border-2 border-gray-300 dark:border-white/60 text-gray-900 dark:text-black text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-400"
+                    title="Approved slots: hours of checked slots tagged with the unit, or in which the subject was scheduled, while the unit ran"
+                  >
+                    <option value="timer">Unit timer</option>
+                    <option value="slots">Approved slots</option>
+                  </select>
+                </div>
               </div>
             </motion.div>
           )}
@@ -444,7 +532,101 @@ export function AnalyticsDashboard({ user }: AnalyticsDashboardProps) {
               />
             </div>
 
+            {/* Planned vs actual hours per subject (or per teacher when a subject is selected) */}
+            {data.some(row => row.plannedHours > 0) && (
+              <div className="bg-white dark:bg-slate-800 rounded-2xl border border-gray-200 dark:border-slate-700/50 shadow-xl p-4 sm:p-6">
+                <div className="flex items-center gap-2 mb-4">
+                  <Clock className="w-5 h-5 text-gray-700 dark:text-white" />
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Planned vs Actual Hours</h2>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-slate-700">
+                        <th className="py-2 pr-3 font-medium">{filters.subject !== 'all' ? 'Teacher' : 'Subject'}</th>
+                        <th className="py-2 pr-3 font-medium text-right">Planned</th>
+                        <th className="py-2 pr-3 font-medium text-right">Actual</th>
+                        <th className="py-2 pr-3 font-medium text-right">Variance</th>
+                        <th className="py-2 pr-3 font-medium text-right">Over plan</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.filter(row => row.plannedHours > 0).map(row => (
+                        <tr key={row.subject} className="border-b border-gray-100 dark:border-slate-700/50 text-gray-800 dark:text-gray-200">
+                          <td className="py-2 pr-3">{row.subject}</td>
+                          <td className="py-2 pr-3 text-right tabular-nums">{row.plannedHours.toFixed(1)}h</td>
+                          <td className="py-2 pr-3 text-right tabular-nums">{row.actualHoursOnPlan.toFixed(1)}h</td>
+                          <td className={`py-2 pr-3 text-right tabular-nums font-semibold ${row.varianceHours > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                            {row.varianceHours > 0 ? '+' : ''}{row.varianceHours.toFixed(1)}h
+                          </td>
+                          <td className="py-2 pr-3 text-right tabular-nums">{row.overPlan}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">Only units with planned hours are compared. Over plan: units past their subject's delay threshold.</p>
+              </div>
+            )}
+
+            {/* Projected completion per subject against the remaining timetable and the next exam */}
+            <CompletionForecast data={forecast} />
 
+            {/* Planned vs taught: slots where the teacher tagged a different class than the timetable */}
+            {taughtVsPlanned && taughtVsPlanned.summary.checkedSlots > 0 && (
+              <div className="bg-white dark:bg-slate-800 rounded-2xl border border-gray-200 dark:border-slate-700/50 shadow-xl p-4 sm:p-6">
+                <div className="flex items-center gap-2 mb-4">
+                  <BookOpen className="w-5 h-5 text-gray-700 dark:text-white" />
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Planned vs Taught</h2>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4 text-sm">
+                  <div className="p-3 rounded-xl bg-gray-50 dark:bg-slate-700/50">
+                    <div className="text-gray-500 dark:text-gray-400">Tagged slots</div>
+                    <div className="text-xl font-bold text-gray-900 dark:text-white">{taughtVsPlanned.summary.tagged} / {taughtVsPlanned.summary.checkedSlots}</div>
+                  </div>
+                  <div className="p-3 rounded-xl bg-green-50 dark:bg-green-900/20">
+                    <div className="text-green-700 dark:text-green-300">As planned</div>
+                    <div className="text-xl font-bold text-green-700 dark:text-green-300">{taughtVsPlanned.summary.matching}</div>
+                  </div>
+                  <div className="p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20">
+                    <div className="text-amber-700 dark:text-amber-300">Different subject</div>
+                    <div className="text-xl font-bold text-amber-700 dark:text-amber-300">{taughtVsPlanned.summary.differing}</div>
+                  </div>
+                  <div className="p-3 rounded-xl bg-blue-50 dark:bg-blue-900/20">
+                    <div className="text-blue-700 dark:text-blue-300">Not scheduled</div>
+                    <div className="text-xl font-bold text-blue-700 dark:text-blue-300">{taughtVsPlanned.summary.unplanned}</div>
+                  </div>
+                </div>
+                {taughtVsPlanned.rows.some(row => row.matchesPlan === false) && (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-slate-700">
+                          <th className="py-2 pr-3 font-medium">Date</th>
+                          <th className="py-2 pr-3 font-medium">Teacher</th>
+                          <th className="py-2 pr-3 font-medium">Slot</th>
+                          <th className="py-2 pr-3 font-medium">Planned</th>
+                          <th className="py-2 pr-3 font-medium">Taught</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {taughtVsPlanned.rows.filter(row => row.matchesPlan === false).map((row, idx) => (
+                          <tr key={idx} className="border-b border-gray-100 dark:border-slate-700/50 text-gray-800 dark:text-gray-200">
+                            <td className="py-2 pr-3 whitespace-nowrap">{new Date(row.date).toLocaleDateString()}</td>
+                            <td className="py-2 pr-3">{row.teacherName}</td>
+                            <td className="py-2 pr-3 whitespace-nowrap">{row.slot}</td>
+                            <td className="py-2 pr-3">{formatClass(row.planned)}</td>
+                            <td className="py-2 pr-3 text-amber-700 dark:text-amber-300">
+                              {formatClass(row.taught)}{row.taught?.unitName ? ` · ${row.taught.unitName}` : ''}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
           </motion.div>
         ) : (
           <motion.div
@@ -40,7 +40,7 @@ export function AnalyticsGraphs({ data, mode = 'subject' }: AnalyticsGraphsProps
     const pieData = [
         { name: 'Completed', value: aggregateData.completed, color: COLORS.completed },
         { name: 'On Track', value: aggregateData.inProgress, color: COLORS.inProgress },
-        { name: 'Delayed (>12h)', value: aggregateData.delayed, color: COLORS.delayed },
+        { name: 'Delayed (over plan)', value: aggregateData.delayed, color: COLORS.delayed },
     ].filter(item => item.value > 0);
 
     const CustomTooltip = ({ active, payload, label }: any) => {
@@ -193,7 +193,7 @@ export function AnalyticsGraphs({ data, mode = 'subject' }: AnalyticsGraphsProps
                             {/* Actual Data */}
                             <Bar dataKey="completed" name="Completed" stackId="a" fill={COLORS.completed} radius={[0, 0, 0, 0]} />
                             <Bar dataKey="inProgress" name="On Track" stackId="a" fill={COLORS.inProgress} />
-                            <Bar dataKey="delayed" name="Delayed (>12h)" stackId="a" fill={COLORS.delayed} radius={[0, 6, 6, 0]} />
+                            <Bar dataKey="delayed" name="Delayed (over plan)" stackId="a" fill={COLORS.delayed} radius={[0, 6, 6, 0]} />
                         </BarChart>
                     </ResponsiveContainer>
                 </div>
@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'motion/react';
 import { Sparkles, AlertCircle, CheckCircle, ChevronLeft, ChevronRight } from 'lucide-react';
-import { SubjectUnitCard } from './SubjectUnitCard';
+import { SubjectUnitCard, UnitRestart } from './SubjectUnitCard';
 import { ActiveUnitCard } from './ActiveUnitCard';
 import { BatchManagement } from './BatchManagement';
 import api from '../services/api';
@@ -9,7 +9,7 @@ import api from '../services/api';
 export interface Unit {
   id: string;
   name: string;
-  status: 'not-started' | 'in-progress' | 'completed';
+  status: 'not-started' | 'in-progress' | 'paused' | 'completed';
   startedAt?: Date;
   completedAt?: Date;
   elapsedTime?: number; // in seconds
@@ -120,7 +120,7 @@ export function AssignPage({ user, isDarkMode = false }: AssignPageProps) {
     }> = [];
 
     for (const subject of subjects) {
-      const activeUnitsInSubject = subject.units.filter(u => u.status === 'in-progress');
+      const activeUnitsInSubject = subject.units.filter(u => u.status === 'in-progress' || u.status === 'paused');
       for (const unit of activeUnitsInSubject) {
         activeUnits.push({
           unit: {
@@ -146,25 +146,25 @@ export function AssignPage({ user, isDarkMode = false }: AssignPageProps) {
   // Calculate stats
   const totalUnits = subjects.flatMap(s => s.units).length;
   const completedUnits = subjects.flatMap(s => s.units).filter(u => u.status === 'completed').length;
-  const inProgressUnits = subjects.flatMap(s => s.units).filter(u => u.status === 'in-progress').length;
+  const inProgressUnits = subjects.flatMap(s => s.units).filter(u => u.status === 'in-progress' || u.status === 'paused').length;
   const pendingUnits = subjects.flatMap(s => s.units).filter(u => u.status === 'not-started').length;
 
-  const handleStartUnit = async (subjectId: string, unitId: string) => {
+  const handleStartUnit = async (subjectId: string, unitId: string, restart?: UnitRestart) => {
     // Check if another unit in the SAME subject is already in progress
     const currentSubject = subjects.find(s => s.id === subjectId);
     const hasActiveUnitInSameSubject = currentSubject?.units.some(u =>
-      u.id !== unitId && u.status === 'in-progress'
+      u.id !== unitId && (u.status === 'in-progress' || u.status === 'paused')
     );
 
     if (hasActiveUnitInSameSubject) {
-      const activeUnitName = currentSubject?.units.find(u => u.status === 'in-progress')?.name || 'another unit';
+      const activeUnitName = currentSubject?.units.find(u => u.status === 'in-progress' || u.status === 'paused')?.name || 'another unit';
       setErrorModalMessage(`Another unit (${activeUnitName}) in ${currentSubject?.name} is already in progress. Please complete it first before starting a new one.`);
       setShowErrorModal(true);
       return;
     }
 
     try {
-      const response = await api.startUnit(unitId);
+      const response = await api.startUnit(unitId, restart);
       if (response.success) {
         await loadDashboardData(); // Reload to get updated data
       } else {
@@ -175,6 +175,20 @@ export function AssignPage({ user, isDarkMode = false }: AssignPageProps) {
     }
   };
 
+  // Pausing stops the unit's teaching time until it is resumed
+  const handlePauseResumeUnit = async (unitId: string, action: 'pause' | 'resume') => {
+    try {
+      const response = action === 'pause' ? await api.pauseUnit(unitId) : await api.resumeUnit(unitId);
+      if (response.success) {
+        await loadDashboardData();
+      } else {
+        alert(response.message || `Failed to ${action} unit`);
+      }
+    } catch (err: any) {
+      alert(err.message || `Failed to ${action} unit`);
+    }
+  };
+
   const handleCompleteUnit = (subjectId: string, unitId: string) => {
     // Show confirmation modal first
     setPendingComplete({ subjectId, unitId });
@@ -298,6 +312,8 @@ export function AssignPage({ user, isDarkMode = false }: AssignPageProps) {
                 >
                   <ActiveUnitCard
                     unit={activeUnitData.unit}
+                    onPause={() => handlePauseResumeUnit(activeUnitData.unit.id, 'pause')}
+                    onResume={() => handlePauseResumeUnit(activeUnitData.unit.id, 'resume')}
                   />
                 </div>
               ))}
@@ -346,8 +362,10 @@ export function AssignPage({ user, isDarkMode = false }: AssignPageProps) {
             <SubjectUnitCard
               key={subject.id}
               subject={subject}
-              onStartUnit={(unitId) => handleStartUnit(subject.id, unitId)}
+              onStartUnit={(unitId, restart) => handleStartUnit(subject.id, unitId, restart)}
               onCompleteUnit={(unitId) => handleCompleteUnit(subject.id, unitId)}
+              onPauseUnit={(unitId) => handlePauseResumeUnit(unitId, 'pause')}
+              onResumeUnit={(unitId) => handlePauseResumeUnit(unitId, 'resume')}
               onUpdateElapsed={(unitId, elapsed) => handleUpdateElapsedTime(subject.id, unitId, elapsed)}
               index={index}
             />
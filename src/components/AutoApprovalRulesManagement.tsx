@@ -0,0 +1,332 @@
+import { useState, useEffect } from 'react';
+import { ShieldCheck, ChevronDown, Plus, Edit2, Trash2, X, AlertCircle } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import api from '../services/api';
+
+type RuleAction = 'approve' | 'review';
+type RuleCondition = 'inSchedule' | 'sameDay' | 'afterSlotEnd';
+
+interface AutoApprovalRule {
+  _id: string;
+  name: string;
+  action: RuleAction;
+  conditions: Record<RuleCondition, boolean>;
+  priority: number;
+  enabled: boolean;
+}
+
+const RULE_CONDITIONS: Array<{ value: RuleCondition; label: string }> = [
+  { value: 'inSchedule', label: 'Slot is in the teacher\'s time table' },
+  { value: 'sameDay', label: 'Selected on the day of the slot' },
+  { value: 'afterSlotEnd', label: 'Selected after the slot ended' }
+];
+
+const emptyForm = () => ({
+  name: '',
+  action: 'approve' as RuleAction,
+  conditions: { inSchedule: true, sameDay: true, afterSlotEnd: true } as Record<RuleCondition, boolean>,
+  priority: 100,
+  enabled: true
+});
+
+export function AutoApprovalRulesManagement() {
+  const [rules, setRules] = useState<AutoApprovalRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [showModal, setShowModal] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      setLoading(true);
+      const response = await api.getAutoApprovalRules();
+      if (response && response.success) {
+        setRules(response.data || []);
+      }
+    } catch (err) {
+      console.error('Error loading auto-approval rules:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openModal = (rule?: AutoApprovalRule) => {
+    setFormError(null);
+    if (rule) {
+      setEditingId(rule._id);
+      setFormData({
+        name: rule.name,
+        action: rule.action,
+        conditions: {
+          inSchedule: !!rule.conditions?.inSchedule,
+          sameDay: !!rule.conditions?.sameDay,
+          afterSlotEnd: !!rule.conditions?.afterSlotEnd
+        },
+        priority: rule.priority,
+        enabled: rule.enabled
+      });
+    } else {
+      setEditingId(null);
+      setFormData(emptyForm());
+    }
+    setShowModal(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setFormError(null);
+    try {
+      const response = editingId
+        ? await api.updateAutoApprovalRule(editingId, formData)
+        : await api.createAutoApprovalRule(formData);
+      if (response && response.success) {
+        setShowModal(false);
+        await loadRules();
+      } else {
+        setFormError(response?.message || 'Failed to save rule');
+      }
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to save rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: AutoApprovalRule) => {
+    try {
+      await api.updateAutoApprovalRule(rule._id, { enabled: !rule.enabled });
+      await loadRules();
+    } catch (err: any) {
+      alert(err.message || 'Failed to update rule');
+    }
+  };
+
+  const handleDelete = async (rule: AutoApprovalRule) => {
+    if (!confirm(`Delete rule "${rule.name}"? Requests it already approved stay approved.`)) return;
+    try {
+      await api.deleteAutoApprovalRule(rule._id);
+      await loadRules();
+    } catch (err: any) {
+      alert(err.message || 'Failed to delete rule');
+    }
+  };
+
+  const describeConditions = (rule: AutoApprovalRule) => {
+    const required = RULE_CONDITIONS.filter(c => rule.conditions?.[c.value]).map(c => c.label.toLowerCase());
+    return required.length > 0 ? `When: ${required.join(', ')}` : 'Always matches';
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl border border-blue-200/40 dark:border-blue-700/40 shadow-lg p-4 sm:p-6 transition-all duration-300">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-3 w-full text-left group"
+        >
+          <div className="p-2 rounded-xl bg-gradient-to-br from-green-500/20 to-emerald-500/20 group-hover:bg-green-500/30 transition-colors">
+            <ShieldCheck className="w-5 h-5 sm:w-6 sm:h-6 text-green-600 dark:text-green-400" />
+          </div>
+          <div>
+            <h3 className="text-lg sm:text-xl font-bold text-black dark:text-white flex items-center gap-2">
+              Auto-Approval Rules
+              <ChevronDown className={`w-5 h-5 transition-transform duration-300 ${isExpanded ? 'rotate-180' : ''}`} />
+            </h3>
+            <p className="text-xs sm:text-sm text-black/70 dark:text-gray-400">
+              Time slot selections are checked against these rules in order - the first match decides, otherwise a verifier reviews
+            </p>
+          </div>
+        </button>
+
+        <AnimatePresence initial={false}>
+          {isExpanded && (
+            <motion.div
+              initial={{ height: 0, opacity: 0 }}
+              animate={{ height: 'auto', opacity: 1 }}
+              exit={{ height: 0, opacity: 0 }}
+              transition={{ duration: 0.3, ease: 'easeInOut' }}
+              className="overflow-hidden"
+            >
+              <div className="space-y-3 pt-4 pb-2">
+                <div className="flex justify-end">
+                  <button
+                    onClick={() => openModal()}
+                    className="flex items-center gap-2 px-4 py-2.5 rounded-xl bg-blue-500 hover:bg-blue-600 text-white transition-colors text-sm font-bold shadow-sm hover:shadow-md"
+                  >
+                    <Plus className="w-5 h-5" />
+                    Add Rule
+                  </button>
+                </div>
+
+                {loading ? (
+                  <div className="text-center py-6 text-gray-500">Loading rules...</div>
+                ) : rules.length === 0 ? (
+                  <div className="text-center py-6 bg-gray-50 dark:bg-slate-800/50 rounded-xl border border-dashed border-gray-200 dark:border-slate-700 text-gray-500 dark:text-gray-400">
+                    No rules yet - every time slot selection waits for a verifier.
+                  </div>
+                ) : (
+                  rules.map(rule => (
+                    <div
+                      key={rule._id}
+                      className={`p-4 rounded-xl border border-gray-200 dark:border-slate-600 bg-gray-50 dark:bg-slate-700/30 flex items-start justify-between gap-3 ${rule.enabled ? '' : 'opacity-60'}`}
+                    >
+                      <div className="min-w-0">
+                        <div className="font-bold text-black dark:text-white flex items-center gap-2 flex-wrap">
+                          <span className="text-xs font-mono text-gray-400">#{rule.priority}</span>
+                          {rule.name}
+                          <span className={`px-2 py-0.5 rounded-lg text-xs font-medium ${rule.action === 'approve'
+                            ? 'bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-300'
+                            : 'bg-amber-100 text-amber-700 dark:bg-amber-500/20 dark:text-amber-300'}`}
+                          >
+                            {rule.action === 'approve' ? 'Auto-approve' : 'Needs review'}
+                          </span>
+                          {!rule.enabled && (
+                            <span className="px-2 py-0.5 rounded-lg text-xs font-medium bg-gray-200 text-gray-600 dark:bg-slate-600 dark:text-gray-300">Disabled</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{describeConditions(rule)}</div>
+                      </div>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <button
+                          onClick={() => handleToggle(rule)}
+                          className="px-2 py-1 text-xs font-medium text-gray-500 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                        >
+                          {rule.enabled ? 'Disable' : 'Enable'}
+                        </button>
+                        <button onClick={() => openModal(rule)} className="p-2 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => handleDelete(rule)} className="p-2 text-gray-400 hover:text-red-500 transition-colors">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      <AnimatePresence>
+        {showModal && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white dark:bg-slate-800 rounded-2xl p-6 max-w-lg w-full shadow-xl max-h-[85vh] overflow-y-auto custom-scrollbar"
+            >
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-xl font-bold text-black dark:text-white">{editingId ? 'Edit Rule' : 'New Rule'}</h3>
+                <button onClick={() => setShowModal(false)} className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              {formError && (
+                <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  {formError}
+                </div>
+              )}
+
+              <form onSubmit={handleSave} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-semibold text-black dark:text-white mb-2">Name *</label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="w-full px-4 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                    placeholder="e.g., Scheduled class confirmed after it ended"
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-semibold text-black dark:text-white mb-2">Action *</label>
+                    <select
+                      value={formData.action}
+                      onChange={(e) => setFormData({ ...formData, action: e.target.value as RuleAction })}
+                      className="w-full px-4 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="approve">Auto-approve</option>
+                      <option value="review">Require review</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-black dark:text-white mb-2">Priority</label>
+                    <input
+                      type="number"
+                      value={formData.priority}
+                      onChange={(e) => setFormData({ ...formData, priority: Number(e.target.value) })}
+                      className="w-full px-4 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-black dark:text-white mb-2">Matches when all of these hold</label>
+                  <div className="space-y-2">
+                    {RULE_CONDITIONS.map(condition => (
+                      <label key={condition.value} className="flex items-center gap-2 text-sm text-black dark:text-white">
+                        <input
+                          type="checkbox"
+                          checked={formData.conditions[condition.value]}
+                          onChange={(e) => setFormData({
+                            ...formData,
+                            conditions: { ...formData.conditions, [condition.value]: e.target.checked }
+                          })}
+                          className="w-4 h-4 rounded"
+                        />
+                        {condition.label}
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Leave all unchecked to match every request (e.g. a final "require review" rule).</p>
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-black dark:text-white">
+                  <input
+                    type="checkbox"
+                    checked={formData.enabled}
+                    onChange={(e) => setFormData({ ...formData, enabled: e.target.checked })}
+                    className="w-4 h-4 rounded"
+                  />
+                  Enabled
+                </label>
+
+                <div className="flex gap-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setShowModal(false)}
+                    className="flex-1 px-4 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 text-black dark:text-white font-semibold hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="flex-1 px-4 py-3 rounded-xl bg-blue-500 hover:bg-blue-600 text-white font-semibold transition-colors disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : editingId ? 'Save Changes' : 'Create'}
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
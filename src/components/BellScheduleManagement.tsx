@@ -0,0 +1,372 @@
+import { useState, useEffect } from 'react';
+import { Bell, ChevronDown, Plus, Edit2, Trash2, X, AlertCircle } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import api from '../services/api';
+import { WEEKDAY_LABELS, type BellSchedule } from '../utils/bellSchedule';
+
+interface PeriodForm {
+  name: string;
+  startTime: string;
+  endTime: string;
+}
+
+const emptyForm = () => ({
+  name: '',
+  batchId: '',
+  weekdays: [1, 2, 3, 4, 5, 6],
+  isActive: true,
+  periods: [{ name: '', startTime: '09:00', endTime: '10:00' }] as PeriodForm[]
+});
+
+export function BellScheduleManagement() {
+  const [schedules, setSchedules] = useState<BellSchedule[]>([]);
+  const [batches, setBatches] = useState<Array<{ _id: string; name: string; year: string }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [showModal, setShowModal] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadSchedules();
+    api.getBatches()
+      .then((res: any) => {
+        if (res?.success) setBatches(res.data || []);
+      })
+      .catch((err: any) => console.error('Error loading batches:', err));
+  }, []);
+
+  const loadSchedules = async () => {
+    try {
+      setLoading(true);
+      const response = await api.getBellSchedules();
+      if (response && response.success) {
+        setSchedules(response.data || []);
+      }
+    } catch (err) {
+      console.error('Error loading bell schedules:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openModal = (schedule?: BellSchedule) => {
+    setFormError(null);
+    if (schedule) {
+      setEditingId(schedule._id);
+      setFormData({
+        name: schedule.name,
+        batchId: schedule.batch?._id || '',
+        weekdays: schedule.weekdays,
+        isActive: schedule.isActive,
+        periods: schedule.periods.map(p => ({ name: p.name || '', startTime: p.startTime, endTime: p.endTime }))
+      });
+    } else {
+      setEditingId(null);
+      setFormData(emptyForm());
+    }
+    setShowModal(true);
+  };
+
+  const updatePeriod = (index: number, field: keyof PeriodForm, value: string) => {
+    const periods = [...formData.periods];
+    periods[index] = { ...periods[index], [field]: value };
+    setFormData({ ...formData, periods });
+  };
+
+  const addPeriod = () => {
+    const last = formData.periods[formData.periods.length - 1];
+    const start = last ? last.endTime : '09:00';
+    const [h, m] = start.split(':').map(Number);
+    const end = `${String(Math.min(23, h + 1)).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+    setFormData({ ...formData, periods: [...formData.periods, { name: '', startTime: start, endTime: end }] });
+  };
+
+  const toggleWeekday = (day: number) => {
+    const weekdays = formData.weekdays.includes(day)
+      ? formData.weekdays.filter(d => d !== day)
+      : [...formData.weekdays, day].sort();
+    setFormData({ ...formData, weekdays });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setFormError(null);
+    try {
+      const payload = {
+        name: formData.name,
+        batchId: formData.batchId || null,
+        weekdays: formData.weekdays,
+        isActive: formData.isActive,
+        periods: formData.periods
+      };
+      const response = editingId
+        ? await api.updateBellSchedule(editingId, payload)
+        : await api.createBellSchedule(payload);
+      if (response && response.success) {
+        setShowModal(false);
+        await loadSchedules();
+      } else {
+        setFormError(response?.message || 'Failed to save bell schedule');
+      }
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to save bell schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (schedule: BellSchedule) => {
+    if (!confirm(`Delete bell schedule "${schedule.name}"? Days already recorded keep their periods.`)) return;
+    try {
+      await api.deleteBellSchedule(schedule._id);
+      await loadSchedules();
+    } catch (err: any) {
+      alert(err.message || 'Failed to delete bell schedule');
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl border border-blue-200/40 dark:border-blue-700/40 shadow-lg p-4 sm:p-6 transition-all duration-300">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-3 w-full text-left group"
+        >
+          <div className="p-2 rounded-xl bg-gradient-to-br from-amber-500/20 to-orange-500/20 group-hover:bg-amber-500/30 transition-colors">
+            <Bell className="w-5 h-5 sm:w-6 sm:h-6 text-amber-600 dark:text-amber-400" />
+          </div>
+          <div>
+            <h3 className="text-lg sm:text-xl font-bold text-black dark:text-white flex items-center gap-2">
+              Bell Schedules
+              <ChevronDown className={`w-5 h-5 transition-transform duration-300 ${isExpanded ? 'rotate-180' : ''}`} />
+            </h3>
+            <p className="text-xs sm:text-sm text-black/70 dark:text-gray-400">
+              Periods teachers log each day (default 9:00 - 17:00 hourly when none is set)
+            </p>
+          </div>
+        </button>
+
+        <AnimatePresence initial={false}>
+          {isExpanded && (
+            <motion.div
+              initial={{ height: 0, opacity: 0 }}
+              animate={{ height: 'auto', opacity: 1 }}
+              exit={{ height: 0, opacity: 0 }}
+              transition={{ duration: 0.3, ease: 'easeInOut' }}
+              className="overflow-hidden"
+            >
+              <div className="space-y-3 pt-4 pb-2">
+                <div className="flex justify-end">
+                  <button
+                    onClick={() => openModal()}
+                    className="flex items-center gap-2 px-4 py-2.5 rounded-xl bg-blue-500 hover:bg-blue-600 text-white transition-colors text-sm font-bold shadow-sm hover:shadow-md"
+                  >
+                    <Plus className="w-5 h-5" />
+                    Add Schedule
+                  </button>
+                </div>
+
+                {loading ? (
+                  <div className="text-center py-6 text-gray-500">Loading bell schedules...</div>
+                ) : schedules.length === 0 ? (
+                  <div className="text-center py-6 bg-gray-50 dark:bg-slate-800/50 rounded-xl border border-dashed border-gray-200 dark:border-slate-700 text-gray-500 dark:text-gray-400">
+                    No bell schedules yet - the default hourly 9:00 - 17:00 day is used.
+                  </div>
+                ) : (
+                  schedules.map(schedule => (
+                    <div
+                      key={schedule._id}
+                      className={`p-4 rounded-xl border flex items-start justify-between gap-3 ${schedule.isActive
+                        ? 'border-gray-200 dark:border-slate-600 bg-gray-50 dark:bg-slate-700/30'
+                        : 'border-dashed border-gray-200 dark:border-slate-700 opacity-60'}`}
+                    >
+                      <div className="min-w-0">
+                        <div className="font-bold text-black dark:text-white">
+                          {schedule.name}
+                          {!schedule.isActive && <span className="ml-2 text-xs font-medium text-gray-500">(inactive)</span>}
+                        </div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          {schedule.batch ? `Batch: ${schedule.batch.name}` : 'College default'}
+                          {' · '}
+                          {schedule.weekdays.map(d => WEEKDAY_LABELS[d]).join(', ')}
+                        </div>
+                        <div className="flex flex-wrap gap-1.5 mt-2">
+                          {schedule.periods.map(p => (
+                            <span key={p.slotId} className="px-2 py-0.5 rounded-lg text-xs bg-blue-100 text-blue-700 dark:bg-blue-500/20 dark:text-blue-300">
+                              {p.name ? `${p.name}: ` : ''}{p.label}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <button onClick={() => openModal(schedule)} className="p-2 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+                          <Edit2 className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => handleDelete(schedule)} className="p-2 text-gray-400 hover:text-red-500 transition-colors">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      <AnimatePresence>
+        {showModal && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white dark:bg-slate-800 rounded-2xl p-6 max-w-lg w-full shadow-xl max-h-[85vh] overflow-y-auto custom-scrollbar"
+            >
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-xl font-bold text-black dark:text-white">{editingId ? 'Edit Bell Schedule' : 'New Bell Schedule'}</h3>
+                <button onClick={() => setShowModal(false)} className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              {formError && (
+                <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  {formError}
+                </div>
+              )}
+
+              <form onSubmit={handleSave} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-semibold text-black dark:text-white mb-2">Name *</label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="w-full px-4 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                    placeholder="e.g., Regular Day"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-black dark:text-white mb-2">Batch</label>
+                  <select
+                    value={formData.batchId}
+                    onChange={(e) => setFormData({ ...formData, batchId: e.target.value })}
+                    className="w-full px-4 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">College default (all batches)</option>
+                    {batches.map(b => (
+                      <option key={b._id} value={b._id}>{b.name} {b.year}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-black dark:text-white mb-2">Days</label>
+                  <div className="flex flex-wrap gap-2">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <button
+                        key={label}
+                        type="button"
+                        onClick={() => toggleWeekday(day)}
+                        className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${formData.weekdays.includes(day)
+                          ? 'bg-blue-500 text-white'
+                          : 'bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-gray-300'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-semibold text-black dark:text-white">Periods *</label>
+                    <button
+                      type="button"
+                      onClick={addPeriod}
+                      className="text-xs flex items-center gap-1 font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 transition-colors"
+                    >
+                      <Plus className="w-3 h-3" />
+                      Add Period
+                    </button>
+                  </div>
+                  <div className="space-y-2">
+                    {formData.periods.map((period, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={period.name}
+                          onChange={(e) => updatePeriod(index, 'name', e.target.value)}
+                          placeholder={`Period ${index + 1}`}
+                          className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 text-black dark:text-white text-sm"
+                        />
+                        <input
+                          type="time"
+                          value={period.startTime}
+                          onChange={(e) => updatePeriod(index, 'startTime', e.target.value)}
+                          className="px-2 py-2 rounded-lg bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 text-black dark:text-white text-sm"
+                          required
+                        />
+                        <span className="text-gray-400">–</span>
+                        <input
+                          type="time"
+                          value={period.endTime}
+                          onChange={(e) => updatePeriod(index, 'endTime', e.target.value)}
+                          className="px-2 py-2 rounded-lg bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 text-black dark:text-white text-sm"
+                          required
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setFormData({ ...formData, periods: formData.periods.filter((_, i) => i !== index) })}
+                          disabled={formData.periods.length === 1}
+                          className="p-2 text-gray-400 hover:text-red-500 disabled:opacity-30 transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-black dark:text-white">
+                  <input
+                    type="checkbox"
+                    checked={formData.isActive}
+                    onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                  />
+                  Active
+                </label>
+
+                <div className="flex gap-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setShowModal(false)}
+                    className="flex-1 px-4 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 text-black dark:text-white font-semibold hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saving || formData.weekdays.length === 0}
+                    className="flex-1 px-4 py-3 rounded-xl bg-blue-500 hover:bg-blue-600 text-white font-semibold transition-colors disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : editingId ? 'Save Changes' : 'Create'}
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
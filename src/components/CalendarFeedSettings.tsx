@@ -0,0 +1,147 @@
+import { useState, useEffect } from 'react';
+import { CalendarPlus, Copy, Check, RefreshCw, Trash2, AlertCircle } from 'lucide-react';
+import api from '../services/api';
+
+export function CalendarFeedSettings() {
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadFeed();
+  }, []);
+
+  const loadFeed = async () => {
+    try {
+      setLoading(true);
+      const response = await api.getCalendarFeed();
+      if (response && response.success) {
+        setToken(response.data?.token || null);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load calendar feed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (token && !confirm('Create a new link? Calendars subscribed to the current link will stop updating.')) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await api.createCalendarFeed();
+      if (response && response.success) {
+        setToken(response.data.token);
+        setCopied(false);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to create calendar feed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!confirm('Revoke this link? Calendars subscribed to it will stop updating.')) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await api.revokeCalendarFeed();
+      if (response && response.success) {
+        setToken(null);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to revoke calendar feed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const feedUrl = token ? api.getCalendarFeedUrl(token) : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError('Could not copy the link; select it and copy manually');
+    }
+  };
+
+  return (
+    <div className="p-4 sm:p-5 bg-white dark:bg-slate-800 rounded-xl border border-blue-200/40 dark:border-blue-700/40 shadow-sm">
+      <div className="flex items-center gap-3 sm:gap-4 mb-3">
+        <div className="w-10 h-10 sm:w-12 sm:h-12 rounded-xl flex items-center justify-center flex-shrink-0 bg-gradient-to-br from-blue-500/20 to-indigo-500/20">
+          <CalendarPlus className="w-5 h-5 sm:w-6 sm:h-6 text-blue-600" />
+        </div>
+        <div className="text-left flex-1 min-w-0">
+          <div className="text-base sm:text-lg font-semibold text-black dark:text-white">Calendar Subscription</div>
+          <div className="text-xs sm:text-sm text-black/60 dark:text-slate-400 font-medium mt-0.5">
+            Add this private link to Google, Apple or Outlook calendar to keep your timetable in sync
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading...</p>
+      ) : token ? (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              readOnly
+              value={feedUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-gray-100 dark:bg-slate-700 border border-gray-300 dark:border-slate-600 text-black dark:text-white text-xs font-mono"
+            />
+            <button
+              onClick={handleCopy}
+              className="p-2 rounded-lg bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
+              title="Copy link"
+            >
+              {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">Anyone with this link can see your timetable. Revoke it if it has been shared.</p>
+          <div className="flex gap-2">
+            <button
+              onClick={handleCreate}
+              disabled={saving}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-gray-200 text-sm font-medium hover:bg-gray-200 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors"
+            >
+              <RefreshCw className="w-4 h-4" />
+              New link
+            </button>
+            <button
+              onClick={handleRevoke}
+              disabled={saving}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-red-600 dark:text-red-400 text-sm font-medium hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+              Revoke
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={handleCreate}
+          disabled={saving}
+          className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {saving ? 'Creating...' : 'Create subscription link'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { CalendarClock } from 'lucide-react';
+
+export type ForecastRisk = 'completed' | 'low' | 'medium' | 'high' | 'unknown';
+
+export interface SubjectForecast {
+  subjectId: string;
+  subject: string;
+  batchId: string | null;
+  batch: string;
+  totalUnits: number;
+  completedUnits: number;
+  remainingUnits: number;
+  unitsPerWeek: number | null;
+  paceRatio: number | null; // actual / planned hours on completed units
+  hoursNeeded: number | null;
+  scheduledHours: number;
+  projectedDate: string | null;
+  nextExam: { name: string; examDate: string } | null;
+  risk: ForecastRisk;
+  reason: string;
+}
+
+export interface BatchForecast {
+  batchId: string | null;
+  batch: string;
+  subjects: number;
+  atRisk: number;
+  risk: ForecastRisk;
+  projectedDate: string | null;
+}
+
+export interface CompletionForecastData {
+  subjects: SubjectForecast[];
+  batches: BatchForecast[];
+}
+
+interface CompletionForecastProps {
+  data: CompletionForecastData | null;
+}
+
+export const FORECAST_RISK_LABELS: Record<ForecastRisk, string> = {
+  completed: 'Completed',
+  low: 'On track',
+  medium: 'Tight',
+  high: 'At risk',
+  unknown: 'No estimate'
+};
+
+const RISK_STYLES: Record<ForecastRisk, string> = {
+  completed: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  low: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  medium: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  high: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  unknown: 'bg-gray-100 text-gray-600 dark:bg-slate-700 dark:text-gray-300'
+};
+
+export const formatForecastDate = (value: string | null) => value ? new Date(value).toLocaleDateString() : '-';
+
+const RiskBadge = ({ risk }: { risk: ForecastRisk }) => (
+  <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold ${RISK_STYLES[risk]}`}>
+    {FORECAST_RISK_LABELS[risk]}
+  </span>
+);
+
+export function CompletionForecast({ data }: CompletionForecastProps) {
+  if (!data || data.subjects.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl border border-gray-200 dark:border-slate-700/50 shadow-xl p-4 sm:p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <CalendarClock className="w-5 h-5 text-gray-700 dark:text-white" />
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Completion Forecast</h2>
+      </div>
+
+      {data.batches.length > 1 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 mb-4 text-sm">
+          {data.batches.map(batch => (
+            <div key={batch.batchId || 'none'} className="p-3 rounded-xl bg-gray-50 dark:bg-slate-700/50">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-gray-900 dark:text-white">{batch.batch || 'No batch'}</span>
+                <RiskBadge risk={batch.risk} />
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {batch.atRisk} of {batch.subjects} subject{batch.subjects === 1 ? '' : 's'} at risk · finishes {formatForecastDate(batch.projectedDate)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-slate-700">
+              <th className="py-2 pr-3 font-medium">Subject</th>
+              <th className="py-2 pr-3 font-medium">Batch</th>
+              <th className="py-2 pr-3 font-medium text-right">Units left</th>
+              <th className="py-2 pr-3 font-medium text-right">Pace</th>
+              <th className="py-2 pr-3 font-medium text-right">Hours needed</th>
+              <th className="py-2 pr-3 font-medium text-right">Hours scheduled</th>
+              <th className="py-2 pr-3 font-medium">Projected</th>
+              <th className="py-2 pr-3 font-medium">Next exam</th>
+              <th className="py-2 pr-3 font-medium">Risk</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.subjects.map(row => (
+              <tr key={row.subjectId} className="border-b border-gray-100 dark:border-slate-700/50 text-gray-800 dark:text-gray-200">
+                <td className="py-2 pr-3">{row.subject}</td>
+                <td className="py-2 pr-3">{row.batch || '-'}</td>
+                <td className="py-2 pr-3 text-right tabular-nums">{row.remainingUnits} / {row.totalUnits}</td>
+                <td className="py-2 pr-3 text-right tabular-nums">{row.unitsPerWeek != null ? `${row.unitsPerWeek}/wk` : '-'}</td>
+                <td className="py-2 pr-3 text-right tabular-nums">{row.hoursNeeded != null ? `${row.hoursNeeded.toFixed(1)}h` : '-'}</td>
+                <td className="py-2 pr-3 text-right tabular-nums">{row.scheduledHours.toFixed(1)}h</td>
+                <td className="py-2 pr-3 whitespace-nowrap">{formatForecastDate(row.projectedDate)}</td>
+                <td className="py-2 pr-3 whitespace-nowrap">
+                  {row.nextExam ? `${row.nextExam.name} (${formatForecastDate(row.nextExam.examDate)})` : '-'}
+                </td>
+                <td className="py-2 pr-3" title={row.reason}>
+                  <RiskBadge risk={row.risk} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+        Hours needed: remaining units' planned hours at the pace completed units were taught, less hours already taught. Projected: the day the remaining timetable classes cover them.
+      </p>
+    </div>
+  );
+}
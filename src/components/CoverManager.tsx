@@ -0,0 +1,192 @@
+import { useState, useEffect } from 'react';
+import { UserCheck, AlertCircle, CheckCircle, Loader2, X } from 'lucide-react';
+import api from '../services/api';
+
+interface CoverClass {
+  entryId: string;
+  date: string;
+  teacher: { _id: string; name: string; email: string };
+  subjectName: string;
+  batch: string;
+  slotIds: string[];
+  slotLabels: string[];
+  leave: { duration: 'full' | 'half'; session?: string | null } | null;
+  coveredBy: { _id: string; name: string; email: string } | null;
+}
+
+interface FreeTeacher {
+  teacherId: string;
+  teacherName: string;
+  teacherEmail: string;
+}
+
+const toInputDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export function CoverManager() {
+  const [date, setDate] = useState(toInputDate(new Date()));
+  const [classes, setClasses] = useState<CoverClass[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+  // entryId -> teachers free in that class's periods
+  const [freeTeachers, setFreeTeachers] = useState<Record<string, FreeTeacher[]>>({});
+  const [selectedSubstitute, setSelectedSubstitute] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadClasses();
+  }, [date]);
+
+  const loadClasses = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await api.getCoverClasses(date);
+      if (response && response.success) {
+        const list: CoverClass[] = response.data || [];
+        setClasses(list);
+        const open = list.filter(c => !c.coveredBy);
+        const lookups = await Promise.all(open.map(c => api.getAvailableTeachers(null, { date, slotIds: c.slotIds })));
+        setFreeTeachers(Object.fromEntries(open.map((c, i) => [
+          c.entryId,
+          (lookups[i]?.data || []).filter((t: FreeTeacher) => t.teacherId !== c.teacher._id)
+        ])));
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load classes needing cover');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAssign = async (item: CoverClass) => {
+    const substituteId = selectedSubstitute[item.entryId];
+    if (!substituteId) return;
+    setSavingId(item.entryId);
+    setError(null);
+    setResultMessage(null);
+    try {
+      const response = await api.assignCover(item.entryId, substituteId);
+      if (response && response.success) {
+        setResultMessage(response.message || 'Substitute assigned');
+        await loadClasses();
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to assign substitute');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleRemove = async (item: CoverClass) => {
+    if (!confirm(`Remove ${item.coveredBy?.name} as substitute? The class goes back to ${item.teacher.name}.`)) return;
+    setSavingId(item.entryId);
+    setError(null);
+    setResultMessage(null);
+    try {
+      const response = await api.removeCover(item.entryId);
+      if (response && response.success) {
+        setResultMessage('Cover removed');
+        await loadClasses();
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove cover');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const inputClass = 'px-3 py-2 rounded-lg bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 text-black dark:text-white text-sm';
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden mt-6">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-black dark:text-white mb-1 flex items-center gap-2">
+            <UserCheck className="w-5 h-5 text-blue-500" />
+            Cover Classes
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Classes of teachers on leave. A substitute takes the class for that date only.
+          </p>
+        </div>
+        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+      </div>
+
+      <div className="p-6 space-y-3">
+        {resultMessage && (
+          <div className="flex items-center gap-2 p-3 rounded-xl bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-800 dark:text-green-200 text-sm">
+            <CheckCircle className="w-5 h-5 flex-shrink-0" />
+            {resultMessage}
+          </div>
+        )}
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 text-sm">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          </div>
+        ) : classes.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">No classes need cover on this date.</p>
+        ) : (
+          classes.map(item => (
+            <div
+              key={item.entryId}
+              className={`p-4 rounded-xl border flex flex-col sm:flex-row sm:items-center gap-3 ${item.coveredBy
+                ? 'border-green-200 dark:border-green-800 bg-green-50/50 dark:bg-green-900/10'
+                : 'border-amber-200 dark:border-amber-800 bg-amber-50/50 dark:bg-amber-900/10'}`}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold text-black dark:text-white">
+                  {item.subjectName || 'Class'}{item.batch ? ` · ${item.batch}` : ''}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                  {item.teacher?.name}{item.leave ? ` (on ${item.leave.duration === 'full' ? 'leave' : 'half-day leave'})` : ''} · {item.slotLabels.join(', ')}
+                </p>
+              </div>
+              {item.coveredBy ? (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-green-700 dark:text-green-300">Covered by {item.coveredBy.name}</span>
+                  <button
+                    onClick={() => handleRemove(item)}
+                    disabled={savingId === item.entryId}
+                    className="p-2 text-gray-400 hover:text-red-500 disabled:opacity-50 transition-colors"
+                    title="Remove substitute"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <select
+                    value={selectedSubstitute[item.entryId] || ''}
+                    onChange={(e) => setSelectedSubstitute({ ...selectedSubstitute, [item.entryId]: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">{(freeTeachers[item.entryId] || []).length === 0 ? 'No free teachers' : 'Select substitute'}</option>
+                    {(freeTeachers[item.entryId] || []).map(t => (
+                      <option key={t.teacherId} value={t.teacherId}>{t.teacherName}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleAssign(item)}
+                    disabled={!selectedSubstitute[item.entryId] || savingId === item.entryId}
+                    className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                  >
+                    {savingId === item.entryId ? 'Saving...' : 'Assign'}
+                  </button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { ChevronLeft, BookOpen, Layers, CheckCircle2, Circle, AlertCircle, Trash2 } from 'lucide-react';
 import { motion } from 'motion/react';
 import api from '../services/api';
+import { ExamScheduler } from './ExamScheduler';
 
 interface ExamPageProps {
     user: any;
@@ -35,6 +36,14 @@ interface Unit {
     taughtBy?: {
         name: string;
     };
+    examMarkedBy?: { name: string } | null;
+    examMarkedAt?: string | null;
+    examHistory?: {
+        isFinished: boolean;
+        changedBy?: { name: string } | null;
+        changedAt: string;
+        note?: string;
+    }[];
 }
 
 export function ExamPage({ user, isDarkMode = false, onBack }: ExamPageProps) {
@@ -142,7 +151,8 @@ export function ExamPage({ user, isDarkMode = false, onBack }: ExamPageProps) {
             const response = await api.toggleExamStatus(unitId, newStatus);
 
             if (response.success) {
-                // Keep optimistic state.
+                // Reload for who/when changed it
+                await loadUnits(selectedSubjectId);
             } else {
                 // 3. Revert on failure
                 console.error('Failed to toggle exam status:', response.message);
@@ -157,7 +167,7 @@ export function ExamPage({ user, isDarkMode = false, onBack }: ExamPageProps) {
             setUnits(prev => prev.map(u =>
                 u._id === unitId ? { ...u, isExamFinished: currentStatus } : u
             ));
-            alert('Network error: Failed to save status');
+            alert(err.message || 'Network error: Failed to save status');
         }
     };
 
@@ -270,6 +280,13 @@ export function ExamPage({ user, isDarkMode = false, onBack }: ExamPageProps) {
                 </div>
             </div>
 
+            {/* Scheduled exams and their portion readiness; only verifiers schedule, admin is read-only */}
+            <ExamScheduler
+                batchId={selectedBatchId}
+                subjects={subjects}
+                canEdit={(user?.role || '').toLowerCase() === 'verifier'}
+            />
+
             {/* Units List */}
             {selectedSubjectId && (
                 <motion.div
@@ -302,6 +319,17 @@ export function ExamPage({ user, isDarkMode = false, onBack }: ExamPageProps) {
                                                 Teaching not completed
                                             </p>
                                         )}
+                                        {unit.examMarkedAt && (
+                                            <p
+                                                className="text-xs text-gray-500 dark:text-gray-400 ml-9"
+                                                title={(unit.examHistory || []).map(change =>
+                                                    `${new Date(change.changedAt).toLocaleString()}: ${change.isFinished ? 'finished' : 'reopened'} by ${change.changedBy?.name || 'unknown'}${change.note ? ` (${change.note})` : ''}`
+                                                ).join('\n')}
+                                            >
+                                                Exam {unit.isExamFinished ? 'marked finished (unit locked)' : 'reopened'} by {unit.examMarkedBy?.name || 'unknown'} on {new Date(unit.examMarkedAt).toLocaleDateString()}
+                                                {(unit.examHistory?.length || 0) > 1 && ` · ${unit.examHistory!.length} changes`}
+                                            </p>
+                                        )}
                                     </div>
                                     <div className="flex items-center gap-3">
                                         {(() => {
@@ -0,0 +1,413 @@
+import { useState, useEffect } from 'react';
+import { CalendarClock, AlertTriangle, CheckCircle2, Plus, Pencil, Trash2, X, Save } from 'lucide-react';
+import api from '../services/api';
+
+interface ExamSchedulerProps {
+    batchId: string;
+    subjects: { _id: string; name: string }[];
+    canEdit: boolean;
+}
+
+type ExamType = 'internal' | 'model' | 'final';
+
+interface PendingUnit {
+    _id: string;
+    name: string;
+    order: number;
+    subjectName: string;
+    status: 'in-progress' | 'not-started';
+}
+
+interface Exam {
+    _id: string;
+    name: string;
+    type: ExamType;
+    examDate: string;
+    batch?: { _id: string; name: string; year?: string };
+    subjects: { _id: string; name: string }[];
+    portion: { _id: string; name: string; order: number; subject: string }[];
+    daysUntil: number;
+    readiness: {
+        totalUnits: number;
+        completedUnits: number;
+        inProgressUnits: number;
+        notStartedUnits: number;
+        percent: number;
+        ready: boolean;
+    };
+    pendingUnits: PendingUnit[];
+}
+
+interface PortionUnit {
+    _id: string;
+    name: string;
+    order: number;
+}
+
+interface ExamForm {
+    name: string;
+    type: ExamType;
+    examDate: string;
+    subjectIds: string[];
+    unitIds: string[];
+}
+
+const EXAM_TYPE_LABELS: Record<ExamType, string> = {
+    internal: 'Internal',
+    model: 'Model',
+    final: 'Final'
+};
+
+const emptyForm: ExamForm = { name: '', type: 'internal', examDate: '', subjectIds: [], unitIds: [] };
+
+const formatDays = (days: number) => {
+    if (days < 0) return `${Math.abs(days)} day${days === -1 ? '' : 's'} ago`;
+    if (days === 0) return 'today';
+    return `in ${days} day${days === 1 ? '' : 's'}`;
+};
+
+export function ExamScheduler({ batchId, subjects, canEdit }: ExamSchedulerProps) {
+    const [exams, setExams] = useState<Exam[]>([]);
+    const [atRisk, setAtRisk] = useState<Exam[]>([]);
+    const [unitsBySubject, setUnitsBySubject] = useState<Record<string, PortionUnit[]>>({});
+    const [form, setForm] = useState<ExamForm | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadAtRisk();
+    }, []);
+
+    useEffect(() => {
+        setForm(null);
+        setEditingId(null);
+        setUnitsBySubject({});
+        if (batchId) {
+            loadExams();
+        } else {
+            setExams([]);
+        }
+    }, [batchId]);
+
+    const loadExams = async () => {
+        try {
+            const response = await api.getExams(batchId);
+            if (response.success) {
+                setExams(response.data);
+            }
+        } catch (err: any) {
+            setError(err.message || 'Failed to load exams');
+        }
+    };
+
+    const loadAtRisk = async () => {
+        try {
+            const response = await api.getAtRiskExams();
+            if (response.success) {
+                setAtRisk(response.data);
+            }
+        } catch (err: any) {
+            setError(err.message || 'Failed to load at-risk exams');
+        }
+    };
+
+    const loadPortionUnits = async (subjectId: string) => {
+        if (unitsBySubject[subjectId]) return;
+        try {
+            const response = await api.getExamUnits(subjectId);
+            if (response.success) {
+                setUnitsBySubject(prev => ({ ...prev, [subjectId]: response.data }));
+            }
+        } catch (err: any) {
+            setError(err.message || 'Failed to load units');
+        }
+    };
+
+    const openForm = (exam?: Exam) => {
+        setError(null);
+        if (exam) {
+            const subjectIds = exam.subjects.map(subject => subject._id);
+            setEditingId(exam._id);
+            setForm({
+                name: exam.name,
+                type: exam.type,
+                examDate: exam.examDate.slice(0, 10),
+                subjectIds,
+                unitIds: exam.portion.map(unit => unit._id)
+            });
+            subjectIds.forEach(loadPortionUnits);
+        } else {
+            setEditingId(null);
+            setForm({ ...emptyForm });
+        }
+    };
+
+    const toggleSubject = (subjectId: string) => {
+        if (!form) return;
+        if (form.subjectIds.includes(subjectId)) {
+            const subjectUnitIds = (unitsBySubject[subjectId] || []).map(unit => unit._id);
+            setForm({
+                ...form,
+                subjectIds: form.subjectIds.filter(id => id !== subjectId),
+                unitIds: form.unitIds.filter(id => !subjectUnitIds.includes(id))
+            });
+        } else {
+            setForm({ ...form, subjectIds: [...form.subjectIds, subjectId] });
+            loadPortionUnits(subjectId);
+        }
+    };
+
+    const toggleUnit = (unitId: string) => {
+        if (!form) return;
+        setForm({
+            ...form,
+            unitIds: form.unitIds.includes(unitId)
+                ? form.unitIds.filter(id => id !== unitId)
+                : [...form.unitIds, unitId]
+        });
+    };
+
+    const handleSave = async () => {
+        if (!form) return;
+        try {
+            setSaving(true);
+            setError(null);
+            const payload = { ...form, batchId };
+            const response = editingId
+                ? await api.updateExam(editingId, payload)
+                : await api.createExam(payload);
+            if (response.success) {
+                setForm(null);
+                setEditingId(null);
+                await Promise.all([loadExams(), loadAtRisk()]);
+            } else {
+                setError(response.message || 'Failed to save exam');
+            }
+        } catch (err: any) {
+            setError(err.message || 'Failed to save exam');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (exam: Exam) => {
+        if (!window.confirm(`Delete the exam "${exam.name}"?`)) return;
+        try {
+            const response = await api.deleteExam(exam._id);
+            if (response.success) {
+                await Promise.all([loadExams(), loadAtRisk()]);
+            } else {
+                setError(response.message || 'Failed to delete exam');
+            }
+        } catch (err: any) {
+            setError(err.message || 'Failed to delete exam');
+        }
+    };
+
+    const renderReadiness = (exam: Exam) => (
+        <div className="mt-2">
+            <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400 mb-1">
+                <span>
+                    {exam.readiness.completedUnits}/{exam.readiness.totalUnits} portion units completed
+                    {exam.readiness.inProgressUnits > 0 && ` · ${exam.readiness.inProgressUnits} in progress`}
+                </span>
+                <span className="font-medium">{exam.readiness.percent}%</span>
+            </div>
+            <div className="h-2 rounded-full bg-gray-100 dark:bg-slate-700 overflow-hidden">
+                <div
+                    className={`h-full rounded-full ${exam.readiness.ready ? 'bg-green-500' : exam.readiness.percent >= 50 ? 'bg-amber-500' : 'bg-red-500'}`}
+                    style={{ width: `${exam.readiness.percent}%` }}
+                />
+            </div>
+            {exam.pendingUnits.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                    {exam.pendingUnits.map(unit => (
+                        <li key={unit._id} className="text-xs flex items-center gap-2 text-gray-600 dark:text-gray-300">
+                            <span className={`w-2 h-2 rounded-full ${unit.status === 'in-progress' ? 'bg-amber-500' : 'bg-red-500'}`} />
+                            {unit.subjectName && <span className="text-gray-400">{unit.subjectName} ·</span>}
+                            {unit.name}
+                            <span className="text-gray-400">({unit.status === 'in-progress' ? 'in progress' : 'not started'})</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="space-y-6 mb-8">
+            {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-800 dark:text-red-200">
+                    {error}
+                </div>
+            )}
+
+            {/* At-risk exams across all batches */}
+            {atRisk.length > 0 && (
+                <div className="bg-amber-50 dark:bg-amber-900/20 p-4 rounded-xl border border-amber-200 dark:border-amber-800">
+                    <h3 className="font-semibold text-amber-900 dark:text-amber-200 flex items-center gap-2 mb-3">
+                        <AlertTriangle className="w-4 h-4" />
+                        At-risk exams ({atRisk.length})
+                    </h3>
+                    <div className="space-y-3">
+                        {atRisk.map(exam => (
+                            <div key={exam._id} className="bg-white dark:bg-slate-800 p-3 rounded-lg border border-amber-100 dark:border-amber-900/40">
+                                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                                    {exam.name}
+                                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
+                                        {exam.batch?.name} · {EXAM_TYPE_LABELS[exam.type]} · {new Date(exam.examDate).toLocaleDateString()} ({formatDays(exam.daysUntil)})
+                                    </span>
+                                </p>
+                                {renderReadiness(exam)}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {batchId && (
+                <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm">
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+                            <CalendarClock className="w-4 h-4 text-blue-500" />
+                            Exams
+                        </h3>
+                        {canEdit && !form && (
+                            <button
+                                onClick={() => openForm()}
+                                className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                            >
+                                <Plus className="w-4 h-4" />
+                                Schedule exam
+                            </button>
+                        )}
+                    </div>
+
+                    {form && (
+                        <div className="mb-4 p-4 rounded-lg border border-blue-200 dark:border-blue-800 bg-blue-50/50 dark:bg-blue-900/10 space-y-3">
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                                <input
+                                    value={form.name}
+                                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                                    placeholder="Exam name"
+                                    className="p-2 rounded-lg bg-white dark:bg-slate-700 border border-gray-200 dark:border-gray-600 text-sm text-gray-900 dark:text-white"
+                                />
+                                <select
+                                    value={form.type}
+                                    onChange={(e) => setForm({ ...form, type: e.target.value as ExamType })}
+                                    className="p-2 rounded-lg bg-white dark:bg-slate-700 border border-gray-200 dark:border-gray-600 text-sm text-gray-900 dark:text-white"
+                                >
+                                    {(Object.keys(EXAM_TYPE_LABELS) as ExamType[]).map(type => (
+                                        <option key={type} value={type}>{EXAM_TYPE_LABELS[type]}</option>
+                                    ))}
+                                </select>
+                                <input
+                                    type="date"
+                                    value={form.examDate}
+                                    onChange={(e) => setForm({ ...form, examDate: e.target.value })}
+                                    className="p-2 rounded-lg bg-white dark:bg-slate-700 border border-gray-200 dark:border-gray-600 text-sm text-gray-900 dark:text-white"
+                                />
+                            </div>
+
+                            <div>
+                                <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Subjects</p>
+                                <div className="flex flex-wrap gap-2">
+                                    {subjects.map(subject => (
+                                        <label key={subject._id} className="flex items-center gap-1.5 text-sm text-gray-700 dark:text-gray-300">
+                                            <input
+                                                type="checkbox"
+                                                checked={form.subjectIds.includes(subject._id)}
+                                                onChange={() => toggleSubject(subject._id)}
+                                            />
+                                            {subject.name}
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {form.subjectIds.map(subjectId => (
+                                <div key={subjectId}>
+                                    <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                                        Portion: {subjects.find(subject => subject._id === subjectId)?.name}
+                                    </p>
+                                    <div className="flex flex-wrap gap-2">
+                                        {(unitsBySubject[subjectId] || []).map(unit => (
+                                            <label key={unit._id} className="flex items-center gap-1.5 text-sm text-gray-700 dark:text-gray-300">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={form.unitIds.includes(unit._id)}
+                                                    onChange={() => toggleUnit(unit._id)}
+                                                />
+                                                {unit.order}. {unit.name}
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+
+                            <div className="flex justify-end gap-2">
+                                <button
+                                    onClick={() => { setForm(null); setEditingId(null); }}
+                                    className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300"
+                                >
+                                    <X className="w-4 h-4" />
+                                    Cancel
+                                </button>
+                                <button
+                                    onClick={handleSave}
+                                    disabled={saving}
+                                    className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                                >
+                                    <Save className="w-4 h-4" />
+                                    {saving ? 'Saving...' : editingId ? 'Update exam' : 'Save exam'}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    {exams.length > 0 ? (
+                        <div className="space-y-3">
+                            {exams.map(exam => (
+                                <div key={exam._id} className="p-3 rounded-lg border border-gray-100 dark:border-gray-700">
+                                    <div className="flex items-start justify-between gap-3">
+                                        <div>
+                                            <p className="text-sm font-medium text-gray-900 dark:text-white flex items-center gap-2">
+                                                {exam.name}
+                                                {exam.readiness.ready && <CheckCircle2 className="w-4 h-4 text-green-500" />}
+                                            </p>
+                                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                                                {EXAM_TYPE_LABELS[exam.type]} · {new Date(exam.examDate).toLocaleDateString()} ({formatDays(exam.daysUntil)}) · {exam.subjects.map(subject => subject.name).join(', ')}
+                                            </p>
+                                        </div>
+                                        {canEdit && (
+                                            <div className="flex gap-1">
+                                                <button
+                                                    onClick={() => openForm(exam)}
+                                                    className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-slate-700"
+                                                    title="Edit exam"
+                                                >
+                                                    <Pencil className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() => handleDelete(exam)}
+                                                    className="p-1.5 rounded-lg text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20"
+                                                    title="Delete exam"
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+                                    {renderReadiness(exam)}
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">No exams scheduled for this batch</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
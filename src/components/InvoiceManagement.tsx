@@ -0,0 +1,400 @@
+import { useState, useEffect } from 'react';
+import { Receipt, ChevronDown, FileText, FileSpreadsheet, CheckCircle, Banknote, XCircle, AlertCircle } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import api from '../services/api';
+import {
+  Invoice,
+  InvoiceStatus,
+  formatAmount,
+  downloadInvoicePdf,
+  downloadInvoicesXlsx
+} from '../utils/invoiceExport';
+
+interface PayPeriodOption {
+  _id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  status: 'open' | 'closed';
+}
+
+interface Payable {
+  teacher: { _id: string; name: string; email: string };
+  hours: number;
+  slots: number;
+  hourlyRate: number;
+  amount: number;
+  invoice: { _id: string; number: string; status: InvoiceStatus; amount: number } | null;
+}
+
+const STATUS_STYLES: Record<InvoiceStatus, string> = {
+  issued: 'bg-blue-100 text-blue-700 dark:bg-blue-500/20 dark:text-blue-300',
+  approved: 'bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-200',
+  paid: 'bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-300',
+  cancelled: 'bg-gray-200 text-gray-600 dark:bg-slate-600 dark:text-gray-300'
+};
+
+function InvoiceStatusBadge({ status }: { status: InvoiceStatus }) {
+  return (
+    <span className={`px-2 py-0.5 rounded-lg text-xs font-medium capitalize ${STATUS_STYLES[status]}`}>{status}</span>
+  );
+}
+
+/**
+ * Admin: payable hours of visiting faculty per pay period, invoice generation and payment status
+ */
+export function InvoiceManagement() {
+  const [periods, setPeriods] = useState<PayPeriodOption[]>([]);
+  const [periodId, setPeriodId] = useState('');
+  const [payables, setPayables] = useState<Payable[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isExpanded && periods.length === 0) loadPeriods();
+  }, [isExpanded]);
+
+  useEffect(() => {
+    if (periodId) loadPeriodData();
+  }, [periodId]);
+
+  const loadPeriods = async () => {
+    try {
+      const response = await api.getPayPeriods();
+      if (response && response.success) {
+        const list: PayPeriodOption[] = response.data || [];
+        setPeriods(list);
+        const firstClosed = list.find(p => p.status === 'closed') || list[0];
+        if (firstClosed) setPeriodId(firstClosed._id);
+      }
+    } catch (err) {
+      console.error('Error loading pay periods:', err);
+    }
+  };
+
+  const loadPeriodData = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [payablesResponse, invoicesResponse] = await Promise.all([
+        api.getPayables(periodId),
+        api.getInvoices({ payPeriodId: periodId })
+      ]);
+      setPayables(payablesResponse?.data || []);
+      setInvoices(invoicesResponse?.data || []);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load invoices');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const period = periods.find(p => p._id === periodId) || null;
+  const pendingCount = payables.filter(p => !p.invoice && p.hours > 0 && p.hourlyRate > 0).length;
+
+  const handleGenerate = async () => {
+    if (!period) return;
+    if (!confirm(`Generate ${pendingCount} invoice${pendingCount !== 1 ? 's' : ''} for "${period.name}"?`)) return;
+    setGenerating(true);
+    setError(null);
+    try {
+      const response = await api.generateInvoices(period._id);
+      const skipped = response?.data?.skipped || [];
+      const notes = skipped
+        .filter((s: { reason: string }) => !s.reason.startsWith('already invoiced'))
+        .map((s: { teacher: string; reason: string }) => `${s.teacher}: ${s.reason}`);
+      alert([response?.message, ...notes].filter(Boolean).join('\n'));
+      await loadPeriodData();
+    } catch (err: any) {
+      setError(err.message || 'Failed to generate invoices');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleStatus = async (invoice: Invoice, status: InvoiceStatus) => {
+    let details: { paymentReference?: string; note?: string } = {};
+    if (status === 'paid') {
+      const reference = prompt(`Payment reference for ${invoice.number} (optional)`);
+      if (reference === null) return;
+      details = { paymentReference: reference.trim() };
+    } else if (status === 'cancelled') {
+      const note = prompt(`Why is ${invoice.number} being cancelled? The period can then be invoiced again.`);
+      if (note === null) return;
+      details = { note: note.trim() };
+    }
+    setBusyId(invoice._id);
+    try {
+      await api.updateInvoiceStatus(invoice._id, status, details);
+      await loadPeriodData();
+    } catch (err: any) {
+      alert(err.message || 'Failed to update invoice');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl border border-blue-200/40 dark:border-blue-700/40 shadow-lg p-4 sm:p-6 transition-all duration-300">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-3 w-full text-left group"
+        >
+          <div className="p-2 rounded-xl bg-gradient-to-br from-emerald-500/20 to-teal-500/20 group-hover:bg-emerald-500/30 transition-colors">
+            <Receipt className="w-5 h-5 sm:w-6 sm:h-6 text-emerald-600 dark:text-emerald-400" />
+          </div>
+          <div>
+            <h3 className="text-lg sm:text-xl font-bold text-black dark:text-white flex items-center gap-2">
+              Visiting Faculty Invoices
+              <ChevronDown className={`w-5 h-5 transition-transform duration-300 ${isExpanded ? 'rotate-180' : ''}`} />
+            </h3>
+            <p className="text-xs sm:text-sm text-black/70 dark:text-gray-400">
+              Approved hours after breaks × hourly rate, invoiced per closed pay period
+            </p>
+          </div>
+        </button>
+
+        <AnimatePresence initial={false}>
+          {isExpanded && (
+            <motion.div
+              initial={{ height: 0, opacity: 0 }}
+              animate={{ height: 'auto', opacity: 1 }}
+              exit={{ height: 0, opacity: 0 }}
+              transition={{ duration: 0.3, ease: 'easeInOut' }}
+              className="overflow-hidden"
+            >
+              <div className="space-y-4 pt-4 pb-2">
+                {periods.length === 0 ? (
+                  <div className="text-center py-6 bg-gray-50 dark:bg-slate-800/50 rounded-xl border border-dashed border-gray-200 dark:border-slate-700 text-gray-500 dark:text-gray-400">
+                    Create and close a pay period to invoice visiting faculty.
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex flex-wrap items-center gap-2 justify-between">
+                      <select
+                        value={periodId}
+                        onChange={(e) => setPeriodId(e.target.value)}
+                        className="px-3 py-2 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {periods.map(p => (
+                          <option key={p._id} value={p._id}>{p.name}{p.status === 'open' ? ' (open)' : ''}</option>
+                        ))}
+                      </select>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => downloadInvoicesXlsx(invoices, `invoices ${period?.name || ''}`)}
+                          disabled={invoices.length === 0}
+                          className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-gray-200 text-sm font-medium hover:bg-gray-200 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors"
+                        >
+                          <FileSpreadsheet className="w-4 h-4" />
+                          Export
+                        </button>
+                        <button
+                          onClick={handleGenerate}
+                          disabled={generating || period?.status !== 'closed' || pendingCount === 0}
+                          className="px-4 py-2 rounded-xl bg-blue-500 hover:bg-blue-600 text-white text-sm font-bold disabled:opacity-50 transition-colors"
+                        >
+                          {generating ? 'Generating...' : `Generate invoices${pendingCount ? ` (${pendingCount})` : ''}`}
+                        </button>
+                      </div>
+                    </div>
+
+                    {period?.status === 'open' && (
+                      <p className="text-xs text-amber-700 dark:text-amber-300">
+                        This pay period is still open - hours can change. Close it to generate invoices.
+                      </p>
+                    )}
+
+                    {error && (
+                      <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+                        <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                        {error}
+                      </div>
+                    )}
+
+                    {loading ? (
+                      <div className="text-center py-6 text-gray-500">Loading...</div>
+                    ) : (
+                      <>
+                        <div>
+                          <h4 className="text-sm font-semibold text-black dark:text-white mb-2">Payable hours</h4>
+                          {payables.length === 0 ? (
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                              No visiting faculty. Set a user's employment type to Visiting in the user form.
+                            </p>
+                          ) : (
+                            <div className="overflow-x-auto">
+                              <table className="w-full text-sm">
+                                <thead>
+                                  <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-slate-600">
+                                    <th className="py-2 pr-3 font-medium">Teacher</th>
+                                    <th className="py-2 pr-3 font-medium text-right">Hours</th>
+                                    <th className="py-2 pr-3 font-medium text-right">Rate</th>
+                                    <th className="py-2 pr-3 font-medium text-right">Amount</th>
+                                    <th className="py-2 font-medium">Invoice</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {payables.map(p => (
+                                    <tr key={p.teacher._id} className="border-b border-gray-100 dark:border-slate-700 text-black dark:text-white">
+                                      <td className="py-2 pr-3">{p.teacher.name}</td>
+                                      <td className="py-2 pr-3 text-right">{p.hours.toFixed(2)}</td>
+                                      <td className={`py-2 pr-3 text-right ${p.hourlyRate ? '' : 'text-red-500'}`}>
+                                        {p.hourlyRate ? formatAmount(p.hourlyRate) : 'not set'}
+                                      </td>
+                                      <td className="py-2 pr-3 text-right font-medium">{formatAmount(p.amount)}</td>
+                                      <td className="py-2">
+                                        {p.invoice ? (
+                                          <span className="flex items-center gap-2">
+                                            {p.invoice.number}
+                                            <InvoiceStatusBadge status={p.invoice.status} />
+                                          </span>
+                                        ) : (
+                                          <span className="text-gray-400">-</span>
+                                        )}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </div>
+                          )}
+                        </div>
+
+                        {invoices.length > 0 && (
+                          <div className="space-y-2">
+                            <h4 className="text-sm font-semibold text-black dark:text-white">Invoices</h4>
+                            {invoices.map(invoice => (
+                              <div
+                                key={invoice._id}
+                                className="p-3 rounded-xl border border-gray-200 dark:border-slate-600 bg-gray-50 dark:bg-slate-700/30 flex flex-col sm:flex-row sm:items-center gap-2"
+                              >
+                                <div className="flex-1 min-w-0">
+                                  <div className="font-semibold text-black dark:text-white flex items-center gap-2 flex-wrap">
+                                    {invoice.number}
+                                    <InvoiceStatusBadge status={invoice.status} />
+                                  </div>
+                                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                                    {invoice.teacher?.name} · {invoice.hours.toFixed(2)} h × {formatAmount(invoice.hourlyRate)} = {formatAmount(invoice.amount)}
+                                    {invoice.paidAt ? ` · paid ${new Date(invoice.paidAt).toLocaleDateString()}` : ''}
+                                    {invoice.paymentReference ? ` (${invoice.paymentReference})` : ''}
+                                  </div>
+                                </div>
+                                <div className="flex items-center gap-1 flex-shrink-0">
+                                  {invoice.status === 'issued' && (
+                                    <button
+                                      onClick={() => handleStatus(invoice, 'approved')}
+                                      disabled={busyId === invoice._id}
+                                      className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-200 text-xs font-semibold hover:bg-amber-200 disabled:opacity-50 transition-colors"
+                                    >
+                                      <CheckCircle className="w-3.5 h-3.5" />
+                                      Approve
+                                    </button>
+                                  )}
+                                  {invoice.status === 'approved' && (
+                                    <button
+                                      onClick={() => handleStatus(invoice, 'paid')}
+                                      disabled={busyId === invoice._id}
+                                      className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-green-600 text-white text-xs font-semibold hover:bg-green-700 disabled:opacity-50 transition-colors"
+                                    >
+                                      <Banknote className="w-3.5 h-3.5" />
+                                      Mark paid
+                                    </button>
+                                  )}
+                                  {(invoice.status === 'issued' || invoice.status === 'approved') && (
+                                    <button
+                                      onClick={() => handleStatus(invoice, 'cancelled')}
+                                      disabled={busyId === invoice._id}
+                                      className="p-2 text-gray-400 hover:text-red-500 disabled:opacity-50 transition-colors"
+                                      title="Cancel invoice"
+                                    >
+                                      <XCircle className="w-4 h-4" />
+                                    </button>
+                                  )}
+                                  <button
+                                    onClick={() => downloadInvoicePdf(invoice)}
+                                    className="p-2 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                                    title="Download PDF"
+                                  >
+                                    <FileText className="w-4 h-4" />
+                                  </button>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </>
+                )}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Teacher: own invoices / payment statements (renders nothing for staff who are not paid per hour)
+ */
+export function TeacherInvoices() {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+
+  useEffect(() => {
+    const loadInvoices = async () => {
+      try {
+        const response = await api.getInvoices();
+        if (response && response.success) {
+          setInvoices((response.data || []).filter((inv: Invoice) => inv.status !== 'cancelled'));
+        }
+      } catch (err) {
+        console.error('Error loading invoices:', err);
+      }
+    };
+    loadInvoices();
+  }, []);
+
+  if (invoices.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden mt-6">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-black dark:text-white mb-1 flex items-center gap-2">
+          <Receipt className="w-5 h-5 text-emerald-500" />
+          Payment Statements
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">Invoices for your approved hours per pay period.</p>
+      </div>
+      <div className="p-6 space-y-2">
+        {invoices.map(invoice => (
+          <div key={invoice._id} className="p-3 rounded-xl border border-gray-200 dark:border-gray-700 flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <p className="font-semibold text-black dark:text-white flex items-center gap-2">
+                {invoice.number}
+                <InvoiceStatusBadge status={invoice.status} />
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                {invoice.payPeriod?.name} · {invoice.hours.toFixed(2)} h · {formatAmount(invoice.amount)}
+                {invoice.paidAt ? ` · paid ${new Date(invoice.paidAt).toLocaleDateString()}` : ''}
+              </p>
+            </div>
+            <button
+              onClick={() => downloadInvoicePdf(invoice)}
+              className="p-2 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+              title="Download PDF"
+            >
+              <FileText className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
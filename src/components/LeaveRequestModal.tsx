@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { X, AlertCircle, CalendarOff } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import api from '../services/api';
+
+interface LeaveRequestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmitted?: () => void;
+  defaultDate?: Date;
+}
+
+const toInputDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export function LeaveRequestModal({ isOpen, onClose, onSubmitted, defaultDate }: LeaveRequestModalProps) {
+  const initialDate = toInputDate(defaultDate || new Date());
+  const [startDate, setStartDate] = useState(initialDate);
+  const [endDate, setEndDate] = useState(initialDate);
+  const [duration, setDuration] = useState<'full' | 'half'>('full');
+  const [session, setSession] = useState<'first-half' | 'second-half'>('first-half');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await api.requestLeave({
+        startDate,
+        endDate: duration === 'half' ? startDate : endDate,
+        duration,
+        session: duration === 'half' ? session : null,
+        reason
+      });
+      if (response && response.success) {
+        setReason('');
+        onSubmitted?.();
+        onClose();
+      } else {
+        setError(response?.message || 'Failed to submit leave request');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to submit leave request');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="bg-white dark:bg-slate-800 rounded-2xl p-6 max-w-md w-full shadow-xl max-h-[85vh] overflow-y-auto custom-scrollbar"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold text-black dark:text-white flex items-center gap-2">
+                <CalendarOff className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+                Request Leave
+              </h3>
+              <button onClick={onClose} className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                {(['full', 'half'] as const).map(value => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setDuration(value)}
+                    className={`px-3 py-2 rounded-xl text-sm font-semibold transition-colors ${duration === value
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-gray-100 dark:bg-slate-700 text-gray-600 dark:text-gray-300'}`}
+                  >
+                    {value === 'full' ? 'Full day(s)' : 'Half day'}
+                  </button>
+                ))}
+              </div>
+
+              <div className={`grid gap-3 ${duration === 'full' ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                <div>
+                  <label className="block text-sm font-semibold text-black dark:text-white mb-2">{duration === 'full' ? 'From *' : 'Date *'}</label>
+                  <input
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => {
+                      setStartDate(e.target.value);
+                      if (endDate < e.target.value) setEndDate(e.target.value);
+                    }}
+                    className="w-full px-3 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+                {duration === 'full' && (
+                  <div>
+                    <label className="block text-sm font-semibold text-black dark:text-white mb-2">To *</label>
+                    <input
+                      type="date"
+                      value={endDate}
+                      min={startDate}
+                      onChange={(e) => setEndDate(e.target.value)}
+                      className="w-full px-3 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                    />
+                  </div>
+                )}
+              </div>
+
+              {duration === 'half' && (
+                <div>
+                  <label className="block text-sm font-semibold text-black dark:text-white mb-2">Session *</label>
+                  <select
+                    value={session}
+                    onChange={(e) => setSession(e.target.value as 'first-half' | 'second-half')}
+                    className="w-full px-4 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="first-half">First half (morning periods)</option>
+                    <option value="second-half">Second half (afternoon periods)</option>
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-semibold text-black dark:text-white mb-2">Reason *</label>
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={3}
+                  className="w-full px-4 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="flex-1 px-4 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 text-black dark:text-white font-semibold hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={submitting || !reason.trim()}
+                  className="flex-1 px-4 py-3 rounded-xl bg-blue-500 hover:bg-blue-600 text-white font-semibold transition-colors disabled:opacity-50"
+                >
+                  {submitting ? 'Submitting...' : 'Submit for Approval'}
+                </button>
+              </div>
+            </form>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -5,12 +5,13 @@ import api from '../services/api';
 import { AssignmentRequestHistory } from './AssignmentRequestHistory';
 interface Notification {
   _id: string;
-  type: 'unit-complete' | 'time-slot' | 'subject-assign' | 'unit-start';
+  type: 'unit-complete' | 'time-slot' | 'subject-assign' | 'unit-start' | 'leave';
   status: 'pending' | 'approved' | 'rejected' | 'admin_approved';
   requestData: any;
   requestedBy?: { _id: string; name: string; email: string };
   rejectionReason?: string;
   approvedBy?: { _id: string; name: string; email: string };
+  policy?: { name: string; action: 'approve' | 'review' } | null;
   createdAt: string;
   approvedAt?: string;
   rejectedAt?: string;
@@ -189,6 +190,8 @@ export function NotificationsPage({ user, onBack, isDarkMode = false }: Notifica
         return 'Time Slot Request';
       case 'subject-assign':
         return 'Subject Assignment';
+      case 'leave':
+        return 'Leave Request';
       default:
         return type;
     }
@@ -235,6 +238,24 @@ export function NotificationsPage({ user, onBack, isDarkMode = false }: Notifica
       } else {
         return `❌ Time slot "${slotLabel}" request was rejected`;
       }
+    } else if (type === 'leave') {
+      const teacherName = notification.requestedBy?.name || 'Teacher';
+      const from = requestData?.startDate ? new Date(requestData.startDate).toLocaleDateString() : '';
+      const to = requestData?.endDate ? new Date(requestData.endDate).toLocaleDateString() : from;
+      const range = from === to ? from : `${from} – ${to}`;
+      const kind = requestData?.duration === 'half' ? 'Half-day leave' : 'Leave';
+
+      if (user?.role === 'verifier') {
+        return `${teacherName} requested ${kind.toLowerCase()} for ${range}`;
+      }
+
+      if (status === 'pending') {
+        return `${kind} for ${range}`;
+      } else if (status === 'approved') {
+        return `✅ ${kind} for ${range} approved`;
+      } else {
+        return `❌ ${kind} for ${range} was rejected`;
+      }
     } else if (type === 'subject-assign') {
       const subjectName = requestData?.subjectName || 'Subject';
       const verifierName = requestData?.verifierName || (notification.requestedBy?.name) || 'Verifier';
@@ -596,6 +617,9 @@ export function NotificationsPage({ user, onBack, isDarkMode = false }: Notifica
                                 {notification.approvedBy && (
                                   <span className="ml-2">by {notification.approvedBy.name}</span>
                                 )}
+                                {!notification.approvedBy && notification.policy?.action === 'approve' && (
+                                  <span className="ml-2">automatically ({notification.policy.name})</span>
+                                )}
                               </div>
                             )}
 
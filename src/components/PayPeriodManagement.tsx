@@ -0,0 +1,372 @@
+import { useState, useEffect } from 'react';
+import { Lock, Unlock, ChevronDown, Plus, Edit2, Trash2, X, AlertCircle } from 'lucide-react';
+import { motion, AnimatePresence } from 'motion/react';
+import api from '../services/api';
+
+interface PayPeriodAuditEntry {
+  action: 'closed' | 'reopened';
+  by?: { _id: string; name: string; email: string } | null;
+  at: string;
+  reason?: string;
+}
+
+interface PayPeriod {
+  _id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  status: 'open' | 'closed';
+  closedAt?: string | null;
+  closedBy?: { _id: string; name: string } | null;
+  auditLog: PayPeriodAuditEntry[];
+}
+
+const toInputDate = (value: string | Date) => {
+  const d = new Date(value);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Default to the previous calendar month, the period usually closed next
+const emptyForm = () => {
+  const now = new Date();
+  const start = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  const end = new Date(now.getFullYear(), now.getMonth(), 0);
+  return {
+    name: start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+    startDate: toInputDate(start),
+    endDate: toInputDate(end)
+  };
+};
+
+export function PayPeriodManagement() {
+  const [periods, setPeriods] = useState<PayPeriod[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [showModal, setShowModal] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPeriods();
+  }, []);
+
+  const loadPeriods = async () => {
+    try {
+      setLoading(true);
+      const response = await api.getPayPeriods();
+      if (response && response.success) {
+        setPeriods(response.data || []);
+      }
+    } catch (err) {
+      console.error('Error loading pay periods:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openModal = (period?: PayPeriod) => {
+    setFormError(null);
+    if (period) {
+      setEditingId(period._id);
+      setFormData({
+        name: period.name,
+        startDate: toInputDate(period.startDate),
+        endDate: toInputDate(period.endDate)
+      });
+    } else {
+      setEditingId(null);
+      setFormData(emptyForm());
+    }
+    setShowModal(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setFormError(null);
+    try {
+      const response = editingId
+        ? await api.updatePayPeriod(editingId, formData)
+        : await api.createPayPeriod(formData);
+      if (response && response.success) {
+        setShowModal(false);
+        await loadPeriods();
+      } else {
+        setFormError(response?.message || 'Failed to save pay period');
+      }
+    } catch (err: any) {
+      setFormError(err.message || 'Failed to save pay period');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClose = async (period: PayPeriod) => {
+    if (!confirm(`Close "${period.name}"? Teachers, verifiers and time table uploads can no longer change these days.`)) return;
+    setBusyId(period._id);
+    try {
+      const response = await api.closePayPeriod(period._id);
+      if (response?.message) alert(response.message);
+      await loadPeriods();
+    } catch (err: any) {
+      alert(err.message || 'Failed to close pay period');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReopen = async (period: PayPeriod) => {
+    const reason = prompt(`Why is "${period.name}" being reopened? This is recorded in the audit log.`);
+    if (reason === null) return;
+    if (!reason.trim()) {
+      alert('A reason is required to reopen a pay period');
+      return;
+    }
+    setBusyId(period._id);
+    try {
+      const response = await api.reopenPayPeriod(period._id, reason.trim());
+      if (response?.message) alert(response.message);
+      await loadPeriods();
+    } catch (err: any) {
+      alert(err.message || 'Failed to reopen pay period');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (period: PayPeriod) => {
+    if (!confirm(`Delete pay period "${period.name}"?`)) return;
+    try {
+      await api.deletePayPeriod(period._id);
+      await loadPeriods();
+    } catch (err: any) {
+      alert(err.message || 'Failed to delete pay period');
+    }
+  };
+
+  const formatRange = (period: PayPeriod) => {
+    const opts: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short', year: 'numeric' };
+    return `${new Date(period.startDate).toLocaleDateString('en-US', opts)} – ${new Date(period.endDate).toLocaleDateString('en-US', opts)}`;
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl border border-blue-200/40 dark:border-blue-700/40 shadow-lg p-4 sm:p-6 transition-all duration-300">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-3 w-full text-left group"
+        >
+          <div className="p-2 rounded-xl bg-gradient-to-br from-slate-500/20 to-gray-500/20 group-hover:bg-slate-500/30 transition-colors">
+            <Lock className="w-5 h-5 sm:w-6 sm:h-6 text-slate-600 dark:text-slate-300" />
+          </div>
+          <div>
+            <h3 className="text-lg sm:text-xl font-bold text-black dark:text-white flex items-center gap-2">
+              Pay Periods
+              <ChevronDown className={`w-5 h-5 transition-transform duration-300 ${isExpanded ? 'rotate-180' : ''}`} />
+            </h3>
+            <p className="text-xs sm:text-sm text-black/70 dark:text-gray-400">
+              Closing a pay period locks every time slot and break in it
+            </p>
+          </div>
+        </button>
+
+        <AnimatePresence initial={false}>
+          {isExpanded && (
+            <motion.div
+              initial={{ height: 0, opacity: 0 }}
+              animate={{ height: 'auto', opacity: 1 }}
+              exit={{ height: 0, opacity: 0 }}
+              transition={{ duration: 0.3, ease: 'easeInOut' }}
+              className="overflow-hidden"
+            >
+              <div className="space-y-3 pt-4 pb-2">
+                <div className="flex justify-end">
+                  <button
+                    onClick={() => openModal()}
+                    className="flex items-center gap-2 px-4 py-2.5 rounded-xl bg-blue-500 hover:bg-blue-600 text-white transition-colors text-sm font-bold shadow-sm hover:shadow-md"
+                  >
+                    <Plus className="w-5 h-5" />
+                    Add Pay Period
+                  </button>
+                </div>
+
+                {loading ? (
+                  <div className="text-center py-6 text-gray-500">Loading pay periods...</div>
+                ) : periods.length === 0 ? (
+                  <div className="text-center py-6 bg-gray-50 dark:bg-slate-800/50 rounded-xl border border-dashed border-gray-200 dark:border-slate-700 text-gray-500 dark:text-gray-400">
+                    No pay periods yet - every day can still be changed.
+                  </div>
+                ) : (
+                  periods.map(period => (
+                    <div
+                      key={period._id}
+                      className="p-4 rounded-xl border border-gray-200 dark:border-slate-600 bg-gray-50 dark:bg-slate-700/30"
+                    >
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <div className="font-bold text-black dark:text-white flex items-center gap-2 flex-wrap">
+                            {period.name}
+                            <span className={`px-2 py-0.5 rounded-lg text-xs font-medium ${period.status === 'closed'
+                              ? 'bg-slate-200 text-slate-700 dark:bg-slate-600 dark:text-slate-200'
+                              : 'bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-300'}`}
+                            >
+                              {period.status === 'closed' ? 'Closed' : 'Open'}
+                            </span>
+                          </div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            {formatRange(period)}
+                            {period.status === 'closed' && period.closedAt && (
+                              <> · closed {new Date(period.closedAt).toLocaleDateString()}{period.closedBy ? ` by ${period.closedBy.name}` : ''}</>
+                            )}
+                          </div>
+                          {period.auditLog.length > 0 && (
+                            <button
+                              onClick={() => setExpandedLogId(expandedLogId === period._id ? null : period._id)}
+                              className="text-xs text-blue-600 dark:text-blue-400 mt-1 hover:underline"
+                            >
+                              {expandedLogId === period._id ? 'Hide history' : `History (${period.auditLog.length})`}
+                            </button>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          {period.status === 'open' ? (
+                            <>
+                              <button
+                                onClick={() => handleClose(period)}
+                                disabled={busyId === period._id}
+                                className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-slate-700 text-white text-xs font-semibold hover:bg-slate-800 disabled:opacity-50 transition-colors"
+                              >
+                                <Lock className="w-3.5 h-3.5" />
+                                Close
+                              </button>
+                              <button onClick={() => openModal(period)} className="p-2 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+                                <Edit2 className="w-4 h-4" />
+                              </button>
+                              <button onClick={() => handleDelete(period)} className="p-2 text-gray-400 hover:text-red-500 transition-colors">
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </>
+                          ) : (
+                            <button
+                              onClick={() => handleReopen(period)}
+                              disabled={busyId === period._id}
+                              className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-200 text-xs font-semibold hover:bg-amber-200 disabled:opacity-50 transition-colors"
+                            >
+                              <Unlock className="w-3.5 h-3.5" />
+                              Reopen
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                      {expandedLogId === period._id && (
+                        <ul className="mt-3 space-y-1 text-xs text-gray-600 dark:text-gray-300 border-t border-gray-200 dark:border-slate-600 pt-2">
+                          {period.auditLog.slice().reverse().map((entry, i) => (
+                            <li key={i}>
+                              <span className="font-semibold">{entry.action === 'closed' ? 'Closed' : 'Reopened'}</span>
+                              {' '}{new Date(entry.at).toLocaleString()}
+                              {entry.by ? ` by ${entry.by.name}` : ''}
+                              {entry.reason ? ` – ${entry.reason}` : ''}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      <AnimatePresence>
+        {showModal && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              className="bg-white dark:bg-slate-800 rounded-2xl p-6 max-w-lg w-full shadow-xl max-h-[85vh] overflow-y-auto custom-scrollbar"
+            >
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-xl font-bold text-black dark:text-white">{editingId ? 'Edit Pay Period' : 'New Pay Period'}</h3>
+                <button onClick={() => setShowModal(false)} className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700">
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              {formError && (
+                <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                  {formError}
+                </div>
+              )}
+
+              <form onSubmit={handleSave} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-semibold text-black dark:text-white mb-2">Name *</label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="w-full px-4 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-semibold text-black dark:text-white mb-2">From *</label>
+                    <input
+                      type="date"
+                      value={formData.startDate}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        startDate: e.target.value,
+                        endDate: formData.endDate < e.target.value ? e.target.value : formData.endDate
+                      })}
+                      className="w-full px-3 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-black dark:text-white mb-2">To *</label>
+                    <input
+                      type="date"
+                      value={formData.endDate}
+                      min={formData.startDate}
+                      onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                      className="w-full px-3 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 border-2 border-gray-300 dark:border-slate-600 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                    />
+                  </div>
+                </div>
+
+                <div className="flex gap-3 pt-2">
+                  <button
+                    type="button"
+                    onClick={() => setShowModal(false)}
+                    className="flex-1 px-4 py-3 rounded-xl bg-gray-100 dark:bg-slate-700 text-black dark:text-white font-semibold hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={saving}
+                    className="flex-1 px-4 py-3 rounded-xl bg-blue-500 hover:bg-blue-600 text-white font-semibold transition-colors disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : editingId ? 'Save Changes' : 'Create'}
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
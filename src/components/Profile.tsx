@@ -4,6 +4,7 @@ import { Calendar, FolderOpen, Users, Sun, Moon, HelpCircle, ChevronRight, LogOu
 import { Subject, Unit } from './TeacherDashboard';
 
 import api from '../services/api';
+import { CalendarFeedSettings } from './CalendarFeedSettings';
 
 interface ProfileProps {
   user: any;
@@ -72,7 +73,7 @@ export function Profile({ user, onLogout, onToggleDarkMode, isDarkMode = false,
   // Calculate stats
   const inProgressCount = subjects
     .flatMap(s => s.units)
-    .filter(u => u.status === 'in-progress').length;
+    .filter(u => u.status === 'in-progress' || u.status === 'paused').length;
 
   const totalUnits = subjects
     .flatMap(s => s.units).length;
@@ -254,6 +255,7 @@ export function Profile({ user, onLogout, onToggleDarkMode, isDarkMode = false,
               </motion.button>
             );
           })}
+          {user?.role !== 'verifier' && <CalendarFeedSettings />}
         </div>
       </motion.div>
 
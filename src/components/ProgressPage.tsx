@@ -6,9 +6,11 @@ import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { ProgressVisualization } from './ProgressVisualization';
 import { TeacherProgressTable } from './TeacherProgressTable';
-import { SubjectUnitCard } from './SubjectUnitCard';
+import { SubjectUnitCard, UnitRestart } from './SubjectUnitCard';
 import { BatchManagement } from './BatchManagement';
+import { CompletionForecast, CompletionForecastData } from './CompletionForecast';
 import { TeacherProgress } from './AdminDashboard';
+import { TeacherAssignedProgress, BatchAssignedProgress } from '../utils/progressWeighting';
 import { Subject, Unit } from './TeacherDashboard';
 import api from '../services/api';
 
@@ -19,6 +21,9 @@ interface ProgressPageProps {
 export function ProgressPage({ user }: ProgressPageProps) {
   const [data, setData] = useState<TeacherProgress[]>([]);
   const [progressData, setProgressData] = useState<any[]>([]);
+  const [teacherProgress, setTeacherProgress] = useState<TeacherAssignedProgress[]>([]);
+  const [batchProgress, setBatchProgress] = useState<BatchAssignedProgress[]>([]);
+  const [forecast, setForecast] = useState<CompletionForecastData | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedTeacher, setSelectedTeacher] = useState<string>('all');
   const [selectedSubject, setSelectedSubject] = useState<string>('all');
@@ -73,9 +78,10 @@ export function ProgressPage({ user }: ProgressPageProps) {
       if (selectedSubject !== 'all') filters.subject = selectedSubject;
       if (dateRange !== 'all') filters.dateRange = dateRange;
 
-      const [dashboardResponse, progressResponse] = await Promise.all([
+      const [dashboardResponse, progressResponse, forecastResponse] = await Promise.all([
         api.getAdminDashboard(filters),
-        api.getAdminProgress(filters)
+        api.getAdminProgress(filters),
+        api.getCompletionForecast(filters.subject ? { subject: filters.subject } : {})
       ]);
 
       if (dashboardResponse.success) {
@@ -87,10 +93,20 @@ export function ProgressPage({ user }: ProgressPageProps) {
           startedAt: new Date(item.startedAt),
           completedAt: item.completedAt ? new Date(item.completedAt) : undefined,
           totalHours: item.totalHours,
+          plannedHours: item.plannedHours,
+          marks: item.marks,
+          varianceHours: item.varianceHours,
+          delayed: item.delayed,
+          attemptKind: item.attemptKind,
+          attempts: item.attempts,
+          firstCompletedAt: item.firstCompletedAt ? new Date(item.firstCompletedAt) : null,
+          totalHoursAllAttempts: item.totalHoursAllAttempts,
           status: item.status
         }));
 
         setData(formattedData);
+        setTeacherProgress(dashboardResponse.data.teacherProgress || []);
+        setBatchProgress(dashboardResponse.data.batchProgress || []);
 
         if (dashboardResponse.data.filters) {
           setTeachers(dashboardResponse.data.filters.teachers || ['all']);
@@ -101,6 +117,8 @@ export function ProgressPage({ user }: ProgressPageProps) {
       if (progressResponse.success) {
         setProgressData(progressResponse.data || []);
       }
+
+      setForecast(forecastResponse.success ? forecastResponse.data : null);
     } catch (error: any) {
       console.error('Error loading progress data:', error);
       alert(error.message || 'Failed to load progress data');
@@ -140,9 +158,9 @@ export function ProgressPage({ user }: ProgressPageProps) {
     }
   };
 
-  const handleStartUnit = async (subjectId: string, unitId: string) => {
+  const handleStartUnit = async (subjectId: string, unitId: string, restart?: UnitRestart) => {
     try {
-      const response = await api.startUnit(unitId);
+      const response = await api.startUnit(unitId, restart);
       if (response && response.success) {
         if (response.message && response.message.includes('pending')) {
           alert('✅ Unit start request submitted! Waiting for verifier approval.');
@@ -157,6 +175,20 @@ export function ProgressPage({ user }: ProgressPageProps) {
     }
   };
 
+  // Pausing stops the unit's teaching time until it is resumed
+  const handlePauseResumeUnit = async (unitId: string, action: 'pause' | 'resume') => {
+    try {
+      const response = action === 'pause' ? await api.pauseUnit(unitId) : await api.resumeUnit(unitId);
+      if (response && response.success) {
+        await loadMySubjects();
+      } else {
+        alert(response?.message || `Failed to ${action} unit`);
+      }
+    } catch (err: any) {
+      alert(err.message || `Failed to ${action} unit`);
+    }
+  };
+
   const handleCompleteUnit = async (subjectId: string, unitId: string) => {
     try {
       const response = await api.completeUnit(unitId);
@@ -202,10 +234,15 @@ export function ProgressPage({ user }: ProgressPageProps) {
       Teacher: item.teacherName,
       Subject: item.subject,
       Unit: item.unit,
-      Status: item.status,
+      Status: item.delayed ? 'delayed' : item.status,
       'Started': new Date(item.startedAt).toLocaleDateString(),
       'Completed': item.completedAt ? new Date(item.completedAt).toLocaleDateString() : '-',
-      'Hours': Number((item.totalHours || 0).toFixed(2))
+      'Hours': Number((item.totalHours || 0).toFixed(2)),
+      'Planned Hours': item.plannedHours || '-',
+      'Variance': item.plannedHours && item.varianceHours != null ? Number(item.varianceHours.toFixed(2)) : '-',
+      'Attempt': item.attemptKind || 'first-delivery',
+      'First Completed': item.firstCompletedAt ? new Date(item.firstCompletedAt).toLocaleDateString() : '-',
+      'Hours (all attempts)': Number((item.totalHoursAllAttempts ?? item.totalHours ?? 0).toFixed(2))
     }));
 
     const ws = XLSX.utils.json_to_sheet(dataToExport);
@@ -228,15 +265,17 @@ export function ProgressPage({ user }: ProgressPageProps) {
       item.teacherName,
       item.subject,
       item.unit,
-      item.status,
+      item.delayed ? 'delayed' : item.status,
       new Date(item.startedAt).toLocaleDateString(),
       item.completedAt ? new Date(item.completedAt).toLocaleDateString() : '-',
-      (item.totalHours || 0).toFixed(2)
+      (item.totalHours || 0).toFixed(2),
+      item.plannedHours ? String(item.plannedHours) : '-',
+      item.plannedHours && item.varianceHours != null ? item.varianceHours.toFixed(2) : '-'
     ]);
 
     // Generate table
     autoTable(doc, {
-      head: [['Teacher', 'Subject', 'Unit', 'Status', 'Started', 'Completed', 'Hours']],
+      head: [['Teacher', 'Subject', 'Unit', 'Status', 'Started', 'Completed', 'Hours', 'Planned', 'Variance']],
       body: tableData,
       startY: 35,
       styles: { fontSize: 9 },
@@ -370,9 +409,21 @@ export function ProgressPage({ user }: ProgressPageProps) {
         transition={{ delay: 0.1 }}
         className="mb-6 sm:mb-8 lg:mb-10"
       >
-        <ProgressVisualization data={progressData} />
+        <ProgressVisualization data={progressData} batches={batchProgress} />
       </motion.div>
 
+      {/* Completion Forecast */}
+      {forecast && forecast.subjects.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15 }}
+          className="mb-6 sm:mb-8 lg:mb-10"
+        >
+          <CompletionForecast data={forecast} />
+        </motion.div>
+      )}
+
       {/* Teacher Progress Table */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -380,7 +431,10 @@ export function ProgressPage({ user }: ProgressPageProps) {
         transition={{ delay: 0.2 }}
         className="mb-6 sm:mb-8 lg:mb-10"
       >
-        <TeacherProgressTable data={filteredData} />
+        <TeacherProgressTable
+          data={filteredData}
+          summaries={teacherProgress.filter(summary => selectedTeacher === 'all' || summary.teacherName === selectedTeacher)}
+        />
       </motion.div>
 
       {/* My Subjects Section */}
@@ -420,12 +474,14 @@ export function ProgressPage({ user }: ProgressPageProps) {
               <SubjectUnitCard
                 key={subject.id}
                 subject={subject}
-                onStartUnit={(unitId) => {
-                  handleStartUnit(subject.id, unitId);
+                onStartUnit={(unitId, restart) => {
+                  handleStartUnit(subject.id, unitId, restart);
                 }}
                 onCompleteUnit={(unitId) => {
                   handleCompleteUnit(subject.id, unitId);
                 }}
+                onPauseUnit={(unitId) => handlePauseResumeUnit(unitId, 'pause')}
+                onResumeUnit={(unitId) => handlePauseResumeUnit(unitId, 'resume')}
                 onUpdateElapsed={(unitId, elapsed) => {
                   handleUpdateElapsedTime(subject.id, unitId, elapsed);
                 }}
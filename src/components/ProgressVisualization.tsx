@@ -1,5 +1,8 @@
+import { useState } from 'react';
 import { motion } from 'motion/react';
 import { BarChart3 } from 'lucide-react';
+import { ProgressWeightingToggle } from './ProgressWeightingToggle';
+import { ProgressWeighting, ProgressWeights, BatchAssignedProgress, PROGRESS_WEIGHTING_LABELS, getProgressValues, getProgressPercent } from '../utils/progressWeighting';
 
 interface ProgressVisualizationProps {
   data: Array<{
@@ -10,12 +13,16 @@ interface ProgressVisualizationProps {
     delayed: number;
     totalHours: number;
     avgHours: number;
+    weights?: ProgressWeights; // planned hours / exam marks per counter
   }>;
+  batches?: BatchAssignedProgress[]; // completion over each batch's whole syllabus
   removeWrapper?: boolean;
 }
 
-export function ProgressVisualization({ data, removeWrapper = false }: ProgressVisualizationProps) {
+export function ProgressVisualization({ data, batches = [], removeWrapper = false }: ProgressVisualizationProps) {
   const subjectData = data || [];
+  const [weighting, setWeighting] = useState<ProgressWeighting>('count');
+  const weightSuffix = weighting === 'marks' ? ' marks' : 'h';
 
   const getSubjectColor = (subject: string) => {
     const colors: Record<string, string> = {
@@ -41,7 +48,7 @@ export function ProgressVisualization({ data, removeWrapper = false }: ProgressV
           <div className="absolute top-0 right-0 w-96 h-96 bg-blue-500/10 rounded-full blur-3xl -mr-20 -mt-20 pointer-events-none"></div>
           <div className="absolute bottom-0 left-0 w-80 h-80 bg-indigo-500/10 rounded-full blur-3xl -ml-20 -mb-20 pointer-events-none"></div>
 
-          <div className="relative z-10 flex items-center gap-4 mb-8">
+          <div className="relative z-10 flex flex-wrap items-center gap-4 mb-8">
             <div className="w-14 h-14 rounded-2xl bg-gradient-to-br from-blue-500 to-indigo-600 flex items-center justify-center shadow-lg shadow-blue-500/20 ring-1 ring-white/10">
               <BarChart3 className="w-7 h-7 text-white" />
             </div>
@@ -53,13 +60,47 @@ export function ProgressVisualization({ data, removeWrapper = false }: ProgressV
                 Subject-wise unit tracking and completion rates
               </p>
             </div>
+            <div className="sm:ml-auto">
+              <ProgressWeightingToggle value={weighting} onChange={setWeighting} dark />
+            </div>
           </div>
         </>
       )}
 
+      {removeWrapper && (
+        <div className="flex justify-end">
+          <ProgressWeightingToggle value={weighting} onChange={setWeighting} />
+        </div>
+      )}
+
       <div className={removeWrapper ? "" : "space-y-6 relative z-10"}>
+        {/* Completion per batch over all of its subjects' units */}
+        {batches.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {batches.map(batch => {
+              const { weighted } = getProgressValues(batch, weighting);
+              return (
+                <div
+                  key={batch.batchId || 'none'}
+                  className="px-3 py-2 rounded-xl bg-gray-100 dark:bg-slate-800/80 border border-gray-200 dark:border-slate-700 text-xs text-gray-900 dark:text-white"
+                  title={weighting !== 'count' && !weighted ? 'No weights set for these units, counting units' : undefined}
+                >
+                  <span className="font-semibold">{batch.batch || 'No batch'}</span>
+                  <span className="ml-2 tabular-nums">{getProgressPercent(batch, weighting).toFixed(0)}%</span>
+                  <span className="ml-1 text-gray-500 dark:text-slate-400">
+                    ({batch.completed}/{batch.total} units{weighted ? `, ${weighting === 'marks' ? 'by marks' : 'by hours'}` : ''})
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {subjectData.map((subject, index) => {
-          const completionRate = (subject.completed / subject.total) * 100;
+          // Counts, or planned hours / marks when weighted (units without a weight then count for nothing)
+          const { values, weighted } = getProgressValues(subject, weighting);
+          const share = (counter: string) => getProgressPercent(subject, weighting, counter);
+          const completionRate = share('completed');
 
           return (
             <motion.div
@@ -87,6 +128,13 @@ export function ProgressVisualization({ data, removeWrapper = false }: ProgressV
                       <span>•</span>
                       <span>{subject.avgHours.toFixed(1)} hrs/unit</span>
                     </div>
+                    {weighting !== 'count' && (
+                      <div className="text-xs text-gray-500 dark:text-slate-400 mt-1">
+                        {weighted
+                          ? `${Number((values.completed || 0).toFixed(1))} of ${Number(values.total.toFixed(1))}${weightSuffix} done`
+                          : `No ${PROGRESS_WEIGHTING_LABELS[weighting].toLowerCase()} set, counting units`}
+                      </div>
+                    )}
                   </div>
                 </div>
                 <div className="text-right">
@@ -94,7 +142,7 @@ export function ProgressVisualization({ data, removeWrapper = false }: ProgressV
                     {completionRate.toFixed(0)}%
                   </div>
                   <div className="text-xs text-gray-600 dark:text-slate-400 font-medium uppercase tracking-wider">
-                    Completion
+                    {weighted ? 'Weighted' : 'Completion'}
                   </div>
                 </div>
               </div>
@@ -102,33 +150,33 @@ export function ProgressVisualization({ data, removeWrapper = false }: ProgressV
               {/* Enhanced Progress Bar */}
               <div className="relative h-4 bg-gray-200 dark:bg-slate-700/50 rounded-full overflow-hidden mb-6 ring-1 ring-gray-200 dark:ring-white/5">
                 {/* Completed */}
-                {subject.completed > 0 && (
+                {values.completed > 0 && (
                   <motion.div
                     initial={{ width: 0 }}
-                    animate={{ width: `${(subject.completed / subject.total) * 100}%` }}
+                    animate={{ width: `${share('completed')}%` }}
                     transition={{ duration: 1, delay: index * 0.1, ease: "easeOut" }}
                     className="absolute left-0 top-0 h-full bg-gradient-to-r from-emerald-500 to-emerald-400 shadow-[0_0_10px_rgba(16,185,129,0.3)]"
                   />
                 )}
                 {/* In Progress */}
-                {subject.inProgress > 0 && (
+                {values.inProgress > 0 && (
                   <motion.div
                     initial={{ width: 0 }}
                     animate={{
-                      width: `${(subject.inProgress / subject.total) * 100}%`,
-                      left: `${(subject.completed / subject.total) * 100}%`
+                      width: `${share('inProgress')}%`,
+                      left: `${share('completed')}%`
                     }}
                     transition={{ duration: 1, delay: index * 0.1 + 0.2, ease: "easeOut" }}
                     className="absolute top-0 h-full bg-gradient-to-r from-blue-500 to-blue-400 shadow-[0_0_10px_rgba(59,130,246,0.3)]"
                   />
                 )}
                 {/* Delayed */}
-                {subject.delayed > 0 && (
+                {values.delayed > 0 && (
                   <motion.div
                     initial={{ width: 0 }}
                     animate={{
-                      width: `${(subject.delayed / subject.total) * 100}%`,
-                      left: `${((subject.completed + subject.inProgress) / subject.total) * 100}%`
+                      width: `${share('delayed')}%`,
+                      left: `${share('completed') + share('inProgress')}%`
                     }}
                     transition={{ duration: 1, delay: index * 0.1 + 0.4, ease: "easeOut" }}
                     className="absolute top-0 h-full bg-gradient-to-r from-amber-500 to-red-500 shadow-[0_0_10px_rgba(245,158,11,0.3)]"
@@ -0,0 +1,33 @@
+import { Scale } from 'lucide-react';
+import { ProgressWeighting, PROGRESS_WEIGHTING_LABELS } from '../utils/progressWeighting';
+
+interface ProgressWeightingToggleProps {
+  value: ProgressWeighting;
+  onChange: (value: ProgressWeighting) => void;
+  dark?: boolean;
+}
+
+// Switch between count-based progress and progress weighted by planned hours or exam marks
+export function ProgressWeightingToggle({ value, onChange, dark = false }: ProgressWeightingToggleProps) {
+  return (
+    <div
+      className={`inline-flex items-center gap-1 p-1 rounded-xl text-xs font-semibold ${dark ? 'bg-white/10 border border-white/10' : 'bg-gray-100 dark:bg-slate-700 border border-gray-200 dark:border-slate-600'}`}
+      title="Count every unit the same, or weigh units by their planned hours or exam marks"
+    >
+      <Scale className={`w-3.5 h-3.5 mx-1 ${dark ? 'text-white/60' : 'text-gray-500 dark:text-gray-400'}`} />
+      {(Object.keys(PROGRESS_WEIGHTING_LABELS) as ProgressWeighting[]).map(weighting => (
+        <button
+          key={weighting}
+          type="button"
+          onClick={() => onChange(weighting)}
+          className={`px-2.5 py-1 rounded-lg transition-colors ${value === weighting
+            ? 'bg-blue-600 text-white shadow'
+            : dark ? 'text-white/70 hover:text-white' : 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'
+            }`}
+        >
+          {PROGRESS_WEIGHTING_LABELS[weighting]}
+        </button>
+      ))}
+    </div>
+  );
+}
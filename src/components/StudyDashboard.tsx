@@ -1,5 +1,7 @@
 import { useState } from 'react';
 import { TeacherCalendar } from './TeacherCalendar';
+import { TeacherTimesheet } from './Timesheets';
+import { TeacherInvoices } from './InvoiceManagement';
 
 interface StudyDashboardProps {
   user: any;
@@ -13,6 +15,8 @@ export function StudyDashboard({ user, isDarkMode = false }: StudyDashboardProps
   return (
     <div className="max-w-7xl mx-auto px-3 sm:px-4 lg:px-6 pb-32 sm:pb-36 pt-4 sm:pt-6">
       <TeacherCalendar user={user} subjects={subjects} isDarkMode={isDarkMode} />
+      <TeacherTimesheet />
+      <TeacherInvoices />
     </div>
   );
 }
@@ -2,6 +2,9 @@ import { useState, useEffect } from 'react';
 import { Users, UserCheck, AlertCircle, CheckCircle2, XCircle, ArrowRight, Loader2, Check, Clock, Circle, ChevronDown, Plus, Pencil, BookOpen, Trash2, X, ChevronRight } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import api from '../services/api';
+import { UnitEditor } from './UnitEditor';
+import { ProgressWeightingToggle } from './ProgressWeightingToggle';
+import { ProgressWeighting, ProgressWeights, getProgressValues, getProgressPercent } from '../utils/progressWeighting';
 
 interface Teacher {
   teacherId: string;
@@ -13,7 +16,8 @@ interface Teacher {
     totalUnits: number;
     completedUnits: number;
     incompleteUnits: number;
-    remainingUnits: Array<{ id: string; name: string; order: number }>;
+    weights?: ProgressWeights; // planned hours / exam marks of all units and of the completed ones
+    remainingUnits: Array<{ id: string; name: string; order: number; plannedHours?: number; marks?: number }>;
   }>;
   totalSubjects?: number;
   totalUnits?: number;
@@ -41,6 +45,7 @@ export function SubjectAssignSection({ user }: SubjectAssignSectionProps) {
   const [selectedToTeacher, setSelectedToTeacher] = useState<string>('');
   const [reason, setReason] = useState('');
   const [submitting, setSubmitting] = useState(false);
+  const [progressWeighting, setProgressWeighting] = useState<ProgressWeighting>('count');
   // Unit Selection State
   interface UnitOption {
     _id: string;
@@ -74,6 +79,9 @@ export function SubjectAssignSection({ user }: SubjectAssignSectionProps) {
   const [newSubjectUnits, setNewSubjectUnits] = useState<string[]>(['']);
   const [addSubjectSubmitting, setAddSubjectSubmitting] = useState(false);
 
+  // Edit units of the selected subject (rename, reorder, split, merge, delete)
+  const [showUnitEditor, setShowUnitEditor] = useState(false);
+
   // Add Batch - Subject creation (New)
   const [newBatchSubjects, setNewBatchSubjects] = useState<Array<{ name: string; units: string[]; isOpen?: boolean }>>([{ name: '', units: [], isOpen: true }]);
 
@@ -86,12 +94,12 @@ export function SubjectAssignSection({ user }: SubjectAssignSectionProps) {
     }
   }, [selectedSubject, isReplacementMode ? selectedFromTeacher : null]); // Refetch if teacher changes in replacement mode
 
-  const fetchUnits = async () => {
+  const fetchUnits = async (skipCache = false) => {
     setLoadingUnits(true);
     try {
       // In replacement mode, check status against the 'from' teacher
       const teacherId = isReplacementMode ? selectedFromTeacher : null;
-      const response = await api.getSubjectUnits(selectedSubject, teacherId as any);
+      const response = await api.getSubjectUnits(selectedSubject, teacherId as any, skipCache);
       if (response && response.success) {
         setAvailableUnits(response.data);
         // By default, select all "not started" or "in-progress" units?
@@ -893,6 +901,16 @@ export function SubjectAssignSection({ user }: SubjectAssignSectionProps) {
                   {isReplacementMode ? 'Select Subject *' : 'Subject *'}
                 </span>
               </label>
+              {selectedSubject && !isReplacementMode && (
+                <button
+                  type="button"
+                  onClick={() => setShowUnitEditor(true)}
+                  className="text-sm text-blue-600 dark:text-blue-400 font-semibold hover:underline flex items-center gap-1"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                  Edit units
+                </button>
+              )}
 
             </div>
             {isReplacementMode ? (
@@ -1161,10 +1179,13 @@ export function SubjectAssignSection({ user }: SubjectAssignSectionProps) {
         transition={{ delay: 0.1 }}
         className="bg-white dark:bg-slate-800 rounded-2xl p-6 border border-gray-200 dark:border-slate-700 shadow-lg"
       >
-        <h3 className="text-xl font-bold text-black dark:text-white mb-4 flex items-center gap-2">
-          <AlertCircle className="w-5 h-5 text-orange-500" />
-          Teachers with Incomplete Subjects
-        </h3>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h3 className="text-xl font-bold text-black dark:text-white flex items-center gap-2">
+            <AlertCircle className="w-5 h-5 text-orange-500" />
+            Teachers with Incomplete Subjects
+          </h3>
+          <ProgressWeightingToggle value={progressWeighting} onChange={setProgressWeighting} />
+        </div>
 
         {
           teachersIncomplete.length === 0 ? (
@@ -1187,6 +1208,15 @@ export function SubjectAssignSection({ user }: SubjectAssignSectionProps) {
                         </h4>
                         <p className="text-xs text-gray-500 dark:text-gray-400">
                           {teacher.incompleteSubjects?.length || 0} incomplete subjects
+                          {(() => {
+                            // Across the teacher's incomplete subjects, counted or weighted like the bars below
+                            const subjects = teacher.incompleteSubjects || [];
+                            const summary = subjects.reduce((acc, subject) => {
+                              const { values } = getProgressValues({ total: subject.totalUnits, completed: subject.completedUnits, weights: subject.weights }, progressWeighting);
+                              return { total: acc.total + values.total, completed: acc.completed + (values.completed || 0) };
+                            }, { total: 0, completed: 0 });
+                            return summary.total > 0 ? ` · ${Math.round((summary.completed / summary.total) * 100)}% done` : '';
+                          })()}
                         </p>
                       </div>
                     </div>
@@ -1196,7 +1226,12 @@ export function SubjectAssignSection({ user }: SubjectAssignSectionProps) {
                   </summary>
 
                   <div className="p-4 pt-2 border-t border-gray-100 dark:border-slate-700 space-y-3">
-                    {teacher.incompleteSubjects?.map((subject) => (
+                    {teacher.incompleteSubjects?.map((subject) => {
+                      const progress = { total: subject.totalUnits, completed: subject.completedUnits, weights: subject.weights };
+                      const { values, weighted } = getProgressValues(progress, progressWeighting);
+                      const percent = getProgressPercent(progress, progressWeighting);
+                      const weightSuffix = progressWeighting === 'marks' ? ' marks' : 'h';
+                      return (
                       <div
                         key={subject.subjectId}
                         className="p-3 bg-white dark:bg-slate-800 rounded-lg border border-gray-100 dark:border-slate-700 shadow-sm"
@@ -1215,13 +1250,17 @@ export function SubjectAssignSection({ user }: SubjectAssignSectionProps) {
                         <div className="w-full h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden mb-2">
                           <div
                             className="h-full bg-gradient-to-r from-green-500 to-emerald-500"
-                            style={{ width: `${(subject.completedUnits / subject.totalUnits) * 100}%` }}
+                            style={{ width: `${percent}%` }}
                           />
                         </div>
 
                         <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
-                          <span>{subject.completedUnits} / {subject.totalUnits} Completed</span>
-                          <span>{Math.round((subject.completedUnits / subject.totalUnits) * 100)}%</span>
+                          <span>
+                            {subject.completedUnits} / {subject.totalUnits} Completed
+                            {weighted && ` · ${Number((values.completed || 0).toFixed(1))} / ${Number(values.total.toFixed(1))}${weightSuffix}`}
+                            {progressWeighting !== 'count' && !weighted && ' · no weights set'}
+                          </span>
+                          <span>{Math.round(percent)}%</span>
                         </div>
 
                         {/* Remaining Units List */}
@@ -1233,13 +1272,17 @@ export function SubjectAssignSection({ user }: SubjectAssignSectionProps) {
                                 <li key={unit.id} className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
                                   <span className="w-1 h-1 rounded-full bg-gray-400"></span>
                                   {unit.name}
+                                  {weighted && (progressWeighting === 'marks' ? unit.marks : unit.plannedHours)
+                                    ? ` (${progressWeighting === 'marks' ? unit.marks : unit.plannedHours}${weightSuffix})`
+                                    : ''}
                                 </li>
                               ))}
                             </ul>
                           </div>
                         )}
                       </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </details>
               ))}
@@ -1341,6 +1384,14 @@ export function SubjectAssignSection({ user }: SubjectAssignSectionProps) {
           )
         }
       </AnimatePresence >
+
+      {showUnitEditor && selectedSubject && (
+        <UnitEditor
+          subjectId={selectedSubject}
+          subjectName={allSubjects.find(s => s._id === selectedSubject)?.name || ''}
+          onClose={() => { setShowUnitEditor(false); fetchUnits(true); }}
+        />
+      )}
     </div >
   );
 }
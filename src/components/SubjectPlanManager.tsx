@@ -0,0 +1,200 @@
+import { useState, useEffect } from 'react';
+import { Target, AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
+import api from '../services/api';
+
+interface PlanSubject {
+  _id: string;
+  name: string;
+  batch: { _id: string; name: string } | null;
+  plannedHours: number;
+  delayThresholdPercent: number;
+}
+
+interface PlanUnit {
+  _id: string;
+  name: string;
+  order: number;
+  plannedHours: number;
+  marks?: number;
+}
+
+export function SubjectPlanManager() {
+  const [subjects, setSubjects] = useState<PlanSubject[]>([]);
+  const [subjectId, setSubjectId] = useState('');
+  const [units, setUnits] = useState<PlanUnit[]>([]);
+  // Edited values as typed (unit id -> hours)
+  const [hours, setHours] = useState<Record<string, string>>({});
+  // Exam marks weightage as typed (unit id -> marks), used for weighted progress
+  const [marks, setMarks] = useState<Record<string, string>>({});
+  const [threshold, setThreshold] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSubjects();
+  }, []);
+
+  useEffect(() => {
+    if (subjectId) loadUnits(subjectId);
+  }, [subjectId]);
+
+  const loadSubjects = async () => {
+    try {
+      const response = await api.getVerifierSubjects(null, true);
+      if (response && response.success) {
+        setSubjects(response.data || []);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load subjects');
+    }
+  };
+
+  const loadUnits = async (id: string) => {
+    setLoading(true);
+    setError(null);
+    setResultMessage(null);
+    try {
+      const response = await api.getSubjectUnits(id, null, true);
+      if (response && response.success) {
+        const list: PlanUnit[] = response.data || [];
+        setUnits(list);
+        setHours(Object.fromEntries(list.map(u => [u._id, u.plannedHours ? String(u.plannedHours) : ''])));
+        setMarks(Object.fromEntries(list.map(u => [u._id, u.marks ? String(u.marks) : ''])));
+      }
+      const subject = subjects.find(s => s._id === id);
+      setThreshold(subject ? String(subject.delayThresholdPercent ?? '') : '');
+    } catch (err: any) {
+      setError(err.message || 'Failed to load units');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setResultMessage(null);
+    try {
+      const response = await api.updateSubjectPlan(subjectId, {
+        delayThresholdPercent: threshold === '' ? undefined : Number(threshold),
+        units: units.map(u => ({
+          unitId: u._id,
+          plannedHours: hours[u._id] === '' ? 0 : Number(hours[u._id]),
+          marks: !marks[u._id] ? 0 : Number(marks[u._id])
+        }))
+      });
+      if (response && response.success) {
+        const { plannedHours, delayThresholdPercent } = response.data;
+        setUnits(response.data.units || units);
+        setSubjects(prev => prev.map(s => s._id === subjectId ? { ...s, plannedHours, delayThresholdPercent } : s));
+        setResultMessage(`Plan saved: ${plannedHours}h in total`);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to save plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const totalHours = units.reduce((sum, u) => sum + (Number(hours[u._id]) || 0), 0);
+  const totalMarks = units.reduce((sum, u) => sum + (Number(marks[u._id]) || 0), 0);
+  const inputClass = 'px-3 py-2 rounded-lg bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 text-black dark:text-white text-sm';
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden mt-6">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-black dark:text-white mb-1 flex items-center gap-2">
+            <Target className="w-5 h-5 text-blue-500" />
+            Planned Hours
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Estimated teaching hours and exam marks per unit. A running unit is reported as delayed once it exceeds its plan by the threshold; hours and marks also weight the progress views.
+          </p>
+        </div>
+        <select value={subjectId} onChange={(e) => setSubjectId(e.target.value)} className={inputClass}>
+          <option value="">Select subject</option>
+          {subjects.map(s => (
+            <option key={s._id} value={s._id}>{s.name}{s.batch ? ` (${s.batch.name})` : ''}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="p-6 space-y-3">
+        {resultMessage && (
+          <div className="flex items-center gap-2 p-3 rounded-xl bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-800 dark:text-green-200 text-sm">
+            <CheckCircle className="w-5 h-5 flex-shrink-0" />
+            {resultMessage}
+          </div>
+        )}
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 text-sm">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {!subjectId ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">Select a subject to plan its units.</p>
+        ) : loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          </div>
+        ) : units.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">This subject has no units.</p>
+        ) : (
+          <>
+            {units.map(unit => (
+              <div key={unit._id} className="flex items-center gap-3">
+                <span className="flex-1 min-w-0 truncate text-sm font-medium text-black dark:text-white">{unit.name}</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={hours[unit._id] ?? ''}
+                  onChange={(e) => setHours({ ...hours, [unit._id]: e.target.value })}
+                  placeholder="0"
+                  className={`${inputClass} w-24 text-right`}
+                />
+                <span className="text-sm text-gray-500 dark:text-gray-400 w-4">h</span>
+                <input
+                  type="number"
+                  min="0"
+                  value={marks[unit._id] ?? ''}
+                  onChange={(e) => setMarks({ ...marks, [unit._id]: e.target.value })}
+                  placeholder="0"
+                  className={`${inputClass} w-20 text-right`}
+                  title="Exam marks weightage"
+                />
+                <span className="text-sm text-gray-500 dark:text-gray-400 w-10">marks</span>
+              </div>
+            ))}
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3 pt-3 border-t border-gray-200 dark:border-gray-700">
+              <span className="flex-1 text-sm font-semibold text-black dark:text-white">Total: {totalHours}h{totalMarks > 0 ? ` · ${totalMarks} marks` : ''}</span>
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                Delayed when over plan by
+                <input
+                  type="number"
+                  min="0"
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                  className={`${inputClass} w-20 text-right`}
+                />
+                %
+              </label>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                {saving ? 'Saving...' : 'Save Plan'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
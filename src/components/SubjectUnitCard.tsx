@@ -1,21 +1,30 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { ChevronDown, PlayCircle, CheckCircle, Clock, Circle } from 'lucide-react';
+import { ChevronDown, PlayCircle, CheckCircle, Clock, Circle, PauseCircle, RotateCcw, Lock } from 'lucide-react';
 import { Subject, Unit } from './TeacherDashboard';
 
+// Teaching a completed unit again keeps the earlier run; the kind and reason are recorded with it
+export interface UnitRestart {
+  attemptKind: 'revision' | 'remedial';
+  reason: string;
+}
+
 interface SubjectUnitCardProps {
   subject: Subject;
-  onStartUnit: (unitId: string) => void;
+  onStartUnit: (unitId: string, restart?: UnitRestart) => void;
   onCompleteUnit: (unitId: string) => void;
+  onPauseUnit?: (unitId: string) => void;
+  onResumeUnit?: (unitId: string) => void;
   onUpdateElapsed: (unitId: string, elapsed: number) => void;
   index: number;
 }
 
-export function SubjectUnitCard({ subject, onStartUnit, onCompleteUnit, onUpdateElapsed, index }: SubjectUnitCardProps) {
+export function SubjectUnitCard({ subject, onStartUnit, onCompleteUnit, onPauseUnit, onResumeUnit, onUpdateElapsed, index }: SubjectUnitCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
   const completedCount = subject.units.filter(u => u.status === 'completed').length;
   const inProgressCount = subject.units.filter(u => u.status === 'in-progress').length;
+  const pausedCount = subject.units.filter(u => u.status === 'paused').length;
 
   return (
     <motion.div
@@ -51,6 +60,11 @@ export function SubjectUnitCard({ subject, onStartUnit, onCompleteUnit, onUpdate
                   • {inProgressCount} active
                 </span>
               )}
+              {pausedCount > 0 && (
+                <span className="ml-2">
+                  • {pausedCount} paused
+                </span>
+              )}
             </p>
           </div>
         </div>
@@ -78,8 +92,10 @@ export function SubjectUnitCard({ subject, onStartUnit, onCompleteUnit, onUpdate
                   key={unit.id}
                   unit={unit}
                   subjectColor={subject.color}
-                  onStart={() => onStartUnit(unit.id)}
+                  onStart={(restart) => onStartUnit(unit.id, restart)}
                   onComplete={() => onCompleteUnit(unit.id)}
+                  onPause={onPauseUnit ? () => onPauseUnit(unit.id) : undefined}
+                  onResume={onResumeUnit ? () => onResumeUnit(unit.id) : undefined}
                   onUpdateElapsed={(elapsed) => onUpdateElapsed(unit.id, elapsed)}
                   index={unitIndex}
                 />
@@ -95,14 +111,19 @@ export function SubjectUnitCard({ subject, onStartUnit, onCompleteUnit, onUpdate
 interface UnitItemProps {
   unit: Unit;
   subjectColor: string;
-  onStart: () => void;
+  onStart: (restart?: UnitRestart) => void;
   onComplete: () => void;
+  onPause?: () => void;
+  onResume?: () => void;
   onUpdateElapsed: (elapsed: number) => void;
   index: number;
 }
 
-function UnitItem({ unit, subjectColor, onStart, onComplete, onUpdateElapsed, index }: UnitItemProps) {
+function UnitItem({ unit, subjectColor, onStart, onComplete, onPause, onResume, onUpdateElapsed, index }: UnitItemProps) {
   const [elapsed, setElapsed] = useState(unit.elapsedTime || 0);
+  const [showRestart, setShowRestart] = useState(false);
+  const [restartKind, setRestartKind] = useState<UnitRestart['attemptKind']>('revision');
+  const [restartReason, setRestartReason] = useState('');
 
   useEffect(() => {
     if (unit.status === 'in-progress') {
@@ -133,7 +154,7 @@ function UnitItem({ unit, subjectColor, onStart, onComplete, onUpdateElapsed, in
       progress = 100;
       color = 'bg-green-600';
       bgColor = 'bg-green-100';
-    } else if (unit.status === 'in-progress') {
+    } else if (unit.status === 'in-progress' || unit.status === 'paused') {
       if (unit.progressDays !== undefined && unit.progressDays >= 1) {
         // Day 2 onwards: 50% orange
         progress = 50;
@@ -159,7 +180,7 @@ function UnitItem({ unit, subjectColor, onStart, onComplete, onUpdateElapsed, in
     if (unit.status === 'completed') {
       fillColor = '#16a34a'; // green-600
       trackColor = '#dcfce7'; // green-100
-    } else if (unit.status === 'in-progress') {
+    } else if (unit.status === 'in-progress' || unit.status === 'paused') {
       if (unit.progressDays !== undefined && unit.progressDays >= 1) {
         fillColor = '#f97316'; // orange-500
         trackColor = '#ffedd5'; // orange-100
@@ -188,6 +209,7 @@ function UnitItem({ unit, subjectColor, onStart, onComplete, onUpdateElapsed, in
         <div className="flex items-center justify-between mt-2">
           <span className="text-xs font-semibold text-black dark:text-gray-300">
             {unit.status === 'completed' ? 'Completed' :
+              unit.status === 'paused' ? 'Paused' :
               unit.status === 'in-progress' ? (unit.progressDays !== undefined && unit.progressDays >= 1 ? 'In Progress' : 'Started') :
                 'Not Started'}
           </span>
@@ -211,6 +233,20 @@ function UnitItem({ unit, subjectColor, onStart, onComplete, onUpdateElapsed, in
           <h4 className="font-semibold text-black dark:text-white mb-3 text-sm sm:text-base line-clamp-2">
             {unit.name}
           </h4>
+          {unit.attemptKind && unit.attemptKind !== 'first-delivery' && (
+            <span className="inline-block -mt-2 mb-2 px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-500/20 text-amber-800 dark:text-amber-200 text-xs font-semibold">
+              {unit.attemptKind === 'remedial' ? 'Remedial' : 'Revision'}{unit.attempts ? ` · attempt ${unit.attempts}` : ''}
+            </span>
+          )}
+          {unit.examLocked && (
+            <span
+              className="inline-flex items-center gap-1 -mt-2 mb-2 ml-1 px-2 py-0.5 rounded-full bg-slate-200 dark:bg-slate-600 text-slate-700 dark:text-slate-200 text-xs font-semibold"
+              title="The exam for this unit is finished. A verifier has to reopen it before it can be taught again."
+            >
+              <Lock className="w-3 h-3" />
+              Exam finished
+            </span>
+          )}
         </div>
       </div>
 
@@ -220,7 +256,7 @@ function UnitItem({ unit, subjectColor, onStart, onComplete, onUpdateElapsed, in
       </div>
 
       {/* Progress Indicator - Shows from day 2 onwards */}
-      {unit.status === 'in-progress' && unit.progressDays !== undefined && unit.progressDays >= 1 && (
+      {(unit.status === 'in-progress' || unit.status === 'paused') && unit.progressDays !== undefined && unit.progressDays >= 1 && (
         <motion.div
           initial={{ opacity: 0, height: 0 }}
           animate={{ opacity: 1, height: 'auto' }}
@@ -265,11 +301,64 @@ function UnitItem({ unit, subjectColor, onStart, onComplete, onUpdateElapsed, in
         </div>
       )}
 
+      {/* Restart of a completed unit - needs a reason */}
+      {unit.status === 'completed' && !unit.examLocked && showRestart && (
+        <div className="mb-3 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-300/60 dark:border-amber-700/40 space-y-2">
+          <select
+            value={restartKind}
+            onChange={(e) => setRestartKind(e.target.value as UnitRestart['attemptKind'])}
+            className="w-full px-3 py-2 rounded-lg bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 text-black dark:text-white text-sm"
+          >
+            <option value="revision">Revision</option>
+            <option value="remedial">Remedial</option>
+          </select>
+          <input
+            type="text"
+            value={restartReason}
+            onChange={(e) => setRestartReason(e.target.value)}
+            placeholder="Reason for teaching this unit again"
+            className="w-full px-3 py-2 rounded-lg bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 text-black dark:text-white text-sm"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                onStart({ attemptKind: restartKind, reason: restartReason.trim() });
+                setShowRestart(false);
+                setRestartReason('');
+              }}
+              disabled={!restartReason.trim()}
+              className="flex-1 px-3 py-2 rounded-lg bg-amber-500 text-white text-sm font-semibold hover:bg-amber-600 disabled:opacity-50 transition-colors"
+            >
+              Restart Unit
+            </button>
+            <button
+              onClick={() => setShowRestart(false)}
+              className="px-3 py-2 rounded-lg bg-gray-200 dark:bg-slate-600 text-black dark:text-white text-sm font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Action Buttons - Modern Mobile Design */}
       <div className="flex gap-2">
-        {unit.status === 'not-started' && (
+        {unit.status === 'completed' && !unit.examLocked && !showRestart && (
+          <motion.button
+            onClick={() => setShowRestart(true)}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.96 }}
+            className="flex-1 px-3 py-2.5 sm:px-4 sm:py-3 rounded-lg bg-amber-100 dark:bg-amber-500/20 text-amber-800 dark:text-amber-200 font-semibold text-sm sm:text-base shadow-sm hover:shadow-md transition-all duration-200 flex items-center justify-center gap-2"
+            title="Teach this unit again as a revision or remedial run"
+          >
+            <RotateCcw className="w-4 h-4 sm:w-5 sm:h-5" />
+            <span>Restart</span>
+          </motion.button>
+        )}
+
+        {unit.status === 'not-started' && !unit.examLocked && (
           <motion.button
-            onClick={onStart}
+            onClick={() => onStart()}
             whileHover={{ scale: 1.02 }}
             whileTap={{ scale: 0.96 }}
             className={`flex-1 px-3 py-2.5 sm:px-4 sm:py-3 rounded-lg bg-gradient-to-r ${subjectColor} text-white font-semibold text-sm sm:text-base shadow-md hover:shadow-lg transition-all duration-200 flex items-center justify-center gap-2`}
@@ -279,7 +368,32 @@ function UnitItem({ unit, subjectColor, onStart, onComplete, onUpdateElapsed, in
           </motion.button>
         )}
 
-        {unit.status === 'in-progress' && (
+        {unit.status === 'in-progress' && onPause && (
+          <motion.button
+            onClick={onPause}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.96 }}
+            className="px-3 py-2.5 sm:px-4 sm:py-3 rounded-lg bg-amber-100 dark:bg-amber-500/20 text-amber-800 dark:text-amber-200 font-semibold text-sm sm:text-base shadow-sm hover:shadow-md transition-all duration-200 flex items-center justify-center gap-2"
+            title="Pause - time stops counting until you resume"
+          >
+            <PauseCircle className="w-4 h-4 sm:w-5 sm:h-5" />
+            <span>Pause</span>
+          </motion.button>
+        )}
+
+        {unit.status === 'paused' && onResume && (
+          <motion.button
+            onClick={onResume}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.96 }}
+            className={`px-3 py-2.5 sm:px-4 sm:py-3 rounded-lg bg-gradient-to-r ${subjectColor} text-white font-semibold text-sm sm:text-base shadow-md hover:shadow-lg transition-all duration-200 flex items-center justify-center gap-2`}
+          >
+            <PlayCircle className="w-4 h-4 sm:w-5 sm:h-5" />
+            <span>Resume</span>
+          </motion.button>
+        )}
+
+        {(unit.status === 'in-progress' || unit.status === 'paused') && !unit.examLocked && (
           <motion.button
             onClick={onComplete}
             whileHover={{ scale: 1.02 }}
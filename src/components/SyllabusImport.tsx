@@ -0,0 +1,365 @@
+import { useState, useCallback, useEffect } from 'react';
+import { Upload, Download, AlertCircle, FileSpreadsheet, Send, Loader2, X, CheckCircle } from 'lucide-react';
+import { motion } from 'motion/react';
+import * as XLSX from 'xlsx';
+import api from '../services/api';
+import type { ValidationError } from './TimeTableImport';
+
+const SYLLABUS_HEADERS = ['BATCH', 'SUBJECT', 'UNIT ORDER', 'UNIT', 'PLANNED HOURS', 'TEACHER EMAIL'];
+const REQUIRED_COLUMNS = ['BATCH', 'SUBJECT', 'UNIT ORDER', 'UNIT'];
+
+export interface SyllabusRow {
+  rowIndex: number; // spreadsheet row number (header = 1)
+  batch: string;
+  subject: string;
+  unitOrder: number | string;
+  unitName: string;
+  plannedHours: number | string;
+  teacherEmail: string;
+}
+
+/** One subject the import would create (from the server dry run) */
+interface SyllabusSubjectPreview {
+  batchName: string;
+  subjectName: string;
+  teacherName: string | null;
+  teacherEmail: string | null;
+  plannedHours: number;
+  units: Array<{ name: string; order: number; plannedHours: number; rowIndex: number }>;
+}
+
+function validateOneRow(row: SyllabusRow): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (!row.batch) errors.push({ rowIndex: row.rowIndex, column: 'BATCH', message: 'Batch is required' });
+  if (!row.subject) errors.push({ rowIndex: row.rowIndex, column: 'SUBJECT', message: 'Subject is required' });
+  if (!row.unitName) errors.push({ rowIndex: row.rowIndex, column: 'UNIT', message: 'Unit name is required' });
+  const order = Number(row.unitOrder);
+  if (!Number.isInteger(order) || order < 1) {
+    errors.push({ rowIndex: row.rowIndex, column: 'UNIT ORDER', message: 'Unit order must be a whole number from 1' });
+  }
+  if (row.plannedHours !== '' && (!Number.isFinite(Number(row.plannedHours)) || Number(row.plannedHours) < 0)) {
+    errors.push({ rowIndex: row.rowIndex, column: 'PLANNED HOURS', message: 'Planned hours must be a non-negative number' });
+  }
+  return errors;
+}
+
+export function SyllabusImport() {
+  const [rows, setRows] = useState<SyllabusRow[]>([]);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+  const [validating, setValidating] = useState(false);
+  const [preview, setPreview] = useState<SyllabusSubjectPreview[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [importResult, setImportResult] = useState<{ subjects: number; units: number } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // When rows change: format checks here, then the server checks batches, teachers, duplicates and existing subjects
+  useEffect(() => {
+    setPreview([]);
+    if (rows.length === 0) {
+      setValidationErrors([]);
+      setValidating(false);
+      return;
+    }
+    const formatErrors = rows.flatMap(validateOneRow);
+    setValidating(true);
+    let cancelled = false;
+    (async () => {
+      try {
+        const response = await api.importSyllabus(rows, true);
+        if (cancelled) return;
+        const serverErrors: ValidationError[] = response?.data?.errors || [];
+        // The server repeats format errors; keep one message per row and column
+        const seen = new Set(formatErrors.map(e => `${e.rowIndex}:${e.column}`));
+        setValidationErrors([...formatErrors, ...serverErrors.filter(e => !seen.has(`${e.rowIndex}:${e.column}`))]
+          .sort((a, b) => a.rowIndex - b.rowIndex));
+        setPreview(response?.data?.subjects || []);
+      } catch (err: any) {
+        if (!cancelled) {
+          setValidationErrors([
+            ...formatErrors,
+            { rowIndex: 0, column: 'Validation', message: `Could not check the rows: ${err?.message || 'Network error'}. Fix and try again.` }
+          ]);
+        }
+      } finally {
+        if (!cancelled) setValidating(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [rows]);
+
+  const downloadTemplate = useCallback(() => {
+    const wsData = [
+      SYLLABUS_HEADERS,
+      ['CMA INTER JUNE 2026', 'FM', 1, 'Introduction to Financial Management', 4, 'teacher@example.com'],
+      ['CMA INTER JUNE 2026', 'FM', 2, 'Time Value of Money', 10, 'teacher@example.com'],
+      ['CMA INTER JUNE 2026', 'FM', 3, 'Capital Budgeting', 16, 'teacher@example.com'],
+      ['CMA INTER JUNE 2026', 'Costing', 1, 'Cost Concepts', 6, ''],
+      ['CMA INTER JUNE 2026', 'Costing', 2, 'Material Costing', 12, '']
+    ];
+    const ws = XLSX.utils.aoa_to_sheet(wsData);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Syllabus');
+    XLSX.writeFile(wb, 'syllabus-template.xlsx');
+  }, []);
+
+  const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    setImportResult(null);
+    setImportError(null);
+    setUploadError(null);
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const data = event.target?.result;
+        if (!data) throw new Error('Failed to read file');
+        const workbook = XLSX.read(data, { type: 'binary' });
+        const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
+        const sheetRows = XLSX.utils.sheet_to_json<string[]>(firstSheet, { header: 1 }) as (string | number)[][];
+        if (sheetRows.length < 2) {
+          setUploadError('File must have a header row and at least one data row.');
+          setRows([]);
+          return;
+        }
+
+        const header = sheetRows[0].map(h => String(h).trim().toUpperCase());
+        const missingCols = REQUIRED_COLUMNS.filter(col => !header.includes(col));
+        if (missingCols.length > 0) {
+          setUploadError(`Missing required columns: ${missingCols.join(', ')}. File must have: ${SYLLABUS_HEADERS.join(', ')}.`);
+          setRows([]);
+          return;
+        }
+
+        const batchIdx = header.indexOf('BATCH');
+        const subjectIdx = header.indexOf('SUBJECT');
+        const orderIdx = header.indexOf('UNIT ORDER');
+        const unitIdx = header.indexOf('UNIT');
+        const hoursIdx = header.indexOf('PLANNED HOURS');
+        const emailIdx = header.findIndex(h => h === 'TEACHER EMAIL' || h === 'EMAIL');
+
+        const parsed: SyllabusRow[] = [];
+        // Merged BATCH / SUBJECT / TEACHER EMAIL cells carry down to the rows below them
+        let lastBatch = '';
+        let lastSubject = '';
+        let lastEmail = '';
+
+        for (let i = 1; i < sheetRows.length; i++) {
+          const row = sheetRows[i];
+          if (!Array.isArray(row) || row.every(cell => String(cell ?? '').trim() === '')) continue;
+
+          let batch = String(row[batchIdx] ?? '').trim();
+          let subject = String(row[subjectIdx] ?? '').trim();
+          let teacherEmail = emailIdx >= 0 ? String(row[emailIdx] ?? '').trim() : '';
+          if (batch) lastBatch = batch; else batch = lastBatch;
+          if (subject !== '') {
+            // A new subject starts its own teacher block
+            if (subject !== lastSubject) lastEmail = '';
+            lastSubject = subject;
+          } else {
+            subject = lastSubject;
+          }
+          if (teacherEmail) lastEmail = teacherEmail; else teacherEmail = lastEmail;
+
+          parsed.push({
+            rowIndex: i + 1,
+            batch,
+            subject,
+            unitOrder: String(row[orderIdx] ?? '').trim(),
+            unitName: String(row[unitIdx] ?? '').trim(),
+            plannedHours: hoursIdx >= 0 ? String(row[hoursIdx] ?? '').trim() : '',
+            teacherEmail
+          });
+        }
+        setRows(parsed);
+        if (parsed.length === 0) {
+          setUploadError(`No rows found. Use ${SYLLABUS_HEADERS.join(', ')}.`);
+        }
+      } catch (err: any) {
+        setUploadError(err.message || 'Invalid Excel file.');
+        setRows([]);
+      }
+    };
+    reader.readAsBinaryString(file);
+  }, []);
+
+  const handleImport = useCallback(async () => {
+    if (rows.length === 0 || validating || validationErrors.length > 0) return;
+    setImporting(true);
+    setImportError(null);
+    try {
+      const response = await api.importSyllabus(rows);
+      if (response && response.success) {
+        setImportResult({ subjects: response.data.subjects, units: response.data.units });
+        setRows([]);
+      } else {
+        setImportError(response?.message || 'Failed to import syllabus');
+      }
+    } catch (err: any) {
+      setImportError(err.message || 'Failed to import syllabus');
+    } finally {
+      setImporting(false);
+    }
+  }, [rows, validating, validationErrors]);
+
+  const errorRows = new Set(validationErrors.map(e => e.rowIndex));
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden mt-6">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-black dark:text-white mb-1">Import Syllabus from Excel</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          One row per unit ({SYLLABUS_HEADERS.join(', ')}). Batches must already exist; a teacher email sends an assignment request for the subject.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="flex flex-wrap gap-3">
+          <button
+            type="button"
+            onClick={downloadTemplate}
+            className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-700 text-slate-800 dark:text-slate-200 font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+          >
+            <Download className="w-5 h-5" />
+            Download template
+          </button>
+          <label className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-blue-600 text-white font-medium hover:bg-blue-700 transition-colors cursor-pointer">
+            <Upload className="w-5 h-5" />
+            Upload Excel / CSV
+            <input
+              type="file"
+              accept=".xlsx,.xls,.csv"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </label>
+        </div>
+
+        {uploadError && (
+          <div className="flex items-center gap-2 p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200 text-sm">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            {uploadError}
+          </div>
+        )}
+
+        {validating && (
+          <div className="flex items-center gap-2 p-4 rounded-xl bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 text-blue-800 dark:text-blue-200 text-sm">
+            <Loader2 className="w-5 h-5 flex-shrink-0 animate-spin" />
+            Analyzing data… Checking batches, teachers and existing subjects.
+          </div>
+        )}
+        {!validating && validationErrors.length > 0 && (
+          <div className="flex flex-col gap-2 p-4 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+            <p className="text-sm font-semibold text-amber-800 dark:text-amber-200 flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 flex-shrink-0" />
+              Validation failed: {validationErrors.length} error(s). Fix the file and re-upload. Nothing is imported until all rows pass.
+            </p>
+            <ul className="text-sm text-amber-700 dark:text-amber-300 list-disc list-inside space-y-0.5 max-h-40 overflow-y-auto">
+              {validationErrors.map((err, i) => (
+                <li key={i}>
+                  Row {err.rowIndex} ({err.column}): {err.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <>
+            <div>
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Preview ({rows.length} row{rows.length !== 1 ? 's' : ''}) — no changes saved until you import
+                {!validating && preview.length > 0 && validationErrors.length === 0 && (
+                  <span className="ml-2 text-emerald-600 dark:text-emerald-400 font-semibold">
+                    · {preview.length} subject(s), {preview.reduce((n, s) => n + s.units.length, 0)} unit(s) will be created
+                  </span>
+                )}
+              </p>
+              <div className="border border-gray-200 dark:border-gray-600 rounded-xl overflow-x-auto max-h-64 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-700/50 sticky top-0">
+                    <tr>
+                      <th className="text-left p-2 font-medium text-gray-700 dark:text-gray-300">Row</th>
+                      <th className="text-left p-2 font-medium text-gray-700 dark:text-gray-300">Batch</th>
+                      <th className="text-left p-2 font-medium text-gray-700 dark:text-gray-300">Subject</th>
+                      <th className="text-left p-2 font-medium text-gray-700 dark:text-gray-300">Order</th>
+                      <th className="text-left p-2 font-medium text-gray-700 dark:text-gray-300">Unit</th>
+                      <th className="text-left p-2 font-medium text-gray-700 dark:text-gray-300">Hours</th>
+                      <th className="text-left p-2 font-medium text-gray-700 dark:text-gray-300">Teacher</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(row => (
+                      <tr
+                        key={row.rowIndex}
+                        className={`border-t border-gray-100 dark:border-gray-700 ${errorRows.has(row.rowIndex) ? 'bg-amber-50 dark:bg-amber-900/20' : ''}`}
+                      >
+                        <td className="p-2 text-gray-500 dark:text-gray-400">{row.rowIndex}</td>
+                        <td className="p-2 text-gray-700 dark:text-gray-300">{row.batch || '—'}</td>
+                        <td className="p-2 text-gray-700 dark:text-gray-300">{row.subject || '—'}</td>
+                        <td className="p-2 text-gray-700 dark:text-gray-300">{row.unitOrder || '—'}</td>
+                        <td className="p-2 text-gray-900 dark:text-gray-100">{row.unitName || '—'}</td>
+                        <td className="p-2 text-gray-700 dark:text-gray-300">{row.plannedHours || '—'}</td>
+                        <td className="p-2 text-gray-700 dark:text-gray-300">{row.teacherEmail || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-3">
+              <button
+                type="button"
+                onClick={() => setRows([])}
+                className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-700 text-slate-800 dark:text-slate-200 font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+              >
+                <X className="w-4 h-4" />
+                Clear
+              </button>
+              <motion.button
+                type="button"
+                onClick={handleImport}
+                disabled={importing || validating || validationErrors.length > 0}
+                title={validating ? 'Analyzing data…' : validationErrors.length > 0 ? 'Fix validation errors before importing' : undefined}
+                className="inline-flex items-center gap-2 px-5 py-2.5 rounded-xl bg-emerald-600 text-white font-semibold hover:bg-emerald-700 disabled:opacity-50 disabled:pointer-events-none disabled:cursor-not-allowed transition-colors"
+              >
+                {importing ? (
+                  <span className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                ) : (
+                  <Send className="w-5 h-5" />
+                )}
+                Import syllabus
+              </motion.button>
+            </div>
+          </>
+        )}
+
+        {importError && (
+          <div className="flex items-center gap-2 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 text-sm">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            {importError}
+          </div>
+        )}
+
+        {importResult && (
+          <div className="p-4 rounded-xl border bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800">
+            <p className="flex items-center gap-2 text-emerald-800 dark:text-emerald-200 font-medium">
+              <CheckCircle className="w-5 h-5" />
+              Imported {importResult.subjects} subject(s) with {importResult.units} unit(s).
+            </p>
+          </div>
+        )}
+
+        {rows.length === 0 && !uploadError && !importResult && (
+          <div className="flex flex-col items-center justify-center py-12 text-center text-gray-500 dark:text-gray-400">
+            <FileSpreadsheet className="w-12 h-12 mb-3 opacity-60" />
+            <p className="text-sm">Download the template, list each subject&apos;s units in order and upload it to create the batch syllabus.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,383 @@
+import { useState, useEffect } from 'react';
+import { Copy, AlertCircle, CheckCircle, Loader2, Pencil, Trash2, Plus, GitMerge, X } from 'lucide-react';
+import api from '../services/api';
+
+interface TemplateUnit {
+  name: string;
+  plannedHours: number;
+}
+
+interface TemplateSubject {
+  _id: string;
+  name: string;
+  batch: { _id: string; name: string; year?: string } | null;
+  templateVersion: number | null;
+  outdated: boolean;
+}
+
+interface SyllabusTemplate {
+  _id: string;
+  name: string;
+  subjectName: string;
+  units: TemplateUnit[];
+  version: number;
+  plannedHours: number;
+  subjects: TemplateSubject[];
+}
+
+interface MergePreview {
+  add: Array<{ name: string; plannedHours: number }>;
+  update: Array<{ unitId: string; name: string; plannedHoursBefore: number; plannedHoursAfter: number }>;
+  extra: Array<{ unitId: string; name: string }>;
+  reorder: boolean;
+}
+
+export function SyllabusTemplateManager() {
+  const [templates, setTemplates] = useState<SyllabusTemplate[]>([]);
+  const [subjects, setSubjects] = useState<Array<{ _id: string; name: string; batch: { name: string } | null }>>([]);
+  const [batches, setBatches] = useState<Array<{ _id: string; name: string }>>([]);
+  const [teachers, setTeachers] = useState<Array<{ teacherId: string; teacherName: string }>>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+
+  // Save from subject
+  const [sourceSubjectId, setSourceSubjectId] = useState('');
+  const [templateName, setTemplateName] = useState('');
+
+  // Per-template panels (one open at a time)
+  const [openPanel, setOpenPanel] = useState<{ templateId: string; kind: 'edit' | 'use' | 'merge'; subjectId?: string } | null>(null);
+  const [editUnits, setEditUnits] = useState<Array<{ name: string; plannedHours: string }>>([]);
+  const [useBatchId, setUseBatchId] = useState('');
+  const [useTeacherId, setUseTeacherId] = useState('');
+  const [mergePreview, setMergePreview] = useState<MergePreview | null>(null);
+
+  useEffect(() => {
+    loadAll();
+  }, []);
+
+  const loadTemplates = async () => {
+    const response = await api.getSyllabusTemplates();
+    if (response && response.success) {
+      setTemplates(response.data || []);
+    }
+  };
+
+  const loadAll = async () => {
+    setLoading(true);
+    try {
+      const [subjectsRes, batchesRes, teachersRes] = await Promise.all([
+        api.getVerifierSubjects(null, true),
+        api.getExamBatches({ cacheMaxAge: 0 }),
+        api.getAvailableTeachers(null),
+        loadTemplates()
+      ]);
+      if (subjectsRes?.success) setSubjects(subjectsRes.data || []);
+      if (batchesRes?.success) setBatches(batchesRes.data || []);
+      if (teachersRes?.success) setTeachers(teachersRes.data || []);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load syllabus templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Runs one call, then reloads the templates (their subjects and versions change with every action)
+  const runAction = async (call: () => Promise<any>, success: (response: any) => string) => {
+    setBusy(true);
+    setError(null);
+    setResultMessage(null);
+    try {
+      const response = await call();
+      if (response && response.success) {
+        setResultMessage(success(response));
+        setOpenPanel(null);
+        await loadTemplates();
+        return true;
+      }
+      setError(response?.message || 'Request failed');
+    } catch (err: any) {
+      setError(err.message || 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+    return false;
+  };
+
+  const handleSaveFromSubject = async () => {
+    if (await runAction(() => api.createSyllabusTemplate(sourceSubjectId, templateName.trim()), (r) => `Template "${r.data.name}" saved`)) {
+      setSourceSubjectId('');
+      setTemplateName('');
+    }
+  };
+
+  const openEdit = (template: SyllabusTemplate) => {
+    setOpenPanel({ templateId: template._id, kind: 'edit' });
+    setEditUnits(template.units.map(u => ({ name: u.name, plannedHours: u.plannedHours ? String(u.plannedHours) : '' })));
+  };
+
+  const openMerge = async (template: SyllabusTemplate, subjectId: string) => {
+    setOpenPanel({ templateId: template._id, kind: 'merge', subjectId });
+    setMergePreview(null);
+    try {
+      const response = await api.getSyllabusTemplateMergePreview(template._id, subjectId);
+      if (response && response.success) setMergePreview(response.data);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load merge preview');
+    }
+  };
+
+  const handleDelete = async (template: SyllabusTemplate) => {
+    if (!window.confirm(`Delete template "${template.name}"? Subjects created from it are kept.`)) return;
+    await runAction(() => api.deleteSyllabusTemplate(template._id), () => 'Template deleted');
+  };
+
+  const inputClass = 'px-3 py-2 rounded-lg bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 text-black dark:text-white text-sm';
+  const buttonClass = 'px-3 py-1.5 rounded-lg text-sm font-medium disabled:opacity-50 transition-colors';
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden mt-6">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-semibold text-black dark:text-white mb-1 flex items-center gap-2">
+          <Copy className="w-5 h-5 text-blue-500" />
+          Syllabus Templates
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Save a subject&apos;s units and planned hours once and create it again in any batch. Template edits are offered as a merge to the subjects made from it.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {resultMessage && (
+          <div className="flex items-center gap-2 p-3 rounded-xl bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-800 dark:text-green-200 text-sm">
+            <CheckCircle className="w-5 h-5 flex-shrink-0" />
+            {resultMessage}
+          </div>
+        )}
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 text-sm">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <select value={sourceSubjectId} onChange={(e) => setSourceSubjectId(e.target.value)} className={`${inputClass} flex-1`}>
+            <option value="">Save subject as template…</option>
+            {subjects.map(s => (
+              <option key={s._id} value={s._id}>{s.name}{s.batch ? ` (${s.batch.name})` : ''}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+            placeholder="Template name (optional)"
+            className={`${inputClass} flex-1`}
+          />
+          <button
+            onClick={handleSaveFromSubject}
+            disabled={busy || !sourceSubjectId}
+            className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`}
+          >
+            Save template
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          </div>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">No templates yet.</p>
+        ) : (
+          templates.map(template => {
+            const outdated = template.subjects.filter(s => s.outdated);
+            const panel = openPanel?.templateId === template._id ? openPanel : null;
+            return (
+              <div key={template._id} className="p-4 rounded-xl border border-gray-200 dark:border-slate-700 bg-gray-50 dark:bg-slate-700/30 space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-semibold text-black dark:text-white">{template.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {template.subjectName} · {template.units.length} units · {template.plannedHours}h planned · v{template.version}
+                    </p>
+                  </div>
+                  <div className="flex gap-1">
+                    <button onClick={() => { setOpenPanel({ templateId: template._id, kind: 'use' }); setUseBatchId(''); setUseTeacherId(''); }} className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`}>
+                      Use in batch
+                    </button>
+                    <button onClick={() => openEdit(template)} title="Edit" className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-slate-700">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDelete(template)} disabled={busy} title="Delete" className="p-1.5 rounded-lg text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {template.subjects.length > 0 && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {template.subjects.map(subject => (
+                      <button
+                        key={subject._id}
+                        onClick={() => subject.outdated && openMerge(template, subject._id)}
+                        className={`px-2 py-0.5 rounded-full text-xs font-medium ${subject.outdated
+                          ? 'bg-amber-100 text-amber-800 dark:bg-amber-500/20 dark:text-amber-200 hover:bg-amber-200'
+                          : 'bg-gray-200 text-gray-700 dark:bg-slate-600 dark:text-gray-200 cursor-default'}`}
+                        title={subject.outdated ? 'Template changed since - review merge' : 'Up to date'}
+                      >
+                        {subject.batch?.name || subject.name}{subject.outdated ? ' · update available' : ''}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {outdated.length > 1 && (
+                  <button
+                    onClick={() => runAction(
+                      () => api.mergeSyllabusTemplate(template._id, outdated.map(s => s._id)),
+                      (r) => `Merged into ${r.data.length} subject(s)`
+                    )}
+                    disabled={busy}
+                    className={`${buttonClass} bg-amber-500 text-white hover:bg-amber-600 flex items-center gap-1`}
+                  >
+                    <GitMerge className="w-4 h-4" />
+                    Merge into all {outdated.length} outdated batches
+                  </button>
+                )}
+
+                {panel?.kind === 'use' && (
+                  <div className="flex flex-col sm:flex-row gap-2 pt-2 border-t border-gray-200 dark:border-slate-600">
+                    <select value={useBatchId} onChange={(e) => setUseBatchId(e.target.value)} className={`${inputClass} flex-1`}>
+                      <option value="">Select batch</option>
+                      {batches.map(b => <option key={b._id} value={b._id}>{b.name}</option>)}
+                    </select>
+                    <select value={useTeacherId} onChange={(e) => setUseTeacherId(e.target.value)} className={`${inputClass} flex-1`}>
+                      <option value="">No teacher yet</option>
+                      {teachers.map(t => <option key={t.teacherId} value={t.teacherId}>{t.teacherName}</option>)}
+                    </select>
+                    <button
+                      onClick={() => runAction(
+                        () => api.instantiateSyllabusTemplate(template._id, useBatchId, useTeacherId || null),
+                        () => `${template.subjectName} created${useTeacherId ? ' - teacher assignment sent for approval' : ''}`
+                      )}
+                      disabled={busy || !useBatchId}
+                      className={`${buttonClass} bg-green-600 text-white hover:bg-green-700`}
+                    >
+                      Create subject
+                    </button>
+                    <button onClick={() => setOpenPanel(null)} className="p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-slate-700">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+
+                {panel?.kind === 'edit' && (
+                  <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-slate-600">
+                    {editUnits.map((unit, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <span className="text-xs text-gray-500 dark:text-gray-400 w-5 text-right">{index + 1}.</span>
+                        <input
+                          type="text"
+                          value={unit.name}
+                          onChange={(e) => setEditUnits(editUnits.map((u, i) => i === index ? { ...u, name: e.target.value } : u))}
+                          className={`${inputClass} flex-1 min-w-0`}
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          value={unit.plannedHours}
+                          onChange={(e) => setEditUnits(editUnits.map((u, i) => i === index ? { ...u, plannedHours: e.target.value } : u))}
+                          placeholder="0"
+                          className={`${inputClass} w-20 text-right`}
+                        />
+                        <span className="text-sm text-gray-500 dark:text-gray-400">h</span>
+                        <button
+                          onClick={() => setEditUnits(editUnits.filter((_, i) => i !== index))}
+                          disabled={editUnits.length <= 1}
+                          className="p-1.5 rounded-lg text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-40"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                    <div className="flex gap-2">
+                      <button onClick={() => setEditUnits([...editUnits, { name: '', plannedHours: '' }])} className={`${buttonClass} text-blue-600 dark:text-blue-400 flex items-center gap-1`}>
+                        <Plus className="w-4 h-4" />
+                        Add unit
+                      </button>
+                      <div className="flex-1" />
+                      <button onClick={() => setOpenPanel(null)} className={`${buttonClass} bg-gray-200 dark:bg-slate-600 text-black dark:text-white`}>
+                        Cancel
+                      </button>
+                      <button
+                        onClick={() => runAction(
+                          () => api.updateSyllabusTemplate(template._id, {
+                            units: editUnits.map(u => ({ name: u.name.trim(), plannedHours: u.plannedHours === '' ? 0 : Number(u.plannedHours) }))
+                          }),
+                          () => template.subjects.length > 0 ? 'Template saved - subjects using it can now merge the changes' : 'Template saved'
+                        )}
+                        disabled={busy}
+                        className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`}
+                      >
+                        Save template
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {panel?.kind === 'merge' && (
+                  <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-slate-600 text-sm">
+                    <p className="font-medium text-black dark:text-white">
+                      Merge v{template.version} into {template.subjects.find(s => s._id === panel.subjectId)?.batch?.name || 'subject'}
+                    </p>
+                    {!mergePreview ? (
+                      <Loader2 className="w-5 h-5 animate-spin text-blue-500" />
+                    ) : (
+                      <>
+                        {mergePreview.add.length === 0 && mergePreview.update.length === 0 && !mergePreview.reorder && (
+                          <p className="text-gray-500 dark:text-gray-400">No unit changes - the subject will be marked up to date.</p>
+                        )}
+                        {mergePreview.add.map(unit => (
+                          <p key={`add-${unit.name}`} className="text-green-700 dark:text-green-400">+ {unit.name} ({unit.plannedHours}h)</p>
+                        ))}
+                        {mergePreview.update.map(change => (
+                          <p key={change.unitId} className="text-blue-700 dark:text-blue-300">
+                            {change.name}: {change.plannedHoursBefore}h → {change.plannedHoursAfter}h
+                          </p>
+                        ))}
+                        {mergePreview.reorder && <p className="text-blue-700 dark:text-blue-300">Units will follow the template&apos;s order.</p>}
+                        {mergePreview.extra.length > 0 && (
+                          <p className="text-gray-500 dark:text-gray-400">
+                            Kept (not in template): {mergePreview.extra.map(u => u.name).join(', ')}
+                          </p>
+                        )}
+                        <div className="flex gap-2 justify-end">
+                          <button onClick={() => setOpenPanel(null)} className={`${buttonClass} bg-gray-200 dark:bg-slate-600 text-black dark:text-white`}>
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() => runAction(
+                              () => api.mergeSyllabusTemplate(template._id, [panel.subjectId]),
+                              () => 'Template merged'
+                            )}
+                            disabled={busy}
+                            className={`${buttonClass} bg-amber-500 text-white hover:bg-amber-600`}
+                          >
+                            Merge
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { Calendar, ChevronLeft, ChevronRight, Clock, CheckCircle2, PlayCircle, BookOpen, X, Sparkles } from 'lucide-react';
+import { Calendar, ChevronLeft, ChevronRight, Clock, CheckCircle2, PlayCircle, BookOpen, X, Sparkles, Download } from 'lucide-react';
 import api from '../services/api';
 import { Calendar as UiCalendar } from './ui/calendar';
 
@@ -8,6 +8,8 @@ interface ScheduleEntry {
   subjectName: string;
   batch?: string;
   slotIds: string[];
+  coveredBy?: { name: string } | null; // a substitute takes this class
+  coverFor?: { name: string } | null;  // this is a class taken for someone else
 }
 
 interface CalendarDay {
@@ -19,11 +21,18 @@ interface CalendarDay {
   totalUnits: number;
 }
 
+interface AcademicDay {
+  type: 'holiday' | 'vacation' | 'exam-week' | 'working-day';
+  name: string;
+  isWorkingDay: boolean;
+}
+
 interface PlanningItem {
   date: Date;
   hours: number;
   subject: string;
   batch?: string;
+  note?: string;
   status: 'scheduled' | 'history';
 }
 
@@ -36,7 +45,10 @@ interface TeacherCalendarProps {
 export function TeacherCalendar({ user, subjects, isDarkMode = false }: TeacherCalendarProps) {
   const [currentMonth, setCurrentMonth] = useState(new Date());
   const [calendarData, setCalendarData] = useState<Map<string, CalendarDay>>(new Map());
+  // Academic calendar (holidays, vacations, exam weeks) keyed by YYYY-MM-DD
+  const [academicDays, setAcademicDays] = useState<Record<string, AcademicDay>>({});
   const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
   // Build planning list from real calendar data (approved/sent timetable from verifier)
   const planningData = useMemo((): PlanningItem[] => {
     const today = new Date();
@@ -64,6 +76,7 @@ export function TeacherCalendar({ user, subjects, isDarkMode = false }: TeacherC
           hours,
           subject: entry.subjectName || 'Class',
           batch: entry.batch,
+          note: entry.coveredBy ? `Covered by ${entry.coveredBy.name}` : entry.coverFor ? `Cover for ${entry.coverFor.name}` : undefined,
           status: isPast ? 'history' : 'scheduled'
         });
       });
@@ -71,6 +84,21 @@ export function TeacherCalendar({ user, subjects, isDarkMode = false }: TeacherC
     return items.sort((a, b) => a.date.getTime() - b.date.getTime());
   }, [calendarData, currentMonth]);
 
+  const academicEvents = useMemo(() => {
+    // Collapse consecutive days of the same event into one row
+    const rows: Array<{ name: string; type: AcademicDay['type']; from: string; to: string }> = [];
+    Object.keys(academicDays).sort().forEach((key) => {
+      const day = academicDays[key];
+      const last = rows[rows.length - 1];
+      if (last && last.name === day.name && last.type === day.type) {
+        last.to = key;
+      } else {
+        rows.push({ name: day.name, type: day.type, from: key, to: key });
+      }
+    });
+    return rows.filter(row => row.type !== 'working-day');
+  }, [academicDays]);
+
   const scheduledData = planningData.filter(p => p.status === 'scheduled');
   const historyData = planningData.filter(p => p.status === 'history');
 
@@ -82,6 +110,28 @@ export function TeacherCalendar({ user, subjects, isDarkMode = false }: TeacherC
     loadCalendarData();
   }, [currentMonth]);
 
+  // Download the shown month's classes as an .ics file for phone/desktop calendars
+  const handleExportIcs = async () => {
+    try {
+      setExporting(true);
+      const startDate = new Date(currentMonth.getFullYear(), currentMonth.getMonth(), 1);
+      const endDate = new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 0);
+      const blob = await api.downloadTeacherCalendarIcs(startDate, endDate);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `timetable-${formatDateKey(startDate).slice(0, 7)}.ics`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      alert(error.message || 'Failed to export calendar');
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const loadCalendarData = async () => {
     try {
       setLoading(true);
@@ -126,7 +176,9 @@ export function TeacherCalendar({ user, subjects, isDarkMode = false }: TeacherC
                 day.scheduleEntries = slot.scheduleEntries.map((e: any) => ({
                   subjectName: e.subjectName ?? '',
                   batch: e.batch,
-                  slotIds: Array.isArray(e.slotIds) ? e.slotIds : []
+                  slotIds: Array.isArray(e.slotIds) ? e.slotIds : [],
+                  coveredBy: e.coveredBy || null,
+                  coverFor: e.coverFor || null
                 }));
               }
             }
@@ -154,17 +206,19 @@ export function TeacherCalendar({ user, subjects, isDarkMode = false }: TeacherC
 
             if (log.status === 'completed') {
               day.completedUnits += 1;
-            } else if (log.status === 'in-progress') {
+            } else if (log.status === 'in-progress' || log.status === 'paused') {
               day.inProgressUnits += 1;
             }
           });
         }
 
         setCalendarData(dataMap);
+        setAcademicDays(response.data.calendarDays || {});
       }
     } catch (err: any) {
       console.error('Error loading calendar data:', err);
       setCalendarData(new Map());
+      setAcademicDays({});
     } finally {
       setLoading(false);
     }
@@ -210,6 +264,11 @@ export function TeacherCalendar({ user, subjects, isDarkMode = false }: TeacherC
     };
 
     const modifiers = {
+      holiday: (date: Date) => {
+        const day = academicDays[formatDateKey(date)];
+        return !!day && !day.isWorkingDay;
+      },
+      examWeek: (date: Date) => academicDays[formatDateKey(date)]?.type === 'exam-week',
       planned: (date: Date) => {
         // Check if it's today first - if so, don't mark as planned (today takes precedence)
         const dateNormalized = new Date(date);
@@ -228,6 +287,18 @@ export function TeacherCalendar({ user, subjects, isDarkMode = false }: TeacherC
     };
 
     const modifiersStyles = {
+      holiday: {
+        backgroundColor: '#fee2e2', // red-100
+        color: '#991b1b', // red-800
+        fontWeight: '600',
+        borderRadius: '8px'
+      },
+      examWeek: {
+        backgroundColor: '#fef3c7', // amber-100
+        color: '#92400e', // amber-800
+        fontWeight: '600',
+        borderRadius: '8px'
+      },
       planned: {
         backgroundColor: '#dcfce7', // green-100 (lighter green)
         color: '#166534', // green-800 (dark green text)
@@ -276,6 +347,22 @@ export function TeacherCalendar({ user, subjects, isDarkMode = false }: TeacherC
             modifiersStyles={modifiersStyles}
             className="w-full"
           />
+
+          {academicEvents.length > 0 && (
+            <div className="mt-6 space-y-2">
+              {academicEvents.map((event) => (
+                <div key={`${event.from}-${event.name}`} className="flex items-center gap-3 text-sm">
+                  <span className={`w-3 h-3 rounded-full flex-shrink-0 ${event.type === 'exam-week' ? 'bg-amber-400' : 'bg-red-400'}`} />
+                  <span className="font-medium text-gray-800 dark:text-gray-200">{event.name}</span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {new Date(`${event.from}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    {event.to !== event.from && ` – ${new Date(`${event.to}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`}
+                  </span>
+                  <span className="text-xs text-gray-400 capitalize">{event.type.replace('-', ' ')}</span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
     );
@@ -307,6 +394,15 @@ export function TeacherCalendar({ user, subjects, isDarkMode = false }: TeacherC
             </h2>
           </div>
         </div>
+        <button
+          onClick={handleExportIcs}
+          disabled={exporting}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-gray-200 text-sm font-semibold hover:bg-gray-200 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors"
+          title="Download this month's classes for your calendar app"
+        >
+          <Download className="w-4 h-4" />
+          {exporting ? 'Exporting...' : 'Export .ics'}
+        </button>
       </div>
 
       {/* Calendar View */}
@@ -370,6 +466,9 @@ export function TeacherCalendar({ user, subjects, isDarkMode = false }: TeacherC
                             {plan.batch ? <> · <span className="font-medium">Batch:</span> {plan.batch}</> : null}
                           </p>
                         )}
+                        {plan.note && (
+                          <p className="text-xs font-semibold text-amber-700 dark:text-amber-300 mt-1">{plan.note}</p>
+                        )}
                       </div>
                     </div>
                     <div className="px-3 py-1 rounded-full bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 text-xs font-semibold flex-shrink-0 ml-2">
@@ -404,6 +503,9 @@ export function TeacherCalendar({ user, subjects, isDarkMode = false }: TeacherC
                           {plan.batch ? <> · <span className="font-medium">Batch:</span> {plan.batch}</> : null}
                         </p>
                       )}
+                      {plan.note && (
+                        <p className="text-xs font-semibold text-amber-700 dark:text-amber-300 mt-0.5">{plan.note}</p>
+                      )}
                     </div>
                     <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0 ml-2">Done</span>
                   </div>
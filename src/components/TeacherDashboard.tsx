@@ -1,31 +1,24 @@
 import { useState, useEffect } from 'react';
-import { Clock, CheckCircle2, Calendar, ListTodo, Target, X, Bell, BookOpen, AlertCircle, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Clock, CheckCircle2, Calendar, ListTodo, Target, X, Bell, BookOpen, AlertCircle, ChevronLeft, ChevronRight, CalendarOff } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { TimeSlotSelector } from './TimeSlotSelector';
+import { TimeSlotSelector, type DaySlot, type SlotTag } from './TimeSlotSelector';
 import { ActiveUnitCard } from './ActiveUnitCard';
 import { MetricCard } from './MetricCard';
+import { LeaveRequestModal } from './LeaveRequestModal';
 import api from '../services/api';
 
-// Time slot definitions for labels
-const timeSlots = [
-  { id: '9-10', label: '9:00 - 10:00', value: 1 },
-  { id: '10-11', label: '10:00 - 11:00', value: 1 },
-  { id: '11-12', label: '11:00 - 12:00', value: 1 },
-  { id: '12-13', label: '12:00 - 13:00', value: 1 },
-  { id: '13-14', label: '13:00 - 14:00', value: 1 },
-  { id: '14-15', label: '14:00 - 15:00', value: 1 },
-  { id: '15-16', label: '15:00 - 16:00', value: 1 },
-  { id: '16-17', label: '16:00 - 17:00', value: 1 },
-];
-
 export interface Unit {
   id: string;
   name: string;
-  status: 'not-started' | 'in-progress' | 'completed';
+  status: 'not-started' | 'in-progress' | 'paused' | 'completed';
   startedAt?: Date;
   completedAt?: Date;
   elapsedTime?: number; // in seconds
   progressDays?: number; // days since start (shows from day 2)
+  attemptKind?: 'first-delivery' | 'revision' | 'remedial' | null;
+  attempts?: number; // runs of the unit, the current one included
+  firstCompletedAt?: Date | null;
+  examLocked?: boolean; // exam finished: no start, complete or restart
 }
 
 export interface Subject {
@@ -36,6 +29,12 @@ export interface Subject {
   batch?: { id: string; name: string; year: string };
 }
 
+interface DayLeave {
+  duration: 'full' | 'half';
+  session?: 'first-half' | 'second-half' | null;
+  reason?: string;
+}
+
 interface TeacherDashboardProps {
   user: any;
   isDarkMode?: boolean;
@@ -44,7 +43,44 @@ interface TeacherDashboardProps {
 
 const TEACHER_DASHBOARD_CACHE_KEY = 'api_cache_/api/teacher/dashboard';
 
-function getTeacherDashboardFromCache(): { subjects: Subject[]; selectedSlots: string[]; breakDuration: number | null; approvedHours: number | undefined } | null {
+// Periods of the viewed day (from the bell schedule the record was created with)
+function toDaySlots(slots: any[]): DaySlot[] {
+  return (slots || []).map((s: any) => ({ slotId: s.slotId, label: s.label, duration: s.duration }));
+}
+
+// Tag per slot: what was recorded for checked slots, else the timetable's class (and its running unit)
+function toSlotTags(timeSlots: any, subjects: Subject[]): Record<string, SlotTag> {
+  const normalize = (value: string) => (value || '').trim().toLowerCase();
+  const tags: Record<string, SlotTag> = {};
+  (timeSlots?.slots || []).forEach((slot: any) => {
+    if (slot.checked) {
+      if (slot.taught?.subject) {
+        tags[slot.slotId] = {
+          subject: String(slot.taught.subject),
+          unit: slot.taught.unit ? String(slot.taught.unit) : '',
+          topic: slot.taught.topic || '',
+          subjectName: slot.taught.subjectName,
+          unitName: slot.taught.unitName
+        };
+      }
+      return;
+    }
+    const entry = (timeSlots.scheduleEntries || []).find((e: any) =>
+      !e.coveredBy && !e.needsCover && (e.slotIds || []).includes(slot.slotId)
+    );
+    const subject = entry && subjects.find(s =>
+      normalize(s.name) === normalize(entry.subjectName) &&
+      (!entry.batch || !s.batch?.name || normalize(s.batch.name) === normalize(entry.batch))
+    );
+    if (subject) {
+      const runningUnit = subject.units.find(u => u.status === 'in-progress' || u.status === 'paused');
+      tags[slot.slotId] = { subject: subject.id, unit: runningUnit?.id || '', topic: '' };
+    }
+  });
+  return tags;
+}
+
+function getTeacherDashboardFromCache(): { subjects: Subject[]; selectedSlots: string[]; daySlots: DaySlot[]; breakDuration: number | null; approvedHours: number | undefined } | null {
   try {
     const raw = localStorage.getItem(TEACHER_DASHBOARD_CACHE_KEY);
     if (!raw) return null;
@@ -53,18 +89,20 @@ function getTeacherDashboardFromCache(): { subjects: Subject[]; selectedSlots: s
     if (!payload?.subjects) return null;
     const subjects = Array.isArray(payload.subjects) ? payload.subjects : [];
     let selectedSlots: string[] = [];
+    let daySlots: DaySlot[] = [];
     let breakDuration: number | null = null;
     let approvedHours: number | undefined = undefined;
     if (payload.timeSlots) {
       if (payload.timeSlots.breakDuration !== undefined) breakDuration = payload.timeSlots.breakDuration;
       if (payload.timeSlots.totalHours !== undefined) approvedHours = payload.timeSlots.totalHours;
       if (payload.timeSlots.slots?.length) {
+        daySlots = toDaySlots(payload.timeSlots.slots);
         selectedSlots = payload.timeSlots.slots
           .filter((s: any) => s.checked === true)
           .map((s: any) => s.slotId);
       }
     }
-    return { subjects, selectedSlots, breakDuration, approvedHours };
+    return { subjects, selectedSlots, daySlots, breakDuration, approvedHours };
   } catch {
     return null;
   }
@@ -75,6 +113,8 @@ export function TeacherDashboard({ user, isDarkMode = false, onNavigate }: Teach
   const [currentTime, setCurrentTime] = useState(new Date());
   const [subjects, setSubjects] = useState<Subject[]>(initialCache?.subjects ?? []);
   const [selectedSlots, setSelectedSlots] = useState<string[]>(initialCache?.selectedSlots ?? []);
+  const [daySlots, setDaySlots] = useState<DaySlot[]>(initialCache?.daySlots ?? []);
+  const [slotTags, setSlotTags] = useState<Record<string, SlotTag>>({});
   const [breakDuration, setBreakDuration] = useState<number | null>(initialCache?.breakDuration ?? null);
   const [approvedHours, setApprovedHours] = useState<number | undefined>(initialCache?.approvedHours ?? undefined);
   const [loading, setLoading] = useState(!initialCache);
@@ -83,6 +123,9 @@ export function TeacherDashboard({ user, isDarkMode = false, onNavigate }: Teach
   const [errorModalMessage, setErrorModalMessage] = useState('');
   const [pendingNotificationsCount, setPendingNotificationsCount] = useState(0);
   const [prevDayMissing, setPrevDayMissing] = useState(false);
+  const [dayLeave, setDayLeave] = useState<DayLeave | null>(null);
+  const [payPeriodLock, setPayPeriodLock] = useState<{ name: string } | null>(null);
+  const [showLeaveModal, setShowLeaveModal] = useState(false);
   const [activeUnitIndex, setActiveUnitIndex] = useState(0);
   const [selectedDate, setSelectedDate] = useState(new Date());
 
@@ -145,6 +188,9 @@ export function TeacherDashboard({ user, isDarkMode = false, onNavigate }: Teach
 
         setSubjects(response.data.subjects || []);
 
+        setDayLeave(response.data.timeSlots?.leave || null);
+        setPayPeriodLock(response.data.payPeriodLock || null);
+
         // Set selected time slots - ONLY show approved slots
         if (response.data.timeSlots) {
           // Set break duration from backend
@@ -158,6 +204,9 @@ export function TeacherDashboard({ user, isDarkMode = false, onNavigate }: Teach
           }
 
           if (response.data.timeSlots.slots) {
+            setDaySlots(toDaySlots(response.data.timeSlots.slots));
+            setSlotTags(toSlotTags(response.data.timeSlots, response.data.subjects || []));
+
             // Get all checked slots from backend
             // IMPORTANT: Deselections are immediate (checked: false in DB), so we only show checked: true slots
             // Selections require approval, but once approved they're also checked: true in DB
@@ -239,9 +288,10 @@ export function TeacherDashboard({ user, isDarkMode = false, onNavigate }: Teach
   // Find ALL active units from all subjects
   const activeUnits = subjects
     .flatMap(s => s.units
-      .filter(u => u.status === 'in-progress')
+      .filter(u => u.status === 'in-progress' || u.status === 'paused')
       .map(u => ({
         ...u,
+        status: u.status as 'in-progress' | 'paused',
         subjectName: s.name,
         subjectColor: s.color,
         subjectId: s.id,
@@ -258,7 +308,7 @@ export function TeacherDashboard({ user, isDarkMode = false, onNavigate }: Teach
   // Calculate stats for cards
   const totalUnits = subjects.flatMap(s => s.units).length;
   const completedUnits = subjects.flatMap(s => s.units).filter(u => u.status === 'completed').length;
-  const inProgressUnits = subjects.flatMap(s => s.units).filter(u => u.status === 'in-progress').length;
+  const inProgressUnits = subjects.flatMap(s => s.units).filter(u => u.status === 'in-progress' || u.status === 'paused').length;
   const pendingUnits = subjects.flatMap(s => s.units).filter(u => u.status === 'not-started').length;
 
   const handleStartUnit = async (subjectId: string, unitId: string) => {
@@ -316,6 +366,20 @@ export function TeacherDashboard({ user, isDarkMode = false, onNavigate }: Teach
     }
   };
 
+  // Pausing stops the unit's teaching time until it is resumed
+  const handlePauseResumeUnit = async (unitId: string, action: 'pause' | 'resume') => {
+    try {
+      const response = action === 'pause' ? await api.pauseUnit(unitId) : await api.resumeUnit(unitId);
+      if (response && response.success) {
+        await loadDashboardData();
+      } else {
+        alert(response?.message || `Failed to ${action} unit`);
+      }
+    } catch (err: any) {
+      alert(err.message || `Failed to ${action} unit`);
+    }
+  };
+
   const handleCompleteUnit = async (subjectId: string, unitId: string) => {
     try {
       const response = await api.completeUnit(unitId);
@@ -355,7 +419,7 @@ export function TeacherDashboard({ user, isDarkMode = false, onNavigate }: Teach
     setSelectedSlots(slots);
   };
 
-  const handleTimeSlotSave = async (slots: string[], breakDuration?: number | null) => {
+  const handleTimeSlotSave = async (slots: string[], breakDuration?: number | null, tags?: Record<string, SlotTag>) => {
     // Save only CHANGED slots to backend when "Done" is clicked
     console.log('🔄 handleTimeSlotSave called with slots:', slots);
     console.log('📊 Previous slots (from state - may be stale):', selectedSlots);
@@ -498,7 +562,9 @@ export function TeacherDashboard({ user, isDarkMode = false, onNavigate }: Teach
       for (const { slotId, checked } of changedSlots) {
         try {
           console.log(`📤 Updating slot ${slotId} to checked=${checked}`);
-          const result = await api.updateTimeSlot(slotId, checked, null, selectedDate);
+          // Selections carry what was taught in the slot
+          const tag = checked ? tags?.[slotId] : null;
+          const result = await api.updateTimeSlot(slotId, checked, null, selectedDate, tag?.subject ? tag : null);
           console.log(`✅ Slot ${slotId} updated:`, {
             success: result?.success,
             message: result?.message,
@@ -527,7 +593,8 @@ export function TeacherDashboard({ user, isDarkMode = false, onNavigate }: Teach
       const hasPendingRequests = results.some(r => {
         const message = r.result?.message || '';
         const isImmediate = message.includes('deselected successfully') || r.result?.data?.immediate === true;
-        const isPending = !isImmediate && (message.includes('pending') || message.includes('approval'));
+        const isAutoApproved = r.result?.data?.autoApproved === true;
+        const isPending = !isImmediate && !isAutoApproved && (message.includes('pending') || message.includes('approval'));
         console.log(`🔍 Slot ${r.slotId} check:`, { message, isImmediate, isPending, result: r.result });
         return isPending;
       });
@@ -538,6 +605,8 @@ export function TeacherDashboard({ user, isDarkMode = false, onNavigate }: Teach
         return isImmediate;
       });
 
+      const autoApprovedCount = results.filter(r => r.result?.data?.autoApproved === true).length;
+
       console.log('🔍 Has pending requests:', hasPendingRequests);
       console.log('🔍 Has immediate changes:', hasImmediateChanges);
 
@@ -556,7 +625,9 @@ export function TeacherDashboard({ user, isDarkMode = false, onNavigate }: Teach
         const deselectedCount = changedSlots.filter(s => !s.checked).length;
 
         let message = `✅ ${changedCount} time slot update request(s) submitted!`;
-        if (selectedCount > 0 && deselectedCount > 0) {
+        if (autoApprovedCount > 0) {
+          message += ` (${autoApprovedCount} auto-approved, ${selectedCount - autoApprovedCount} selected - waiting for verifier approval${deselectedCount > 0 ? `, ${deselectedCount} deselected - saved immediately` : ''})`;
+        } else if (selectedCount > 0 && deselectedCount > 0) {
           message += ` (${selectedCount} selected - pending approval, ${deselectedCount} deselected - saved immediately)`;
         } else if (selectedCount > 0) {
           message += ` (${selectedCount} selected - waiting for verifier approval)`;
@@ -566,10 +637,12 @@ export function TeacherDashboard({ user, isDarkMode = false, onNavigate }: Teach
 
         alert(message);
       } else {
-        // All changes were immediate (deselections)
+        // All changes were immediate (deselections or auto-approved selections)
         console.log('✅ All slots saved successfully (immediate deselections)');
         const deselectedCount = changedSlots.filter(s => !s.checked).length;
-        if (deselectedCount > 0) {
+        if (autoApprovedCount > 0) {
+          alert(`✅ ${autoApprovedCount} time slot(s) auto-approved and saved${deselectedCount > 0 ? `, ${deselectedCount} deselected` : ''}!`);
+        } else if (deselectedCount > 0) {
           alert(`✅ ${deselectedCount} time slot(s) deselected and saved immediately!`);
         } else {
           alert('✅ Time slots saved successfully!');
@@ -757,6 +830,8 @@ export function TeacherDashboard({ user, isDarkMode = false, onNavigate }: Teach
                   >
                     <ActiveUnitCard
                       unit={activeUnit}
+                      onPause={() => handlePauseResumeUnit(activeUnit.id, 'pause')}
+                      onResume={() => handlePauseResumeUnit(activeUnit.id, 'resume')}
                     />
                   </div>
                 ))}
@@ -795,6 +870,38 @@ export function TeacherDashboard({ user, isDarkMode = false, onNavigate }: Teach
         </motion.div>
       )}
 
+      {/* Leave for the viewed day */}
+      <div className="mb-4 flex flex-col sm:flex-row sm:items-center gap-3">
+        {dayLeave && (
+          <div className="flex-1 flex items-center gap-3 p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+            <CalendarOff className="w-5 h-5 text-amber-600 dark:text-amber-400 flex-shrink-0" />
+            <div className="min-w-0">
+              <p className="text-sm font-semibold text-amber-900 dark:text-amber-100">
+                On leave {dayLeave.duration === 'full' ? '(full day)' : dayLeave.session === 'second-half' ? '(second half)' : '(first half)'}
+              </p>
+              {dayLeave.reason && (
+                <p className="text-xs text-amber-700 dark:text-amber-300 truncate">{dayLeave.reason}</p>
+              )}
+            </div>
+          </div>
+        )}
+        <button
+          onClick={() => setShowLeaveModal(true)}
+          className="sm:ml-auto flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 text-sm font-semibold text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+        >
+          <CalendarOff className="w-4 h-4" />
+          Request Leave
+        </button>
+      </div>
+
+      <LeaveRequestModal
+        key={selectedDate.toDateString()}
+        isOpen={showLeaveModal}
+        onClose={() => setShowLeaveModal(false)}
+        onSubmitted={loadNotificationsCount}
+        defaultDate={selectedDate}
+      />
+
       {/* Time Slot Section - Modern Mobile Card */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -805,13 +912,17 @@ export function TeacherDashboard({ user, isDarkMode = false, onNavigate }: Teach
         <TimeSlotSelector
           key={selectedDate.toISOString()} // Force remount when date changes to reset internal state
           selectedSlots={selectedSlots}
+          daySlots={daySlots}
           onSelectionChange={handleTimeSlotChange}
           onSave={handleTimeSlotSave}
+          tagSubjects={subjects}
+          slotTags={slotTags}
           breakDuration={breakDuration}
           approvedHours={approvedHours}
           prevDayMissing={prevDayMissing}
           onGoToPreviousDay={goToPreviousDay}
           selectedDate={selectedDate}
+          payPeriodLock={payPeriodLock}
         />
       </motion.div>
 
@@ -1,14 +1,18 @@
 import { motion } from 'motion/react';
 import { CheckCircle, Clock, AlertCircle, Search } from 'lucide-react';
 import { TeacherProgress } from './AdminDashboard';
+import { ProgressWeightingToggle } from './ProgressWeightingToggle';
+import { ProgressWeighting, TeacherAssignedProgress, getProgressValues, getProgressPercent } from '../utils/progressWeighting';
 import { useState } from 'react';
 
 interface TeacherProgressTableProps {
   data: TeacherProgress[];
+  summaries?: TeacherAssignedProgress[]; // completion over each teacher's assigned units
 }
 
-export function TeacherProgressTable({ data }: TeacherProgressTableProps) {
+export function TeacherProgressTable({ data, summaries = [] }: TeacherProgressTableProps) {
   const [searchQuery, setSearchQuery] = useState('');
+  const [weighting, setWeighting] = useState<ProgressWeighting>('count');
 
   const filteredData = data.filter(item =>
     item.teacherName.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -44,6 +48,11 @@ export function TeacherProgressTable({ data }: TeacherProgressTableProps) {
     }
   };
 
+  // Completion per teacher over all units of their assigned subjects, counted or weighted by planned hours / marks
+  const teacherSummaries = summaries.filter(summary =>
+    summary.teacherName.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
   const formatDateTime = (date: Date) => {
     return date.toLocaleString('en-US', {
       month: 'short',
@@ -54,6 +63,35 @@ export function TeacherProgressTable({ data }: TeacherProgressTableProps) {
     });
   };
 
+  // Taught hours, with the plan and how far off it they are when the unit has an estimate
+  const renderHours = (item: TeacherProgress) => (
+    <>
+      <span className="text-sm font-semibold text-white tabular-nums">
+        {item.totalHours.toFixed(1)}h
+        {item.plannedHours ? <span className="font-normal text-white/60"> / {item.plannedHours}h</span> : null}
+      </span>
+      {item.plannedHours && item.varianceHours != null ? (
+        <span className={`block text-xs tabular-nums ${item.varianceHours > 0 ? 'text-red-300' : 'text-emerald-300'}`}>
+          {item.varianceHours > 0 ? '+' : ''}{item.varianceHours.toFixed(1)}h vs plan
+        </span>
+      ) : null}
+      {item.attempts && item.attempts > 1 && item.totalHoursAllAttempts != null ? (
+        <span className="block text-xs text-white/60 tabular-nums">
+          {item.totalHoursAllAttempts.toFixed(1)}h over {item.attempts} attempts
+        </span>
+      ) : null}
+    </>
+  );
+
+  // Revision / remedial runs of a unit that was already completed once
+  const renderAttempt = (item: TeacherProgress) =>
+    item.attemptKind && item.attemptKind !== 'first-delivery' ? (
+      <span className="block text-xs text-amber-300">
+        {item.attemptKind === 'remedial' ? 'Remedial' : 'Revision'}
+        {item.firstCompletedAt ? ` · first completed ${formatDateShort(item.firstCompletedAt)}` : ''}
+      </span>
+    ) : null;
+
   const formatDateShort = (date: Date) => {
     return date.toLocaleDateString('en-US', {
       month: 'short',
@@ -65,9 +103,35 @@ export function TeacherProgressTable({ data }: TeacherProgressTableProps) {
     <div className="bg-gradient-to-br from-slate-800 via-blue-900 to-indigo-900 rounded-2xl sm:rounded-3xl p-4 sm:p-6 lg:p-8 border border-slate-700/50 shadow-2xl">
       {/* Header */}
       <div className="flex flex-col gap-4 sm:gap-5 mb-5 sm:mb-6 lg:mb-8">
-        <h2 className="text-xl sm:text-2xl font-bold text-white">
-          Teacher Progress
-        </h2>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-xl sm:text-2xl font-bold text-white">
+            Teacher Progress
+          </h2>
+          <ProgressWeightingToggle value={weighting} onChange={setWeighting} dark />
+        </div>
+
+        {/* Completion per teacher */}
+        {teacherSummaries.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {teacherSummaries.map(summary => {
+              const { weighted } = getProgressValues(summary, weighting);
+              const percent = Math.round(getProgressPercent(summary, weighting));
+              return (
+                <div
+                  key={summary.teacherId}
+                  className="px-3 py-2 rounded-xl bg-white/10 border border-white/10 text-xs text-white"
+                  title={weighting !== 'count' && !weighted ? 'No weights set for these units, counting units' : undefined}
+                >
+                  <span className="font-semibold">{summary.teacherName}</span>
+                  <span className="ml-2 tabular-nums">{percent}%</span>
+                  <span className="ml-1 text-white/60">
+                    ({summary.completed}/{summary.total} units{weighted ? `, ${weighting === 'marks' ? 'by marks' : 'by hours'}` : ''})
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
 
         {/* Search Bar */}
         <div className="relative">
@@ -104,9 +168,10 @@ export function TeacherProgressTable({ data }: TeacherProgressTableProps) {
                   <p className="text-xs text-white/70 truncate">
                     {item.unit}
                   </p>
+                  {renderAttempt(item)}
                 </div>
                 <div className="flex-shrink-0">
-                  {getStatusBadge(item.status)}
+                  {getStatusBadge(item.delayed ? 'delayed' : item.status)}
                 </div>
               </div>
 
@@ -119,9 +184,9 @@ export function TeacherProgressTable({ data }: TeacherProgressTableProps) {
                 </div>
                 <div>
                   <p className="text-xs text-white/60 mb-1">Hours</p>
-                  <p className="text-xs sm:text-sm font-semibold text-white tabular-nums">
-                    {item.totalHours.toFixed(1)}h
-                  </p>
+                  <div className="text-xs sm:text-sm">
+                    {renderHours(item)}
+                  </div>
                 </div>
                 {item.completedAt && (
                   <div className="col-span-2">
@@ -190,6 +255,7 @@ export function TeacherProgressTable({ data }: TeacherProgressTableProps) {
                     </td>
                     <td className="px-4 py-4 text-sm text-white/90 max-w-xs">
                       <div className="truncate">{item.unit}</div>
+                      {renderAttempt(item)}
                     </td>
                     <td className="px-4 py-4 text-sm text-white/90">
                       {formatDateTime(item.startedAt)}
@@ -198,12 +264,10 @@ export function TeacherProgressTable({ data }: TeacherProgressTableProps) {
                       {item.completedAt ? formatDateTime(item.completedAt) : '-'}
                     </td>
                     <td className="px-4 py-4">
-                      <span className="text-sm font-semibold text-white tabular-nums">
-                        {item.totalHours.toFixed(1)}h
-                      </span>
+                      {renderHours(item)}
                     </td>
                     <td className="px-4 py-4">
-                      {getStatusBadge(item.status)}
+                      {getStatusBadge(item.delayed ? 'delayed' : item.status)}
                     </td>
                   </motion.tr>
                 ))}
@@ -1,28 +1,49 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'motion/react';
-import { Clock, CheckCircle2, Lock, Edit, Check, AlertCircle, XCircle } from 'lucide-react';
+import { Clock, CheckCircle2, Lock, Edit, Check, AlertCircle, XCircle, BookOpen } from 'lucide-react';
 import api from '../services/api';
 
-const timeSlots = [
-  { id: '9-10', label: '9:00 - 10:00', value: 1 },
-  { id: '10-11', label: '10:00 - 11:00', value: 1 },
-  { id: '11-12', label: '11:00 - 12:00', value: 1 },
-  { id: '12-13', label: '12:00 - 13:00', value: 1 },
-  { id: '13-14', label: '13:00 - 14:00', value: 1 },
-  { id: '14-15', label: '14:00 - 15:00', value: 1 },
-  { id: '15-16', label: '15:00 - 16:00', value: 1 },
-  { id: '16-17', label: '16:00 - 17:00', value: 1 },
-];
+export interface DaySlot {
+  slotId: string;
+  label: string;
+  duration: number; // in minutes
+}
+
+// What was taught in a slot (ids; empty strings when not chosen)
+export interface SlotTag {
+  subject: string;
+  unit: string;
+  topic: string;
+  subjectName?: string; // Names of a saved tag, shown when the subject is not in tagSubjects
+  unitName?: string;
+}
+
+export interface SlotTagSubject {
+  id: string;
+  name: string;
+  batch?: { name: string } | null;
+  units: Array<{ id: string; name: string }>;
+}
+
+const EMPTY_TAG: SlotTag = { subject: '', unit: '', topic: '' };
+
+// Local calendar day (toISOString would give the previous day east of UTC)
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
 
 interface TimeSlotSelectorProps {
   selectedSlots: string[];
+  daySlots?: DaySlot[]; // Periods of the day; fetched from the bell schedule when not given
   onSelectionChange: (slots: string[]) => void;
-  onSave?: (slots: string[], breakDuration?: number | null) => Promise<void>;
+  onSave?: (slots: string[], breakDuration?: number | null, slotTags?: Record<string, SlotTag>) => Promise<void>;
+  tagSubjects?: SlotTagSubject[]; // Subjects (with units) a slot can be tagged with
+  slotTags?: Record<string, SlotTag>; // Saved tag per slot, or the one pre-filled from the timetable
   breakDuration?: number | null;
   approvedHours?: number;
   prevDayMissing?: boolean;
   onGoToPreviousDay?: () => void;
   selectedDate?: Date;
+  payPeriodLock?: { name: string } | null; // Day belongs to a closed pay period - read only
 }
 
 interface SlotApprovalStatus {
@@ -35,7 +56,7 @@ interface SlotApprovalStatus {
   requestData?: any;
 }
 
-export function TimeSlotSelector({ selectedSlots, onSelectionChange, onSave, breakDuration: initialBreakDuration, approvedHours, prevDayMissing, onGoToPreviousDay, selectedDate }: TimeSlotSelectorProps) {
+export function TimeSlotSelector({ selectedSlots, daySlots, onSelectionChange, onSave, tagSubjects, slotTags, breakDuration: initialBreakDuration, approvedHours, prevDayMissing, onGoToPreviousDay, selectedDate, payPeriodLock }: TimeSlotSelectorProps) {
   // Start LOCKED by default - slots cannot be edited until Edit button is clicked
   // If there are selected slots, they're locked (saved). If empty, still start locked.
   const [isLocked, setIsLocked] = useState(true);
@@ -46,6 +67,26 @@ export function TimeSlotSelector({ selectedSlots, onSelectionChange, onSave, bre
   const [breakApprovalStatus, setBreakApprovalStatus] = useState<SlotApprovalStatus | null>(null);
   const [approvalStatus, setApprovalStatus] = useState<Record<string, SlotApprovalStatus>>({});
   const [notifications, setNotifications] = useState<Array<{ slotId: string, message: string, type: 'approved' | 'rejected' | 'info' }>>([]);
+  const [tempSlotTags, setTempSlotTags] = useState<Record<string, SlotTag>>({});
+
+  const [scheduleSlots, setScheduleSlots] = useState<DaySlot[]>([]);
+
+  // Periods come from the day's record; fall back to the bell schedule for that date
+  const timeSlots = (daySlots && daySlots.length > 0 ? daySlots : scheduleSlots).map(slot => ({
+    id: slot.slotId,
+    label: slot.label,
+    value: (slot.duration || 60) / 60
+  }));
+
+  useEffect(() => {
+    if (daySlots && daySlots.length > 0) return;
+    const date = selectedDate ? toDateKey(selectedDate) : null;
+    api.resolveBellSchedule(date)
+      .then((response: any) => {
+        if (response?.success) setScheduleSlots(response.data.periods || []);
+      })
+      .catch((err: any) => console.error('Error loading bell schedule:', err));
+  }, [daySlots, selectedDate]);
 
   const addNotification = (type: 'approved' | 'rejected' | 'info', message: string, slotId: string = '') => {
     setNotifications(prev => [...prev, { slotId, message, type }]);
@@ -161,6 +202,33 @@ export function TimeSlotSelector({ selectedSlots, onSelectionChange, onSave, bre
     }
   }, []);
 
+  // Edited tag, else the one of a pending request, else the saved/pre-filled one
+  const getSlotTag = (slotId: string): SlotTag => {
+    if (tempSlotTags[slotId]) return tempSlotTags[slotId];
+    const pending = approvalStatus[slotId];
+    const taught = pending?.status === 'pending' && pending.requestData?.checked ? pending.requestData.taught : null;
+    if (taught?.subject) {
+      return { subject: String(taught.subject), unit: taught.unit ? String(taught.unit) : '', topic: taught.topic || '' };
+    }
+    return slotTags?.[slotId] || EMPTY_TAG;
+  };
+
+  const updateSlotTag = (slotId: string, changes: Partial<SlotTag>) => {
+    setTempSlotTags(prev => {
+      const next = { ...getSlotTag(slotId), ...changes };
+      // A unit belongs to one subject; changing the subject clears it
+      if (changes.subject !== undefined) next.unit = '';
+      return { ...prev, [slotId]: next };
+    });
+  };
+
+  const describeSlotTag = (tag: SlotTag) => {
+    const subject = tagSubjects?.find(s => s.id === tag.subject);
+    const subjectName = subject?.name || tag.subjectName;
+    const unitName = subject?.units.find(u => u.id === tag.unit)?.name || tag.unitName;
+    return [subjectName, unitName, tag.topic].filter(Boolean).join(' · ');
+  };
+
   const toggleSlot = async (slotId: string) => {
     // Prevent changes when locked - user must click Edit first
     if (isLocked) {
@@ -300,7 +368,9 @@ export function TimeSlotSelector({ selectedSlots, onSelectionChange, onSave, bre
         console.log('📊 Current tempSelectedSlots count:', tempSelectedSlots.length);
         console.log('📊 Current tempSelectedSlots IDs:', tempSelectedSlots);
         try {
-          await onSave(tempSelectedSlots);
+          const tagsToSave = Object.fromEntries(tempSelectedSlots.map(slotId => [slotId, getSlotTag(slotId)]));
+          await onSave(tempSelectedSlots, breakDurationToSave, tagsToSave);
+          setTempSlotTags({});
           console.log('✅ onSave completed successfully');
 
           // Lock the slots after saving - cannot change until Edit is clicked
@@ -596,6 +666,75 @@ export function TimeSlotSelector({ selectedSlots, onSelectionChange, onSave, bre
           })}
         </div>
 
+        {/* What was taught in each selected slot (new selections can be tagged; saved ones are read only) */}
+        {tagSubjects && (() => {
+          const listedSlots = timeSlots.filter(slot =>
+            tempSelectedSlots.includes(slot.id) || (isLocked && selectedSlots.includes(slot.id))
+          );
+          if (listedSlots.length === 0) return null;
+
+          const inputClass = 'px-2 py-1.5 text-sm rounded-lg border border-blue-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50';
+
+          return (
+            <div className="mb-6 p-4 rounded-xl border-2 bg-gray-50 dark:bg-slate-700/50 border-gray-200 dark:border-slate-600">
+              <div className="flex items-center gap-3 mb-3">
+                <BookOpen className="w-5 h-5 text-black dark:text-white" />
+                <h3 className="text-lg font-semibold text-black dark:text-white">What Was Taught</h3>
+              </div>
+              <div className="space-y-2">
+                {listedSlots.map(slot => {
+                  const tag = getSlotTag(slot.id);
+                  const editable = !isLocked && !selectedSlots.includes(slot.id);
+                  const subject = tagSubjects.find(s => s.id === tag.subject);
+
+                  return (
+                    <div key={slot.id} className="flex flex-col sm:flex-row sm:items-center gap-2">
+                      <span className="text-sm font-semibold text-black dark:text-white sm:w-32 shrink-0">{slot.label}</span>
+                      {editable ? (
+                        <>
+                          <select
+                            value={tag.subject}
+                            onChange={(e) => updateSlotTag(slot.id, { subject: e.target.value })}
+                            className={`${inputClass} sm:w-48`}
+                          >
+                            <option value="">Subject...</option>
+                            {tagSubjects.map(s => (
+                              <option key={s.id} value={s.id}>{s.name}{s.batch?.name ? ` (${s.batch.name})` : ''}</option>
+                            ))}
+                          </select>
+                          <select
+                            value={tag.unit}
+                            onChange={(e) => updateSlotTag(slot.id, { unit: e.target.value })}
+                            disabled={!subject}
+                            className={`${inputClass} sm:w-48`}
+                          >
+                            <option value="">Unit (optional)</option>
+                            {subject?.units.map(u => (
+                              <option key={u.id} value={u.id}>{u.name}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="text"
+                            value={tag.topic}
+                            onChange={(e) => updateSlotTag(slot.id, { topic: e.target.value })}
+                            maxLength={200}
+                            placeholder="Topic note (optional)"
+                            className={`${inputClass} flex-1 min-w-0`}
+                          />
+                        </>
+                      ) : (
+                        <span className="text-sm text-gray-600 dark:text-gray-300">
+                          {describeSlotTag(tag) || 'Not recorded'}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })()}
+
         {/* Break Timing Section */}
         <div className={`mb-6 p-4 rounded-xl border-2 transition-all ${breakApprovalStatus?.status === 'pending'
           ? 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-400 dark:border-yellow-600'
@@ -719,8 +858,18 @@ export function TimeSlotSelector({ selectedSlots, onSelectionChange, onSave, bre
           </div>
         </div>
 
+        {/* Closed pay period */}
+        {payPeriodLock && (
+          <div className="mb-4 p-3 bg-slate-100 dark:bg-slate-700/50 border border-slate-300 dark:border-slate-600 rounded-lg flex items-center gap-2">
+            <Lock className="w-4 h-4 text-slate-600 dark:text-slate-300 flex-shrink-0" />
+            <p className="text-sm text-slate-700 dark:text-slate-200">
+              This day is in the closed pay period <span className="font-semibold">{payPeriodLock.name}</span> and can no longer be changed.
+            </p>
+          </div>
+        )}
+
         {/* Helper message */}
-        {isLocked && (
+        {isLocked && !payPeriodLock && (
           <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-700 rounded-lg">
             <p className="text-sm text-blue-800 dark:text-blue-200">
               💡 <span className="font-semibold">Tip:</span> Click <span className="font-bold">Edit</span> to modify your time slots and break timing, then click <span className="font-bold">Done</span> to save.
@@ -733,10 +882,10 @@ export function TimeSlotSelector({ selectedSlots, onSelectionChange, onSave, bre
           {/* Edit Button - Only enabled when locked */}
           <motion.button
             onClick={handleEdit}
-            disabled={!isLocked}
-            whileHover={isLocked ? { scale: 1.02 } : {}}
-            whileTap={isLocked ? { scale: 0.98 } : {}}
-            className={`flex items-center justify-center gap-2 px-6 min-w-[120px] h-12 rounded-xl font-semibold text-sm shadow-lg transition-all duration-300 ${!isLocked
+            disabled={!isLocked || !!payPeriodLock}
+            whileHover={isLocked && !payPeriodLock ? { scale: 1.02 } : {}}
+            whileTap={isLocked && !payPeriodLock ? { scale: 0.98 } : {}}
+            className={`flex items-center justify-center gap-2 px-6 min-w-[120px] h-12 rounded-xl font-semibold text-sm shadow-lg transition-all duration-300 ${!isLocked || payPeriodLock
               ? 'bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400 cursor-not-allowed opacity-50'
               : 'bg-gradient-to-r from-blue-500 to-blue-600 text-white hover:shadow-xl hover:from-blue-600 hover:to-blue-700'
               }`}
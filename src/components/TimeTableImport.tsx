@@ -1,10 +1,10 @@
 import { useState, useCallback, useEffect } from 'react';
-import { Upload, Download, AlertCircle, FileSpreadsheet, Send, Loader2, History, X, Trash2, CheckCircle } from 'lucide-react';
+import { Upload, Download, AlertCircle, FileSpreadsheet, Send, Loader2, History, X, Trash2, CheckCircle, Undo2 } from 'lucide-react';
 import { motion } from 'motion/react';
 import * as XLSX from 'xlsx';
 import api from '../services/api';
+import { resolvePeriods, timeRangeToSlotIds, type BellSchedule } from '../utils/bellSchedule';
 
-const VALID_SLOT_IDS = ['9-10', '10-11', '11-12', '12-13', '13-14', '14-15', '15-16', '16-17'];
 const CLASS_SCHEDULE_HEADERS = ['DATE', 'DAY', 'BATCH', 'SUBJECT', 'FACULTY', 'EMAIL', 'TIME'];
 const REQUIRED_COLUMNS = ['DATE', 'DAY', 'BATCH', 'SUBJECT', 'FACULTY', 'EMAIL', 'TIME'];
 
@@ -14,6 +14,10 @@ export interface ValidationError {
   message: string;
 }
 
+export interface ClashError extends ValidationError {
+  type: 'teacher-double-booking' | 'batch-double-booking' | 'subject-teacher-mismatch';
+}
+
 export interface TimeTableEntry {
   teacherName: string;
   teacherEmail: string;
@@ -74,6 +78,39 @@ function validateEntriesForSend(entries: TimeTableEntry[], requireResolvedEmail
   return all;
 }
 
+/** One teacher+date from a dry-run apply */
+export interface TimeTableChange {
+  teacherEmail: string;
+  teacherName: string;
+  date: string;
+  action: 'create' | 'update' | 'unchanged';
+  scheduleBefore: Array<{ subjectName: string; batch: string; slotIds: string[] }>;
+  scheduleAfter: Array<{ subjectName: string; batch: string; slotIds: string[] }>;
+  addedSlotIds: string[];
+  removedSlotIds: string[];
+  uncheckedSlots: Array<{ slotId: string; label: string }>;
+  breakBefore: number | null;
+  breakAfter: number | null;
+}
+
+const formatSchedule = (list: TimeTableChange['scheduleAfter']) =>
+  list.length === 0 ? '—' : list.map(e => `${e.subjectName || 'Class'}${e.batch ? ` (${e.batch})` : ''}: ${e.slotIds.join(', ')}`).join('; ');
+
+/** Shape sent to /verifier/time-table/check and /apply */
+function toApplyPayload(entries: TimeTableEntry[]) {
+  return entries.map(e => ({
+    teacherEmail: e.teacherEmail,
+    teacherName: e.teacherName,
+    date: e.date,
+    day: e.day,
+    slotIds: e.slotIds,
+    breakMinutes: e.breakMinutes ?? undefined,
+    subjectName: e.subject ?? undefined,
+    batch: e.batch ?? undefined,
+    timeDisplay: e.timeDisplay
+  }));
+}
+
 type RefData = {
   teachers: Array<{ teacherId: string; teacherName: string; teacherEmail: string }>;
   subjects: Array<{ _id: string; name: string }>;
@@ -131,6 +168,10 @@ export function TimeTableImport() {
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
   const [validating, setValidating] = useState(false);
+  const [clashErrors, setClashErrors] = useState<ClashError[]>([]);
+  const [overrideClashes, setOverrideClashes] = useState(false);
+  // Dry-run result waiting for the verifier to confirm
+  const [pendingApply, setPendingApply] = useState<{ payload: ReturnType<typeof toApplyPayload>; changes: TimeTableChange[] } | null>(null);
   const [applyLoading, setApplyLoading] = useState(false);
   const [applyResult, setApplyResult] = useState<{ applied: number; errors?: Array<{ entry: any; message: string }> } | null>(null);
 
@@ -138,7 +179,18 @@ export function TimeTableImport() {
   const [showHistory, setShowHistory] = useState(false);
   const [historyData, setHistoryData] = useState<any[]>([]);
   const [loadingHistory, setLoadingHistory] = useState(false);
+  const [revertingHistoryId, setRevertingHistoryId] = useState<string | null>(null);
+
+  // Bell schedules decide which periods a TIME range maps to
+  const [bellSchedules, setBellSchedules] = useState<BellSchedule[]>([]);
 
+  useEffect(() => {
+    api.getBellSchedules()
+      .then((res: any) => {
+        if (res?.success) setBellSchedules(res.data || []);
+      })
+      .catch((err: any) => console.error('Error loading bell schedules:', err));
+  }, []);
 
   const fetchHistory = async () => {
     setLoadingHistory(true);
@@ -168,6 +220,38 @@ export function TimeTableImport() {
     }
   };
 
+  const handleRevertHistory = async (id: string, force = false) => {
+    if (!force && !confirm('Undo this upload? Every affected teacher day will be restored to how it was before it was sent, including checked slots and break settings.')) {
+      return;
+    }
+
+    setRevertingHistoryId(id);
+    try {
+      const response = await api.revertTimeTableHistory(id, force);
+      if (response && response.success) {
+        const { restored, skipped } = response.data;
+        if (skipped.length > 0) {
+          const details = skipped
+            .slice(0, 5)
+            .map((s: any) => `• ${new Date(s.date).toLocaleDateString()}: ${s.reason}`)
+            .join('\n');
+          if (confirm(`Restored ${restored} day(s). ${skipped.length} day(s) were skipped because they changed after this upload:\n${details}${skipped.length > 5 ? '\n…' : ''}\n\nOverwrite those days as well?`)) {
+            await handleRevertHistory(id, true);
+            return;
+          }
+        } else {
+          alert(`Upload undone. Restored ${restored} day(s).`);
+        }
+        fetchHistory();
+      }
+    } catch (err: any) {
+      console.error('Failed to revert upload', err);
+      alert(err.message || 'Failed to undo upload');
+    } finally {
+      setRevertingHistoryId(null);
+    }
+  };
+
   const handleDownloadHistory = (item: any) => {
     try {
       if (!item.entries || item.entries.length === 0) return;
@@ -204,8 +288,11 @@ export function TimeTableImport() {
   // When entries change: run format validation, then fetch teachers/subjects/batches and validate existence
   // Also resolve teacher details if missing (e.g. name based on email, or email based on name)
   useEffect(() => {
+    setOverrideClashes(false);
+    setPendingApply(null);
     if (entries.length === 0) {
       setValidationErrors([]);
+      setClashErrors([]);
       setValidating(false);
       return;
     }
@@ -272,6 +359,11 @@ export function TimeTableImport() {
           existenceErrors.push(...validateRowAgainstRef(e, i, ref));
         });
         setValidationErrors([...formatErrors, ...existenceErrors]);
+
+        // Double-booking and subject owner checks need existing schedules, so they run on the server
+        const clashRes = await api.checkTimeTableClashes(toApplyPayload(targetEntries));
+        if (cancelled) return;
+        setClashErrors(clashRes?.success ? clashRes.data || [] : []);
       } catch (err: any) {
         if (!cancelled) {
           setValidationErrors([
@@ -303,35 +395,6 @@ export function TimeTableImport() {
     XLSX.writeFile(wb, 'time-table-template.xlsx');
   }, []);
 
-  const parseSlotString = (value: string): string[] => {
-    if (!value || typeof value !== 'string') return [];
-    return value
-      .split(/[,;\s]+/)
-      .map(s => s.trim())
-      .filter(id => VALID_SLOT_IDS.includes(id));
-  };
-
-  /** Convert time range like "9.30 - 4.30" (9:30 AM–4:30 PM) to slot IDs (9-10 through 16-17) */
-  const parseTimeRangeToSlots = (value: string): string[] => {
-    if (!value || typeof value !== 'string') return [];
-    const trimmed = value.trim();
-    const match = trimmed.match(/(\d{1,2})[.:]?\s*(\d{0,2})\s*[-–—]\s*(\d{1,2})[.:]?\s*(\d{0,2})/i);
-    if (!match) return [];
-    const startH = parseInt(match[1], 10);
-    const startM = parseInt(match[2] || '0', 10);
-    let endH = parseInt(match[3], 10);
-    const endM = parseInt(match[4] || '0', 10);
-    if (endH < 12 && endH <= startH) endH += 12;
-    const startSlot = startH;
-    const endSlot = endH + (endM > 0 ? 1 : 0);
-    const slots: string[] = [];
-    for (let h = startSlot; h < endSlot; h++) {
-      const id = `${h}-${h + 1}`;
-      if (VALID_SLOT_IDS.includes(id)) slots.push(id);
-    }
-    return slots;
-  };
-
   const parseDateCell = (dateRaw: unknown): string => {
     if (dateRaw == null) return '';
     if (typeof dateRaw === 'number') {
@@ -448,7 +511,7 @@ export function TimeTableImport() {
           if (!date || !faculty) continue;
           if (!timeStr || /CELEBRATION|WEEK OFF|OFF/i.test(faculty)) continue;
 
-          const slotIds = parseTimeRangeToSlots(timeStr);
+          const slotIds = timeRangeToSlotIds(timeStr, resolvePeriods(bellSchedules, date, batch));
           if (slotIds.length === 0) continue;
 
           parsed.push({
@@ -473,7 +536,7 @@ export function TimeTableImport() {
       }
     };
     reader.readAsBinaryString(file);
-  }, []);
+  }, [bellSchedules]);
 
   const handleApproveAndSend = useCallback(async () => {
     if (entries.length === 0) return;
@@ -482,6 +545,10 @@ export function TimeTableImport() {
       setApplyResult({ applied: 0, errors: validationErrors.map(e => ({ entry: null, message: `Row ${e.rowIndex} (${e.column}): ${e.message}` })) });
       return;
     }
+    if (clashErrors.length > 0 && !overrideClashes) {
+      setApplyResult({ applied: 0, errors: clashErrors.map(e => ({ entry: null, message: `Row ${e.rowIndex} (${e.column}): ${e.message}` })) });
+      return;
+    }
     setApplyLoading(true);
     setApplyResult(null);
     try {
@@ -517,20 +584,31 @@ export function TimeTableImport() {
         setApplyLoading(false);
         return;
       }
-      const payload = resolvedEntries.map(e => ({
-        teacherEmail: e.teacherEmail,
-        teacherName: e.teacherName,
-        date: e.date,
-        day: e.day,
-        slotIds: e.slotIds,
-        breakMinutes: e.breakMinutes ?? undefined,
-        subjectName: e.subject ?? undefined,
-        batch: e.batch ?? undefined,
-        timeDisplay: e.timeDisplay
-      }));
-      const response = await api.applyTimeTableFromImport(payload);
+      // Dry run first: nothing is written until the verifier confirms the diff
+      const payload = toApplyPayload(resolvedEntries);
+      const preview = await api.applyTimeTableFromImport(payload, overrideClashes, true);
+      if (preview && preview.success) {
+        setPendingApply({ payload, changes: preview.changes || [] });
+        if (preview.errors?.length) setApplyResult({ applied: 0, errors: preview.errors });
+      } else {
+        setApplyResult({ applied: 0, errors: [{ entry: null, message: preview?.message || 'Failed to preview changes' }] });
+      }
+    } catch (err: any) {
+      setApplyResult({ applied: 0, errors: [{ entry: null, message: err.message || 'Request failed' }] });
+    } finally {
+      setApplyLoading(false);
+    }
+  }, [entries, validating, validationErrors, clashErrors, overrideClashes]);
+
+  const handleConfirmApply = useCallback(async () => {
+    if (!pendingApply) return;
+    setApplyLoading(true);
+    setApplyResult(null);
+    try {
+      const response = await api.applyTimeTableFromImport(pendingApply.payload, overrideClashes);
       if (response && response.success) {
         setApplyResult({ applied: response.applied ?? 0, errors: response.errors });
+        setPendingApply(null);
         if (response.applied > 0) setEntries([]);
       } else {
         setApplyResult({ applied: 0, errors: [{ entry: null, message: response?.message || 'Failed to apply' }] });
@@ -540,7 +618,7 @@ export function TimeTableImport() {
     } finally {
       setApplyLoading(false);
     }
-  }, [entries, validating, validationErrors]);
+  }, [pendingApply, overrideClashes]);
 
   return (
     <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
@@ -600,6 +678,11 @@ export function TimeTableImport() {
                           <div className="text-xs text-gray-500 dark:text-gray-400 font-normal">
                             {new Date(item.createdAt).toLocaleTimeString()}
                           </div>
+                          {item.revertedAt && (
+                            <span className="inline-block mt-1 px-2 py-0.5 text-[10px] font-semibold uppercase rounded-full bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+                              Reverted
+                            </span>
+                          )}
                         </td>
 
                         <td className="px-4 py-3 text-right flex items-center justify-end gap-2">
@@ -612,6 +695,17 @@ export function TimeTableImport() {
                             <FileSpreadsheet className="w-3.5 h-3.5" />
                             Excel
                           </button>
+                          {item.canRevert && (
+                            <button
+                              onClick={() => handleRevertHistory(item._id)}
+                              disabled={revertingHistoryId === item._id}
+                              className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-amber-600 bg-amber-50 hover:bg-amber-100 dark:text-amber-400 dark:bg-amber-900/20 dark:hover:bg-amber-900/30 rounded-lg transition-colors border border-amber-200 dark:border-amber-800 disabled:opacity-50"
+                              title="Undo this upload"
+                            >
+                              {revertingHistoryId === item._id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Undo2 className="w-3.5 h-3.5" />}
+                              Undo
+                            </button>
+                          )}
                           <button
                             onClick={() => handleDeleteHistory(item._id)}
                             className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-red-600 bg-red-50 hover:bg-red-100 dark:text-red-400 dark:bg-red-900/20 dark:hover:bg-red-900/30 rounded-lg transition-colors border border-red-200 dark:border-red-800"
@@ -683,6 +777,30 @@ export function TimeTableImport() {
           </div>
         )}
 
+        {!validating && clashErrors.length > 0 && (
+          <div className="flex flex-col gap-2 p-4 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+            <p className="text-sm font-semibold text-red-800 dark:text-red-200 flex items-center gap-2">
+              <AlertCircle className="w-5 h-5 flex-shrink-0" />
+              {clashErrors.length} clash(es) found: double-booked teachers or batches, or subjects owned by another teacher.
+            </p>
+            <ul className="text-sm text-red-700 dark:text-red-300 list-disc list-inside space-y-0.5 max-h-40 overflow-y-auto">
+              {clashErrors.map((err, i) => (
+                <li key={i}>
+                  Row {err.rowIndex} ({err.column}): {err.message}
+                </li>
+              ))}
+            </ul>
+            <label className="flex items-center gap-2 text-sm font-medium text-red-800 dark:text-red-200">
+              <input
+                type="checkbox"
+                checked={overrideClashes}
+                onChange={(e) => setOverrideClashes(e.target.checked)}
+              />
+              Apply anyway (override clashes)
+            </label>
+          </div>
+        )}
+
         {entries.length > 0 && (
           <>
             <div>
@@ -710,14 +828,17 @@ export function TimeTableImport() {
                   </thead>
                   <tbody>
                     {entries.map((row, idx) => (
-                      <tr key={`${row.teacherEmail || row.teacherName}-${row.date}-${idx}`} className="border-t border-gray-100 dark:border-gray-700">
+                      <tr
+                        key={`${row.teacherEmail || row.teacherName}-${row.date}-${idx}`}
+                        className={`border-t border-gray-100 dark:border-gray-700 ${clashErrors.some(c => c.rowIndex === idx + 2) ? 'bg-red-50 dark:bg-red-900/20' : ''}`}
+                      >
                         <td className="p-2 text-gray-700 dark:text-gray-300">{row.date}</td>
                         <td className="p-2 text-gray-700 dark:text-gray-300">{row.day || '—'}</td>
                         <td className="p-2 text-gray-700 dark:text-gray-300">{row.batch || '—'}</td>
                         <td className="p-2 text-gray-700 dark:text-gray-300">{row.subject || '—'}</td>
                         <td className="p-2 text-gray-900 dark:text-gray-100">{row.teacherName || row.teacherEmail || '—'}</td>
                         <td className="p-2 text-gray-700 dark:text-gray-300">{row.teacherEmail || '—'}</td>
-                        <td className="p-2 text-gray-700 dark:text-gray-300">{row.slotIds.length ? `${row.slotIds.length} hrs` : (row.timeDisplay || '—')}</td>
+                        <td className="p-2 text-gray-700 dark:text-gray-300">{row.slotIds.length ? `${row.slotIds.length} period${row.slotIds.length === 1 ? '' : 's'}` : (row.timeDisplay || '—')}</td>
                       </tr>
                     ))}
                   </tbody>
@@ -725,20 +846,110 @@ export function TimeTableImport() {
               </div>
             </div>
 
-            <motion.button
-              type="button"
-              onClick={handleApproveAndSend}
-              disabled={applyLoading || validating || validationErrors.length > 0}
-              title={validating ? 'Analyzing data…' : validationErrors.length > 0 ? 'Fix validation errors before sending' : undefined}
-              className="inline-flex items-center gap-2 px-5 py-2.5 rounded-xl bg-emerald-600 text-white font-semibold hover:bg-emerald-700 disabled:opacity-50 disabled:pointer-events-none disabled:cursor-not-allowed transition-colors"
-            >
-              {applyLoading ? (
-                <span className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-              ) : (
-                <Send className="w-5 h-5" />
-              )}
-              Approve &amp; Send to teachers
-            </motion.button>
+            {pendingApply ? (
+              <div className="rounded-xl border border-blue-200 dark:border-blue-800 overflow-hidden">
+                <div className="p-4 bg-blue-50 dark:bg-blue-900/20 text-sm text-blue-900 dark:text-blue-100">
+                  <p className="font-semibold mb-1">Review changes before applying</p>
+                  <p>
+                    {pendingApply.changes.filter(c => c.action === 'create').length} new day(s),{' '}
+                    {pendingApply.changes.filter(c => c.action === 'update').length} changed,{' '}
+                    {pendingApply.changes.filter(c => c.action === 'unchanged').length} unchanged.
+                    {pendingApply.changes.some(c => c.uncheckedSlots.length > 0) && (
+                      <span className="ml-1 font-semibold text-amber-700 dark:text-amber-300">
+                        {pendingApply.changes.reduce((n, c) => n + c.uncheckedSlots.length, 0)} slot(s) teachers already checked will be unchecked.
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <div className="max-h-72 overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 dark:bg-gray-700/50 sticky top-0">
+                      <tr>
+                        <th className="text-left p-2 font-medium text-gray-700 dark:text-gray-300">Date</th>
+                        <th className="text-left p-2 font-medium text-gray-700 dark:text-gray-300">Teacher</th>
+                        <th className="text-left p-2 font-medium text-gray-700 dark:text-gray-300">Change</th>
+                        <th className="text-left p-2 font-medium text-gray-700 dark:text-gray-300">Details</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {pendingApply.changes.map((change, idx) => (
+                        <tr key={`${change.teacherEmail}-${change.date}-${idx}`} className="border-t border-gray-100 dark:border-gray-700 align-top">
+                          <td className="p-2 text-gray-700 dark:text-gray-300 whitespace-nowrap">{new Date(change.date).toLocaleDateString()}</td>
+                          <td className="p-2 text-gray-900 dark:text-gray-100">{change.teacherName}</td>
+                          <td className="p-2">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${change.action === 'create'
+                              ? 'bg-green-100 text-green-700 dark:bg-green-500/20 dark:text-green-300'
+                              : change.action === 'update'
+                                ? 'bg-blue-100 text-blue-700 dark:bg-blue-500/20 dark:text-blue-300'
+                                : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'}`}>
+                              {change.action === 'create' ? 'New' : change.action === 'update' ? 'Changes' : 'No change'}
+                            </span>
+                          </td>
+                          <td className="p-2 text-xs text-gray-700 dark:text-gray-300 space-y-0.5">
+                            {change.action === 'update' && (
+                              <div className="line-through text-gray-400">{formatSchedule(change.scheduleBefore)}</div>
+                            )}
+                            <div>{formatSchedule(change.scheduleAfter)}</div>
+                            {change.addedSlotIds.length > 0 && change.action === 'update' && (
+                              <div className="text-green-700 dark:text-green-400">+ {change.addedSlotIds.join(', ')}</div>
+                            )}
+                            {change.removedSlotIds.length > 0 && (
+                              <div className="text-red-600 dark:text-red-400">− {change.removedSlotIds.join(', ')}</div>
+                            )}
+                            {change.breakBefore !== change.breakAfter && change.action === 'update' && (
+                              <div>Break: {change.breakBefore ?? 'none'} → {change.breakAfter ?? 'none'} min</div>
+                            )}
+                            {change.uncheckedSlots.length > 0 && (
+                              <div className="font-semibold text-amber-700 dark:text-amber-300">
+                                Will uncheck: {change.uncheckedSlots.map(s => s.label).join(', ')}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="p-4 flex flex-wrap gap-3 border-t border-gray-100 dark:border-gray-700">
+                  <button
+                    type="button"
+                    onClick={() => setPendingApply(null)}
+                    className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-700 text-slate-800 dark:text-slate-200 font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+                  >
+                    <X className="w-4 h-4" />
+                    Back
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleConfirmApply}
+                    disabled={applyLoading}
+                    className="inline-flex items-center gap-2 px-5 py-2.5 rounded-xl bg-emerald-600 text-white font-semibold hover:bg-emerald-700 disabled:opacity-50 transition-colors"
+                  >
+                    {applyLoading ? (
+                      <span className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    ) : (
+                      <Send className="w-5 h-5" />
+                    )}
+                    Confirm &amp; Send to teachers
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <motion.button
+                type="button"
+                onClick={handleApproveAndSend}
+                disabled={applyLoading || validating || validationErrors.length > 0 || (clashErrors.length > 0 && !overrideClashes)}
+                title={validating ? 'Analyzing data…' : validationErrors.length > 0 ? 'Fix validation errors before sending' : clashErrors.length > 0 && !overrideClashes ? 'Resolve clashes or tick override before sending' : undefined}
+                className="inline-flex items-center gap-2 px-5 py-2.5 rounded-xl bg-emerald-600 text-white font-semibold hover:bg-emerald-700 disabled:opacity-50 disabled:pointer-events-none disabled:cursor-not-allowed transition-colors"
+              >
+                {applyLoading ? (
+                  <span className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                ) : (
+                  <Send className="w-5 h-5" />
+                )}
+                Review changes
+              </motion.button>
+            )}
           </>
         )}
 
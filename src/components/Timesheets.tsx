@@ -0,0 +1,436 @@
+import { useState, useEffect } from 'react';
+import { FileText, FileSpreadsheet, CheckCircle, AlertCircle, Loader2, RefreshCw, ChevronDown, ChevronUp, Undo2, Lock } from 'lucide-react';
+import api from '../services/api';
+import {
+  Timesheet,
+  formatTimesheetMonth,
+  downloadTimesheetPdf,
+  downloadTimesheetXlsx
+} from '../utils/timesheetExport';
+
+const toInputMonth = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+// Timesheets are normally prepared for the month that just ended
+const previousMonth = () => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return toInputMonth(date);
+};
+
+const STATUS_STYLES: Record<Timesheet['status'], string> = {
+  draft: 'bg-gray-100 text-gray-700 dark:bg-slate-700 dark:text-gray-200',
+  confirmed: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  'signed-off': 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+};
+
+const STATUS_LABELS: Record<Timesheet['status'], string> = {
+  draft: 'Draft',
+  confirmed: 'Awaiting sign-off',
+  'signed-off': 'Signed off'
+};
+
+const inputClass = 'px-3 py-2 rounded-lg bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 text-black dark:text-white text-sm';
+
+function StatusBadge({ status }: { status: Timesheet['status'] }) {
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+      {status === 'signed-off' && <Lock className="w-3 h-3 inline mr-1 -mt-0.5" />}
+      {STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+function TimesheetDays({ sheet }: { sheet: Timesheet }) {
+  if (sheet.days.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400 py-2">No approved slots this month.</p>;
+  }
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+            <th className="py-2 pr-3 font-medium">Date</th>
+            <th className="py-2 pr-3 font-medium">Approved slots</th>
+            <th className="py-2 pr-3 font-medium">Break</th>
+            <th className="py-2 pr-3 font-medium text-right">Hours</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sheet.days.map(day => (
+            <tr key={day.date} className="border-b border-gray-100 dark:border-gray-700/50 text-black dark:text-white">
+              <td className="py-2 pr-3 whitespace-nowrap">
+                {new Date(day.date).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })}
+                {day.leave && (
+                  <span className="ml-2 text-xs text-amber-600 dark:text-amber-400">{day.leave === 'full' ? 'Leave' : 'Half-day leave'}</span>
+                )}
+              </td>
+              <td className="py-2 pr-3 text-gray-600 dark:text-gray-300">{day.slots.map(s => s.label || s.slotId).join(', ') || '-'}</td>
+              <td className="py-2 pr-3 text-gray-600 dark:text-gray-300">{day.breakMinutes ? `-${day.breakMinutes} min` : '-'}</td>
+              <td className="py-2 text-right font-medium">{(day.totalHours || 0).toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="font-semibold text-black dark:text-white">
+            <td className="py-2 pr-3">Total</td>
+            <td className="py-2 pr-3">{sheet.totalSlots} slots</td>
+            <td />
+            <td className="py-2 text-right">{(sheet.totalHours || 0).toFixed(2)}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
+
+function ExportButtons({ sheet }: { sheet: Timesheet }) {
+  if (sheet.status !== 'signed-off') return null;
+  return (
+    <div className="flex gap-2">
+      <button
+        onClick={() => downloadTimesheetPdf(sheet)}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-gray-200 text-xs font-medium hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
+      >
+        <FileText className="w-4 h-4" />
+        PDF
+      </button>
+      <button
+        onClick={() => downloadTimesheetXlsx(sheet)}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-gray-200 text-xs font-medium hover:bg-gray-200 dark:hover:bg-slate-600 transition-colors"
+      >
+        <FileSpreadsheet className="w-4 h-4" />
+        Excel
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Teacher view: build the month's timesheet from approved slots, confirm it, download it once signed off
+ */
+export function TeacherTimesheet() {
+  const [month, setMonth] = useState(previousMonth());
+  const [timesheets, setTimesheets] = useState<Timesheet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTimesheets();
+  }, []);
+
+  const loadTimesheets = async () => {
+    try {
+      setLoading(true);
+      const response = await api.getTimesheets();
+      if (response && response.success) {
+        setTimesheets(response.data || []);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load timesheets');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sheet = timesheets.find(t => t.month === month) || null;
+
+  const handleGenerate = async () => {
+    setSaving(true);
+    setError(null);
+    setResultMessage(null);
+    try {
+      const response = await api.generateTimesheet(month);
+      if (response && response.success) {
+        setResultMessage(sheet ? 'Timesheet refreshed' : 'Timesheet created');
+        await loadTimesheets();
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to build timesheet');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!sheet) return;
+    if (!confirm(`Confirm your hours for ${formatTimesheetMonth(sheet.month)}? It will be sent for sign-off.`)) return;
+    setSaving(true);
+    setError(null);
+    setResultMessage(null);
+    try {
+      const response = await api.confirmTimesheet(sheet._id);
+      if (response && response.success) {
+        setResultMessage('Timesheet confirmed and sent for sign-off');
+        await loadTimesheets();
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to confirm timesheet');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden mt-6">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-black dark:text-white mb-1 flex items-center gap-2">
+            <FileText className="w-5 h-5 text-blue-500" />
+            Monthly Timesheet
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Built from your approved slots, with breaks deducted. Confirm it once the month is over.
+          </p>
+        </div>
+        <input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className={inputClass} />
+      </div>
+
+      <div className="p-6 space-y-3">
+        {resultMessage && (
+          <div className="flex items-center gap-2 p-3 rounded-xl bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-800 dark:text-green-200 text-sm">
+            <CheckCircle className="w-5 h-5 flex-shrink-0" />
+            {resultMessage}
+          </div>
+        )}
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 text-sm">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          </div>
+        ) : !sheet ? (
+          <div className="text-center py-4">
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">No timesheet for {formatTimesheetMonth(month)} yet.</p>
+            <button
+              onClick={handleGenerate}
+              disabled={saving || !month}
+              className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              {saving ? 'Building...' : 'Build timesheet'}
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold text-black dark:text-white">{formatTimesheetMonth(sheet.month)}</span>
+                <StatusBadge status={sheet.status} />
+              </div>
+              <div className="flex items-center gap-2">
+                {sheet.status === 'draft' && (
+                  <>
+                    <button
+                      onClick={handleGenerate}
+                      disabled={saving}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-gray-200 text-xs font-medium hover:bg-gray-200 dark:hover:bg-slate-600 disabled:opacity-50 transition-colors"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                      Refresh
+                    </button>
+                    <button
+                      onClick={handleConfirm}
+                      disabled={saving}
+                      className="px-3 py-1.5 rounded-lg bg-blue-600 text-white text-xs font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                    >
+                      Confirm hours
+                    </button>
+                  </>
+                )}
+                <ExportButtons sheet={sheet} />
+              </div>
+            </div>
+            {sheet.status === 'draft' && sheet.returnReason && (
+              <div className="flex items-center gap-2 p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200 text-sm">
+                <Undo2 className="w-4 h-4 flex-shrink-0" />
+                Returned by verifier: {sheet.returnReason}
+              </div>
+            )}
+            {sheet.status === 'signed-off' && sheet.signedOffBy && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Signed off by {sheet.signedOffBy.name} on {new Date(sheet.signedOffAt!).toLocaleDateString()}
+              </p>
+            )}
+            <TimesheetDays sheet={sheet} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Verifier view: sign off confirmed timesheets or return them to the teacher
+ */
+export function TimesheetReview() {
+  const [month, setMonth] = useState(previousMonth());
+  const [status, setStatus] = useState<'all' | Timesheet['status']>('confirmed');
+  const [timesheets, setTimesheets] = useState<Timesheet[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTimesheets();
+  }, [month, status]);
+
+  const loadTimesheets = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await api.getTimesheets({ month, status });
+      if (response && response.success) {
+        setTimesheets(response.data || []);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load timesheets');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSignOff = async (sheet: Timesheet) => {
+    if (!confirm(`Sign off ${sheet.teacher?.name}'s timesheet (${(sheet.totalHours || 0).toFixed(2)} h)? It cannot be changed afterwards.`)) return;
+    setSavingId(sheet._id);
+    setError(null);
+    setResultMessage(null);
+    try {
+      const response = await api.signOffTimesheet(sheet._id);
+      if (response && response.success) {
+        setResultMessage(`Signed off ${sheet.teacher?.name}'s timesheet`);
+        await loadTimesheets();
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to sign off timesheet');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleReturn = async (sheet: Timesheet) => {
+    const reason = prompt(`Why is ${sheet.teacher?.name}'s timesheet being returned?`);
+    if (!reason || !reason.trim()) return;
+    setSavingId(sheet._id);
+    setError(null);
+    setResultMessage(null);
+    try {
+      const response = await api.returnTimesheet(sheet._id, reason.trim());
+      if (response && response.success) {
+        setResultMessage(`Returned to ${sheet.teacher?.name}`);
+        await loadTimesheets();
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to return timesheet');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden mt-6">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-black dark:text-white mb-1 flex items-center gap-2">
+            <FileText className="w-5 h-5 text-blue-500" />
+            Timesheets
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Monthly hours confirmed by teachers. Signed-off timesheets are final.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className={inputClass} />
+          <select value={status} onChange={(e) => setStatus(e.target.value as typeof status)} className={inputClass}>
+            <option value="confirmed">Awaiting sign-off</option>
+            <option value="signed-off">Signed off</option>
+            <option value="draft">Draft</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-3">
+        {resultMessage && (
+          <div className="flex items-center gap-2 p-3 rounded-xl bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-800 dark:text-green-200 text-sm">
+            <CheckCircle className="w-5 h-5 flex-shrink-0" />
+            {resultMessage}
+          </div>
+        )}
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 text-sm">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          </div>
+        ) : timesheets.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">No timesheets for {formatTimesheetMonth(month)}.</p>
+        ) : (
+          timesheets.map(sheet => (
+            <div key={sheet._id} className="rounded-xl border border-gray-200 dark:border-gray-700">
+              <div className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                <button
+                  onClick={() => setExpandedId(expandedId === sheet._id ? null : sheet._id)}
+                  className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                >
+                  {expandedId === sheet._id ? <ChevronUp className="w-4 h-4 text-gray-400" /> : <ChevronDown className="w-4 h-4 text-gray-400" />}
+                  <div className="min-w-0">
+                    <p className="font-semibold text-black dark:text-white flex items-center gap-2">
+                      {sheet.teacher?.name}
+                      <StatusBadge status={sheet.status} />
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                      {(sheet.totalHours || 0).toFixed(2)} h · {sheet.totalSlots} slots
+                      {sheet.confirmedAt ? ` · confirmed ${new Date(sheet.confirmedAt).toLocaleDateString()}` : ''}
+                    </p>
+                  </div>
+                </button>
+                <div className="flex items-center gap-2">
+                  {sheet.status === 'confirmed' && (
+                    <>
+                      <button
+                        onClick={() => handleReturn(sheet)}
+                        disabled={savingId === sheet._id}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-amber-700 dark:text-amber-300 text-xs font-medium hover:bg-amber-50 dark:hover:bg-amber-900/20 disabled:opacity-50 transition-colors"
+                      >
+                        <Undo2 className="w-4 h-4" />
+                        Return
+                      </button>
+                      <button
+                        onClick={() => handleSignOff(sheet)}
+                        disabled={savingId === sheet._id}
+                        className="px-3 py-1.5 rounded-lg bg-blue-600 text-white text-xs font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                      >
+                        {savingId === sheet._id ? 'Saving...' : 'Sign off'}
+                      </button>
+                    </>
+                  )}
+                  <ExportButtons sheet={sheet} />
+                </div>
+              </div>
+              {expandedId === sheet._id && (
+                <div className="px-4 pb-4">
+                  <TimesheetDays sheet={sheet} />
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import { useState, useEffect } from 'react';
+import { motion, Reorder } from 'motion/react';
+import { X, GripVertical, Pencil, Check, Scissors, Trash2, Merge, AlertCircle, Loader2 } from 'lucide-react';
+import api from '../services/api';
+
+interface EditableUnit {
+  _id: string;
+  name: string;
+  order: number;
+  plannedHours: number;
+}
+
+interface UnitEditorProps {
+  subjectId: string;
+  subjectName: string;
+  onClose: () => void;
+}
+
+export function UnitEditor({ subjectId, subjectName, onClose }: UnitEditorProps) {
+  const [units, setUnits] = useState<EditableUnit[]>([]);
+  // Order as last saved, to tell whether the dragged order needs saving
+  const [savedOrder, setSavedOrder] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [splittingId, setSplittingId] = useState<string | null>(null);
+  const [splitValue, setSplitValue] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [mergeName, setMergeName] = useState('');
+
+  useEffect(() => {
+    loadUnits();
+  }, [subjectId]);
+
+  const applyUnits = (list: EditableUnit[]) => {
+    setUnits(list);
+    setSavedOrder(list.map(u => u._id));
+  };
+
+  const loadUnits = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await api.getSubjectUnits(subjectId, null, true);
+      if (response && response.success) {
+        applyUnits(response.data || []);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load units');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Runs one editing call; every call answers with the subject's units in their new order
+  const runEdit = async (call: () => Promise<any>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await call();
+      if (response && response.success) {
+        applyUnits(response.data || []);
+        return true;
+      }
+      setError(response?.message || 'Failed to update units');
+    } catch (err: any) {
+      setError(err.message || 'Failed to update units');
+    } finally {
+      setBusy(false);
+    }
+    return false;
+  };
+
+  const handleRename = async (unitId: string) => {
+    if (!renameValue.trim()) return;
+    if (await runEdit(() => api.renameUnit(unitId, renameValue.trim()))) {
+      setRenamingId(null);
+    }
+  };
+
+  const handleSplit = async (unit: EditableUnit) => {
+    const names = splitValue.split('\n').map(name => name.trim()).filter(Boolean);
+    if (names.length < 2) {
+      setError('Enter at least two unit names, one per line');
+      return;
+    }
+    if (await runEdit(() => api.splitUnit(unit._id, names))) {
+      setSplittingId(null);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (await runEdit(() => api.mergeUnits(subjectId, selectedIds, mergeName.trim()))) {
+      setSelectedIds([]);
+      setMergeName('');
+    }
+  };
+
+  const handleDelete = async (unit: EditableUnit) => {
+    if (!window.confirm(`Delete unit "${unit.name}"?`)) return;
+    await runEdit(() => api.deleteUnit(unit._id));
+    setSelectedIds(prev => prev.filter(id => id !== unit._id));
+  };
+
+  const orderChanged = units.some((unit, index) => savedOrder[index] !== unit._id);
+  const inputClass = 'flex-1 min-w-0 px-3 py-1.5 rounded-lg bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 text-black dark:text-white text-sm';
+  const iconButtonClass = 'p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-slate-700 disabled:opacity-40';
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="relative w-full max-w-lg max-h-[90vh] overflow-y-auto bg-white dark:bg-slate-800 rounded-2xl p-6 shadow-2xl border border-gray-200 dark:border-slate-700"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1.5 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-slate-700"
+        >
+          <X className="w-5 h-5" />
+        </button>
+        <h3 className="text-lg font-bold text-black dark:text-white mb-1 pr-8">Edit units</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          {subjectName} - drag to reorder. Units with teaching records can be merged but not deleted.
+        </p>
+
+        {error && (
+          <div className="mb-3 flex items-center gap-2 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 text-sm">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          </div>
+        ) : units.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">This subject has no units.</p>
+        ) : (
+          <Reorder.Group axis="y" values={units} onReorder={setUnits} className="space-y-2">
+            {units.map((unit, index) => (
+              <Reorder.Item
+                key={unit._id}
+                value={unit}
+                className="p-2 rounded-xl border border-gray-200 dark:border-slate-700 bg-gray-50 dark:bg-slate-700/40"
+              >
+                <div className="flex items-center gap-2">
+                  <GripVertical className="w-4 h-4 text-gray-400 cursor-grab flex-shrink-0" />
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(unit._id)}
+                    onChange={(e) => setSelectedIds(e.target.checked ? [...selectedIds, unit._id] : selectedIds.filter(id => id !== unit._id))}
+                    title="Select for merge"
+                    className="w-4 h-4"
+                  />
+                  <span className="text-xs text-gray-500 dark:text-gray-400 w-5 text-right">{index + 1}.</span>
+                  {renamingId === unit._id ? (
+                    <>
+                      <input
+                        type="text"
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleRename(unit._id)}
+                        autoFocus
+                        className={inputClass}
+                      />
+                      <button type="button" onClick={() => handleRename(unit._id)} disabled={busy} className={iconButtonClass}>
+                        <Check className="w-4 h-4 text-green-600" />
+                      </button>
+                      <button type="button" onClick={() => setRenamingId(null)} className={iconButtonClass}>
+                        <X className="w-4 h-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <span className="flex-1 min-w-0 truncate text-sm font-medium text-black dark:text-white">{unit.name}</span>
+                      <button
+                        type="button"
+                        onClick={() => { setRenamingId(unit._id); setRenameValue(unit.name); }}
+                        disabled={busy}
+                        title="Rename"
+                        className={iconButtonClass}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => { setSplittingId(splittingId === unit._id ? null : unit._id); setSplitValue(`${unit.name} - Part 1\n${unit.name} - Part 2`); }}
+                        disabled={busy}
+                        title="Split"
+                        className={iconButtonClass}
+                      >
+                        <Scissors className="w-4 h-4" />
+                      </button>
+                      <button type="button" onClick={() => handleDelete(unit)} disabled={busy} title="Delete" className={iconButtonClass}>
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </button>
+                    </>
+                  )}
+                </div>
+                {splittingId === unit._id && (
+                  <div className="mt-2 pl-8 space-y-2">
+                    <textarea
+                      value={splitValue}
+                      onChange={(e) => setSplitValue(e.target.value)}
+                      rows={3}
+                      className={`${inputClass} w-full`}
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      One name per line. The first part keeps the unit's teaching records; planned hours are shared evenly.
+                    </p>
+                    <button
+                      type="button"
+                      onClick={() => handleSplit(unit)}
+                      disabled={busy}
+                      className="px-3 py-1.5 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Split unit
+                    </button>
+                  </div>
+                )}
+              </Reorder.Item>
+            ))}
+          </Reorder.Group>
+        )}
+
+        {selectedIds.length >= 2 && (
+          <div className="mt-4 p-3 rounded-xl bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 space-y-2">
+            <p className="text-sm text-blue-800 dark:text-blue-200">
+              Merge {selectedIds.length} units into the first of them in teaching order.
+            </p>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={mergeName}
+                onChange={(e) => setMergeName(e.target.value)}
+                placeholder="Merged unit name (optional)"
+                className={inputClass}
+              />
+              <button
+                type="button"
+                onClick={handleMerge}
+                disabled={busy}
+                className="px-3 py-1.5 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+              >
+                <Merge className="w-4 h-4" />
+                Merge
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-4">
+          {orderChanged && (
+            <button
+              type="button"
+              onClick={() => runEdit(() => api.reorderUnits(subjectId, units.map(u => u._id)))}
+              disabled={busy}
+              className="flex-1 px-4 py-2.5 rounded-xl bg-green-600 text-white font-medium hover:bg-green-700 disabled:opacity-50"
+            >
+              {busy ? 'Saving…' : 'Save order'}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2.5 rounded-xl bg-gray-200 dark:bg-slate-600 text-black dark:text-white font-medium hover:bg-gray-300 dark:hover:bg-slate-500"
+          >
+            Done
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -3,6 +3,11 @@ import { Users, Search, Plus, UserCircle, Edit, Trash2, AlertCircle, ChevronDown
 import { motion, AnimatePresence } from 'motion/react';
 import api from '../services/api';
 import { BatchManagement } from './BatchManagement';
+import { BellScheduleManagement } from './BellScheduleManagement';
+import { AcademicCalendarManagement } from './AcademicCalendarManagement';
+import { AutoApprovalRulesManagement } from './AutoApprovalRulesManagement';
+import { PayPeriodManagement } from './PayPeriodManagement';
+import { InvoiceManagement } from './InvoiceManagement';
 
 interface UserManagementProps {
     user: any;
@@ -18,6 +23,8 @@ interface User {
     avatar?: string;
     status: 'active' | 'inactive';
     subjects?: { _id: string; name: string; }[];
+    employmentType?: 'permanent' | 'visiting';
+    hourlyRate?: number;
 }
 
 export function UserManagement({ user, isDarkMode = false }: UserManagementProps) {
@@ -36,7 +43,9 @@ export function UserManagement({ user, isDarkMode = false }: UserManagementProps
         name: '',
         email: '',
         role: 'teacher',
-        password: ''
+        password: '',
+        employmentType: 'permanent',
+        hourlyRate: ''
     });
     const [modalError, setModalError] = useState<string | null>(null);
     const [showPassword, setShowPassword] = useState(false);
@@ -102,7 +111,9 @@ export function UserManagement({ user, isDarkMode = false }: UserManagementProps
                 name: user.name,
                 email: user.email,
                 role: user.role,
-                password: '' // Don't show password
+                password: '', // Don't show password
+                employmentType: user.employmentType || 'permanent',
+                hourlyRate: user.hourlyRate ? String(user.hourlyRate) : ''
             });
         } else {
             setCurrentUser(null);
@@ -110,7 +121,9 @@ export function UserManagement({ user, isDarkMode = false }: UserManagementProps
                 name: '',
                 email: '',
                 role: 'teacher',
-                password: ''
+                password: '',
+                employmentType: 'permanent',
+                hourlyRate: ''
             });
         }
         setIsModalOpen(true);
@@ -249,6 +262,14 @@ export function UserManagement({ user, isDarkMode = false }: UserManagementProps
                                                         }`}>
                                                         {u.role}
                                                     </span>
+                                                    {u.employmentType === 'visiting' && (
+                                                        <>
+                                                            <span className="w-1 h-1 bg-gray-300 rounded-full" />
+                                                            <span className="text-emerald-600 dark:text-emerald-400">
+                                                                Visiting{u.hourlyRate ? ` · ${u.hourlyRate}/h` : ''}
+                                                            </span>
+                                                        </>
+                                                    )}
                                                     {u.role === 'teacher' && u.subjects && u.subjects.length > 0 && (
                                                         <>
                                                             <span className="w-1 h-1 bg-gray-300 rounded-full" />
@@ -307,6 +328,21 @@ export function UserManagement({ user, isDarkMode = false }: UserManagementProps
                 allowedBatchIds={user?.role === 'teacher' ? allowedBatchIds : undefined}
             />
 
+            {/* Bell Schedules - admin only */}
+            {user?.role === 'admin' && <BellScheduleManagement />}
+
+            {/* Academic Calendar - admin only */}
+            {user?.role === 'admin' && <AcademicCalendarManagement />}
+
+            {/* Auto-approval rules - admin only */}
+            {user?.role === 'admin' && <AutoApprovalRulesManagement />}
+
+            {/* Pay periods - admin only */}
+            {user?.role === 'admin' && <PayPeriodManagement />}
+
+            {/* Visiting faculty invoices - admin only */}
+            {user?.role === 'admin' && <InvoiceManagement />}
+
             {/* Add/Edit User Modal */}
             <AnimatePresence>
                 {isModalOpen && (
@@ -368,6 +404,35 @@ export function UserManagement({ user, isDarkMode = false }: UserManagementProps
                                         <option value="admin">Admin</option>
                                     </select>
                                 </div>
+                                {formData.role === 'teacher' && (
+                                    <div className="grid grid-cols-2 gap-3">
+                                        <div>
+                                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Employment</label>
+                                            <select
+                                                value={formData.employmentType}
+                                                onChange={(e) => setFormData({ ...formData, employmentType: e.target.value })}
+                                                className="w-full px-4 py-2 rounded-xl border border-gray-200 dark:border-slate-600 bg-gray-50 dark:bg-slate-900 text-black dark:text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                            >
+                                                <option value="permanent">Permanent</option>
+                                                <option value="visiting">Visiting (paid per hour)</option>
+                                            </select>
+                                        </div>
+                                        {formData.employmentType === 'visiting' && (
+                                            <div>
+                                                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Hourly rate</label>
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    step="0.01"
+                                                    required
+                                                    value={formData.hourlyRate}
+                                                    onChange={(e) => setFormData({ ...formData, hourlyRate: e.target.value })}
+                                                    className="w-full px-4 py-2 rounded-xl border border-gray-200 dark:border-slate-600 bg-gray-50 dark:bg-slate-900 text-black dark:text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                                />
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
                                 <div>
                                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                                         {currentUser ? 'New Password (leave blank to keep)' : 'Password'}
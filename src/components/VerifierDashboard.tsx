@@ -5,11 +5,17 @@ import { MetricCard } from './MetricCard';
 import { SubjectAssignSection } from './SubjectAssignSection';
 
 import { TimeTableImport } from './TimeTableImport';
+import { SyllabusImport } from './SyllabusImport';
+import { SyllabusTemplateManager } from './SyllabusTemplateManager';
+import { WeeklyTimetableManager } from './WeeklyTimetableManager';
+import { CoverManager } from './CoverManager';
+import { SubjectPlanManager } from './SubjectPlanManager';
+import { TimesheetReview } from './Timesheets';
 import api from '../services/api';
 
 interface Approval {
   _id: string;
-  type: 'unit-complete' | 'unit-start' | 'time-slot' | 'subject-assign' | 'break-timing';
+  type: 'unit-complete' | 'unit-start' | 'time-slot' | 'subject-assign' | 'break-timing' | 'leave';
   status: 'pending' | 'approved' | 'rejected';
   requestedBy: {
     _id: string;
@@ -24,6 +30,14 @@ interface Approval {
     email: string;
   };
   requestData: any;
+  // Auto-approval rule that decided the request on submission
+  policy?: {
+    rule?: string;
+    name: string;
+    action: 'approve' | 'review';
+    context?: { inSchedule?: boolean; sameDay?: boolean; afterSlotEnd?: boolean; onLeave?: boolean } | null;
+    evaluatedAt?: string;
+  } | null;
   rejectionReason?: string;
   createdAt: string;
   approvedAt?: string;
@@ -65,7 +79,7 @@ export function VerifierDashboard({ user, isDarkMode = false, defaultTab = 'appr
   const [rejectionReason, setRejectionReason] = useState('');
   const [showRejectDialog, setShowRejectDialog] = useState(false);
   const [filter, setFilter] = useState<'all' | 'pending' | 'approved' | 'rejected'>('pending');
-  const [typeFilter, setTypeFilter] = useState<'all' | 'unit-complete' | 'unit-start' | 'time-slot' | 'subject-assign'>('all');
+  const [typeFilter, setTypeFilter] = useState<'all' | 'unit-complete' | 'unit-start' | 'time-slot' | 'subject-assign' | 'leave'>('all');
   const [currentTime, setCurrentTime] = useState(new Date());
 
   // On home page, default to 'assign' tab (Time Table), on approval page default to 'approvals'
@@ -189,22 +203,31 @@ export function VerifierDashboard({ user, isDarkMode = false, defaultTab = 'appr
       case 'time-slot': return 'Time Slot';
       case 'subject-assign': return 'Subject Assignment';
       case 'break-timing': return 'Break Timing';
+      case 'leave': return 'Leave Request';
       default: return type;
     }
   };
 
-  const getTimeSlotLabel = (slotId: string) => {
-    const slotMap: Record<string, string> = {
-      '9-10': '9:00 - 10:00',
-      '10-11': '10:00 - 11:00',
-      '11-12': '11:00 - 12:00',
-      '12-13': '12:00 - 13:00',
-      '13-14': '13:00 - 14:00',
-      '14-15': '14:00 - 15:00',
-      '15-16': '15:00 - 16:00',
-      '16-17': '16:00 - 17:00'
-    };
-    return slotMap[slotId] || slotId;
+  // Label is stored on the request; older requests only carry the slot id (e.g. '9-10' or '7:45-8:35')
+  const getTimeSlotLabel = (slotId: string, label?: string) => {
+    if (label) return label;
+    if (!slotId) return '';
+    const parts = String(slotId).split('-');
+    if (parts.length !== 2) return slotId;
+    return parts.map(p => (p.includes(':') ? p : `${p}:00`)).join(' - ');
+  };
+
+  // What the teacher says was taught in a requested slot
+  const formatTaughtTag = (taught: any) => {
+    if (!taught?.subjectName) return 'Taught: not recorded';
+    const subject = [taught.subjectName, taught.batch].filter(Boolean).join(' - ');
+    return `Taught: ${[subject, taught.unitName, taught.topic].filter(Boolean).join(' · ')}`;
+  };
+
+  const taughtMatchesPlan = (taught: any, planned: any) => {
+    const normalize = (value: string) => (value || '').trim().toLowerCase();
+    if (normalize(taught.subjectName) !== normalize(planned.subjectName)) return false;
+    return !taught.batch || !planned.batch || normalize(taught.batch) === normalize(planned.batch);
   };
 
   const formatRequestDetails = (approval: Approval) => {
@@ -213,7 +236,7 @@ export function VerifierDashboard({ user, isDarkMode = false, defaultTab = 'appr
       const checked = approval.requestData?.checked;
       const date = approval.requestData?.date ? new Date(approval.requestData.date).toLocaleDateString() : 'Today';
       return {
-        title: `Time Slot: ${getTimeSlotLabel(slotId)}`,
+        title: `Time Slot: ${getTimeSlotLabel(slotId, approval.requestData?.label)}`,
         action: checked ? 'Select' : 'Deselect',
         date: date
       };
@@ -247,6 +270,17 @@ export function VerifierDashboard({ user, isDarkMode = false, defaultTab = 'appr
         action: duration ? `Set break to ${duration} minutes` : 'Remove break',
         date: date
       };
+    } else if (approval.type === 'leave') {
+      const { startDate, endDate, duration, session, reason } = approval.requestData || {};
+      const from = startDate ? new Date(startDate).toLocaleDateString() : '';
+      const to = endDate ? new Date(endDate).toLocaleDateString() : from;
+      return {
+        title: duration === 'half'
+          ? `Half-day leave (${session === 'second-half' ? 'second half' : 'first half'})`
+          : 'Full-day leave',
+        action: reason || '',
+        date: from === to ? from : `${from} – ${to}`
+      };
     }
     return { title: getTypeLabel(approval.type), action: '', date: '' };
   };
@@ -568,6 +602,12 @@ export function VerifierDashboard({ user, isDarkMode = false, defaultTab = 'appr
       {activeTab === 'approvals' && !showApprovalsContent && !isHomePage && (
         <div className="max-w-4xl mx-auto">
           <TimeTableImport />
+          <WeeklyTimetableManager />
+          <CoverManager />
+          <SubjectPlanManager />
+          <SyllabusImport />
+          <SyllabusTemplateManager />
+          <TimesheetReview />
         </div>
       )}
 
@@ -603,6 +643,7 @@ export function VerifierDashboard({ user, isDarkMode = false, defaultTab = 'appr
                   <option value="unit-start">Start Unit</option>
                   <option value="unit-complete">Complete Unit</option>
                   <option value="subject-assign">Subject Assignment</option>
+                  <option value="leave">Leave</option>
                 </select>
               </div>
             </div>
@@ -736,7 +777,7 @@ export function VerifierDashboard({ user, isDarkMode = false, defaultTab = 'appr
                                           </span>
                                           <span className="mx-1.5 text-gray-300 dark:text-gray-600">|</span>
                                           <span className="font-bold text-gray-900 dark:text-white">
-                                            {getTimeSlotLabel(approval.requestData?.slotId)}
+                                            {getTimeSlotLabel(approval.requestData?.slotId, approval.requestData?.label)}
                                           </span>
                                         </p>
                                       ) : (
@@ -745,6 +786,16 @@ export function VerifierDashboard({ user, isDarkMode = false, defaultTab = 'appr
                                         </p>
                                       )}
                                     </div>
+                                    {approval.type === 'time-slot' && approval.requestData?.checked && (
+                                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate">
+                                        {formatTaughtTag(approval.requestData?.taught)}
+                                        {approval.requestData?.taught && approval.requestData?.planned && !taughtMatchesPlan(approval.requestData.taught, approval.requestData.planned) && (
+                                          <span className="ml-2 font-semibold text-amber-600 dark:text-amber-400">
+                                            Planned: {[approval.requestData.planned.subjectName, approval.requestData.planned.batch].filter(Boolean).join(' - ')}
+                                          </span>
+                                        )}
+                                      </p>
+                                    )}
                                   </div>
 
                                   {/* Right Section: Actions/Status */}
@@ -854,10 +905,45 @@ export function VerifierDashboard({ user, isDarkMode = false, defaultTab = 'appr
                                 </div>
                               </div>
                             </div>
+                            {approval.type === 'leave' && (() => {
+                              const details = formatRequestDetails(approval);
+                              return (
+                                <div className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-800">
+                                  <p className="text-sm font-bold text-amber-900 dark:text-amber-100">
+                                    {details.title} · {details.date}
+                                  </p>
+                                  {details.action && (
+                                    <p className="text-sm mt-1 text-amber-800 dark:text-amber-200">
+                                      Reason: {details.action}
+                                    </p>
+                                  )}
+                                  {approval.status === 'pending' && (
+                                    <p className="text-xs mt-1 text-amber-700 dark:text-amber-300">
+                                      Approving marks these days as leave and flags the teacher's scheduled classes for cover.
+                                    </p>
+                                  )}
+                                </div>
+                              );
+                            })()}
+                            {approval.policy && (
+                              <p className="text-xs text-gray-500 dark:text-gray-400">
+                                Rule: <span className="font-semibold">{approval.policy.name}</span> ({approval.policy.action === 'approve' ? 'auto-approve' : 'require review'})
+                                {approval.policy.context && ` · ${[
+                                  approval.policy.context.inSchedule ? 'in time table' : 'not in time table',
+                                  approval.policy.context.sameDay ? 'same day' : 'other day',
+                                  approval.policy.context.afterSlotEnd ? 'after slot ended' : 'before slot ended',
+                                  approval.policy.context.onLeave ? 'teacher on leave' : ''
+                                ].filter(Boolean).join(', ')}`}
+                              </p>
+                            )}
                             {(approval.status === 'approved' || approval.status === 'rejected') && (
                               <div className={`p-3 rounded-lg border ${approval.status === 'approved' ? 'bg-green-50 dark:bg-green-900/10 border-green-200 dark:border-green-800' : 'bg-red-50 dark:bg-red-900/10 border-red-200 dark:border-red-800'}`}>
                                 <p className={`text-sm font-medium ${approval.status === 'approved' ? 'text-green-800 dark:text-green-200' : 'text-red-800 dark:text-red-200'}`}>
-                                  {approval.status === 'approved' ? 'Approved' : 'Rejected'} by <span className="font-bold">{approval.approvedBy?.name || (approval as any).rejectedBy?.name || 'Admin'}</span> at {formatDate(approval.approvedAt || approval.rejectedAt || '')}
+                                  {approval.status === 'approved' && !approval.approvedBy && approval.policy?.action === 'approve' ? (
+                                    <>Auto-approved by rule <span className="font-bold">{approval.policy.name}</span> at {formatDate(approval.approvedAt || '')}</>
+                                  ) : (
+                                    <>{approval.status === 'approved' ? 'Approved' : 'Rejected'} by <span className="font-bold">{approval.approvedBy?.name || (approval as any).rejectedBy?.name || 'Admin'}</span> at {formatDate(approval.approvedAt || approval.rejectedAt || '')}</>
+                                  )}
                                 </p>
                                 {approval.rejectionReason && (
                                   <p className="text-sm mt-1 text-red-700 dark:text-red-300">
@@ -0,0 +1,398 @@
+import { useState, useEffect } from 'react';
+import { CalendarRange, Plus, Edit2, Trash2, X, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
+import api from '../services/api';
+import { resolvePeriods, WEEKDAY_LABELS, type BellSchedule } from '../utils/bellSchedule';
+
+interface TimetableRow {
+  weekday: number;
+  slotId: string;
+  subjectId: string;
+  teacherId: string;
+}
+
+interface WeeklyTimetable {
+  _id: string;
+  name: string;
+  batch: { _id: string; name: string; year?: string } | null;
+  effectiveFrom: string;
+  effectiveTo: string;
+  entries: Array<{
+    weekday: number;
+    slotId: string;
+    subject: { _id: string; name: string } | null;
+    teacher: { _id: string; name: string; email: string } | null;
+  }>;
+  lastGeneratedAt?: string;
+}
+
+// Mon..Sat first, Sunday last
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const toDateInput = (value: string | Date) => {
+  const d = new Date(value);
+  return d.getFullYear() + '-' + String(d.getMonth() + 1).padStart(2, '0') + '-' + String(d.getDate()).padStart(2, '0');
+};
+
+/** First date on/after `from` that falls on `weekday` (used to look up that day's bell schedule) */
+const sampleDateFor = (from: string, weekday: number) => {
+  const d = from ? new Date(`${from}T00:00:00`) : new Date();
+  if (isNaN(d.getTime())) return toDateInput(new Date());
+  d.setDate(d.getDate() + ((weekday - d.getDay() + 7) % 7));
+  return toDateInput(d);
+};
+
+const emptyForm = () => ({
+  name: '',
+  batchId: '',
+  effectiveFrom: toDateInput(new Date()),
+  effectiveTo: '',
+  rows: [] as TimetableRow[]
+});
+
+export function WeeklyTimetableManager() {
+  const [timetables, setTimetables] = useState<WeeklyTimetable[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [batches, setBatches] = useState<Array<{ _id: string; name: string; year: string }>>([]);
+  const [teachers, setTeachers] = useState<Array<{ teacherId: string; teacherName: string; teacherEmail: string }>>([]);
+  const [subjects, setSubjects] = useState<Array<{ _id: string; name: string; teacher: { _id: string; name: string } | null }>>([]);
+  const [bellSchedules, setBellSchedules] = useState<BellSchedule[]>([]);
+  const [showEditor, setShowEditor] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTimetables();
+    Promise.all([api.getBatches(), api.getAvailableTeachers(null), api.getBellSchedules()])
+      .then(([batchesRes, teachersRes, schedulesRes]: any[]) => {
+        setBatches((batchesRes?.data ?? batchesRes) ?? []);
+        setTeachers((teachersRes?.data ?? teachersRes) ?? []);
+        setBellSchedules((schedulesRes?.data ?? schedulesRes) ?? []);
+      })
+      .catch((err: any) => console.error('Error loading timetable reference data:', err));
+  }, []);
+
+  // Subjects follow the selected batch
+  useEffect(() => {
+    if (!formData.batchId) {
+      setSubjects([]);
+      return;
+    }
+    api.getVerifierSubjects(formData.batchId)
+      .then((res: any) => setSubjects((res?.data ?? res) ?? []))
+      .catch((err: any) => console.error('Error loading subjects:', err));
+  }, [formData.batchId]);
+
+  const loadTimetables = async () => {
+    try {
+      setLoading(true);
+      const response = await api.getWeeklyTimetables();
+      if (response && response.success) {
+        setTimetables(response.data || []);
+      }
+    } catch (err) {
+      console.error('Error loading weekly timetables:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const batchName = batches.find(b => b._id === formData.batchId)?.name;
+  const periodsFor = (weekday: number) =>
+    resolvePeriods(bellSchedules, sampleDateFor(formData.effectiveFrom, weekday), batchName);
+
+  const openEditor = (timetable?: WeeklyTimetable) => {
+    setError(null);
+    setResultMessage(null);
+    if (timetable) {
+      setEditingId(timetable._id);
+      setFormData({
+        name: timetable.name,
+        batchId: timetable.batch?._id || '',
+        effectiveFrom: toDateInput(timetable.effectiveFrom),
+        effectiveTo: toDateInput(timetable.effectiveTo),
+        rows: timetable.entries.map(e => ({
+          weekday: e.weekday,
+          slotId: e.slotId,
+          subjectId: e.subject?._id || '',
+          teacherId: e.teacher?._id || ''
+        }))
+      });
+    } else {
+      setEditingId(null);
+      setFormData(emptyForm());
+    }
+    setShowEditor(true);
+  };
+
+  const updateRow = (index: number, changes: Partial<TimetableRow>) => {
+    const rows = [...formData.rows];
+    rows[index] = { ...rows[index], ...changes };
+    setFormData({ ...formData, rows });
+  };
+
+  const addRow = () => {
+    const last = formData.rows[formData.rows.length - 1];
+    const weekday = last ? last.weekday : 1;
+    const periods = periodsFor(weekday);
+    const used = formData.rows.filter(r => r.weekday === weekday).map(r => r.slotId);
+    const nextPeriod = periods.find(p => !used.includes(p.slotId)) || periods[0];
+    setFormData({
+      ...formData,
+      rows: [...formData.rows, {
+        weekday,
+        slotId: nextPeriod ? nextPeriod.slotId : '',
+        subjectId: last ? last.subjectId : '',
+        teacherId: last ? last.teacherId : ''
+      }]
+    });
+  };
+
+  const handleSubjectChange = (index: number, subjectId: string) => {
+    // Default the teacher to whoever owns the subject
+    const subject = subjects.find(s => s._id === subjectId);
+    updateRow(index, { subjectId, teacherId: subject?.teacher?._id || formData.rows[index].teacherId });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setResultMessage(null);
+    try {
+      const payload = {
+        name: formData.name,
+        batchId: formData.batchId,
+        effectiveFrom: formData.effectiveFrom,
+        effectiveTo: formData.effectiveTo,
+        entries: formData.rows
+      };
+      const response = editingId
+        ? await api.updateWeeklyTimetable(editingId, payload)
+        : await api.createWeeklyTimetable(payload);
+      if (response && response.success) {
+        const skipped = response.generation?.skipped?.length || 0;
+        setResultMessage(
+          `Generated ${response.generation?.generated || 0} teacher day(s).` +
+          (skipped ? ` ${skipped} day(s) already checked by teachers were left unchanged.` : '')
+        );
+        setShowEditor(false);
+        await loadTimetables();
+      } else {
+        setError(response?.message || 'Failed to save timetable');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to save timetable');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (timetable: WeeklyTimetable) => {
+    if (!confirm(`Delete "${timetable.name}"? Future days generated from it are cleared; days teachers already checked are kept.`)) return;
+    try {
+      await api.deleteWeeklyTimetable(timetable._id);
+      await loadTimetables();
+    } catch (err: any) {
+      alert(err.message || 'Failed to delete timetable');
+    }
+  };
+
+  const inputClass = 'px-3 py-2 rounded-lg bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 text-black dark:text-white text-sm';
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden mt-6">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-black dark:text-white mb-1 flex items-center gap-2">
+            <CalendarRange className="w-5 h-5 text-blue-500" />
+            Weekly Timetables
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Repeat the same week for a batch over a date range. Editing updates future days that teachers have not checked yet.
+          </p>
+        </div>
+        {!showEditor && (
+          <button
+            onClick={() => openEditor()}
+            className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-blue-600 text-white font-medium hover:bg-blue-700 transition-colors whitespace-nowrap"
+          >
+            <Plus className="w-5 h-5" />
+            New
+          </button>
+        )}
+      </div>
+
+      <div className="p-6 space-y-4">
+        {resultMessage && (
+          <div className="flex items-center gap-2 p-3 rounded-xl bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-800 dark:text-green-200 text-sm">
+            <CheckCircle className="w-5 h-5 flex-shrink-0" />
+            {resultMessage}
+          </div>
+        )}
+
+        {showEditor ? (
+          <div className="space-y-4">
+            {error && (
+              <div className="flex items-center gap-2 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 text-sm">
+                <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Timetable name (e.g. Semester 1)"
+                className={inputClass}
+              />
+              <select
+                value={formData.batchId}
+                onChange={(e) => setFormData({ ...formData, batchId: e.target.value, rows: [] })}
+                disabled={!!editingId}
+                className={inputClass}
+              >
+                <option value="">Select batch</option>
+                {batches.map(b => (
+                  <option key={b._id} value={b._id}>{b.name} {b.year}</option>
+                ))}
+              </select>
+              <label className="text-sm text-gray-600 dark:text-gray-300 flex items-center gap-2">
+                From
+                <input
+                  type="date"
+                  value={formData.effectiveFrom}
+                  onChange={(e) => setFormData({ ...formData, effectiveFrom: e.target.value })}
+                  className={`${inputClass} flex-1`}
+                />
+              </label>
+              <label className="text-sm text-gray-600 dark:text-gray-300 flex items-center gap-2">
+                To
+                <input
+                  type="date"
+                  value={formData.effectiveTo}
+                  onChange={(e) => setFormData({ ...formData, effectiveTo: e.target.value })}
+                  className={`${inputClass} flex-1`}
+                />
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              {formData.rows.map((row, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={row.weekday}
+                    onChange={(e) => updateRow(index, { weekday: Number(e.target.value) })}
+                    className={inputClass}
+                  >
+                    {WEEKDAY_ORDER.map(d => (
+                      <option key={d} value={d}>{WEEKDAY_LABELS[d]}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={row.slotId}
+                    onChange={(e) => updateRow(index, { slotId: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Period</option>
+                    {periodsFor(row.weekday).map(p => (
+                      <option key={p.slotId} value={p.slotId}>{p.name ? `${p.name} (${p.label})` : p.label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={row.subjectId}
+                    onChange={(e) => handleSubjectChange(index, e.target.value)}
+                    className={`${inputClass} flex-1 min-w-[8rem]`}
+                  >
+                    <option value="">Subject</option>
+                    {subjects.map(s => (
+                      <option key={s._id} value={s._id}>{s.name}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={row.teacherId}
+                    onChange={(e) => updateRow(index, { teacherId: e.target.value })}
+                    className={`${inputClass} flex-1 min-w-[8rem]`}
+                  >
+                    <option value="">Teacher</option>
+                    {teachers.map(t => (
+                      <option key={t.teacherId} value={t.teacherId}>{t.teacherName}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => setFormData({ ...formData, rows: formData.rows.filter((_, i) => i !== index) })}
+                    className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={addRow}
+                disabled={!formData.batchId}
+                className="text-sm flex items-center gap-1 font-medium text-blue-600 dark:text-blue-400 hover:text-blue-700 disabled:opacity-50 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                Add period
+              </button>
+            </div>
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => setShowEditor(false)}
+                className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-700 text-slate-800 dark:text-slate-200 font-medium hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors"
+              >
+                <X className="w-4 h-4" />
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={saving || !formData.name || !formData.batchId || !formData.effectiveTo || formData.rows.length === 0}
+                className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-blue-600 text-white font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                {editingId ? 'Save & regenerate' : 'Create & generate'}
+              </button>
+            </div>
+          </div>
+        ) : loading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          </div>
+        ) : timetables.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">No weekly timetables yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {timetables.map(t => (
+              <div key={t._id} className="p-4 rounded-xl border border-gray-200 dark:border-slate-600 flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="font-semibold text-black dark:text-white">{t.name}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {t.batch?.name || 'Unknown batch'} · {new Date(t.effectiveFrom).toLocaleDateString()} – {new Date(t.effectiveTo).toLocaleDateString()} · {t.entries.length} period{t.entries.length === 1 ? '' : 's'} a week
+                  </div>
+                  {t.lastGeneratedAt && (
+                    <div className="text-xs text-gray-400 mt-0.5">Generated {new Date(t.lastGeneratedAt).toLocaleString()}</div>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button onClick={() => openEditor(t)} className="p-2 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(t)} className="p-2 text-gray-400 hover:text-red-500 transition-colors">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
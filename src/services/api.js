@@ -354,11 +354,11 @@ class ApiService {
     return this.request(`/teacher/dashboard${queryString}`, { cacheMaxAge: 0 });
   }
 
-  async updateTimeSlot(slotId, checked, breakDuration = null, date = null) {
+  async updateTimeSlot(slotId, checked, breakDuration = null, date = null, taught = null) {
     try {
       const response = await this.request('/teacher/time-slots', {
         method: 'POST',
-        body: JSON.stringify({ slotId, checked, breakDuration, date }),
+        body: JSON.stringify({ slotId, checked, breakDuration, date, taught }),
       });
       return response;
     } catch (error) {
@@ -387,9 +387,30 @@ class ApiService {
     }
   }
 
-  async startUnit(unitId) {
+  async requestLeave(leave) {
+    return this.request('/teacher/leave', {
+      method: 'POST',
+      body: JSON.stringify(leave),
+    });
+  }
+
+  // restart: { attemptKind, reason } - required when the unit was already completed
+  async startUnit(unitId, restart = null) {
     return this.request(`/teacher/units/${unitId}/start`, {
       method: 'POST',
+      body: JSON.stringify(restart || {}),
+    });
+  }
+
+  async pauseUnit(unitId) {
+    return this.request(`/teacher/units/${unitId}/pause`, {
+      method: 'POST',
+    });
+  }
+
+  async resumeUnit(unitId) {
+    return this.request(`/teacher/units/${unitId}/resume`, {
+      method: 'POST',
     });
   }
 
@@ -464,6 +485,16 @@ class ApiService {
     return this.request(`/admin/progress${params ? `?${params}` : ''}`);
   }
 
+  async getTaughtVsPlanned(filters = {}) {
+    const params = new URLSearchParams(filters).toString();
+    return this.request(`/admin/taught-vs-planned${params ? `?${params}` : ''}`, { cacheMaxAge: 0 });
+  }
+
+  async getCompletionForecast(filters = {}) {
+    const params = new URLSearchParams(filters).toString();
+    return this.request(`/admin/completion-forecast${params ? `?${params}` : ''}`, { cacheMaxAge: 0 });
+  }
+
   async getTeachers() {
     return this.request('/admin/teachers', { cacheMaxAge: 0 });
   }
@@ -550,19 +581,85 @@ class ApiService {
     return this.request(`/verifier/assign/teachers-incomplete${params}`);
   }
 
-  async getAvailableTeachers(batchId = null) {
-    const params = batchId ? `?batchId=${batchId}` : '';
-    return this.request(`/verifier/assign/available-teachers${params}`);
+  async getAvailableTeachers(batchId = null, { date = null, slotIds = [] } = {}) {
+    const params = new URLSearchParams();
+    if (batchId) params.set('batchId', batchId);
+    if (date && slotIds.length > 0) {
+      params.set('date', date);
+      params.set('slotIds', slotIds.join(','));
+    }
+    const query = params.toString();
+    // Free/busy changes as covers are assigned, so never serve it from cache
+    return this.request(`/verifier/assign/available-teachers${query ? `?${query}` : ''}`, date ? { cacheMaxAge: 0 } : {});
+  }
+
+  async getCoverClasses(date) {
+    return this.request(`/verifier/cover?date=${encodeURIComponent(date)}`, { cacheMaxAge: 0 });
+  }
+
+  async assignCover(entryId, substituteId) {
+    return this.request('/verifier/cover', {
+      method: 'POST',
+      body: JSON.stringify({ entryId, substituteId }),
+    });
+  }
+
+  async removeCover(entryId) {
+    return this.request(`/verifier/cover/${entryId}`, {
+      method: 'DELETE',
+    });
   }
 
-  async getSubjectUnits(subjectId, teacherId = null) {
+  async getSubjectUnits(subjectId, teacherId = null, skipCache = false) {
     const params = teacherId ? `?subjectId=${subjectId}&teacherId=${teacherId}` : `?subjectId=${subjectId}`;
-    return this.request(`/verifier/assign/subject-units${params}`);
+    return this.request(`/verifier/assign/subject-units${params}`, skipCache ? { cacheMaxAge: 0 } : {});
   }
 
-  async getVerifierSubjects(batchId = null) {
+  async getVerifierSubjects(batchId = null, skipCache = false) {
     const params = batchId ? `?batchId=${batchId}` : '';
-    return this.request(`/verifier/subjects${params}`);
+    return this.request(`/verifier/subjects${params}`, skipCache ? { cacheMaxAge: 0 } : {});
+  }
+
+  async updateSubjectPlan(subjectId, plan) {
+    return this.request(`/verifier/subjects/${subjectId}/plan`, {
+      method: 'PUT',
+      body: JSON.stringify(plan),
+    });
+  }
+
+  // Unit editing - each call returns the subject's units in their new order
+  async renameUnit(unitId, name) {
+    return this.request(`/verifier/units/${unitId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ name }),
+    });
+  }
+
+  async reorderUnits(subjectId, unitIds) {
+    return this.request(`/verifier/subjects/${subjectId}/units/order`, {
+      method: 'PUT',
+      body: JSON.stringify({ unitIds }),
+    });
+  }
+
+  async splitUnit(unitId, names) {
+    return this.request(`/verifier/units/${unitId}/split`, {
+      method: 'POST',
+      body: JSON.stringify({ names }),
+    });
+  }
+
+  async mergeUnits(subjectId, unitIds, name = '') {
+    return this.request(`/verifier/subjects/${subjectId}/units/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ unitIds, name }),
+    });
+  }
+
+  async deleteUnit(unitId) {
+    return this.request(`/verifier/units/${unitId}`, {
+      method: 'DELETE',
+    });
   }
 
   async createSubject(name, teacherId, batchId = null, unitNames = []) {
@@ -639,6 +736,34 @@ class ApiService {
     });
   }
 
+  async getExams(batchId = '') {
+    return this.request(`/verifier/exam/exams${batchId ? `?batchId=${batchId}` : ''}`, { cacheMaxAge: 0 });
+  }
+
+  async getAtRiskExams(days = '') {
+    return this.request(`/verifier/exam/at-risk${days ? `?days=${days}` : ''}`, { cacheMaxAge: 0 });
+  }
+
+  async createExam(exam) {
+    return this.request('/verifier/exam/exams', {
+      method: 'POST',
+      body: JSON.stringify(exam)
+    });
+  }
+
+  async updateExam(examId, exam) {
+    return this.request(`/verifier/exam/exams/${examId}`, {
+      method: 'PUT',
+      body: JSON.stringify(exam)
+    });
+  }
+
+  async deleteExam(examId) {
+    return this.request(`/verifier/exam/exams/${examId}`, {
+      method: 'DELETE'
+    });
+  }
+
   async getTimeTableHistory() {
     return this.request('/verifier/time-table/history');
   }
@@ -649,13 +774,104 @@ class ApiService {
     });
   }
 
-  async applyTimeTableFromImport(entries) {
-    return this.request('/verifier/time-table/apply', {
+  async revertTimeTableHistory(id, force = false) {
+    return this.request(`/verifier/time-table/history/${id}/revert`, {
+      method: 'POST',
+      body: JSON.stringify({ force })
+    });
+  }
+
+  async checkTimeTableClashes(entries) {
+    return this.request('/verifier/time-table/check', {
       method: 'POST',
       body: JSON.stringify({ entries })
     });
   }
 
+  async applyTimeTableFromImport(entries, override = false, dryRun = false) {
+    return this.request('/verifier/time-table/apply', {
+      method: 'POST',
+      body: JSON.stringify({ entries, override, dryRun })
+    });
+  }
+
+  // Syllabus import: dryRun only checks the rows and returns the subjects that would be created
+  async importSyllabus(rows, dryRun = false) {
+    return this.request('/verifier/syllabus/import', {
+      method: 'POST',
+      body: JSON.stringify({ rows, dryRun })
+    });
+  }
+
+  // Syllabus templates
+  async getSyllabusTemplates() {
+    return this.request('/verifier/syllabus-templates', { cacheMaxAge: 0 });
+  }
+
+  async createSyllabusTemplate(subjectId, name = '') {
+    return this.request('/verifier/syllabus-templates', {
+      method: 'POST',
+      body: JSON.stringify({ subjectId, name })
+    });
+  }
+
+  async updateSyllabusTemplate(templateId, template) {
+    return this.request(`/verifier/syllabus-templates/${templateId}`, {
+      method: 'PUT',
+      body: JSON.stringify(template)
+    });
+  }
+
+  async deleteSyllabusTemplate(templateId) {
+    return this.request(`/verifier/syllabus-templates/${templateId}`, {
+      method: 'DELETE'
+    });
+  }
+
+  async instantiateSyllabusTemplate(templateId, batchId, teacherId = null) {
+    return this.request(`/verifier/syllabus-templates/${templateId}/instantiate`, {
+      method: 'POST',
+      body: JSON.stringify({ batchId, teacherId })
+    });
+  }
+
+  async getSyllabusTemplateMergePreview(templateId, subjectId) {
+    return this.request(`/verifier/syllabus-templates/${templateId}/merge-preview?subjectId=${subjectId}`, { cacheMaxAge: 0 });
+  }
+
+  async mergeSyllabusTemplate(templateId, subjectIds) {
+    return this.request(`/verifier/syllabus-templates/${templateId}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ subjectIds })
+    });
+  }
+
+  // Weekly timetable templates
+  async getWeeklyTimetables(batchId = null) {
+    const params = batchId ? `?batchId=${batchId}` : '';
+    return this.request(`/verifier/timetables${params}`, { cacheMaxAge: 0 });
+  }
+
+  async createWeeklyTimetable(timetable) {
+    return this.request('/verifier/timetables', {
+      method: 'POST',
+      body: JSON.stringify(timetable)
+    });
+  }
+
+  async updateWeeklyTimetable(timetableId, timetable) {
+    return this.request(`/verifier/timetables/${timetableId}`, {
+      method: 'PUT',
+      body: JSON.stringify(timetable)
+    });
+  }
+
+  async deleteWeeklyTimetable(timetableId) {
+    return this.request(`/verifier/timetables/${timetableId}`, {
+      method: 'DELETE'
+    });
+  }
+
   // Teacher calendar endpoint
   async getTeacherCalendar(startDate, endDate) {
     const start = startDate.toISOString().split('T')[0];
@@ -670,6 +886,49 @@ class ApiService {
     });
   }
 
+  // Timetable as an .ics file (request() only handles JSON, so fetch the blob directly)
+  async downloadTeacherCalendarIcs(startDate, endDate) {
+    const start = startDate.toISOString().split('T')[0];
+    const end = endDate.toISOString().split('T')[0];
+    const response = await fetch(`${FINAL_API_BASE_URL}/teacher/calendar.ics?startDate=${start}&endDate=${end}`, {
+      credentials: 'include'
+    });
+    if (!response.ok) {
+      let message = 'Failed to export calendar';
+      try {
+        message = (await response.json()).message || message;
+      } catch {
+        // non-JSON error body
+      }
+      throw new Error(message);
+    }
+    return response.blob();
+  }
+
+  // Subscribable calendar feed (secret token URL)
+  async getCalendarFeed() {
+    return this.request('/teacher/calendar-feed', { cacheMaxAge: 0 });
+  }
+
+  async createCalendarFeed() {
+    return this.request('/teacher/calendar-feed', {
+      method: 'POST'
+    });
+  }
+
+  async revokeCalendarFeed() {
+    return this.request('/teacher/calendar-feed', {
+      method: 'DELETE'
+    });
+  }
+
+  getCalendarFeedUrl(token) {
+    const base = FINAL_API_BASE_URL.startsWith('/')
+      ? `${window.location.origin}${FINAL_API_BASE_URL}`
+      : FINAL_API_BASE_URL;
+    return `${base}/calendar-feed/${token}.ics`;
+  }
+
   // Batch endpoints
   async getBatches() {
     return this.request('/batch', { cacheMaxAge: 0 });
@@ -702,6 +961,195 @@ class ApiService {
   async getBatchStudents(batchId) {
     return this.request(`/batch/${batchId}/students`);
   }
+
+  // Bell schedule endpoints
+  async getBellSchedules() {
+    return this.request('/bell-schedules', { cacheMaxAge: 0 });
+  }
+
+  async resolveBellSchedule(date = null, batchId = null) {
+    const params = new URLSearchParams();
+    if (date) params.set('date', date);
+    if (batchId) params.set('batchId', batchId);
+    const query = params.toString();
+    return this.request(`/bell-schedules/resolve${query ? `?${query}` : ''}`);
+  }
+
+  async createBellSchedule(schedule) {
+    return this.request('/bell-schedules', {
+      method: 'POST',
+      body: JSON.stringify(schedule),
+    });
+  }
+
+  async updateBellSchedule(scheduleId, schedule) {
+    return this.request(`/bell-schedules/${scheduleId}`, {
+      method: 'PUT',
+      body: JSON.stringify(schedule),
+    });
+  }
+
+  async deleteBellSchedule(scheduleId) {
+    return this.request(`/bell-schedules/${scheduleId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Academic calendar endpoints
+  async getAcademicCalendar(startDate = null, endDate = null) {
+    const params = new URLSearchParams();
+    if (startDate) params.set('startDate', startDate);
+    if (endDate) params.set('endDate', endDate);
+    const query = params.toString();
+    return this.request(`/academic-calendar${query ? `?${query}` : ''}`, { cacheMaxAge: 0 });
+  }
+
+  async createCalendarEvent(event) {
+    return this.request('/academic-calendar', {
+      method: 'POST',
+      body: JSON.stringify(event),
+    });
+  }
+
+  async updateCalendarEvent(eventId, event) {
+    return this.request(`/academic-calendar/${eventId}`, {
+      method: 'PUT',
+      body: JSON.stringify(event),
+    });
+  }
+
+  async deleteCalendarEvent(eventId) {
+    return this.request(`/academic-calendar/${eventId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Auto-approval rules (time-slot selections)
+  async getAutoApprovalRules() {
+    return this.request('/auto-approval-rules', { cacheMaxAge: 0 });
+  }
+
+  async createAutoApprovalRule(rule) {
+    return this.request('/auto-approval-rules', {
+      method: 'POST',
+      body: JSON.stringify(rule),
+    });
+  }
+
+  async updateAutoApprovalRule(ruleId, rule) {
+    return this.request(`/auto-approval-rules/${ruleId}`, {
+      method: 'PUT',
+      body: JSON.stringify(rule),
+    });
+  }
+
+  async deleteAutoApprovalRule(ruleId) {
+    return this.request(`/auto-approval-rules/${ruleId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Pay periods (closing one locks its days)
+  async getPayPeriods() {
+    return this.request('/pay-periods', { cacheMaxAge: 0 });
+  }
+
+  async createPayPeriod(period) {
+    return this.request('/pay-periods', {
+      method: 'POST',
+      body: JSON.stringify(period),
+    });
+  }
+
+  async updatePayPeriod(periodId, period) {
+    return this.request(`/pay-periods/${periodId}`, {
+      method: 'PUT',
+      body: JSON.stringify(period),
+    });
+  }
+
+  async deletePayPeriod(periodId) {
+    return this.request(`/pay-periods/${periodId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async closePayPeriod(periodId, reason = '') {
+    return this.request(`/pay-periods/${periodId}/close`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  async reopenPayPeriod(periodId, reason) {
+    return this.request(`/pay-periods/${periodId}/reopen`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  // Monthly timesheets (teacher confirms, verifier signs off)
+  async getTimesheets(filters = {}) {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.append(key, value);
+    });
+    const query = params.toString();
+    return this.request(`/timesheets${query ? `?${query}` : ''}`, { cacheMaxAge: 0 });
+  }
+
+  async generateTimesheet(month) {
+    return this.request('/timesheets/generate', {
+      method: 'POST',
+      body: JSON.stringify({ month }),
+    });
+  }
+
+  async confirmTimesheet(timesheetId) {
+    return this.request(`/timesheets/${timesheetId}/confirm`, {
+      method: 'POST',
+    });
+  }
+
+  async signOffTimesheet(timesheetId) {
+    return this.request(`/timesheets/${timesheetId}/sign-off`, {
+      method: 'POST',
+    });
+  }
+
+  async returnTimesheet(timesheetId, reason) {
+    return this.request(`/timesheets/${timesheetId}/return`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+  // Visiting-faculty invoices
+  async getPayables(payPeriodId) {
+    return this.request(`/invoices/payables?payPeriodId=${payPeriodId}`, { cacheMaxAge: 0 });
+  }
+
+  async getInvoices(filters = {}) {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.append(key, value);
+    });
+    const query = params.toString();
+    return this.request(`/invoices${query ? `?${query}` : ''}`, { cacheMaxAge: 0 });
+  }
+
+  async generateInvoices(payPeriodId, teacherIds = null) {
+    return this.request('/invoices/generate', {
+      method: 'POST',
+      body: JSON.stringify({ payPeriodId, ...(teacherIds ? { teacherIds } : {}) }),
+    });
+  }
+
+  async updateInvoiceStatus(invoiceId, status, details = {}) {
+    return this.request(`/invoices/${invoiceId}/status`, {
+      method: 'PUT',
+      body: JSON.stringify({ status, ...details }),
+    });
+  }
 }
 
 export default new ApiService();
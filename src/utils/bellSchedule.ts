@@ -0,0 +1,70 @@
+// Bell schedule helpers shared by the time table import and admin screens
+
+export interface BellPeriod {
+  slotId: string;
+  name?: string;
+  label: string;
+  startTime: string; // HH:MM
+  endTime: string;   // HH:MM
+  duration: number;  // in minutes
+}
+
+export interface BellSchedule {
+  _id: string;
+  name: string;
+  weekdays: number[];
+  batch?: { _id: string; name: string; year?: string } | null;
+  periods: BellPeriod[];
+  isActive: boolean;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Used when no bell schedule is configured (matches the backend fallback)
+export const DEFAULT_PERIODS: BellPeriod[] = Array.from({ length: 8 }, (_, i) => {
+  const h = 9 + i;
+  return {
+    slotId: `${h}-${h + 1}`,
+    label: `${h}:00 - ${h + 1}:00`,
+    startTime: `${String(h).padStart(2, '0')}:00`,
+    endTime: `${String(h + 1).padStart(2, '0')}:00`,
+    duration: 60
+  };
+});
+
+export const toMinutes = (value: string): number => {
+  const [h, m] = value.split(':').map(Number);
+  return h * 60 + (m || 0);
+};
+
+/** Same precedence as the backend: batch schedule first, then the college-wide default */
+export function resolvePeriods(schedules: BellSchedule[], date: string, batchName?: string): BellPeriod[] {
+  // Plain YYYY-MM-DD strings are read as local dates so the weekday is not shifted by UTC parsing
+  const d = new Date(/^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T00:00:00` : date);
+  if (isNaN(d.getTime())) return DEFAULT_PERIODS;
+  const day = d.getDay();
+  const candidates = schedules.filter(s => s.isActive && s.weekdays.includes(day));
+  const batchKey = (batchName || '').trim().toLowerCase();
+  const batchSchedule = batchKey
+    ? candidates.find(s => s.batch && (s.batch.name || '').trim().toLowerCase() === batchKey)
+    : undefined;
+  const schedule = batchSchedule || candidates.find(s => !s.batch);
+  return schedule ? schedule.periods : DEFAULT_PERIODS;
+}
+
+/** Convert a time range like "9.30 - 4.30" (9:30 AM–4:30 PM) to the ids of the periods it overlaps */
+export function timeRangeToSlotIds(value: string, periods: BellPeriod[]): string[] {
+  if (!value || typeof value !== 'string') return [];
+  const match = value.trim().match(/(\d{1,2})[.:]?\s*(\d{0,2})\s*[-–—]\s*(\d{1,2})[.:]?\s*(\d{0,2})/i);
+  if (!match) return [];
+  const startH = parseInt(match[1], 10);
+  const startM = parseInt(match[2] || '0', 10);
+  let endH = parseInt(match[3], 10);
+  const endM = parseInt(match[4] || '0', 10);
+  if (endH < 12 && endH <= startH) endH += 12;
+  const start = startH * 60 + startM;
+  const end = endH * 60 + endM;
+  return periods
+    .filter(p => toMinutes(p.startTime) < end && toMinutes(p.endTime) > start)
+    .map(p => p.slotId);
+}
@@ -0,0 +1,84 @@
+// PDF statements and XLSX register for visiting-faculty invoices
+import * as XLSX from 'xlsx';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+
+export type InvoiceStatus = 'issued' | 'approved' | 'paid' | 'cancelled';
+
+export interface Invoice {
+  _id: string;
+  number: string;
+  teacher: { _id: string; name: string; email: string };
+  payPeriod: { _id: string; name: string; startDate: string; endDate: string; status: string } | null;
+  periodStart: string;
+  periodEnd: string;
+  lines: { date: string; slots: number; hours: number }[];
+  hours: number;
+  hourlyRate: number;
+  amount: number;
+  status: InvoiceStatus;
+  paidAt: string | null;
+  paymentReference: string;
+  statusHistory: { status: InvoiceStatus; by?: { _id: string; name: string } | null; at: string; note?: string }[];
+  createdAt: string;
+}
+
+export const formatAmount = (value: number) =>
+  (value || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '');
+
+export const downloadInvoicePdf = (invoice: Invoice) => {
+  const doc = new jsPDF();
+
+  doc.setFontSize(18);
+  doc.text(`Invoice ${invoice.number}`, 14, 20);
+  doc.setFontSize(10);
+  doc.text(`Teacher: ${invoice.teacher?.name || ''} (${invoice.teacher?.email || ''})`, 14, 28);
+  doc.text(
+    `Period: ${invoice.payPeriod?.name ? `${invoice.payPeriod.name}, ` : ''}${formatDate(invoice.periodStart)} - ${formatDate(invoice.periodEnd)}`,
+    14,
+    34
+  );
+  doc.text(`Issued: ${formatDate(invoice.createdAt)}    Status: ${invoice.status}${invoice.paidAt ? ` (${formatDate(invoice.paidAt)})` : ''}`, 14, 40);
+
+  autoTable(doc, {
+    head: [['Date', 'Approved slots', 'Hours', 'Rate', 'Amount']],
+    body: invoice.lines.map(line => [
+      formatDate(line.date),
+      String(line.slots),
+      line.hours.toFixed(2),
+      formatAmount(invoice.hourlyRate),
+      formatAmount(line.hours * invoice.hourlyRate)
+    ]),
+    foot: [['Total', '', invoice.hours.toFixed(2), '', formatAmount(invoice.amount)]],
+    startY: 46,
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [66, 133, 244] },
+    footStyles: { fillColor: [230, 236, 245], textColor: 20 }
+  });
+
+  doc.save(`${invoice.number}.pdf`);
+};
+
+export const downloadInvoicesXlsx = (invoices: Invoice[], name = 'invoices') => {
+  const rows = invoices.map(invoice => ({
+    Number: invoice.number,
+    Teacher: invoice.teacher?.name || '',
+    Email: invoice.teacher?.email || '',
+    Period: invoice.payPeriod?.name || '',
+    From: formatDate(invoice.periodStart),
+    To: formatDate(invoice.periodEnd),
+    Hours: invoice.hours,
+    Rate: invoice.hourlyRate,
+    Amount: invoice.amount,
+    Status: invoice.status,
+    'Paid on': formatDate(invoice.paidAt),
+    'Payment reference': invoice.paymentReference || ''
+  }));
+
+  const ws = XLSX.utils.json_to_sheet(rows);
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, 'Invoices');
+  XLSX.writeFile(wb, `${name.replace(/\s+/g, '_').toLowerCase()}.xlsx`);
+};
@@ -0,0 +1,55 @@
+// Count-based vs weighted progress, shared by the progress views
+
+export type ProgressWeighting = 'count' | 'hours' | 'marks';
+
+export const PROGRESS_WEIGHTING_LABELS: Record<ProgressWeighting, string> = {
+  count: 'Units',
+  hours: 'Planned hours',
+  marks: 'Exam marks'
+};
+
+// Per-weighting totals from the API: planned hours / exam marks summed over the units in each counter
+export type ProgressWeights = Record<'hours' | 'marks', Record<string, number>>;
+
+// Completion over a teacher's or batch's whole assigned syllabus (admin dashboard), started or not
+export interface AssignedProgress {
+  total: number;
+  completed: number;
+  weights: ProgressWeights;
+}
+
+export interface TeacherAssignedProgress extends AssignedProgress {
+  teacherId: string;
+  teacherName: string;
+}
+
+export interface BatchAssignedProgress extends AssignedProgress {
+  batchId: string | null;
+  batch: string;
+}
+
+interface ProgressCounts {
+  total: number;
+  weights?: ProgressWeights;
+  [counter: string]: any;
+}
+
+/**
+ * The numbers a progress bar should use for a weighting: the unit counts, or the weighted sums.
+ * Falls back to counts (weighted: false) when no unit has a weight of that kind.
+ */
+export const getProgressValues = (row: ProgressCounts, weighting: ProgressWeighting) => {
+  const weights = weighting === 'count' ? null : row.weights?.[weighting];
+  if (!weights || !weights.total) {
+    return { values: row as Record<string, number>, weighted: false };
+  }
+  return { values: weights, weighted: true };
+};
+
+/**
+ * Share (0-100) of a counter, e.g. getProgressPercent(row, 'hours', 'completed')
+ */
+export const getProgressPercent = (row: ProgressCounts, weighting: ProgressWeighting, counter = 'completed') => {
+  const { values } = getProgressValues(row, weighting);
+  return values.total > 0 ? ((values[counter] || 0) / values.total) * 100 : 0;
+};
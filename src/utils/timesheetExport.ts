@@ -0,0 +1,109 @@
+// PDF / XLSX export of a signed-off monthly timesheet
+import * as XLSX from 'xlsx';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+
+export interface TimesheetDay {
+  date: string;
+  slots: { slotId: string; label: string; duration: number }[];
+  breakMinutes: number;
+  totalHours: number;
+  leave: string | null;
+}
+
+export interface Timesheet {
+  _id: string;
+  teacher: { _id: string; name: string; email: string };
+  month: string; // YYYY-MM
+  status: 'draft' | 'confirmed' | 'signed-off';
+  days: TimesheetDay[];
+  totalHours: number;
+  totalSlots: number;
+  generatedAt: string | null;
+  confirmedAt: string | null;
+  signedOffAt: string | null;
+  signedOffBy: { _id: string; name: string; email: string } | null;
+  returnReason: string | null;
+}
+
+export const formatTimesheetMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+};
+
+const fileName = (sheet: Timesheet, ext: string) =>
+  `timesheet_${(sheet.teacher?.name || 'teacher').replace(/\s+/g, '_').toLowerCase()}_${sheet.month}.${ext}`;
+
+const dayRow = (day: TimesheetDay) => [
+  new Date(day.date).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' }),
+  day.slots.map(s => s.label || s.slotId).join(', ') || '-',
+  day.breakMinutes ? `${day.breakMinutes} min` : '-',
+  day.leave ? (day.leave === 'full' ? 'Leave' : 'Half-day leave') : '-',
+  (day.totalHours || 0).toFixed(2)
+];
+
+// Random owner password so the signed-off PDF opens freely but cannot be edited
+const randomPassword = () => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const downloadTimesheetPdf = (sheet: Timesheet) => {
+  const doc = new jsPDF({
+    encryption: {
+      ownerPassword: randomPassword(),
+      userPermissions: ['print']
+    }
+  });
+
+  doc.setFontSize(18);
+  doc.text(`Timesheet - ${formatTimesheetMonth(sheet.month)}`, 14, 20);
+  doc.setFontSize(10);
+  doc.text(`Teacher: ${sheet.teacher?.name || ''} (${sheet.teacher?.email || ''})`, 14, 28);
+  doc.text(
+    `Confirmed by teacher: ${sheet.confirmedAt ? new Date(sheet.confirmedAt).toLocaleString() : '-'}`,
+    14,
+    34
+  );
+  doc.text(
+    `Signed off: ${sheet.signedOffAt ? new Date(sheet.signedOffAt).toLocaleString() : '-'}${sheet.signedOffBy ? ` by ${sheet.signedOffBy.name}` : ''}`,
+    14,
+    40
+  );
+
+  autoTable(doc, {
+    head: [['Date', 'Approved slots', 'Break', 'Leave', 'Hours']],
+    body: sheet.days.map(dayRow),
+    foot: [['Total', `${sheet.totalSlots} slots`, '', '', (sheet.totalHours || 0).toFixed(2)]],
+    startY: 46,
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [66, 133, 244] },
+    footStyles: { fillColor: [230, 236, 245], textColor: 20 }
+  });
+
+  doc.save(fileName(sheet, 'pdf'));
+};
+
+export const downloadTimesheetXlsx = (sheet: Timesheet) => {
+  const rows = sheet.days.map(day => {
+    const [date, slots, breakTime, leave, hours] = dayRow(day);
+    return { Date: date, 'Approved slots': slots, Break: breakTime, Leave: leave, Hours: Number(hours) };
+  });
+  rows.push({ Date: 'Total', 'Approved slots': `${sheet.totalSlots} slots`, Break: '', Leave: '', Hours: sheet.totalHours });
+
+  const ws = XLSX.utils.json_to_sheet(rows);
+  const info = XLSX.utils.aoa_to_sheet([
+    ['Teacher', sheet.teacher?.name || ''],
+    ['Email', sheet.teacher?.email || ''],
+    ['Month', formatTimesheetMonth(sheet.month)],
+    ['Status', sheet.status],
+    ['Confirmed at', sheet.confirmedAt ? new Date(sheet.confirmedAt).toLocaleString() : ''],
+    ['Signed off at', sheet.signedOffAt ? new Date(sheet.signedOffAt).toLocaleString() : ''],
+    ['Signed off by', sheet.signedOffBy?.name || '']
+  ]);
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, 'Timesheet');
+  XLSX.utils.book_append_sheet(wb, info, 'Sign-off');
+  XLSX.writeFile(wb, fileName(sheet, 'xlsx'));
+};